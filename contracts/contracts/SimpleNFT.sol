@@ -8,13 +8,35 @@ pragma solidity ^0.8.20;
  * Features:
  * - ERC721 compliant NFT implementation
  * - Customizable collection name and symbol
- * - Metadata URI management with freezing capability
+ * - Metadata URI management with collection-wide and per-token freezing
  * - Sequential token ID minting
+ * - Fixed maximum supply set at deployment
+ * - Paid public minting with owner withdrawal
+ * - Owner-configurable per-wallet mint limit
+ * - Scheduled public sale window with start and end timestamps
+ * - Merkle-proof allowlist minting for presales
+ * - EIP712 signed mint vouchers for lazy minting
+ * - ERC2981 royalties with per-token overrides
+ * - Per-token metadata URI overrides
+ * - Hidden metadata until reveal, with a provenance hash committed at deployment
+ * - Pluggable renderer contract for fully on-chain metadata
+ * - Batch minting and owner airdrops
+ * - Owner-controlled mint mode (closed, owner-only or public)
+ * - Holder burning with separate minted and burned accounting
+ * - Optional soulbound mode with non-transferable tokens (ERC5192)
+ * - Rentable tokens with an expiring user role (ERC4907)
+ * - Owner-controlled pause that halts minting, transfers and burns
+ * - Minter and metadata manager roles with enumerable members
+ * - Initializable so it can be deployed as a minimal proxy clone
+ * - Owner token lookup without enumeration storage
  * - Batch metadata update notifications (ERC4906)
  * - Owner-controlled base URI updates
+ * - Collection-level metadata URI (ERC7572)
  * 
  * Security Features:
  * - Access control for administrative functions
+ * - Two-step ownership transfers that the new owner must accept
+ * - Role-based access so minting and metadata can be delegated
  * - Metadata freezing to ensure immutability
  * - Safe math operations
  * - Reentrancy protection
@@ -25,76 +47,965 @@ pragma solidity ^0.8.20;
  */
 
 import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
-import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/token/ERC721/extensions/ERC721Burnable.sol";
+import "@openzeppelin/contracts/token/ERC721/extensions/ERC721Pausable.sol";
+import "@openzeppelin/contracts/token/common/ERC2981.sol";
+import "@openzeppelin/contracts/access/Ownable2Step.sol";
+import "@openzeppelin/contracts/access/extensions/AccessControlEnumerable.sol";
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
 import "@openzeppelin/contracts/utils/Strings.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
 import "@openzeppelin/contracts/interfaces/IERC4906.sol";
 import "@openzeppelin/contracts/utils/introspection/IERC165.sol";
+import "./interfaces/IERC4907.sol";
+import "./interfaces/IERC5192.sol";
+import "./interfaces/ITokenURIRenderer.sol";
 
-contract SimpleNFT is ERC721, Ownable, IERC4906 {
+contract SimpleNFT is
+    ERC721,
+    ERC721Burnable,
+    ERC721Pausable,
+    ERC2981,
+    Ownable2Step,
+    AccessControlEnumerable,
+    EIP712,
+    Initializable,
+    IERC4906,
+    IERC4907,
+    IERC5192
+{
     using Strings for uint256;
     
+    // Role allowed to airdrop and to mint while the mint mode is owner-only
+    bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");
+    
+    // Role allowed to update token URIs and freeze metadata
+    bytes32 public constant METADATA_ROLE = keccak256("METADATA_ROLE");
+    
+    // Role allowed to sign mint vouchers in addition to the owner
+    bytes32 public constant VOUCHER_SIGNER_ROLE = keccak256("VOUCHER_SIGNER_ROLE");
+    
+    // Who is allowed to call the public mint functions
+    // OwnerOnly restricts minting to accounts with the MINTER_ROLE
+    enum MintMode {
+        Closed,
+        OwnerOnly,
+        Public
+    }
+    
+    // Off-chain mint authorization signed by the owner or a voucher signer
+    struct MintVoucher {
+        address recipient;
+        string uri;
+        uint256 price;
+        uint256 expiry;
+        uint256 nonce;
+    }
+    
+    // Current renter of a token and when the rental ends
+    struct UserInfo {
+        address user;
+        uint64 expires;
+    }
+    
+    // EIP712 type hash of MintVoucher
+    bytes32 private constant MINT_VOUCHER_TYPEHASH =
+        keccak256("MintVoucher(address recipient,string uri,uint256 price,uint256 expiry,uint256 nonce)");
+    
     // Counter for token IDs, starting from 1
-    uint256 private _nextTokenId = 1;
+    uint256 private _nextTokenId;
+    
+    // Collection name and symbol, stored here so clones can set them on initialization
+    string private _collectionName;
+    string private _collectionSymbol;
+    
+    // Number of tokens that have been burned
+    uint256 private _burnedCount;
     
     // Base URI for token metadata
     string private _baseTokenURI;
     
+    // URI of the collection-level metadata read by marketplaces
+    string private _contractURI;
+    
+    // Optional per-token metadata URIs that take precedence over the base URI
+    mapping(uint256 => string) private _tokenURIs;
+    
     // Flag to indicate if metadata is frozen
     bool private _metadataFrozen;
     
+    // Tokens whose metadata URI was frozen individually
+    mapping(uint256 => bool) private _frozenTokens;
+    
+    // Renderer a frozen token stays on when it was rendered on-chain at freeze time
+    mapping(uint256 => address) private _frozenRenderers;
+    
+    // Placeholder metadata URI returned for every token until reveal
+    string private _notRevealedURI;
+    
+    // Flag to indicate if `reveal` has been called
+    bool private _revealed;
+    
+    // Hash committing to the final token ordering, set at deployment
+    bytes32 public provenanceHash;
+    
+    // Contract rendering token URIs on-chain, zero to use the base URI
+    address public renderer;
+    
+    // Whether tokens are locked to their first owner, set at deployment
+    bool public soulbound;
+    
+    // Renter of each lent token, cleared when the token changes hands
+    mapping(uint256 => UserInfo) private _users;
+    
+    // Maximum number of tokens that can ever be minted
+    uint256 public maxSupply;
+    
+    // Price in native currency to mint a single token
+    uint256 public mintPrice;
+    
+    // Maximum number of tokens a wallet can mint itself, zero for no limit
+    uint256 public maxPerWallet;
+    
+    // Number of tokens each wallet has minted through the limited mint functions
+    mapping(address => uint256) public walletMints;
+    
+    // Current mint mode, public by default
+    MintMode public mintMode;
+    
+    // Timestamp when `mint` and `mintBatch` open, zero for no start time
+    uint256 public saleStart;
+    
+    // Timestamp after which `mint` and `mintBatch` close, zero for no end time
+    uint256 public saleEnd;
+    
+    // Merkle root of the allowlisted addresses, zero when no allowlist is set
+    bytes32 public merkleRoot;
+    
+    // Tracks which allowlisted addresses have already minted
+    mapping(address => bool) public allowlistClaimed;
+    
+    // Tracks which voucher nonces have already been redeemed
+    mapping(uint256 => bool) public voucherRedeemed;
+    
+    // Reserved so SimpleNFTUpgradeable versions keep their storage when state is added here
+    // New state variables go above this gap, which shrinks by the slots they use
+    uint256[50] private __gap;
+    
     // Event for permanent/frozen metadata
     event PermanentURI(string _value, uint256 indexed _id);
     
+    // Event emitted when the collection is revealed
+    event Revealed(string baseURI);
+    
+    // Event emitted when the collection-level metadata URI changes (ERC7572)
+    event ContractURIUpdated();
+    
+    // Event emitted when the token URI renderer changes
+    event RendererUpdated(address indexed renderer);
+    
+    // Event emitted when the mint price changes
+    event MintPriceUpdated(uint256 oldPrice, uint256 newPrice);
+    
+    // Event emitted when the per-wallet mint limit changes
+    event MaxPerWalletUpdated(uint256 maxPerWallet);
+    
+    // Event emitted when collected mint proceeds are withdrawn
+    event Withdrawn(address indexed to, uint256 amount);
+    
+    // Event emitted when the mint mode changes
+    event MintModeUpdated(MintMode mode);
+    
+    // Event emitted when the sale window changes
+    event SaleWindowUpdated(uint256 saleStart, uint256 saleEnd);
+    
+    // Event emitted when the allowlist Merkle root changes
+    event MerkleRootUpdated(bytes32 merkleRoot);
+    
+    // Event emitted when a mint voucher is redeemed
+    event VoucherRedeemed(uint256 indexed nonce, uint256 indexed tokenId, address indexed recipient);
+    
+    // Event emitted when the collection-wide royalty changes
+    event DefaultRoyaltyUpdated(address indexed receiver, uint96 feeNumerator);
+    
+    // Event emitted when a token's royalty override changes
+    event TokenRoyaltyUpdated(uint256 indexed tokenId, address indexed receiver, uint96 feeNumerator);
+    
+    // Error thrown when deploying with a zero max supply
+    error InvalidMaxSupply();
+    
+    // Error thrown when minting past the max supply
+    error MaxSupplyReached(uint256 maxSupply);
+    
+    // Error thrown when the value sent does not match the mint price
+    error IncorrectPayment(uint256 required, uint256 provided);
+    
+    // Error thrown when a mint would take a wallet past the per-wallet limit
+    error MaxPerWalletExceeded(address account, uint256 maxPerWallet);
+    
+    // Error thrown when withdrawing to the zero address
+    error InvalidWithdrawalRecipient();
+    
+    // Error thrown when sending the withdrawn balance fails
+    error WithdrawalFailed();
+    
+    // Error thrown when minting from the allowlist before a root is set
+    error AllowlistNotActive();
+    
+    // Error thrown when an allowlisted address tries to mint twice
+    error AllowlistAlreadyClaimed(address account);
+    
+    // Error thrown when the Merkle proof does not match the root
+    error InvalidMerkleProof();
+    
+    // Error thrown when redeeming a voucher after its expiry
+    error VoucherExpired(uint256 expiry);
+    
+    // Error thrown when a voucher nonce has already been redeemed
+    error VoucherAlreadyRedeemed(uint256 nonce);
+    
+    // Error thrown when a voucher is not signed by the owner or an account with the VOUCHER_SIGNER_ROLE
+    error InvalidVoucherSignature(address signer);
+    
+    // Error thrown when changing reveal settings after the collection is revealed
+    error AlreadyRevealed();
+    
+    // Error thrown when transferring a token of a soulbound collection
+    error TokenIsSoulbound(uint256 tokenId);
+    
+    // Error thrown when changing the metadata URI of a frozen token
+    error TokenMetadataFrozen(uint256 tokenId);
+    
+    // Error thrown when freezing a token before the collection is revealed
+    error CollectionNotRevealed();
+    
+    // Error thrown when freezing a token that has no metadata URI
+    error TokenURINotSet(uint256 tokenId);
+    
+    // Error thrown when announcing permanent URIs before the metadata is frozen
+    error MetadataNotFrozen();
+    
+    // Error thrown when a token range starts at zero or ends before it starts
+    error InvalidTokenRange(uint256 fromId, uint256 toId);
+    
+    // Error thrown when the mint mode does not allow the caller to mint
+    error MintNotAllowed(MintMode mode);
+    
+    // Error thrown when minting before the sale window opens
+    error SaleNotStarted(uint256 saleStart);
+    
+    // Error thrown when minting after the sale window has closed
+    error SaleEnded(uint256 saleEnd);
+    
+    // Error thrown when the sale window ends before it starts
+    error InvalidSaleWindow(uint256 saleStart, uint256 saleEnd);
+    
+    // Error thrown when minting zero tokens
+    error InvalidQuantity();
+    
+    // Error thrown when airdrop recipients and quantities differ in length
+    error AirdropLengthMismatch(uint256 recipients, uint256 quantities);
+    
+    /**
+     * @dev Reverts if the metadata has been frozen
+     */
+    modifier whenMetadataNotFrozen() {
+        require(!_metadataFrozen, "Metadata is frozen");
+        _;
+    }
+    
     /**
      * @dev Constructor initializes the NFT collection with a name and symbol
-     * @param name The name of the NFT collection
-     * @param symbol The symbol of the NFT collection
+     * The initial owner is granted the admin, minter and metadata roles
+     * A zero `royaltyFeeNumerator` deploys the collection without a default royalty
+     * Disables `initialize`, so a directly deployed contract can also serve as a clone implementation
+     * @param name_ The name of the NFT collection
+     * @param symbol_ The symbol of the NFT collection
      * @param initialOwner The address that will own the contract
+     * @param maxSupply_ The maximum number of tokens that can be minted
+     * @param royaltyReceiver The address receiving secondary sale royalties
+     * @param royaltyFeeNumerator The royalty in basis points
+     * @param provenanceHash_ Hash of the final token ordering, zero if not used
+     * @param soulbound_ Whether tokens are non-transferable after mint
      */
     constructor(
-        string memory name,
-        string memory symbol,
-        address initialOwner
-    ) ERC721(name, symbol) Ownable(initialOwner) {}
+        string memory name_,
+        string memory symbol_,
+        address initialOwner,
+        uint256 maxSupply_,
+        address royaltyReceiver,
+        uint96 royaltyFeeNumerator,
+        bytes32 provenanceHash_,
+        bool soulbound_
+    ) ERC721("", "") Ownable(initialOwner) EIP712("SimpleNFT", "1") {
+        _initializeCollection(
+            name_,
+            symbol_,
+            initialOwner,
+            maxSupply_,
+            royaltyReceiver,
+            royaltyFeeNumerator,
+            provenanceHash_,
+            soulbound_
+        );
+        _disableInitializers();
+    }
+    
+    /**
+     * @dev Initializes a minimal proxy clone of this contract
+     * Takes the same arguments as the constructor and can only be called once
+     * @param name_ The name of the NFT collection
+     * @param symbol_ The symbol of the NFT collection
+     * @param initialOwner The address that will own the contract
+     * @param maxSupply_ The maximum number of tokens that can be minted
+     * @param royaltyReceiver The address receiving secondary sale royalties
+     * @param royaltyFeeNumerator The royalty in basis points
+     * @param provenanceHash_ Hash of the final token ordering, zero if not used
+     * @param soulbound_ Whether tokens are non-transferable after mint
+     */
+    function initialize(
+        string calldata name_,
+        string calldata symbol_,
+        address initialOwner,
+        uint256 maxSupply_,
+        address royaltyReceiver,
+        uint96 royaltyFeeNumerator,
+        bytes32 provenanceHash_,
+        bool soulbound_
+    ) external initializer {
+        if (initialOwner == address(0)) revert OwnableInvalidOwner(address(0));
+        _transferOwnership(initialOwner);
+        _initializeCollection(
+            name_,
+            symbol_,
+            initialOwner,
+            maxSupply_,
+            royaltyReceiver,
+            royaltyFeeNumerator,
+            provenanceHash_,
+            soulbound_
+        );
+    }
+    
+    /**
+     * @dev Sets up the collection state shared by the constructor and `initialize`
+     */
+    function _initializeCollection(
+        string memory name_,
+        string memory symbol_,
+        address initialOwner,
+        uint256 maxSupply_,
+        address royaltyReceiver,
+        uint96 royaltyFeeNumerator,
+        bytes32 provenanceHash_,
+        bool soulbound_
+    ) private {
+        if (maxSupply_ == 0) revert InvalidMaxSupply();
+        _collectionName = name_;
+        _collectionSymbol = symbol_;
+        maxSupply = maxSupply_;
+        provenanceHash = provenanceHash_;
+        soulbound = soulbound_;
+        _nextTokenId = 1;
+        mintMode = MintMode.Public;
+        
+        _grantRole(DEFAULT_ADMIN_ROLE, initialOwner);
+        _grantRole(MINTER_ROLE, initialOwner);
+        _grantRole(METADATA_ROLE, initialOwner);
+        
+        if (royaltyFeeNumerator > 0) {
+            _setDefaultRoyalty(royaltyReceiver, royaltyFeeNumerator);
+            emit DefaultRoyaltyUpdated(royaltyReceiver, royaltyFeeNumerator);
+        }
+    }
+    
+    /**
+     * @dev Moves the owner's roles along with ownership
+     * The previous owner loses the admin, minter and metadata roles and the new
+     * owner receives them. Renouncing ownership revokes them without a successor
+     * @param newOwner The address becoming the owner, or zero when renouncing
+     */
+    function _transferOwnership(address newOwner) internal virtual override {
+        address previousOwner = owner();
+        super._transferOwnership(newOwner);
+        if (previousOwner == address(0) || previousOwner == newOwner) return;
+        
+        bytes32[3] memory ownerRoles = [DEFAULT_ADMIN_ROLE, MINTER_ROLE, METADATA_ROLE];
+        for (uint256 i = 0; i < ownerRoles.length; i++) {
+            _revokeRole(ownerRoles[i], previousOwner);
+            if (newOwner != address(0)) {
+                _grantRole(ownerRoles[i], newOwner);
+            }
+        }
+    }
+    
+    /**
+     * @dev Returns the collection name
+     * @return string The name set on deployment or initialization
+     */
+    function name() public view virtual override returns (string memory) {
+        return _collectionName;
+    }
+    
+    /**
+     * @dev Returns the collection symbol
+     * @return string The symbol set on deployment or initialization
+     */
+    function symbol() public view virtual override returns (string memory) {
+        return _collectionSymbol;
+    }
+    
+    /**
+     * @dev Reverts unless the current mint mode allows the caller to mint
+     * and the sale window is open
+     */
+    modifier whenMintAllowed() {
+        if (
+            mintMode == MintMode.Closed ||
+            (mintMode == MintMode.OwnerOnly && !hasRole(MINTER_ROLE, msg.sender))
+        ) {
+            revert MintNotAllowed(mintMode);
+        }
+        if (block.timestamp < saleStart) revert SaleNotStarted(saleStart);
+        if (saleEnd != 0 && block.timestamp > saleEnd) revert SaleEnded(saleEnd);
+        _;
+    }
     
     /**
      * @dev Mints a new NFT
+     * Requires exactly `mintPrice` to be sent with the call
+     * Counts towards the caller's per-wallet limit
+     * Reverts once the max supply has been reached
+     * @return The ID of the newly minted NFT
+     */
+    function mint() public payable whenMintAllowed returns (uint256) {
+        return _mintPaid(msg.sender);
+    }
+    
+    /**
+     * @dev Mints `quantity` sequential NFTs to the caller
+     * Requires exactly `mintPrice * quantity` to be sent with the call
+     * Counts towards the caller's per-wallet limit
+     * Emits a single BatchMetadataUpdate covering the new range
+     * @param quantity The number of tokens to mint
+     * @return firstTokenId The ID of the first newly minted NFT
+     */
+    function mintBatch(uint256 quantity) public payable whenMintAllowed returns (uint256 firstTokenId) {
+        if (quantity == 0) revert InvalidQuantity();
+        uint256 price = mintPrice * quantity;
+        if (msg.value != price) revert IncorrectPayment(price, msg.value);
+        _recordWalletMints(msg.sender, quantity);
+        
+        firstTokenId = _mintSequential(msg.sender, quantity);
+        emit BatchMetadataUpdate(firstTokenId, firstTokenId + quantity - 1);
+    }
+    
+    /**
+     * @dev Mints tokens for free to a list of recipients
+     * Can only be called by an account with the MINTER_ROLE
+     * Does not count towards the recipients' per-wallet limits
+     * Emits a single BatchMetadataUpdate covering every airdropped token
+     * @param recipients The addresses receiving tokens
+     * @param quantities The number of tokens for each recipient
+     */
+    function airdrop(
+        address[] calldata recipients,
+        uint256[] calldata quantities
+    ) public onlyRole(MINTER_ROLE) {
+        if (recipients.length != quantities.length) {
+            revert AirdropLengthMismatch(recipients.length, quantities.length);
+        }
+        if (recipients.length == 0) revert InvalidQuantity();
+        
+        uint256 firstTokenId = _nextTokenId;
+        for (uint256 i = 0; i < recipients.length; i++) {
+            if (quantities[i] == 0) revert InvalidQuantity();
+            _mintSequential(recipients[i], quantities[i]);
+        }
+        emit BatchMetadataUpdate(firstTokenId, _nextTokenId - 1);
+    }
+    
+    /**
+     * @dev Mints a new NFT for an allowlisted caller
+     * Each allowlisted address can mint once and must pay `mintPrice`
+     * Counts towards the caller's per-wallet limit
+     * Works in every mint mode so presales can run while public minting is closed
+     * @param proof Merkle proof that the caller is part of the allowlist
      * @return The ID of the newly minted NFT
      */
-    function mint() public returns (uint256) {
-        uint256 tokenId = _nextTokenId++;
-        _safeMint(msg.sender, tokenId);
+    function allowlistMint(bytes32[] calldata proof) public payable returns (uint256) {
+        if (merkleRoot == bytes32(0)) revert AllowlistNotActive();
+        if (allowlistClaimed[msg.sender]) revert AllowlistAlreadyClaimed(msg.sender);
+        
+        // Leaves follow the OpenZeppelin StandardMerkleTree encoding
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(msg.sender))));
+        if (!MerkleProof.verifyCalldata(proof, merkleRoot, leaf)) revert InvalidMerkleProof();
+        
+        allowlistClaimed[msg.sender] = true;
+        return _mintPaid(msg.sender);
+    }
+    
+    /**
+     * @dev Sets the Merkle root of the allowlist
+     * Can only be called by the contract owner
+     * Setting the root to zero disables allowlist minting
+     * @param root The new Merkle root
+     */
+    function setMerkleRoot(bytes32 root) public onlyOwner {
+        merkleRoot = root;
+        emit MerkleRootUpdated(root);
+    }
+    
+    /**
+     * @dev Mints a token described by a voucher signed by the owner or an account
+     * with the VOUCHER_SIGNER_ROLE
+     * Anyone can submit the voucher, but the token always goes to `voucher.recipient`
+     * Requires exactly `voucher.price` to be sent with the call
+     * Works in every mint mode since the signer already authorized the mint
+     * Does not count towards the recipient's per-wallet limit
+     * @param voucher The signed mint authorization
+     * @param signature The EIP712 signature over `voucher`
+     * @return tokenId The ID of the newly minted NFT
+     */
+    function redeem(MintVoucher calldata voucher, bytes calldata signature) public payable returns (uint256 tokenId) {
+        if (block.timestamp > voucher.expiry) revert VoucherExpired(voucher.expiry);
+        if (voucherRedeemed[voucher.nonce]) revert VoucherAlreadyRedeemed(voucher.nonce);
+        if (msg.value != voucher.price) revert IncorrectPayment(voucher.price, msg.value);
+        
+        address signer = ECDSA.recover(_hashVoucher(voucher), signature);
+        if (signer != owner() && !hasRole(VOUCHER_SIGNER_ROLE, signer)) {
+            revert InvalidVoucherSignature(signer);
+        }
+        
+        voucherRedeemed[voucher.nonce] = true;
+        tokenId = _mintSequential(voucher.recipient, 1);
+        if (bytes(voucher.uri).length > 0) {
+            require(!_metadataFrozen, "Metadata is frozen");
+            _tokenURIs[tokenId] = voucher.uri;
+        }
+        
+        emit MetadataUpdate(tokenId);
+        emit VoucherRedeemed(voucher.nonce, tokenId, voucher.recipient);
+    }
+    
+    /**
+     * @dev Pauses minting, transfers and burns
+     * Can only be called by the contract owner
+     * Emits a Paused event
+     */
+    function pause() public onlyOwner {
+        _pause();
+    }
+    
+    /**
+     * @dev Resumes minting, transfers and burns
+     * Can only be called by the contract owner
+     * Emits an Unpaused event
+     */
+    function unpause() public onlyOwner {
+        _unpause();
+    }
+    
+    /**
+     * @dev Returns the EIP712 digest a signer must sign for `voucher`
+     * @param voucher The mint voucher
+     * @return bytes32 The typed data digest
+     */
+    function _hashVoucher(MintVoucher calldata voucher) internal view returns (bytes32) {
+        return _hashTypedDataV4(keccak256(abi.encode(
+            MINT_VOUCHER_TYPEHASH,
+            voucher.recipient,
+            keccak256(bytes(voucher.uri)),
+            voucher.price,
+            voucher.expiry,
+            voucher.nonce
+        )));
+    }
+    
+    /**
+     * @dev Checks the payment and supply cap, then mints the next token to `to`
+     * @param to The address receiving the token
+     * @return The ID of the newly minted NFT
+     */
+    function _mintPaid(address to) internal returns (uint256) {
+        if (msg.value != mintPrice) revert IncorrectPayment(mintPrice, msg.value);
+        _recordWalletMints(to, 1);
+        uint256 tokenId = _mintSequential(to, 1);
         emit MetadataUpdate(tokenId);
         return tokenId;
     }
     
+    /**
+     * @dev Adds `quantity` to the wallet's mint count, enforcing `maxPerWallet`
+     * @param account The wallet minting the tokens
+     * @param quantity The number of tokens being minted
+     */
+    function _recordWalletMints(address account, uint256 quantity) internal {
+        uint256 minted = walletMints[account] + quantity;
+        if (maxPerWallet != 0 && minted > maxPerWallet) {
+            revert MaxPerWalletExceeded(account, maxPerWallet);
+        }
+        walletMints[account] = minted;
+    }
+    
+    /**
+     * @dev Mints `quantity` sequential tokens to `to` within the max supply
+     * Token IDs are reserved before minting so receiver callbacks cannot reuse them
+     * @param to The address receiving the tokens
+     * @param quantity The number of tokens to mint
+     * @return firstTokenId The ID of the first minted token
+     */
+    function _mintSequential(address to, uint256 quantity) internal returns (uint256 firstTokenId) {
+        firstTokenId = _nextTokenId;
+        if (firstTokenId + quantity - 1 > maxSupply) revert MaxSupplyReached(maxSupply);
+        _nextTokenId = firstTokenId + quantity;
+        
+        _mintRange(to, firstTokenId, quantity);
+    }
+    
+    /**
+     * @dev Mints the reserved IDs `firstTokenId` to `firstTokenId + quantity - 1` to `to`
+     * Every token gets its own ownership record, see SimpleNFTPacked for batched records
+     * @param to The address receiving the tokens
+     * @param firstTokenId The first reserved token ID
+     * @param quantity The number of tokens to mint
+     */
+    function _mintRange(address to, uint256 firstTokenId, uint256 quantity) internal virtual {
+        for (uint256 i = 0; i < quantity; i++) {
+            _safeMint(to, firstTokenId + i);
+        }
+    }
+    
+    /**
+     * @dev Sets who is allowed to call `mint` and `mintBatch`
+     * Can only be called by the contract owner
+     * @param mode The new mint mode
+     */
+    function setMintMode(MintMode mode) public onlyOwner {
+        mintMode = mode;
+        emit MintModeUpdated(mode);
+    }
+    
+    /**
+     * @dev Schedules when `mint` and `mintBatch` are open
+     * Can only be called by the contract owner
+     * Allowlist mints, airdrops and vouchers are not limited by the sale window
+     * @param start Timestamp when the sale opens, zero to open immediately
+     * @param end Timestamp after which the sale closes, zero to never close
+     */
+    function setSaleWindow(uint256 start, uint256 end) public onlyOwner {
+        if (end != 0 && end <= start) revert InvalidSaleWindow(start, end);
+        saleStart = start;
+        saleEnd = end;
+        emit SaleWindowUpdated(start, end);
+    }
+    
+    /**
+     * @dev Returns whether the sale window is currently open
+     * Does not take the mint mode into account
+     * @return bool True if `mint` and `mintBatch` are within the sale window
+     */
+    function isSaleActive() public view returns (bool) {
+        return block.timestamp >= saleStart && (saleEnd == 0 || block.timestamp <= saleEnd);
+    }
+    
+    /**
+     * @dev Sets the price to mint a single token
+     * Can only be called by the contract owner
+     * @param newPrice The new mint price in wei
+     */
+    function setMintPrice(uint256 newPrice) public onlyOwner {
+        emit MintPriceUpdated(mintPrice, newPrice);
+        mintPrice = newPrice;
+    }
+    
+    /**
+     * @dev Sets the maximum number of tokens a wallet can mint itself
+     * Can only be called by the contract owner
+     * Setting the limit to zero removes it
+     * @param limit The new per-wallet limit
+     */
+    function setMaxPerWallet(uint256 limit) public onlyOwner {
+        maxPerWallet = limit;
+        emit MaxPerWalletUpdated(limit);
+    }
+    
+    /**
+     * @dev Sends the collected mint proceeds to `to`
+     * Can only be called by the contract owner
+     * @param to The address receiving the contract balance
+     */
+    function withdraw(address payable to) public onlyOwner {
+        if (to == address(0)) revert InvalidWithdrawalRecipient();
+        uint256 amount = address(this).balance;
+        (bool success, ) = to.call{value: amount}("");
+        if (!success) revert WithdrawalFailed();
+        emit Withdrawn(to, amount);
+    }
+    
     /**
      * @dev Returns the base URI for token metadata
      * @return string The base URI
      */
-    function _baseURI() internal view override returns (string memory) {
+    function _baseURI() internal view virtual override returns (string memory) {
         return _baseTokenURI;
     }
     
     /**
      * @dev Sets the base URI for token metadata
-     * Can only be called by the contract owner
+     * Can only be called by an account with the METADATA_ROLE
      * Cannot be called if metadata is frozen
      * @param baseURI The new base URI
      */
-    function setBaseURI(string memory baseURI) public onlyOwner {
-        require(!_metadataFrozen, "Metadata is frozen");
+    function setBaseURI(string memory baseURI) public onlyRole(METADATA_ROLE) whenMetadataNotFrozen {
         _baseTokenURI = baseURI;
         emit BatchMetadataUpdate(1, type(uint256).max);
     }
     
     /**
-     * @dev Freezes the metadata permanently
+     * @dev Sets the collection-level metadata URI, see {contractURI}
+     * Can only be called by an account with the METADATA_ROLE
+     * Cannot be called if metadata is frozen
+     * @param uri The new collection metadata URI
+     */
+    function setContractURI(string memory uri) public onlyRole(METADATA_ROLE) whenMetadataNotFrozen {
+        _contractURI = uri;
+        emit ContractURIUpdated();
+    }
+    
+    /**
+     * @dev Returns the URI of the collection-level metadata (ERC7572)
+     * Marketplaces read the collection name, description, images and royalties from it
+     * @return string The collection metadata URI, empty if not set
+     */
+    function contractURI() public view returns (string memory) {
+        return _contractURI;
+    }
+    
+    /**
+     * @dev Sets the contract that renders token URIs on-chain
+     * Can only be called by an account with the METADATA_ROLE
+     * Cannot be called if metadata is frozen
+     * Passing the zero address switches back to the base URI
+     * @param renderer_ The renderer contract
+     */
+    function setRenderer(address renderer_) public onlyRole(METADATA_ROLE) whenMetadataNotFrozen {
+        renderer = renderer_;
+        emit RendererUpdated(renderer_);
+        emit BatchMetadataUpdate(1, type(uint256).max);
+    }
+    
+    /**
+     * @dev Sets the placeholder metadata URI returned for every token until reveal
+     * Can only be called by an account with the METADATA_ROLE
+     * Cannot be called if metadata is frozen or the collection is revealed
+     * Passing an empty string shows the regular metadata again
+     * @param uri The placeholder metadata URI
+     */
+    function setNotRevealedURI(string memory uri) public onlyRole(METADATA_ROLE) whenMetadataNotFrozen {
+        if (_revealed) revert AlreadyRevealed();
+        _notRevealedURI = uri;
+        emit BatchMetadataUpdate(1, type(uint256).max);
+    }
+    
+    /**
+     * @dev Reveals the collection by setting its final base URI
+     * Can only be called by an account with the METADATA_ROLE
+     * Cannot be called if metadata is frozen, and can only be called once
+     * @param baseURI The base URI of the revealed metadata
+     */
+    function reveal(string memory baseURI) public onlyRole(METADATA_ROLE) whenMetadataNotFrozen {
+        if (_revealed) revert AlreadyRevealed();
+        _revealed = true;
+        _baseTokenURI = baseURI;
+        emit Revealed(baseURI);
+        emit BatchMetadataUpdate(1, type(uint256).max);
+    }
+    
+    /**
+     * @dev Returns the placeholder metadata URI used before reveal
+     * @return string The placeholder URI, empty if the collection was never hidden
+     */
+    function notRevealedURI() public view returns (string memory) {
+        return _notRevealedURI;
+    }
+    
+    /**
+     * @dev Returns whether tokens resolve to their real metadata
+     * Collections without a placeholder URI count as revealed
+     * @return bool True if `tokenURI` is not returning the placeholder
+     */
+    function isRevealed() public view returns (bool) {
+        return _revealed || bytes(_notRevealedURI).length == 0;
+    }
+    
+    /**
+     * @dev Sets a metadata URI for a single token, overriding the base URI
+     * Can only be called by an account with the METADATA_ROLE
+     * Cannot be called if metadata or the token is frozen
+     * Passing an empty string removes the override
+     * @param tokenId The token to update
+     * @param uri The full metadata URI for the token
+     */
+    function setTokenURI(
+        uint256 tokenId,
+        string memory uri
+    ) public onlyRole(METADATA_ROLE) whenMetadataNotFrozen {
+        _requireOwned(tokenId);
+        if (_frozenTokens[tokenId]) revert TokenMetadataFrozen(tokenId);
+        _tokenURIs[tokenId] = uri;
+        emit MetadataUpdate(tokenId);
+    }
+    
+    /**
+     * @dev Freezes the metadata URI of a single token permanently
+     * The token keeps the URI it resolves to now, whatever later changes to the
+     * base URI or renderer
+     * Can only be called by an account with the METADATA_ROLE
+     * Cannot be called if metadata is frozen or the collection is not revealed
+     * @param tokenId The token to freeze
+     */
+    function freezeToken(uint256 tokenId) public onlyRole(METADATA_ROLE) whenMetadataNotFrozen {
+        if (!isRevealed()) revert CollectionNotRevealed();
+        if (_frozenTokens[tokenId]) revert TokenMetadataFrozen(tokenId);
+        
+        string memory uri = tokenURI(tokenId);
+        if (bytes(uri).length == 0) revert TokenURINotSet(tokenId);
+        
+        // Pin the source the URI currently comes from
+        if (bytes(_tokenURIs[tokenId]).length == 0) {
+            if (renderer != address(0)) {
+                _frozenRenderers[tokenId] = renderer;
+            } else {
+                _tokenURIs[tokenId] = uri;
+            }
+        }
+        _frozenTokens[tokenId] = true;
+        emit PermanentURI(uri, tokenId);
+    }
+    
+    /**
+     * @dev Returns whether the metadata URI of a token can no longer change
+     * @param tokenId The token to query
+     * @return bool True if the token or the whole collection is frozen
+     */
+    function isTokenFrozen(uint256 tokenId) public view returns (bool) {
+        return _metadataFrozen || _frozenTokens[tokenId];
+    }
+    
+    /**
+     * @dev Returns the metadata URI for a token
+     * Individually frozen tokens always resolve to the URI they were frozen with
+     * Every other token resolves to the placeholder URI until the collection is revealed
+     * A per-token override takes precedence over the renderer, which takes
+     * precedence over the base URI
+     * @param tokenId The token to query
+     * @return string The metadata URI
+     */
+    function tokenURI(uint256 tokenId) public view virtual override returns (string memory) {
+        _requireOwned(tokenId);
+        bool tokenFrozen = _frozenTokens[tokenId];
+        if (!tokenFrozen && !isRevealed()) {
+            return _notRevealedURI;
+        }
+        
+        string memory uri = _tokenURIs[tokenId];
+        if (bytes(uri).length > 0) {
+            return uri;
+        }
+        address tokenRenderer = tokenFrozen ? _frozenRenderers[tokenId] : renderer;
+        if (tokenRenderer != address(0)) {
+            return ITokenURIRenderer(tokenRenderer).tokenURI(address(this), tokenId);
+        }
+        return super.tokenURI(tokenId);
+    }
+    
+    /**
+     * @dev Sets the royalty applied to every token without an override
+     * Can only be called by the contract owner
+     * Cannot be called if metadata is frozen
+     * @param receiver The address receiving royalties
+     * @param feeNumerator The royalty in basis points
+     */
+    function setDefaultRoyalty(address receiver, uint96 feeNumerator) public onlyOwner whenMetadataNotFrozen {
+        _setDefaultRoyalty(receiver, feeNumerator);
+        emit DefaultRoyaltyUpdated(receiver, feeNumerator);
+    }
+    
+    /**
+     * @dev Removes the collection-wide royalty
+     * Can only be called by the contract owner
+     * Cannot be called if metadata is frozen
+     */
+    function deleteDefaultRoyalty() public onlyOwner whenMetadataNotFrozen {
+        _deleteDefaultRoyalty();
+        emit DefaultRoyaltyUpdated(address(0), 0);
+    }
+    
+    /**
+     * @dev Overrides the royalty for a single token
+     * Can only be called by the contract owner
+     * Cannot be called if metadata is frozen
+     * @param tokenId The token to override
+     * @param receiver The address receiving royalties for this token
+     * @param feeNumerator The royalty in basis points
+     */
+    function setTokenRoyalty(
+        uint256 tokenId,
+        address receiver,
+        uint96 feeNumerator
+    ) public onlyOwner whenMetadataNotFrozen {
+        _setTokenRoyalty(tokenId, receiver, feeNumerator);
+        emit TokenRoyaltyUpdated(tokenId, receiver, feeNumerator);
+    }
+    
+    /**
+     * @dev Removes a token's royalty override so it falls back to the default
      * Can only be called by the contract owner
-     * Once frozen, the metadata cannot be changed
+     * Cannot be called if metadata is frozen
+     * @param tokenId The token to reset
      */
-    function freezeMetadata() public onlyOwner {
+    function resetTokenRoyalty(uint256 tokenId) public onlyOwner whenMetadataNotFrozen {
+        _resetTokenRoyalty(tokenId);
+        emit TokenRoyaltyUpdated(tokenId, address(0), 0);
+    }
+    
+    /**
+     * @dev Freezes the metadata permanently
+     * Can only be called by an account with the METADATA_ROLE
+     * Cannot be called if metadata is already frozen
+     * Once frozen, the metadata and royalties cannot be changed
+     * Emits a single BatchMetadataUpdate covering every token, so gas does not grow with the supply
+     * PermanentURI for existing tokens is emitted afterwards with `emitPermanentURIs`,
+     * and tokens minted afterwards emit PermanentURI when minted
+     */
+    function freezeMetadata() public onlyRole(METADATA_ROLE) whenMetadataNotFrozen {
         _metadataFrozen = true;
+        emit BatchMetadataUpdate(1, type(uint256).max);
+    }
+    
+    /**
+     * @dev Emits PermanentURI for the existing tokens from `fromId` to `toId`, inclusive
+     * Can only be called by an account with the METADATA_ROLE
+     * Can only be called once the metadata is frozen
+     * Burned tokens and tokens frozen individually, which emitted PermanentURI when
+     * frozen, are skipped. IDs past the last minted token are ignored, so large
+     * collections can be covered one page at a time
+     * @param fromId The first token ID of the page
+     * @param toId The last token ID of the page
+     */
+    function emitPermanentURIs(uint256 fromId, uint256 toId) public onlyRole(METADATA_ROLE) {
+        if (!_metadataFrozen) revert MetadataNotFrozen();
+        if (fromId == 0 || toId < fromId) revert InvalidTokenRange(fromId, toId);
+        
+        uint256 lastId = toId < _nextTokenId ? toId : _nextTokenId - 1;
+        for (uint256 tokenId = fromId; tokenId <= lastId; tokenId++) {
+            if (_ownerOf(tokenId) != address(0) && !_frozenTokens[tokenId]) {
+                emit PermanentURI(tokenURI(tokenId), tokenId);
+            }
+        }
     }
     
     /**
@@ -105,6 +1016,50 @@ contract SimpleNFT is ERC721, Ownable, IERC4906 {
         return _metadataFrozen;
     }
     
+    /**
+     * @dev Lends a token to `user` until `expires`, see {IERC4907-setUser}
+     * Can only be called by the token owner or an approved address
+     * Passing the zero address ends the current rental
+     * @param tokenId The token to lend
+     * @param user The new user of the token
+     * @param expires UNIX timestamp until which `user` can use the token
+     */
+    function setUser(uint256 tokenId, address user, uint64 expires) public {
+        _checkAuthorized(_ownerOf(tokenId), msg.sender, tokenId);
+        _users[tokenId] = UserInfo(user, expires);
+        emit UpdateUser(tokenId, user, expires);
+    }
+    
+    /**
+     * @dev Returns the current user of a token, see {IERC4907-userOf}
+     * @param tokenId The token to query
+     * @return address The user, or the zero address if there is none or the rental expired
+     */
+    function userOf(uint256 tokenId) public view returns (address) {
+        UserInfo memory info = _users[tokenId];
+        return info.expires >= block.timestamp ? info.user : address(0);
+    }
+    
+    /**
+     * @dev Returns when the rental of a token ends, see {IERC4907-userExpires}
+     * @param tokenId The token to query
+     * @return uint256 The UNIX timestamp the rental ends, zero if there is no user
+     */
+    function userExpires(uint256 tokenId) public view returns (uint256) {
+        return _users[tokenId].expires;
+    }
+    
+    /**
+     * @dev Returns whether a token is locked to its owner, see {IERC5192-locked}
+     * Every token of a soulbound collection is locked
+     * @param tokenId The token to query
+     * @return bool True if the token cannot be transferred
+     */
+    function locked(uint256 tokenId) public view returns (bool) {
+        _requireOwned(tokenId);
+        return soulbound;
+    }
+    
     /**
      * @dev See {IERC165-supportsInterface}
      * @param interfaceId The interface identifier, as specified in ERC-165
@@ -113,19 +1068,102 @@ contract SimpleNFT is ERC721, Ownable, IERC4906 {
     function supportsInterface(bytes4 interfaceId)
         public
         view
-        override(ERC721, IERC165)
+        virtual
+        override(ERC721, ERC2981, AccessControlEnumerable, IERC165)
         returns (bool)
     {
         return
             interfaceId == type(IERC4906).interfaceId ||
+            interfaceId == type(IERC4907).interfaceId ||
+            interfaceId == type(IERC5192).interfaceId ||
             super.supportsInterface(interfaceId);
     }
 
     /**
-     * @dev Returns the total number of tokens minted
+     * @dev Returns the number of tokens in existence, excluding burned tokens
      * @return uint256 The total supply of tokens
      */
     function totalSupply() public view returns (uint256) {
+        return totalMinted() - _burnedCount;
+    }
+
+    /**
+     * @dev Returns the number of tokens ever minted, including burned tokens
+     * Token IDs run from 1 to this value
+     * @return uint256 The historical mint count
+     */
+    function totalMinted() public view returns (uint256) {
         return _nextTokenId - 1;
     }
+
+    /**
+     * @dev Returns the number of tokens that can still be minted
+     * Burned tokens do not free up supply
+     * @return uint256 The remaining mintable supply
+     */
+    function remainingSupply() public view returns (uint256) {
+        return maxSupply - totalMinted();
+    }
+
+    /**
+     * @dev Returns how many more tokens `account` can mint itself
+     * Takes both the per-wallet limit and the remaining supply into account
+     * @param account The wallet to check
+     * @return uint256 The number of tokens `account` can still mint
+     */
+    function remainingMints(address account) public view returns (uint256) {
+        uint256 supplyLeft = remainingSupply();
+        if (maxPerWallet == 0) return supplyLeft;
+        
+        uint256 minted = walletMints[account];
+        uint256 walletLeft = minted >= maxPerWallet ? 0 : maxPerWallet - minted;
+        return walletLeft < supplyLeft ? walletLeft : supplyLeft;
+    }
+
+    /**
+     * @dev Returns every token ID held by `owner_`, in ascending order
+     * Scans all minted IDs instead of maintaining enumeration storage, so
+     * mints and transfers stay cheap. Intended for off-chain calls only.
+     * @param owner_ The address to look up
+     * @return tokenIds The token IDs owned by `owner_`
+     */
+    function tokensOfOwner(address owner_) public view returns (uint256[] memory tokenIds) {
+        uint256 balance = balanceOf(owner_);
+        tokenIds = new uint256[](balance);
+        
+        uint256 index;
+        for (uint256 tokenId = 1; index < balance && tokenId < _nextTokenId; tokenId++) {
+            if (_ownerOf(tokenId) == owner_) {
+                tokenIds[index++] = tokenId;
+            }
+        }
+    }
+
+    /**
+     * @dev Counts burns on every ownership update
+     * Reverts while the contract is paused, see {ERC721Pausable-_update}
+     * Soulbound tokens can only be minted and burned, never transferred
+     * Any rental user is cleared when a token is transferred or burned
+     * Tokens minted after the metadata is frozen emit PermanentURI
+     */
+    function _update(
+        address to,
+        uint256 tokenId,
+        address auth
+    ) internal virtual override(ERC721, ERC721Pausable) returns (address) {
+        address from = super._update(to, tokenId, auth);
+        if (from != to && _users[tokenId].user != address(0)) {
+            delete _users[tokenId];
+            emit UpdateUser(tokenId, address(0), 0);
+        }
+        if (to == address(0)) {
+            _burnedCount++;
+        } else if (from == address(0)) {
+            if (soulbound) emit Locked(tokenId);
+            if (_metadataFrozen) emit PermanentURI(tokenURI(tokenId), tokenId);
+        } else if (soulbound) {
+            revert TokenIsSoulbound(tokenId);
+        }
+        return from;
+    }
 } 
\ No newline at end of file
@@ -0,0 +1,415 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title SimpleNFTEditions
+ * @dev An ERC1155 editions contract for open editions and game items, where
+ * many copies share the same token ID.
+ *
+ * Features:
+ * - ERC1155 compliant multi-token implementation
+ * - Customizable collection name and symbol
+ * - Owner-created token types with sequential IDs
+ * - Per-type supply caps, or uncapped open editions
+ * - Per-type metadata URIs with a collection-wide fallback
+ * - Per-type mint price and public sale toggle, with owner withdrawal
+ * - Owner minting for airdrops and game rewards
+ * - Holder burning with separate minted and burned accounting
+ * - ERC2981 royalties
+ * - Metadata update notifications in the style of ERC4906
+ * - Collection-level metadata URI (ERC7572)
+ * - Initializable so it can be deployed as a minimal proxy clone
+ *
+ * Security Features:
+ * - Access control for administrative functions
+ * - Two-step ownership transfers that the new owner must accept
+ * - Supply caps enforced on every mint
+ *
+ * ERC4906 is defined for ERC721, so this contract emits its MetadataUpdate and
+ * BatchMetadataUpdate events for marketplaces without advertising the interface.
+ */
+
+import "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
+import "@openzeppelin/contracts/token/ERC1155/extensions/ERC1155Burnable.sol";
+import "@openzeppelin/contracts/token/ERC1155/extensions/ERC1155Supply.sol";
+import "@openzeppelin/contracts/token/common/ERC2981.sol";
+import "@openzeppelin/contracts/access/Ownable2Step.sol";
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+
+contract SimpleNFTEditions is
+    ERC1155,
+    ERC1155Burnable,
+    ERC1155Supply,
+    ERC2981,
+    Ownable2Step,
+    Initializable
+{
+    // Settings and mint accounting of a token type
+    struct EditionType {
+        uint256 maxSupply;
+        uint256 minted;
+        uint256 price;
+        bool publicMint;
+    }
+    
+    // Collection name and symbol, stored here so clones can set them on initialization
+    string private _collectionName;
+    string private _collectionSymbol;
+    
+    // URI of the collection-level metadata read by marketplaces
+    string private _contractURI;
+    
+    // Number of token types created, which is also the latest type ID
+    uint256 public typeCount;
+    
+    // Settings of each token type
+    mapping(uint256 => EditionType) private _types;
+    
+    // Optional per-type metadata URIs that take precedence over the collection URI
+    mapping(uint256 => string) private _typeURIs;
+    
+    // Event emitted when a new token type is created
+    event TypeCreated(uint256 indexed id, uint256 maxSupply, uint256 price, bool publicMint);
+    
+    // Event emitted when the price or public sale of a token type changes
+    event TypeSaleUpdated(uint256 indexed id, uint256 price, bool publicMint);
+    
+    // Event emitted when the metadata of a token type changes (ERC4906)
+    event MetadataUpdate(uint256 _tokenId);
+    
+    // Event emitted when the metadata of a range of token types changes (ERC4906)
+    event BatchMetadataUpdate(uint256 _fromTokenId, uint256 _toTokenId);
+    
+    // Event emitted when the collection-level metadata URI is updated (ERC7572)
+    event ContractURIUpdated();
+    
+    // Event emitted when the contract balance is withdrawn
+    event Withdrawn(address indexed to, uint256 amount);
+    
+    // Event emitted when the default royalty is updated
+    event DefaultRoyaltyUpdated(address indexed receiver, uint96 feeNumerator);
+    
+    // Error thrown when referring to a token type that has not been created
+    error TypeDoesNotExist(uint256 id);
+    
+    // Error thrown when a mint would exceed the supply cap of a token type
+    error TypeSupplyExceeded(uint256 id, uint256 maxSupply);
+    
+    // Error thrown when minting a token type that is not on public sale
+    error TypeNotForSale(uint256 id);
+    
+    // Error thrown when the payment does not match the price of the mint
+    error IncorrectPayment(uint256 required, uint256 provided);
+    
+    // Error thrown when minting zero tokens
+    error InvalidQuantity();
+    
+    // Error thrown when withdrawing to the zero address
+    error InvalidWithdrawalRecipient();
+    
+    // Error thrown when the withdrawal transfer fails
+    error WithdrawalFailed();
+    
+    /**
+     * @dev Reverts if the token type has not been created
+     */
+    modifier whenTypeExists(uint256 id) {
+        if (!typeExists(id)) revert TypeDoesNotExist(id);
+        _;
+    }
+    
+    /**
+     * @dev Constructor initializes the editions collection with a name and symbol
+     * A zero `royaltyFeeNumerator` deploys the collection without a default royalty
+     * Disables `initialize`, so a directly deployed contract can also serve as a clone implementation
+     * @param name_ The name of the collection
+     * @param symbol_ The symbol of the collection
+     * @param initialOwner The address that will own the contract
+     * @param royaltyReceiver The address receiving secondary sale royalties
+     * @param royaltyFeeNumerator The royalty in basis points
+     */
+    constructor(
+        string memory name_,
+        string memory symbol_,
+        address initialOwner,
+        address royaltyReceiver,
+        uint96 royaltyFeeNumerator
+    ) ERC1155("") Ownable(initialOwner) {
+        _initializeEditions(name_, symbol_, royaltyReceiver, royaltyFeeNumerator);
+        _disableInitializers();
+    }
+    
+    /**
+     * @dev Initializes a minimal proxy clone of this contract
+     * Takes the same arguments as the constructor and can only be called once
+     * @param name_ The name of the collection
+     * @param symbol_ The symbol of the collection
+     * @param initialOwner The address that will own the contract
+     * @param royaltyReceiver The address receiving secondary sale royalties
+     * @param royaltyFeeNumerator The royalty in basis points
+     */
+    function initialize(
+        string calldata name_,
+        string calldata symbol_,
+        address initialOwner,
+        address royaltyReceiver,
+        uint96 royaltyFeeNumerator
+    ) external initializer {
+        if (initialOwner == address(0)) revert OwnableInvalidOwner(address(0));
+        _transferOwnership(initialOwner);
+        _initializeEditions(name_, symbol_, royaltyReceiver, royaltyFeeNumerator);
+    }
+    
+    /**
+     * @dev Sets up the collection state shared by the constructor and `initialize`
+     */
+    function _initializeEditions(
+        string memory name_,
+        string memory symbol_,
+        address royaltyReceiver,
+        uint96 royaltyFeeNumerator
+    ) private {
+        _collectionName = name_;
+        _collectionSymbol = symbol_;
+        
+        if (royaltyFeeNumerator > 0) {
+            _setDefaultRoyalty(royaltyReceiver, royaltyFeeNumerator);
+            emit DefaultRoyaltyUpdated(royaltyReceiver, royaltyFeeNumerator);
+        }
+    }
+    
+    /**
+     * @dev Returns the collection name
+     * @return string The name set on deployment or initialization
+     */
+    function name() public view returns (string memory) {
+        return _collectionName;
+    }
+    
+    /**
+     * @dev Returns the collection symbol
+     * @return string The symbol set on deployment or initialization
+     */
+    function symbol() public view returns (string memory) {
+        return _collectionSymbol;
+    }
+    
+    /**
+     * @dev Creates a new token type
+     * Can only be called by the contract owner
+     * @param maxSupply The most copies that can ever be minted, zero for an open edition
+     * @param price The price of each copy in public mints
+     * @param publicMint Whether anyone can mint the type by paying `price`
+     * @param typeURI The metadata URI of the type, empty to use the collection URI
+     * @return id The ID of the new token type
+     */
+    function createType(
+        uint256 maxSupply,
+        uint256 price,
+        bool publicMint,
+        string calldata typeURI
+    ) public onlyOwner returns (uint256 id) {
+        id = ++typeCount;
+        _types[id] = EditionType(maxSupply, 0, price, publicMint);
+        emit TypeCreated(id, maxSupply, price, publicMint);
+        
+        if (bytes(typeURI).length > 0) {
+            _typeURIs[id] = typeURI;
+            emit URI(typeURI, id);
+        }
+    }
+    
+    /**
+     * @dev Returns whether a token type has been created
+     * @param id The token type to query
+     * @return bool True if `id` was returned by {createType}
+     */
+    function typeExists(uint256 id) public view returns (bool) {
+        return id != 0 && id <= typeCount;
+    }
+    
+    /**
+     * @dev Returns the settings and mint accounting of a token type
+     * @param id The token type to query
+     * @return maxSupply The supply cap, zero for an open edition
+     * @return minted The number of copies ever minted, including burned ones
+     * @return price The price of each copy in public mints
+     * @return publicMint Whether the type is on public sale
+     */
+    function typeInfo(uint256 id) public view whenTypeExists(id) returns (
+        uint256 maxSupply,
+        uint256 minted,
+        uint256 price,
+        bool publicMint
+    ) {
+        EditionType storage editionType = _types[id];
+        return (editionType.maxSupply, editionType.minted, editionType.price, editionType.publicMint);
+    }
+    
+    /**
+     * @dev Returns how many more copies of a token type can be minted
+     * @param id The token type to query
+     * @return uint256 The remaining supply, or the maximum uint256 for an open edition
+     */
+    function remainingSupply(uint256 id) public view whenTypeExists(id) returns (uint256) {
+        EditionType storage editionType = _types[id];
+        if (editionType.maxSupply == 0) {
+            return type(uint256).max;
+        }
+        return editionType.maxSupply - editionType.minted;
+    }
+    
+    /**
+     * @dev Updates the price and public sale of a token type
+     * Can only be called by the contract owner
+     * @param id The token type to update
+     * @param price The new price of each copy
+     * @param publicMint Whether anyone can mint the type
+     */
+    function setTypeSale(uint256 id, uint256 price, bool publicMint) public onlyOwner whenTypeExists(id) {
+        _types[id].price = price;
+        _types[id].publicMint = publicMint;
+        emit TypeSaleUpdated(id, price, publicMint);
+    }
+    
+    /**
+     * @dev Sets the metadata URI of a single token type
+     * Can only be called by the contract owner
+     * Passing an empty string falls back to the collection URI
+     * @param id The token type to update
+     * @param typeURI The full metadata URI of the type
+     */
+    function setTypeURI(uint256 id, string calldata typeURI) public onlyOwner whenTypeExists(id) {
+        _typeURIs[id] = typeURI;
+        emit URI(uri(id), id);
+        emit MetadataUpdate(id);
+    }
+    
+    /**
+     * @dev Sets the collection URI used by token types without their own URI
+     * The URI may contain the `{id}` placeholder defined by ERC1155
+     * Can only be called by the contract owner
+     * @param newURI The new collection URI
+     */
+    function setBaseURI(string calldata newURI) public onlyOwner {
+        _setURI(newURI);
+        emit BatchMetadataUpdate(1, type(uint256).max);
+    }
+    
+    /**
+     * @dev Returns the metadata URI of a token type
+     * A per-type URI takes precedence over the collection URI
+     * @param id The token type to query
+     * @return string The metadata URI
+     */
+    function uri(uint256 id) public view override returns (string memory) {
+        string memory typeURI = _typeURIs[id];
+        if (bytes(typeURI).length > 0) {
+            return typeURI;
+        }
+        return super.uri(id);
+    }
+    
+    /**
+     * @dev Mints copies of a token type to the caller
+     * Requires the type to be on public sale and exactly `price * amount` to be sent
+     * @param id The token type to mint
+     * @param amount The number of copies to mint
+     */
+    function mint(uint256 id, uint256 amount) public payable whenTypeExists(id) {
+        EditionType storage editionType = _types[id];
+        if (!editionType.publicMint) revert TypeNotForSale(id);
+        uint256 price = editionType.price * amount;
+        if (msg.value != price) revert IncorrectPayment(price, msg.value);
+        
+        _mintType(msg.sender, id, amount);
+    }
+    
+    /**
+     * @dev Mints copies of a token type for free, whether or not it is on sale
+     * Can only be called by the contract owner
+     * @param to The address receiving the copies
+     * @param id The token type to mint
+     * @param amount The number of copies to mint
+     */
+    function mintTo(address to, uint256 id, uint256 amount) public onlyOwner whenTypeExists(id) {
+        _mintType(to, id, amount);
+    }
+    
+    /**
+     * @dev Records and mints copies of a token type within its supply cap
+     */
+    function _mintType(address to, uint256 id, uint256 amount) private {
+        if (amount == 0) revert InvalidQuantity();
+        EditionType storage editionType = _types[id];
+        uint256 minted = editionType.minted + amount;
+        if (editionType.maxSupply != 0 && minted > editionType.maxSupply) {
+            revert TypeSupplyExceeded(id, editionType.maxSupply);
+        }
+        editionType.minted = minted;
+        _mint(to, id, amount, "");
+    }
+    
+    /**
+     * @dev Sends the collected mint proceeds to `to`
+     * Can only be called by the contract owner
+     * @param to The address receiving the contract balance
+     */
+    function withdraw(address payable to) public onlyOwner {
+        if (to == address(0)) revert InvalidWithdrawalRecipient();
+        uint256 amount = address(this).balance;
+        (bool success, ) = to.call{value: amount}("");
+        if (!success) revert WithdrawalFailed();
+        emit Withdrawn(to, amount);
+    }
+    
+    /**
+     * @dev Sets the collection-level metadata URI read by marketplaces
+     * Can only be called by the contract owner
+     * @param newContractURI The URI of the collection metadata JSON
+     */
+    function setContractURI(string calldata newContractURI) public onlyOwner {
+        _contractURI = newContractURI;
+        emit ContractURIUpdated();
+    }
+    
+    /**
+     * @dev Returns the collection-level metadata URI (ERC7572)
+     * @return string The contract URI, empty if not set
+     */
+    function contractURI() public view returns (string memory) {
+        return _contractURI;
+    }
+    
+    /**
+     * @dev Sets the royalty applied to every token type
+     * Can only be called by the contract owner
+     * @param receiver The address receiving royalties
+     * @param feeNumerator The royalty in basis points
+     */
+    function setDefaultRoyalty(address receiver, uint96 feeNumerator) public onlyOwner {
+        _setDefaultRoyalty(receiver, feeNumerator);
+        emit DefaultRoyaltyUpdated(receiver, feeNumerator);
+    }
+    
+    /**
+     * @dev Updates balances and total supplies on mint, transfer and burn
+     */
+    function _update(
+        address from,
+        address to,
+        uint256[] memory ids,
+        uint256[] memory values
+    ) internal override(ERC1155, ERC1155Supply) {
+        super._update(from, to, ids, values);
+    }
+    
+    /**
+     * @dev See {IERC165-supportsInterface}
+     */
+    function supportsInterface(
+        bytes4 interfaceId
+    ) public view override(ERC1155, ERC2981) returns (bool) {
+        return super.supportsInterface(interfaceId);
+    }
+}
@@ -0,0 +1,136 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title SimpleNFTFactory
+ * @dev Deploys SimpleNFT and SimpleNFTEditions collections as EIP-1167 minimal proxy clones.
+ * 
+ * Features:
+ * - Clones a single SimpleNFT implementation instead of deploying full bytecode
+ * - Clones a single SimpleNFTEditions implementation for ERC1155 editions
+ * - Initializes each clone with the caller as owner
+ * - Per-creator registry of deployed collections of both kinds
+ * - CollectionCreated and EditionsCreated events for indexers and the frontend
+ * 
+ * Clones share the implementation's code but keep their own storage, so every
+ * collection behaves exactly like a directly deployed SimpleNFT or SimpleNFTEditions.
+ */
+
+import "@openzeppelin/contracts/proxy/Clones.sol";
+import "./SimpleNFT.sol";
+import "./SimpleNFTEditions.sol";
+
+contract SimpleNFTFactory {
+    // SimpleNFT contract that every clone delegates to
+    address public immutable implementation;
+    
+    // SimpleNFTEditions contract that every editions clone delegates to
+    address public immutable editionsImplementation;
+    
+    // Collections deployed by each creator, in creation order
+    mapping(address => address[]) private _collections;
+    
+    // Event emitted when a new collection clone is deployed
+    event CollectionCreated(address indexed creator, address indexed collection, string name, string symbol);
+    
+    // Event emitted when a new editions clone is deployed
+    event EditionsCreated(address indexed creator, address indexed collection, string name, string symbol);
+    
+    // Error thrown when the implementation address has no code
+    error InvalidImplementation(address implementation);
+    
+    /**
+     * @dev Constructor sets the implementations to clone
+     * @param implementation_ A deployed SimpleNFT contract
+     * @param editionsImplementation_ A deployed SimpleNFTEditions contract
+     */
+    constructor(address implementation_, address editionsImplementation_) {
+        if (implementation_.code.length == 0) revert InvalidImplementation(implementation_);
+        if (editionsImplementation_.code.length == 0) revert InvalidImplementation(editionsImplementation_);
+        implementation = implementation_;
+        editionsImplementation = editionsImplementation_;
+    }
+    
+    /**
+     * @dev Deploys and initializes a new collection owned by the caller
+     * The caller still needs to set the base URI on the new collection
+     * @param name The name of the NFT collection
+     * @param symbol The symbol of the NFT collection
+     * @param maxSupply The maximum number of tokens that can be minted
+     * @param royaltyReceiver The address receiving secondary sale royalties
+     * @param royaltyFeeNumerator The royalty in basis points
+     * @param provenanceHash Hash of the final token ordering, zero if not used
+     * @param soulbound Whether tokens are non-transferable after mint
+     * @return collection The address of the new collection
+     */
+    function createCollection(
+        string calldata name,
+        string calldata symbol,
+        uint256 maxSupply,
+        address royaltyReceiver,
+        uint96 royaltyFeeNumerator,
+        bytes32 provenanceHash,
+        bool soulbound
+    ) external returns (address collection) {
+        collection = Clones.clone(implementation);
+        SimpleNFT(collection).initialize(
+            name,
+            symbol,
+            msg.sender,
+            maxSupply,
+            royaltyReceiver,
+            royaltyFeeNumerator,
+            provenanceHash,
+            soulbound
+        );
+        
+        _collections[msg.sender].push(collection);
+        emit CollectionCreated(msg.sender, collection, name, symbol);
+    }
+    
+    /**
+     * @dev Deploys and initializes a new ERC1155 editions collection owned by the caller
+     * The caller still needs to create the token types on the new collection
+     * @param name The name of the collection
+     * @param symbol The symbol of the collection
+     * @param royaltyReceiver The address receiving secondary sale royalties
+     * @param royaltyFeeNumerator The royalty in basis points
+     * @return collection The address of the new collection
+     */
+    function createEditions(
+        string calldata name,
+        string calldata symbol,
+        address royaltyReceiver,
+        uint96 royaltyFeeNumerator
+    ) external returns (address collection) {
+        collection = Clones.clone(editionsImplementation);
+        SimpleNFTEditions(collection).initialize(
+            name,
+            symbol,
+            msg.sender,
+            royaltyReceiver,
+            royaltyFeeNumerator
+        );
+        
+        _collections[msg.sender].push(collection);
+        emit EditionsCreated(msg.sender, collection, name, symbol);
+    }
+    
+    /**
+     * @dev Returns every collection deployed by `creator`
+     * @param creator The address that called `createCollection` or `createEditions`
+     * @return address[] The collections in creation order
+     */
+    function collectionsOf(address creator) external view returns (address[] memory) {
+        return _collections[creator];
+    }
+    
+    /**
+     * @dev Returns the number of collections deployed by `creator`
+     * @param creator The address that called `createCollection` or `createEditions`
+     * @return uint256 The number of collections
+     */
+    function collectionCount(address creator) external view returns (uint256) {
+        return _collections[creator].length;
+    }
+}
@@ -0,0 +1,138 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title SimpleNFTPacked
+ * @dev A SimpleNFT collection with ERC721A-style lazy ownership, so minting many
+ * tokens at once costs close to minting one.
+ *
+ * Features:
+ * - Every SimpleNFT feature, with the same constructor, initializer and external ABI
+ * - Batch mints, airdrops and `mint(quantity)` share ownership records between tokens
+ * - Works with the SimpleNFT bindings, as it only adds the `mint(quantity)` overload
+ *
+ * The first transfer of a token minted in a batch pays for the ownership record
+ * the mint skipped, so this suits collections that mint in bulk and trade later.
+ */
+
+import "./SimpleNFT.sol";
+import "./token/ERC721Packed.sol";
+
+contract SimpleNFTPacked is ERC721Packed, SimpleNFT {
+    /**
+     * @dev Constructor initializes the NFT collection, see {SimpleNFT-constructor}
+     * @param name_ The name of the NFT collection
+     * @param symbol_ The symbol of the NFT collection
+     * @param initialOwner The address that will own the contract
+     * @param maxSupply_ The maximum number of tokens that can be minted
+     * @param royaltyReceiver The address receiving secondary sale royalties
+     * @param royaltyFeeNumerator The royalty in basis points
+     * @param provenanceHash_ Hash of the final token ordering, zero if not used
+     * @param soulbound_ Whether tokens are non-transferable after mint
+     */
+    constructor(
+        string memory name_,
+        string memory symbol_,
+        address initialOwner,
+        uint256 maxSupply_,
+        address royaltyReceiver,
+        uint96 royaltyFeeNumerator,
+        bytes32 provenanceHash_,
+        bool soulbound_
+    )
+        SimpleNFT(
+            name_,
+            symbol_,
+            initialOwner,
+            maxSupply_,
+            royaltyReceiver,
+            royaltyFeeNumerator,
+            provenanceHash_,
+            soulbound_
+        )
+    {}
+    
+    /**
+     * @dev Mints `quantity` sequential NFTs to the caller, see {SimpleNFT-mintBatch}
+     * @param quantity The number of tokens to mint
+     * @return firstTokenId The ID of the first newly minted NFT
+     */
+    function mint(uint256 quantity) public payable returns (uint256 firstTokenId) {
+        return mintBatch(quantity);
+    }
+    
+    /**
+     * @dev Token IDs up to the last reserved one count as minted
+     */
+    function _mintedTokenEnd() internal view override returns (uint256) {
+        return totalMinted() + 1;
+    }
+    
+    /**
+     * @dev Mints the reserved IDs with shared ownership records
+     * Reverts while the contract is paused, like single mints
+     */
+    function _mintRange(address to, uint256 firstTokenId, uint256 quantity) internal override {
+        _requireNotPaused();
+        _safeMintBatch(to, firstTokenId, quantity);
+    }
+    
+    /**
+     * @dev Emits the per-token mint events of {SimpleNFT-_update} for the batch
+     * Soulbound tokens emit Locked, and tokens minted after the metadata is frozen emit PermanentURI
+     */
+    function _mintBatch(address to, uint256 firstTokenId, uint256 quantity) internal override {
+        super._mintBatch(to, firstTokenId, quantity);
+        
+        bool frozen = isMetadataFrozen();
+        for (uint256 tokenId = firstTokenId; tokenId < firstTokenId + quantity; tokenId++) {
+            if (soulbound) emit Locked(tokenId);
+            if (frozen) emit PermanentURI(tokenURI(tokenId), tokenId);
+        }
+    }
+    
+    /**
+     * @dev See {SimpleNFT-_update}, with ownership stored by {ERC721Packed-_update}
+     */
+    function _update(
+        address to,
+        uint256 tokenId,
+        address auth
+    ) internal override(ERC721Packed, SimpleNFT) returns (address) {
+        return super._update(to, tokenId, auth);
+    }
+    
+    // The following functions combine the SimpleNFT and ERC721Packed overrides of ERC721
+    
+    function name() public view override(ERC721, SimpleNFT) returns (string memory) {
+        return super.name();
+    }
+    
+    function symbol() public view override(ERC721, SimpleNFT) returns (string memory) {
+        return super.symbol();
+    }
+    
+    function tokenURI(uint256 tokenId) public view override(ERC721, SimpleNFT) returns (string memory) {
+        return super.tokenURI(tokenId);
+    }
+    
+    function balanceOf(address owner) public view override(ERC721, ERC721Packed, IERC721) returns (uint256) {
+        return super.balanceOf(owner);
+    }
+    
+    function supportsInterface(bytes4 interfaceId) public view override(ERC721, SimpleNFT) returns (bool) {
+        return super.supportsInterface(interfaceId);
+    }
+    
+    function _baseURI() internal view override(ERC721, SimpleNFT) returns (string memory) {
+        return super._baseURI();
+    }
+    
+    function _ownerOf(uint256 tokenId) internal view override(ERC721, ERC721Packed) returns (address) {
+        return super._ownerOf(tokenId);
+    }
+    
+    function _increaseBalance(address account, uint128 value) internal override(ERC721, ERC721Packed) {
+        super._increaseBalance(account, value);
+    }
+}
@@ -0,0 +1,222 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title SimpleNFTRenderer
+ * @dev Renders SimpleNFT metadata fully on-chain so tokens do not depend on the
+ * metadata API staying online.
+ * 
+ * Features:
+ * - Base64 `data:application/json` token URIs with an embedded SVG image
+ * - SVG output byte-identical to the `/api/image/[tokenId]` route
+ * - Stateless, so one deployment can serve any number of collections
+ * 
+ * The artwork is derived from a 32-bit string hash of the decimal token ID, the
+ * same one `generateColor` and `generatePattern` compute in JavaScript.
+ */
+
+import "@openzeppelin/contracts/token/ERC721/extensions/IERC721Metadata.sol";
+import "@openzeppelin/contracts/utils/Base64.sol";
+import "@openzeppelin/contracts/utils/Strings.sol";
+import "./interfaces/ITokenURIRenderer.sol";
+
+contract SimpleNFTRenderer is ITokenURIRenderer {
+    using Strings for uint256;
+    
+    /**
+     * @dev Returns the metadata of a token as a base64 encoded JSON data URI
+     * The name is read from `collection`, the image is rendered by {renderSVG}
+     * @param collection The NFT contract the token belongs to
+     * @param tokenId The token to render
+     * @return string The `data:application/json;base64,` token URI
+     */
+    function tokenURI(address collection, uint256 tokenId) external view returns (string memory) {
+        string memory id = tokenId.toString();
+        string memory json = string.concat(
+            '{"name":"',
+            _escapeJSON(IERC721Metadata(collection).name()),
+            " #",
+            id,
+            '","description":"NFT #',
+            id,
+            ' on the Nexus network, rendered fully on-chain.","image":"data:image/svg+xml;base64,',
+            Base64.encode(bytes(renderSVG(tokenId))),
+            '","attributes":[{"trait_type":"Token ID","value":"',
+            id,
+            '"},{"trait_type":"Image Type","value":"On-chain"}]}'
+        );
+        return string.concat("data:application/json;base64,", Base64.encode(bytes(json)));
+    }
+    
+    /**
+     * @dev Renders the SVG image of a token
+     * @param tokenId The token to render
+     * @return string The SVG markup
+     */
+    function renderSVG(uint256 tokenId) public pure returns (string memory) {
+        string memory id = tokenId.toString();
+        int256 hash = _hash(id);
+        uint256 absHash = hash < 0 ? uint256(-hash) : uint256(hash);
+        
+        string memory color = string.concat("hsl(", (absHash % 360).toString(), ", 70%, 60%)");
+        return string.concat(_header(color), _pattern(absHash % 5 + 3, uint256(50 + hash % 30)), _footer(id));
+    }
+    
+    /**
+     * @dev Hashes a string like `((acc << 5) - acc + charCode) | 0` in JavaScript
+     * @param value The string to hash
+     * @return int256 The hash as a signed 32-bit value
+     */
+    function _hash(string memory value) private pure returns (int256) {
+        bytes memory chars = bytes(value);
+        uint32 acc;
+        unchecked {
+            for (uint256 i = 0; i < chars.length; i++) {
+                acc = acc * 31 + uint8(chars[i]);
+            }
+        }
+        return int256(int32(acc));
+    }
+    
+    /**
+     * @dev Renders the SVG opening tag, gradient and background
+     * @param color The CSS color of the background gradient
+     * @return string The SVG markup up to the pattern
+     */
+    function _header(string memory color) private pure returns (string memory) {
+        return string.concat(
+            '<svg \n        width="500" \n        height="500" \n        viewBox="0 0 500 500" \n'
+            '        xmlns="http://www.w3.org/2000/svg"\n        preserveAspectRatio="xMidYMid meet"\n      >\n'
+            '        <defs>\n          <linearGradient id="grad" x1="0%" y1="0%" x2="100%" y2="100%">\n'
+            '            <stop offset="0%" style="stop-color:',
+            color,
+            ';stop-opacity:1" />\n            <stop offset="100%" style="stop-color:',
+            color,
+            ';stop-opacity:0.7" />\n          </linearGradient>\n        </defs>\n        \n'
+            '        <!-- Background -->\n        <rect width="100%" height="100%" fill="url(#grad)"/>\n        \n'
+            "        <!-- Pattern -->\n        "
+        );
+    }
+    
+    /**
+     * @dev Renders `count` circles of radius `radius` evenly spaced around the center
+     * @param count The number of circles, between 3 and 7
+     * @param radius The radius of every circle
+     * @return pattern The SVG markup of the circles
+     */
+    function _pattern(uint256 count, uint256 radius) private pure returns (string memory pattern) {
+        string memory r = radius.toString();
+        for (uint256 i = 0; i < count; i++) {
+            (string memory cx, string memory cy) = _center(count, i);
+            pattern = string.concat(
+                pattern,
+                '\n      <circle \n        cx="',
+                cx,
+                '" \n        cy="',
+                cy,
+                '" \n        r="',
+                r,
+                '" \n        fill="rgba(255,255,255,0.2)"\n      />\n    '
+            );
+        }
+    }
+    
+    /**
+     * @dev Renders the token ID label and closes the SVG
+     * @param id The decimal token ID
+     * @return string The SVG markup after the pattern
+     */
+    function _footer(string memory id) private pure returns (string memory) {
+        return string.concat(
+            "\n        \n        <!-- Token ID -->\n        <text \n          x=\"50%\" \n          y=\"50%\" \n"
+            '          dominant-baseline="middle" \n          text-anchor="middle" \n'
+            '          font-family="Arial, sans-serif" \n          font-size="48" \n'
+            '          font-weight="bold" \n          fill="white"\n'
+            '          filter="drop-shadow(0 2px 4px rgba(0,0,0,0.2))"\n        >\n          #',
+            id,
+            "\n        </text>\n      </svg>"
+        );
+    }
+    
+    /**
+     * @dev Returns the center of circle `index` out of `count`
+     * Values are `250 + Math.cos(i * (2 * Math.PI / n)) * 100` and the matching
+     * `Math.sin` formula, formatted exactly as JavaScript prints them
+     * @param count The number of circles, between 3 and 7
+     * @param index The circle to look up
+     * @return cx The x coordinate
+     * @return cy The y coordinate
+     */
+    function _center(uint256 count, uint256 index) private pure returns (string memory cx, string memory cy) {
+        string[25] memory xs = [
+            string("350"), "200.00000000000003", "199.99999999999994",
+            "350", "250", "150", "249.99999999999997",
+            "350", "280.90169943749476", "169.09830056250527", "169.09830056250524", "280.9016994374947",
+            "350", "300", "200.00000000000003", "150", "199.99999999999994", "299.99999999999994",
+            "350", "312.34898018587336", "227.74790660436855", "159.9031132097581", "159.9031132097581",
+            "227.74790660436855", "312.34898018587336"
+        ];
+        string[25] memory ys = [
+            string("250"), "336.6025403784439", "163.39745962155615",
+            "250", "350", "250", "150",
+            "250", "345.10565162951536", "308.7785252292473", "191.2214747707527", "154.89434837048464",
+            "250", "336.60254037844385", "336.6025403784439", "250", "163.39745962155615", "163.3974596215561",
+            "250", "328.183148246803", "347.49279121818233", "293.3883739117558", "206.6116260882442",
+            "152.50720878181764", "171.816851753197"
+        ];
+        // Layouts for 3, 4, 5, 6 and 7 circles are stored back to back
+        uint256 offset = (count - 3) * (count + 2) / 2;
+        return (xs[offset + index], ys[offset + index]);
+    }
+    
+    /**
+     * @dev Escapes a string for use inside a JSON string
+     * Quotes, backslashes, newlines, carriage returns and tabs get their short
+     * escapes, and other control characters are written as `\u00XX`
+     * @param value The string to escape
+     * @return string The escaped string
+     */
+    function _escapeJSON(string memory value) private pure returns (string memory) {
+        bytes memory input = bytes(value);
+        uint256 length = input.length;
+        for (uint256 i = 0; i < input.length; i++) {
+            bytes1 char = input[i];
+            if (char == '"' || char == "\\" || char == "\n" || char == "\r" || char == "\t") {
+                length += 1;
+            } else if (uint8(char) < 0x20) {
+                length += 5;
+            }
+        }
+        if (length == input.length) return value;
+        
+        bytes16 hexDigits = "0123456789abcdef";
+        bytes memory output = new bytes(length);
+        uint256 j;
+        for (uint256 i = 0; i < input.length; i++) {
+            bytes1 char = input[i];
+            if (char == '"' || char == "\\") {
+                output[j++] = "\\";
+                output[j++] = char;
+            } else if (char == "\n") {
+                output[j++] = "\\";
+                output[j++] = "n";
+            } else if (char == "\r") {
+                output[j++] = "\\";
+                output[j++] = "r";
+            } else if (char == "\t") {
+                output[j++] = "\\";
+                output[j++] = "t";
+            } else if (uint8(char) < 0x20) {
+                output[j++] = "\\";
+                output[j++] = "u";
+                output[j++] = "0";
+                output[j++] = "0";
+                output[j++] = hexDigits[uint8(char) >> 4];
+                output[j++] = hexDigits[uint8(char) & 0x0f];
+            } else {
+                output[j++] = char;
+            }
+        }
+        return string(output);
+    }
+}
@@ -0,0 +1,57 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+/**
+ * @title SimpleNFTUpgradeable
+ * @dev A SimpleNFT collection that lives behind an ERC1967 proxy and can be
+ * upgraded by its owner.
+ *
+ * Features:
+ * - Every SimpleNFT feature, with the same initializer arguments
+ * - UUPS upgrades authorized by the contract owner
+ * - Implementation contract locked against initialization
+ *
+ * Storage is inherited from SimpleNFT, whose initializer state lives in the
+ * namespaced ERC7201 slot. SimpleNFT ends its own state with a reserved gap, so
+ * it can gain state without shifting the variables of later versions. New
+ * versions must inherit from the previous version and only append state
+ * variables, and any setup they need belongs in a `reinitializer` passed to
+ * `upgradeToAndCall`. scripts/upgrade.ts validates each new layout against the
+ * one recorded for the proxy before upgrading.
+ *
+ * If ownership is renounced the collection can no longer be upgraded.
+ */
+
+import "@openzeppelin/contracts/proxy/utils/UUPSUpgradeable.sol";
+// Imported so the proxy is compiled for the deploy scripts
+import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
+import "./SimpleNFT.sol";
+
+contract SimpleNFTUpgradeable is SimpleNFT, UUPSUpgradeable {
+    /**
+     * @dev Constructor deploys a locked implementation for proxies to delegate to
+     * The arguments only set up the implementation's own storage, which proxies never read
+     * @param name_ The name of the implementation
+     * @param symbol_ The symbol of the implementation
+     * @param initialOwner The address that will own the implementation
+     */
+    constructor(
+        string memory name_,
+        string memory symbol_,
+        address initialOwner
+    ) SimpleNFT(name_, symbol_, initialOwner, 1, initialOwner, 0, bytes32(0), false) {}
+
+    /**
+     * @dev Returns the initializer version the proxy has reached
+     * @return uint64 1 after `initialize`, or the version of the latest reinitializer
+     */
+    function initializedVersion() public view returns (uint64) {
+        return _getInitializedVersion();
+    }
+
+    /**
+     * @dev Authorizes an upgrade of the proxy to `newImplementation`
+     * Can only be called by the contract owner
+     */
+    function _authorizeUpgrade(address newImplementation) internal override onlyOwner {}
+}
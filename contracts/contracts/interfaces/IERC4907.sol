@@ -0,0 +1,35 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title IERC4907
+ * @dev Rental extension adding an expiring user role, see https://eips.ethereum.org/EIPS/eip-4907
+ * The ERC-165 identifier for this interface is 0xad092b5c.
+ */
+interface IERC4907 {
+    // Event emitted when the user of a token is changed or the expiry is changed
+    event UpdateUser(uint256 indexed tokenId, address indexed user, uint64 expires);
+    
+    /**
+     * @dev Sets the user and expiry of a token
+     * The zero address indicates there is no user
+     * @param tokenId The token to lend
+     * @param user The new user of the token
+     * @param expires UNIX timestamp until which `user` can use the token
+     */
+    function setUser(uint256 tokenId, address user, uint64 expires) external;
+    
+    /**
+     * @dev Returns the current user of a token
+     * @param tokenId The token to query
+     * @return address The user, or the zero address if there is none or the rental expired
+     */
+    function userOf(uint256 tokenId) external view returns (address);
+    
+    /**
+     * @dev Returns the expiry of the current user of a token
+     * @param tokenId The token to query
+     * @return uint256 The UNIX timestamp the rental ends, zero if there is no user
+     */
+    function userExpires(uint256 tokenId) external view returns (uint256);
+}
@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title IERC5192
+ * @dev Minimal soulbound token interface, see https://eips.ethereum.org/EIPS/eip-5192
+ * The ERC-165 identifier for this interface is 0xb45a3c0e.
+ */
+interface IERC5192 {
+    // Event emitted when the locking status of a token is changed to locked
+    event Locked(uint256 tokenId);
+    
+    // Event emitted when the locking status of a token is changed to unlocked
+    event Unlocked(uint256 tokenId);
+    
+    /**
+     * @dev Returns the locking status of a soulbound token
+     * Reverts if `tokenId` does not exist
+     * @param tokenId The token to query
+     * @return bool True if the token cannot be transferred
+     */
+    function locked(uint256 tokenId) external view returns (bool);
+}
@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title ITokenURIRenderer
+ * @dev Renderer contracts that SimpleNFT can delegate `tokenURI` to
+ */
+interface ITokenURIRenderer {
+    /**
+     * @dev Returns the metadata URI for a token of `collection`
+     * @param collection The NFT contract the token belongs to
+     * @param tokenId The token to render
+     * @return string The metadata URI, typically a `data:` URI
+     */
+    function tokenURI(address collection, uint256 tokenId) external view returns (string memory);
+}
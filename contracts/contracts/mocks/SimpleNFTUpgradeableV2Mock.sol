@@ -0,0 +1,36 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+/**
+ * @title SimpleNFTUpgradeableV2Mock
+ * @dev A second SimpleNFTUpgradeable version used by the tests to check that
+ * state survives an upgrade. Only for testing.
+ */
+
+import "../SimpleNFTUpgradeable.sol";
+
+contract SimpleNFTUpgradeableV2Mock is SimpleNFTUpgradeable {
+    // State added by this version, appended after all SimpleNFT storage
+    uint256 public upgradedAt;
+
+    constructor(
+        string memory name_,
+        string memory symbol_,
+        address initialOwner
+    ) SimpleNFTUpgradeable(name_, symbol_, initialOwner) {}
+
+    /**
+     * @dev Sets up the state added by this version
+     * Can only be called once, as part of the upgrade
+     */
+    function initializeV2() external reinitializer(2) {
+        upgradedAt = block.number;
+    }
+
+    /**
+     * @dev Returns the implementation version
+     */
+    function version() external pure returns (string memory) {
+        return "2";
+    }
+}
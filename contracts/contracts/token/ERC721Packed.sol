@@ -0,0 +1,159 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title ERC721Packed
+ * @dev An ERC721 extension that stores ownership lazily, in the style of ERC721A,
+ * so minting a run of sequential tokens costs a handful of storage writes instead
+ * of one per token.
+ *
+ * Features:
+ * - Batch mints write one ownership record per `OWNERSHIP_STRIDE` tokens
+ * - Owners of tokens without a record are found by scanning back to the nearest record
+ * - Transfers and burns keep the following token's implied owner explicit
+ * - Balances, approvals and transfer checks behave exactly like OpenZeppelin's ERC721
+ *
+ * Token IDs start at 1 and must be minted in ascending order with no gaps, up to
+ * the ID returned by `_mintedTokenEnd`. The stride bounds how far a lookup scans,
+ * trading a little mint gas for predictable transfer costs.
+ */
+
+import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import "@openzeppelin/contracts/token/ERC721/utils/ERC721Utils.sol";
+
+abstract contract ERC721Packed is ERC721 {
+    // Maximum number of tokens sharing one ownership record in a batch mint
+    uint256 public constant OWNERSHIP_STRIDE = 8;
+    
+    // Flag set in the ownership record of a burned token
+    uint256 private constant _BURNED = 1 << 160;
+    
+    // Ownership records, holding the owner address and the burned flag
+    // A zero record means the owner is the one of the nearest lower record
+    mapping(uint256 => uint256) private _packedOwnerships;
+    
+    // Number of tokens held by each address
+    mapping(address => uint256) private _packedBalances;
+    
+    /**
+     * @dev Returns one past the highest token ID minted so far
+     * Tokens from 1 up to, but excluding, this ID are treated as minted
+     * @return uint256 The end of the minted token range
+     */
+    function _mintedTokenEnd() internal view virtual returns (uint256);
+    
+    /**
+     * @dev See {IERC721-balanceOf}
+     * @param owner The address to query
+     * @return uint256 The number of tokens held by `owner`
+     */
+    function balanceOf(address owner) public view virtual override returns (uint256) {
+        if (owner == address(0)) revert ERC721InvalidOwner(address(0));
+        return _packedBalances[owner];
+    }
+    
+    /**
+     * @dev Returns the owner of `tokenId`, scanning back to the nearest ownership record
+     * Does not revert if the token does not exist
+     * @param tokenId The token to query
+     * @return address The owner, or zero if the token was never minted or has been burned
+     */
+    function _ownerOf(uint256 tokenId) internal view virtual override returns (address) {
+        if (tokenId == 0 || tokenId >= _mintedTokenEnd()) return address(0);
+        
+        uint256 packed = _packedOwnerships[tokenId];
+        if (packed & _BURNED != 0) return address(0);
+        while (packed == 0) {
+            packed = _packedOwnerships[--tokenId];
+        }
+        return address(uint160(packed));
+    }
+    
+    /**
+     * @dev See {ERC721-_increaseBalance}
+     */
+    function _increaseBalance(address account, uint128 value) internal virtual override {
+        unchecked {
+            _packedBalances[account] += value;
+        }
+    }
+    
+    /**
+     * @dev Transfers, mints or burns `tokenId` like {ERC721-_update}
+     * Before the token's record changes, the next token's owner is written out
+     * if it was only implied by this record
+     */
+    function _update(address to, uint256 tokenId, address auth) internal virtual override returns (address) {
+        address from = _ownerOf(tokenId);
+        
+        if (auth != address(0)) {
+            _checkAuthorized(from, auth, tokenId);
+        }
+        
+        if (from != address(0)) {
+            // Clear approval. No need to re-authorize or emit the Approval event
+            _approve(address(0), tokenId, address(0), false);
+            
+            unchecked {
+                _packedBalances[from] -= 1;
+            }
+            
+            uint256 nextTokenId = tokenId + 1;
+            if (_packedOwnerships[nextTokenId] == 0 && nextTokenId < _mintedTokenEnd()) {
+                _packedOwnerships[nextTokenId] = uint160(from);
+            }
+        }
+        
+        if (to != address(0)) {
+            unchecked {
+                _packedBalances[to] += 1;
+            }
+            _packedOwnerships[tokenId] = uint160(to);
+        } else {
+            _packedOwnerships[tokenId] = _BURNED;
+        }
+        
+        emit Transfer(from, to, tokenId);
+        
+        return from;
+    }
+    
+    /**
+     * @dev Mints `quantity` tokens starting at `firstTokenId` to `to`
+     * `firstTokenId` must be the next unminted ID and the whole range must be
+     * below `_mintedTokenEnd` before this is called
+     * Emits a Transfer event for every token
+     * @param to The address receiving the tokens
+     * @param firstTokenId The first token ID to mint
+     * @param quantity The number of tokens to mint
+     */
+    function _mintBatch(address to, uint256 firstTokenId, uint256 quantity) internal virtual {
+        if (to == address(0)) revert ERC721InvalidReceiver(address(0));
+        
+        unchecked {
+            _packedBalances[to] += quantity;
+        }
+        for (uint256 i = 0; i < quantity; i++) {
+            if (i % OWNERSHIP_STRIDE == 0) {
+                _packedOwnerships[firstTokenId + i] = uint160(to);
+            }
+            emit Transfer(address(0), to, firstTokenId + i);
+        }
+    }
+    
+    /**
+     * @dev Same as `_mintBatch`, then checks that a contract `to` accepts every token
+     * @param to The address receiving the tokens
+     * @param firstTokenId The first token ID to mint
+     * @param quantity The number of tokens to mint
+     */
+    function _safeMintBatch(address to, uint256 firstTokenId, uint256 quantity) internal virtual {
+        _mintBatch(to, firstTokenId, quantity);
+        
+        if (to.code.length > 0) {
+            for (uint256 i = 0; i < quantity; i++) {
+                ERC721Utils.checkOnERC721Received(_msgSender(), address(0), to, firstTokenId + i, "");
+            }
+        }
+    }
+}
@@ -1,4 +1,9 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+import type * as extensions from "./extensions";
+export type { extensions };
+export type { AccessControl } from "./AccessControl";
+export type { IAccessControl } from "./IAccessControl";
 export type { Ownable } from "./Ownable";
+export type { Ownable2Step } from "./Ownable2Step";
@@ -1,6 +1,11 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+import type * as draftIerc1822Sol from "./draft-IERC1822.sol";
+export type { draftIerc1822Sol };
 import type * as draftIerc6093Sol from "./draft-IERC6093.sol";
 export type { draftIerc6093Sol };
+export type { IERC1967 } from "./IERC1967";
+export type { IERC2981 } from "./IERC2981";
 export type { IERC4906 } from "./IERC4906";
+export type { IERC5267 } from "./IERC5267";
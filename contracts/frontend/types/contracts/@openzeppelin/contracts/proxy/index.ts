@@ -0,0 +1,11 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type * as erc1967 from "./ERC1967";
+export type { erc1967 };
+import type * as beacon from "./beacon";
+export type { beacon };
+import type * as utils from "./utils";
+export type { utils };
+export type { Clones } from "./Clones";
+export type { Proxy } from "./Proxy";
@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { ERC1155Burnable } from "./ERC1155Burnable";
+export type { ERC1155Supply } from "./ERC1155Supply";
+export type { IERC1155MetadataURI } from "./IERC1155MetadataURI";
@@ -1,4 +1,6 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export type { ERC721Burnable } from "./ERC721Burnable";
+export type { ERC721Pausable } from "./ERC721Pausable";
 export type { IERC721Metadata } from "./IERC721Metadata";
@@ -1,5 +1,9 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+import type * as erc1155 from "./ERC1155";
+export type { erc1155 };
 import type * as erc721 from "./ERC721";
 export type { erc721 };
+import type * as common from "./common";
+export type { common };
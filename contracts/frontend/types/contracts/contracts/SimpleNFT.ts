@@ -23,30 +23,122 @@ import type {
   TypedContractMethod,
 } from "../common";
 
+export declare namespace SimpleNFT {
+  export type MintVoucherStruct = {
+    recipient: AddressLike;
+    uri: string;
+    price: BigNumberish;
+    expiry: BigNumberish;
+    nonce: BigNumberish;
+  };
+
+  export type MintVoucherStructOutput = [
+    recipient: string,
+    uri: string,
+    price: bigint,
+    expiry: bigint,
+    nonce: bigint
+  ] & {
+    recipient: string;
+    uri: string;
+    price: bigint;
+    expiry: bigint;
+    nonce: bigint;
+  };
+}
+
 export interface SimpleNFTInterface extends Interface {
   getFunction(
     nameOrSignature:
+      | "DEFAULT_ADMIN_ROLE"
+      | "METADATA_ROLE"
+      | "MINTER_ROLE"
+      | "VOUCHER_SIGNER_ROLE"
+      | "acceptOwnership"
+      | "airdrop"
+      | "allowlistClaimed"
+      | "allowlistMint"
       | "approve"
       | "balanceOf"
+      | "burn"
+      | "contractURI"
+      | "deleteDefaultRoyalty"
+      | "eip712Domain"
+      | "emitPermanentURIs"
       | "freezeMetadata"
+      | "freezeToken"
       | "getApproved"
+      | "getRoleAdmin"
+      | "getRoleMember"
+      | "getRoleMemberCount"
+      | "getRoleMembers"
+      | "grantRole"
+      | "hasRole"
+      | "initialize"
       | "isApprovedForAll"
       | "isMetadataFrozen"
+      | "isRevealed"
+      | "isSaleActive"
+      | "isTokenFrozen"
+      | "locked"
+      | "maxPerWallet"
+      | "maxSupply"
+      | "merkleRoot"
       | "mint"
+      | "mintBatch"
+      | "mintMode"
+      | "mintPrice"
       | "name"
+      | "notRevealedURI"
       | "owner"
       | "ownerOf"
+      | "pause"
+      | "paused"
+      | "pendingOwner"
+      | "provenanceHash"
+      | "redeem"
+      | "remainingMints"
+      | "remainingSupply"
+      | "renderer"
       | "renounceOwnership"
+      | "renounceRole"
+      | "resetTokenRoyalty"
+      | "reveal"
+      | "revokeRole"
+      | "royaltyInfo"
       | "safeTransferFrom(address,address,uint256)"
       | "safeTransferFrom(address,address,uint256,bytes)"
+      | "saleEnd"
+      | "saleStart"
       | "setApprovalForAll"
       | "setBaseURI"
+      | "setContractURI"
+      | "setDefaultRoyalty"
+      | "setMaxPerWallet"
+      | "setMerkleRoot"
+      | "setMintMode"
+      | "setMintPrice"
+      | "setNotRevealedURI"
+      | "setRenderer"
+      | "setSaleWindow"
+      | "setTokenRoyalty"
+      | "setTokenURI"
+      | "setUser"
+      | "soulbound"
       | "supportsInterface"
       | "symbol"
       | "tokenURI"
+      | "tokensOfOwner"
+      | "totalMinted"
       | "totalSupply"
       | "transferFrom"
       | "transferOwnership"
+      | "unpause"
+      | "userExpires"
+      | "userOf"
+      | "voucherRedeemed"
+      | "walletMints"
+      | "withdraw"
   ): FunctionFragment;
 
   getEvent(
@@ -54,12 +146,67 @@ export interface SimpleNFTInterface extends Interface {
       | "Approval"
       | "ApprovalForAll"
       | "BatchMetadataUpdate"
+      | "ContractURIUpdated"
+      | "DefaultRoyaltyUpdated"
+      | "EIP712DomainChanged"
+      | "Initialized"
+      | "Locked"
+      | "MaxPerWalletUpdated"
+      | "MerkleRootUpdated"
       | "MetadataUpdate"
+      | "MintModeUpdated"
+      | "MintPriceUpdated"
+      | "OwnershipTransferStarted"
       | "OwnershipTransferred"
+      | "Paused"
       | "PermanentURI"
+      | "RendererUpdated"
+      | "Revealed"
+      | "RoleAdminChanged"
+      | "RoleGranted"
+      | "RoleRevoked"
+      | "SaleWindowUpdated"
+      | "TokenRoyaltyUpdated"
       | "Transfer"
+      | "Unlocked"
+      | "Unpaused"
+      | "UpdateUser"
+      | "VoucherRedeemed"
+      | "Withdrawn"
   ): EventFragment;
 
+  encodeFunctionData(
+    functionFragment: "DEFAULT_ADMIN_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "METADATA_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MINTER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "VOUCHER_SIGNER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "acceptOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "airdrop",
+    values: [AddressLike[], BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "allowlistClaimed",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "allowlistMint",
+    values: [BytesLike[]]
+  ): string;
   encodeFunctionData(
     functionFragment: "approve",
     values: [AddressLike, BigNumberish]
@@ -68,14 +215,72 @@ export interface SimpleNFTInterface extends Interface {
     functionFragment: "balanceOf",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(functionFragment: "burn", values: [BigNumberish]): string;
+  encodeFunctionData(
+    functionFragment: "contractURI",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "deleteDefaultRoyalty",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "eip712Domain",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "emitPermanentURIs",
+    values: [BigNumberish, BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "freezeMetadata",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "freezeToken",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "getApproved",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "getRoleAdmin",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRoleMember",
+    values: [BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRoleMemberCount",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRoleMembers",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "initialize",
+    values: [
+      string,
+      string,
+      AddressLike,
+      BigNumberish,
+      AddressLike,
+      BigNumberish,
+      BytesLike,
+      boolean
+    ]
+  ): string;
   encodeFunctionData(
     functionFragment: "isApprovedForAll",
     values: [AddressLike, AddressLike]
@@ -84,17 +289,92 @@ export interface SimpleNFTInterface extends Interface {
     functionFragment: "isMetadataFrozen",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "isRevealed",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isSaleActive",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isTokenFrozen",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "locked",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "maxPerWallet",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "maxSupply", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "merkleRoot",
+    values?: undefined
+  ): string;
   encodeFunctionData(functionFragment: "mint", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "mintBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "mintMode", values?: undefined): string;
+  encodeFunctionData(functionFragment: "mintPrice", values?: undefined): string;
   encodeFunctionData(functionFragment: "name", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "notRevealedURI",
+    values?: undefined
+  ): string;
   encodeFunctionData(functionFragment: "owner", values?: undefined): string;
   encodeFunctionData(
     functionFragment: "ownerOf",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(functionFragment: "pause", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pendingOwner",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "provenanceHash",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "redeem",
+    values: [SimpleNFT.MintVoucherStruct, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "remainingMints",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "remainingSupply",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "renderer", values?: undefined): string;
   encodeFunctionData(
     functionFragment: "renounceOwnership",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "renounceRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "resetTokenRoyalty",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "reveal", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "revokeRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "royaltyInfo",
+    values: [BigNumberish, BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "safeTransferFrom(address,address,uint256)",
     values: [AddressLike, AddressLike, BigNumberish]
@@ -103,11 +383,62 @@ export interface SimpleNFTInterface extends Interface {
     functionFragment: "safeTransferFrom(address,address,uint256,bytes)",
     values: [AddressLike, AddressLike, BigNumberish, BytesLike]
   ): string;
+  encodeFunctionData(functionFragment: "saleEnd", values?: undefined): string;
+  encodeFunctionData(functionFragment: "saleStart", values?: undefined): string;
   encodeFunctionData(
     functionFragment: "setApprovalForAll",
     values: [AddressLike, boolean]
   ): string;
   encodeFunctionData(functionFragment: "setBaseURI", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "setContractURI",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDefaultRoyalty",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMaxPerWallet",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMerkleRoot",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMintMode",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMintPrice",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setNotRevealedURI",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setRenderer",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setSaleWindow",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTokenRoyalty",
+    values: [BigNumberish, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTokenURI",
+    values: [BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setUser",
+    values: [BigNumberish, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "soulbound", values?: undefined): string;
   encodeFunctionData(
     functionFragment: "supportsInterface",
     values: [BytesLike]
@@ -117,6 +448,14 @@ export interface SimpleNFTInterface extends Interface {
     functionFragment: "tokenURI",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "tokensOfOwner",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalMinted",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "totalSupply",
     values?: undefined
@@ -129,17 +468,107 @@ export interface SimpleNFTInterface extends Interface {
     functionFragment: "transferOwnership",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(functionFragment: "unpause", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "userExpires",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "userOf",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "voucherRedeemed",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "walletMints",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdraw",
+    values: [AddressLike]
+  ): string;
 
+  decodeFunctionResult(
+    functionFragment: "DEFAULT_ADMIN_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "METADATA_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MINTER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "VOUCHER_SIGNER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "acceptOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "airdrop", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "allowlistClaimed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "allowlistMint",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "approve", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "balanceOf", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "burn", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "contractURI",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "deleteDefaultRoyalty",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "eip712Domain",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "emitPermanentURIs",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "freezeMetadata",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "freezeToken",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "getApproved",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRoleAdmin",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRoleMember",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRoleMemberCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRoleMembers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "grantRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "initialize", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "isApprovedForAll",
     data: BytesLike
@@ -148,14 +577,71 @@ export interface SimpleNFTInterface extends Interface {
     functionFragment: "isMetadataFrozen",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "isRevealed", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isSaleActive",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isTokenFrozen",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "locked", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "maxPerWallet",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "maxSupply", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "merkleRoot", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "mint", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "mintBatch", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "mintMode", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "mintPrice", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "name", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "notRevealedURI",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "ownerOf", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "pause", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingOwner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "provenanceHash",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "redeem", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "remainingMints",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "remainingSupply",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "renderer", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "renounceOwnership",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceRole",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "resetTokenRoyalty",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "reveal", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "revokeRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "royaltyInfo",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "safeTransferFrom(address,address,uint256)",
     data: BytesLike
@@ -164,17 +650,73 @@ export interface SimpleNFTInterface extends Interface {
     functionFragment: "safeTransferFrom(address,address,uint256,bytes)",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "saleEnd", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "saleStart", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "setApprovalForAll",
     data: BytesLike
   ): Result;
   decodeFunctionResult(functionFragment: "setBaseURI", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setContractURI",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setDefaultRoyalty",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMaxPerWallet",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMerkleRoot",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMintMode",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMintPrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setNotRevealedURI",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setRenderer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setSaleWindow",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setTokenRoyalty",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setTokenURI",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setUser", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "soulbound", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "supportsInterface",
     data: BytesLike
   ): Result;
   decodeFunctionResult(functionFragment: "symbol", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "tokenURI", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "tokensOfOwner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "totalMinted",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "totalSupply",
     data: BytesLike
@@ -187,6 +729,21 @@ export interface SimpleNFTInterface extends Interface {
     functionFragment: "transferOwnership",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "unpause", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "userExpires",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "userOf", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "voucherRedeemed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "walletMints",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "withdraw", data: BytesLike): Result;
 }
 
 export namespace ApprovalEvent {
@@ -197,9 +754,311 @@ export namespace ApprovalEvent {
   ];
   export type OutputTuple = [owner: string, approved: string, tokenId: bigint];
   export interface OutputObject {
-    owner: string;
-    approved: string;
-    tokenId: bigint;
+    owner: string;
+    approved: string;
+    tokenId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ApprovalForAllEvent {
+  export type InputTuple = [
+    owner: AddressLike,
+    operator: AddressLike,
+    approved: boolean
+  ];
+  export type OutputTuple = [
+    owner: string,
+    operator: string,
+    approved: boolean
+  ];
+  export interface OutputObject {
+    owner: string;
+    operator: string;
+    approved: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchMetadataUpdateEvent {
+  export type InputTuple = [
+    _fromTokenId: BigNumberish,
+    _toTokenId: BigNumberish
+  ];
+  export type OutputTuple = [_fromTokenId: bigint, _toTokenId: bigint];
+  export interface OutputObject {
+    _fromTokenId: bigint;
+    _toTokenId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ContractURIUpdatedEvent {
+  export type InputTuple = [];
+  export type OutputTuple = [];
+  export interface OutputObject {}
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DefaultRoyaltyUpdatedEvent {
+  export type InputTuple = [receiver: AddressLike, feeNumerator: BigNumberish];
+  export type OutputTuple = [receiver: string, feeNumerator: bigint];
+  export interface OutputObject {
+    receiver: string;
+    feeNumerator: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EIP712DomainChangedEvent {
+  export type InputTuple = [];
+  export type OutputTuple = [];
+  export interface OutputObject {}
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace InitializedEvent {
+  export type InputTuple = [version: BigNumberish];
+  export type OutputTuple = [version: bigint];
+  export interface OutputObject {
+    version: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace LockedEvent {
+  export type InputTuple = [tokenId: BigNumberish];
+  export type OutputTuple = [tokenId: bigint];
+  export interface OutputObject {
+    tokenId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MaxPerWalletUpdatedEvent {
+  export type InputTuple = [maxPerWallet: BigNumberish];
+  export type OutputTuple = [maxPerWallet: bigint];
+  export interface OutputObject {
+    maxPerWallet: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MerkleRootUpdatedEvent {
+  export type InputTuple = [merkleRoot: BytesLike];
+  export type OutputTuple = [merkleRoot: string];
+  export interface OutputObject {
+    merkleRoot: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MetadataUpdateEvent {
+  export type InputTuple = [_tokenId: BigNumberish];
+  export type OutputTuple = [_tokenId: bigint];
+  export interface OutputObject {
+    _tokenId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MintModeUpdatedEvent {
+  export type InputTuple = [mode: BigNumberish];
+  export type OutputTuple = [mode: bigint];
+  export interface OutputObject {
+    mode: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MintPriceUpdatedEvent {
+  export type InputTuple = [oldPrice: BigNumberish, newPrice: BigNumberish];
+  export type OutputTuple = [oldPrice: bigint, newPrice: bigint];
+  export interface OutputObject {
+    oldPrice: bigint;
+    newPrice: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferStartedEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PermanentURIEvent {
+  export type InputTuple = [_value: string, _id: BigNumberish];
+  export type OutputTuple = [_value: string, _id: bigint];
+  export interface OutputObject {
+    _value: string;
+    _id: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RendererUpdatedEvent {
+  export type InputTuple = [renderer: AddressLike];
+  export type OutputTuple = [renderer: string];
+  export interface OutputObject {
+    renderer: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RevealedEvent {
+  export type InputTuple = [baseURI: string];
+  export type OutputTuple = [baseURI: string];
+  export interface OutputObject {
+    baseURI: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleAdminChangedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    previousAdminRole: BytesLike,
+    newAdminRole: BytesLike
+  ];
+  export type OutputTuple = [
+    role: string,
+    previousAdminRole: string,
+    newAdminRole: string
+  ];
+  export interface OutputObject {
+    role: string;
+    previousAdminRole: string;
+    newAdminRole: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleGrantedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleRevokedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SaleWindowUpdatedEvent {
+  export type InputTuple = [saleStart: BigNumberish, saleEnd: BigNumberish];
+  export type OutputTuple = [saleStart: bigint, saleEnd: bigint];
+  export interface OutputObject {
+    saleStart: bigint;
+    saleEnd: bigint;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -207,21 +1066,21 @@ export namespace ApprovalEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
-export namespace ApprovalForAllEvent {
+export namespace TokenRoyaltyUpdatedEvent {
   export type InputTuple = [
-    owner: AddressLike,
-    operator: AddressLike,
-    approved: boolean
+    tokenId: BigNumberish,
+    receiver: AddressLike,
+    feeNumerator: BigNumberish
   ];
   export type OutputTuple = [
-    owner: string,
-    operator: string,
-    approved: boolean
+    tokenId: bigint,
+    receiver: string,
+    feeNumerator: bigint
   ];
   export interface OutputObject {
-    owner: string;
-    operator: string;
-    approved: boolean;
+    tokenId: bigint;
+    receiver: string;
+    feeNumerator: bigint;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -229,15 +1088,17 @@ export namespace ApprovalForAllEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
-export namespace BatchMetadataUpdateEvent {
+export namespace TransferEvent {
   export type InputTuple = [
-    _fromTokenId: BigNumberish,
-    _toTokenId: BigNumberish
+    from: AddressLike,
+    to: AddressLike,
+    tokenId: BigNumberish
   ];
-  export type OutputTuple = [_fromTokenId: bigint, _toTokenId: bigint];
+  export type OutputTuple = [from: string, to: string, tokenId: bigint];
   export interface OutputObject {
-    _fromTokenId: bigint;
-    _toTokenId: bigint;
+    from: string;
+    to: string;
+    tokenId: bigint;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -245,11 +1106,11 @@ export namespace BatchMetadataUpdateEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
-export namespace MetadataUpdateEvent {
-  export type InputTuple = [_tokenId: BigNumberish];
-  export type OutputTuple = [_tokenId: bigint];
+export namespace UnlockedEvent {
+  export type InputTuple = [tokenId: BigNumberish];
+  export type OutputTuple = [tokenId: bigint];
   export interface OutputObject {
-    _tokenId: bigint;
+    tokenId: bigint;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -257,12 +1118,11 @@ export namespace MetadataUpdateEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
-export namespace OwnershipTransferredEvent {
-  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
-  export type OutputTuple = [previousOwner: string, newOwner: string];
+export namespace UnpausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
   export interface OutputObject {
-    previousOwner: string;
-    newOwner: string;
+    account: string;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -270,12 +1130,17 @@ export namespace OwnershipTransferredEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
-export namespace PermanentURIEvent {
-  export type InputTuple = [_value: string, _id: BigNumberish];
-  export type OutputTuple = [_value: string, _id: bigint];
+export namespace UpdateUserEvent {
+  export type InputTuple = [
+    tokenId: BigNumberish,
+    user: AddressLike,
+    expires: BigNumberish
+  ];
+  export type OutputTuple = [tokenId: bigint, user: string, expires: bigint];
   export interface OutputObject {
-    _value: string;
-    _id: bigint;
+    tokenId: bigint;
+    user: string;
+    expires: bigint;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -283,17 +1148,30 @@ export namespace PermanentURIEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
-export namespace TransferEvent {
+export namespace VoucherRedeemedEvent {
   export type InputTuple = [
-    from: AddressLike,
-    to: AddressLike,
-    tokenId: BigNumberish
+    nonce: BigNumberish,
+    tokenId: BigNumberish,
+    recipient: AddressLike
   ];
-  export type OutputTuple = [from: string, to: string, tokenId: bigint];
+  export type OutputTuple = [nonce: bigint, tokenId: bigint, recipient: string];
   export interface OutputObject {
-    from: string;
-    to: string;
+    nonce: bigint;
     tokenId: bigint;
+    recipient: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WithdrawnEvent {
+  export type InputTuple = [to: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [to: string, amount: bigint];
+  export interface OutputObject {
+    to: string;
+    amount: bigint;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -344,6 +1222,26 @@ export interface SimpleNFT extends BaseContract {
     event?: TCEvent
   ): Promise<this>;
 
+  DEFAULT_ADMIN_ROLE: TypedContractMethod<[], [string], "view">;
+
+  METADATA_ROLE: TypedContractMethod<[], [string], "view">;
+
+  MINTER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  VOUCHER_SIGNER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  acceptOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  airdrop: TypedContractMethod<
+    [recipients: AddressLike[], quantities: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+
+  allowlistClaimed: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  allowlistMint: TypedContractMethod<[proof: BytesLike[]], [bigint], "payable">;
+
   approve: TypedContractMethod<
     [to: AddressLike, tokenId: BigNumberish],
     [void],
@@ -352,10 +1250,83 @@ export interface SimpleNFT extends BaseContract {
 
   balanceOf: TypedContractMethod<[owner: AddressLike], [bigint], "view">;
 
+  burn: TypedContractMethod<[tokenId: BigNumberish], [void], "nonpayable">;
+
+  contractURI: TypedContractMethod<[], [string], "view">;
+
+  deleteDefaultRoyalty: TypedContractMethod<[], [void], "nonpayable">;
+
+  eip712Domain: TypedContractMethod<
+    [],
+    [
+      [string, string, string, bigint, string, string, bigint[]] & {
+        fields: string;
+        name: string;
+        version: string;
+        chainId: bigint;
+        verifyingContract: string;
+        salt: string;
+        extensions: bigint[];
+      }
+    ],
+    "view"
+  >;
+
+  emitPermanentURIs: TypedContractMethod<
+    [fromId: BigNumberish, toId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
   freezeMetadata: TypedContractMethod<[], [void], "nonpayable">;
 
+  freezeToken: TypedContractMethod<
+    [tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
   getApproved: TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
 
+  getRoleAdmin: TypedContractMethod<[role: BytesLike], [string], "view">;
+
+  getRoleMember: TypedContractMethod<
+    [role: BytesLike, index: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  getRoleMemberCount: TypedContractMethod<[role: BytesLike], [bigint], "view">;
+
+  getRoleMembers: TypedContractMethod<[role: BytesLike], [string[]], "view">;
+
+  grantRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  hasRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  initialize: TypedContractMethod<
+    [
+      name_: string,
+      symbol_: string,
+      initialOwner: AddressLike,
+      maxSupply_: BigNumberish,
+      royaltyReceiver: AddressLike,
+      royaltyFeeNumerator: BigNumberish,
+      provenanceHash_: BytesLike,
+      soulbound_: boolean
+    ],
+    [void],
+    "nonpayable"
+  >;
+
   isApprovedForAll: TypedContractMethod<
     [owner: AddressLike, operator: AddressLike],
     [boolean],
@@ -364,16 +1335,88 @@ export interface SimpleNFT extends BaseContract {
 
   isMetadataFrozen: TypedContractMethod<[], [boolean], "view">;
 
-  mint: TypedContractMethod<[], [bigint], "nonpayable">;
+  isRevealed: TypedContractMethod<[], [boolean], "view">;
+
+  isSaleActive: TypedContractMethod<[], [boolean], "view">;
+
+  isTokenFrozen: TypedContractMethod<
+    [tokenId: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  locked: TypedContractMethod<[tokenId: BigNumberish], [boolean], "view">;
+
+  maxPerWallet: TypedContractMethod<[], [bigint], "view">;
+
+  maxSupply: TypedContractMethod<[], [bigint], "view">;
+
+  merkleRoot: TypedContractMethod<[], [string], "view">;
+
+  mint: TypedContractMethod<[], [bigint], "payable">;
+
+  mintBatch: TypedContractMethod<[quantity: BigNumberish], [bigint], "payable">;
+
+  mintMode: TypedContractMethod<[], [bigint], "view">;
+
+  mintPrice: TypedContractMethod<[], [bigint], "view">;
 
   name: TypedContractMethod<[], [string], "view">;
 
+  notRevealedURI: TypedContractMethod<[], [string], "view">;
+
   owner: TypedContractMethod<[], [string], "view">;
 
   ownerOf: TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
 
+  pause: TypedContractMethod<[], [void], "nonpayable">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  pendingOwner: TypedContractMethod<[], [string], "view">;
+
+  provenanceHash: TypedContractMethod<[], [string], "view">;
+
+  redeem: TypedContractMethod<
+    [voucher: SimpleNFT.MintVoucherStruct, signature: BytesLike],
+    [bigint],
+    "payable"
+  >;
+
+  remainingMints: TypedContractMethod<[account: AddressLike], [bigint], "view">;
+
+  remainingSupply: TypedContractMethod<[], [bigint], "view">;
+
+  renderer: TypedContractMethod<[], [string], "view">;
+
   renounceOwnership: TypedContractMethod<[], [void], "nonpayable">;
 
+  renounceRole: TypedContractMethod<
+    [role: BytesLike, callerConfirmation: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  resetTokenRoyalty: TypedContractMethod<
+    [tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  reveal: TypedContractMethod<[baseURI: string], [void], "nonpayable">;
+
+  revokeRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  royaltyInfo: TypedContractMethod<
+    [tokenId: BigNumberish, salePrice: BigNumberish],
+    [[string, bigint] & { receiver: string; amount: bigint }],
+    "view"
+  >;
+
   "safeTransferFrom(address,address,uint256)": TypedContractMethod<
     [from: AddressLike, to: AddressLike, tokenId: BigNumberish],
     [void],
@@ -391,6 +1434,10 @@ export interface SimpleNFT extends BaseContract {
     "nonpayable"
   >;
 
+  saleEnd: TypedContractMethod<[], [bigint], "view">;
+
+  saleStart: TypedContractMethod<[], [bigint], "view">;
+
   setApprovalForAll: TypedContractMethod<
     [operator: AddressLike, approved: boolean],
     [void],
@@ -399,6 +1446,64 @@ export interface SimpleNFT extends BaseContract {
 
   setBaseURI: TypedContractMethod<[baseURI: string], [void], "nonpayable">;
 
+  setContractURI: TypedContractMethod<[uri: string], [void], "nonpayable">;
+
+  setDefaultRoyalty: TypedContractMethod<
+    [receiver: AddressLike, feeNumerator: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setMaxPerWallet: TypedContractMethod<
+    [limit: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setMerkleRoot: TypedContractMethod<[root: BytesLike], [void], "nonpayable">;
+
+  setMintMode: TypedContractMethod<[mode: BigNumberish], [void], "nonpayable">;
+
+  setMintPrice: TypedContractMethod<
+    [newPrice: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setNotRevealedURI: TypedContractMethod<[uri: string], [void], "nonpayable">;
+
+  setRenderer: TypedContractMethod<
+    [renderer_: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setSaleWindow: TypedContractMethod<
+    [start: BigNumberish, end: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setTokenRoyalty: TypedContractMethod<
+    [tokenId: BigNumberish, receiver: AddressLike, feeNumerator: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setTokenURI: TypedContractMethod<
+    [tokenId: BigNumberish, uri: string],
+    [void],
+    "nonpayable"
+  >;
+
+  setUser: TypedContractMethod<
+    [tokenId: BigNumberish, user: AddressLike, expires: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  soulbound: TypedContractMethod<[], [boolean], "view">;
+
   supportsInterface: TypedContractMethod<
     [interfaceId: BytesLike],
     [boolean],
@@ -409,6 +1514,10 @@ export interface SimpleNFT extends BaseContract {
 
   tokenURI: TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
 
+  tokensOfOwner: TypedContractMethod<[owner_: AddressLike], [bigint[]], "view">;
+
+  totalMinted: TypedContractMethod<[], [bigint], "view">;
+
   totalSupply: TypedContractMethod<[], [bigint], "view">;
 
   transferFrom: TypedContractMethod<
@@ -423,10 +1532,50 @@ export interface SimpleNFT extends BaseContract {
     "nonpayable"
   >;
 
+  unpause: TypedContractMethod<[], [void], "nonpayable">;
+
+  userExpires: TypedContractMethod<[tokenId: BigNumberish], [bigint], "view">;
+
+  userOf: TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+
+  voucherRedeemed: TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+
+  walletMints: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  withdraw: TypedContractMethod<[to: AddressLike], [void], "nonpayable">;
+
   getFunction<T extends ContractMethod = ContractMethod>(
     key: string | FunctionFragment
   ): T;
 
+  getFunction(
+    nameOrSignature: "DEFAULT_ADMIN_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "METADATA_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "MINTER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "VOUCHER_SIGNER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "acceptOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "airdrop"
+  ): TypedContractMethod<
+    [recipients: AddressLike[], quantities: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "allowlistClaimed"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "allowlistMint"
+  ): TypedContractMethod<[proof: BytesLike[]], [bigint], "payable">;
   getFunction(
     nameOrSignature: "approve"
   ): TypedContractMethod<
@@ -435,14 +1584,96 @@ export interface SimpleNFT extends BaseContract {
     "nonpayable"
   >;
   getFunction(
-    nameOrSignature: "balanceOf"
-  ): TypedContractMethod<[owner: AddressLike], [bigint], "view">;
-  getFunction(
-    nameOrSignature: "freezeMetadata"
-  ): TypedContractMethod<[], [void], "nonpayable">;
+    nameOrSignature: "balanceOf"
+  ): TypedContractMethod<[owner: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "burn"
+  ): TypedContractMethod<[tokenId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "contractURI"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "deleteDefaultRoyalty"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "eip712Domain"
+  ): TypedContractMethod<
+    [],
+    [
+      [string, string, string, bigint, string, string, bigint[]] & {
+        fields: string;
+        name: string;
+        version: string;
+        chainId: bigint;
+        verifyingContract: string;
+        salt: string;
+        extensions: bigint[];
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "emitPermanentURIs"
+  ): TypedContractMethod<
+    [fromId: BigNumberish, toId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "freezeMetadata"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "freezeToken"
+  ): TypedContractMethod<[tokenId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getApproved"
+  ): TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "getRoleAdmin"
+  ): TypedContractMethod<[role: BytesLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "getRoleMember"
+  ): TypedContractMethod<
+    [role: BytesLike, index: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRoleMemberCount"
+  ): TypedContractMethod<[role: BytesLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getRoleMembers"
+  ): TypedContractMethod<[role: BytesLike], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "grantRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "hasRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
   getFunction(
-    nameOrSignature: "getApproved"
-  ): TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+    nameOrSignature: "initialize"
+  ): TypedContractMethod<
+    [
+      name_: string,
+      symbol_: string,
+      initialOwner: AddressLike,
+      maxSupply_: BigNumberish,
+      royaltyReceiver: AddressLike,
+      royaltyFeeNumerator: BigNumberish,
+      provenanceHash_: BytesLike,
+      soulbound_: boolean
+    ],
+    [void],
+    "nonpayable"
+  >;
   getFunction(
     nameOrSignature: "isApprovedForAll"
   ): TypedContractMethod<
@@ -453,21 +1684,109 @@ export interface SimpleNFT extends BaseContract {
   getFunction(
     nameOrSignature: "isMetadataFrozen"
   ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isRevealed"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isSaleActive"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isTokenFrozen"
+  ): TypedContractMethod<[tokenId: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "locked"
+  ): TypedContractMethod<[tokenId: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "maxPerWallet"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "maxSupply"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "merkleRoot"
+  ): TypedContractMethod<[], [string], "view">;
   getFunction(
     nameOrSignature: "mint"
-  ): TypedContractMethod<[], [bigint], "nonpayable">;
+  ): TypedContractMethod<[], [bigint], "payable">;
+  getFunction(
+    nameOrSignature: "mintBatch"
+  ): TypedContractMethod<[quantity: BigNumberish], [bigint], "payable">;
+  getFunction(
+    nameOrSignature: "mintMode"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "mintPrice"
+  ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
     nameOrSignature: "name"
   ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "notRevealedURI"
+  ): TypedContractMethod<[], [string], "view">;
   getFunction(
     nameOrSignature: "owner"
   ): TypedContractMethod<[], [string], "view">;
   getFunction(
     nameOrSignature: "ownerOf"
   ): TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "pause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "pendingOwner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "provenanceHash"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "redeem"
+  ): TypedContractMethod<
+    [voucher: SimpleNFT.MintVoucherStruct, signature: BytesLike],
+    [bigint],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "remainingMints"
+  ): TypedContractMethod<[account: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "remainingSupply"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "renderer"
+  ): TypedContractMethod<[], [string], "view">;
   getFunction(
     nameOrSignature: "renounceOwnership"
   ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "renounceRole"
+  ): TypedContractMethod<
+    [role: BytesLike, callerConfirmation: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "resetTokenRoyalty"
+  ): TypedContractMethod<[tokenId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "reveal"
+  ): TypedContractMethod<[baseURI: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revokeRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "royaltyInfo"
+  ): TypedContractMethod<
+    [tokenId: BigNumberish, salePrice: BigNumberish],
+    [[string, bigint] & { receiver: string; amount: bigint }],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "safeTransferFrom(address,address,uint256)"
   ): TypedContractMethod<
@@ -487,6 +1806,12 @@ export interface SimpleNFT extends BaseContract {
     [void],
     "nonpayable"
   >;
+  getFunction(
+    nameOrSignature: "saleEnd"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "saleStart"
+  ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
     nameOrSignature: "setApprovalForAll"
   ): TypedContractMethod<
@@ -497,6 +1822,65 @@ export interface SimpleNFT extends BaseContract {
   getFunction(
     nameOrSignature: "setBaseURI"
   ): TypedContractMethod<[baseURI: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setContractURI"
+  ): TypedContractMethod<[uri: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setDefaultRoyalty"
+  ): TypedContractMethod<
+    [receiver: AddressLike, feeNumerator: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setMaxPerWallet"
+  ): TypedContractMethod<[limit: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setMerkleRoot"
+  ): TypedContractMethod<[root: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setMintMode"
+  ): TypedContractMethod<[mode: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setMintPrice"
+  ): TypedContractMethod<[newPrice: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setNotRevealedURI"
+  ): TypedContractMethod<[uri: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setRenderer"
+  ): TypedContractMethod<[renderer_: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setSaleWindow"
+  ): TypedContractMethod<
+    [start: BigNumberish, end: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setTokenRoyalty"
+  ): TypedContractMethod<
+    [tokenId: BigNumberish, receiver: AddressLike, feeNumerator: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setTokenURI"
+  ): TypedContractMethod<
+    [tokenId: BigNumberish, uri: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setUser"
+  ): TypedContractMethod<
+    [tokenId: BigNumberish, user: AddressLike, expires: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "soulbound"
+  ): TypedContractMethod<[], [boolean], "view">;
   getFunction(
     nameOrSignature: "supportsInterface"
   ): TypedContractMethod<[interfaceId: BytesLike], [boolean], "view">;
@@ -506,6 +1890,12 @@ export interface SimpleNFT extends BaseContract {
   getFunction(
     nameOrSignature: "tokenURI"
   ): TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "tokensOfOwner"
+  ): TypedContractMethod<[owner_: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "totalMinted"
+  ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
     nameOrSignature: "totalSupply"
   ): TypedContractMethod<[], [bigint], "view">;
@@ -519,6 +1909,24 @@ export interface SimpleNFT extends BaseContract {
   getFunction(
     nameOrSignature: "transferOwnership"
   ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "unpause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "userExpires"
+  ): TypedContractMethod<[tokenId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "userOf"
+  ): TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "voucherRedeemed"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "walletMints"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "withdraw"
+  ): TypedContractMethod<[to: AddressLike], [void], "nonpayable">;
 
   getEvent(
     key: "Approval"
@@ -541,6 +1949,55 @@ export interface SimpleNFT extends BaseContract {
     BatchMetadataUpdateEvent.OutputTuple,
     BatchMetadataUpdateEvent.OutputObject
   >;
+  getEvent(
+    key: "ContractURIUpdated"
+  ): TypedContractEvent<
+    ContractURIUpdatedEvent.InputTuple,
+    ContractURIUpdatedEvent.OutputTuple,
+    ContractURIUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DefaultRoyaltyUpdated"
+  ): TypedContractEvent<
+    DefaultRoyaltyUpdatedEvent.InputTuple,
+    DefaultRoyaltyUpdatedEvent.OutputTuple,
+    DefaultRoyaltyUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EIP712DomainChanged"
+  ): TypedContractEvent<
+    EIP712DomainChangedEvent.InputTuple,
+    EIP712DomainChangedEvent.OutputTuple,
+    EIP712DomainChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Initialized"
+  ): TypedContractEvent<
+    InitializedEvent.InputTuple,
+    InitializedEvent.OutputTuple,
+    InitializedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Locked"
+  ): TypedContractEvent<
+    LockedEvent.InputTuple,
+    LockedEvent.OutputTuple,
+    LockedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MaxPerWalletUpdated"
+  ): TypedContractEvent<
+    MaxPerWalletUpdatedEvent.InputTuple,
+    MaxPerWalletUpdatedEvent.OutputTuple,
+    MaxPerWalletUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MerkleRootUpdated"
+  ): TypedContractEvent<
+    MerkleRootUpdatedEvent.InputTuple,
+    MerkleRootUpdatedEvent.OutputTuple,
+    MerkleRootUpdatedEvent.OutputObject
+  >;
   getEvent(
     key: "MetadataUpdate"
   ): TypedContractEvent<
@@ -548,6 +2005,27 @@ export interface SimpleNFT extends BaseContract {
     MetadataUpdateEvent.OutputTuple,
     MetadataUpdateEvent.OutputObject
   >;
+  getEvent(
+    key: "MintModeUpdated"
+  ): TypedContractEvent<
+    MintModeUpdatedEvent.InputTuple,
+    MintModeUpdatedEvent.OutputTuple,
+    MintModeUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MintPriceUpdated"
+  ): TypedContractEvent<
+    MintPriceUpdatedEvent.InputTuple,
+    MintPriceUpdatedEvent.OutputTuple,
+    MintPriceUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferStarted"
+  ): TypedContractEvent<
+    OwnershipTransferStartedEvent.InputTuple,
+    OwnershipTransferStartedEvent.OutputTuple,
+    OwnershipTransferStartedEvent.OutputObject
+  >;
   getEvent(
     key: "OwnershipTransferred"
   ): TypedContractEvent<
@@ -555,6 +2033,13 @@ export interface SimpleNFT extends BaseContract {
     OwnershipTransferredEvent.OutputTuple,
     OwnershipTransferredEvent.OutputObject
   >;
+  getEvent(
+    key: "Paused"
+  ): TypedContractEvent<
+    PausedEvent.InputTuple,
+    PausedEvent.OutputTuple,
+    PausedEvent.OutputObject
+  >;
   getEvent(
     key: "PermanentURI"
   ): TypedContractEvent<
@@ -562,6 +2047,55 @@ export interface SimpleNFT extends BaseContract {
     PermanentURIEvent.OutputTuple,
     PermanentURIEvent.OutputObject
   >;
+  getEvent(
+    key: "RendererUpdated"
+  ): TypedContractEvent<
+    RendererUpdatedEvent.InputTuple,
+    RendererUpdatedEvent.OutputTuple,
+    RendererUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Revealed"
+  ): TypedContractEvent<
+    RevealedEvent.InputTuple,
+    RevealedEvent.OutputTuple,
+    RevealedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleAdminChanged"
+  ): TypedContractEvent<
+    RoleAdminChangedEvent.InputTuple,
+    RoleAdminChangedEvent.OutputTuple,
+    RoleAdminChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleGranted"
+  ): TypedContractEvent<
+    RoleGrantedEvent.InputTuple,
+    RoleGrantedEvent.OutputTuple,
+    RoleGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleRevoked"
+  ): TypedContractEvent<
+    RoleRevokedEvent.InputTuple,
+    RoleRevokedEvent.OutputTuple,
+    RoleRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SaleWindowUpdated"
+  ): TypedContractEvent<
+    SaleWindowUpdatedEvent.InputTuple,
+    SaleWindowUpdatedEvent.OutputTuple,
+    SaleWindowUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TokenRoyaltyUpdated"
+  ): TypedContractEvent<
+    TokenRoyaltyUpdatedEvent.InputTuple,
+    TokenRoyaltyUpdatedEvent.OutputTuple,
+    TokenRoyaltyUpdatedEvent.OutputObject
+  >;
   getEvent(
     key: "Transfer"
   ): TypedContractEvent<
@@ -569,6 +2103,41 @@ export interface SimpleNFT extends BaseContract {
     TransferEvent.OutputTuple,
     TransferEvent.OutputObject
   >;
+  getEvent(
+    key: "Unlocked"
+  ): TypedContractEvent<
+    UnlockedEvent.InputTuple,
+    UnlockedEvent.OutputTuple,
+    UnlockedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Unpaused"
+  ): TypedContractEvent<
+    UnpausedEvent.InputTuple,
+    UnpausedEvent.OutputTuple,
+    UnpausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "UpdateUser"
+  ): TypedContractEvent<
+    UpdateUserEvent.InputTuple,
+    UpdateUserEvent.OutputTuple,
+    UpdateUserEvent.OutputObject
+  >;
+  getEvent(
+    key: "VoucherRedeemed"
+  ): TypedContractEvent<
+    VoucherRedeemedEvent.InputTuple,
+    VoucherRedeemedEvent.OutputTuple,
+    VoucherRedeemedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Withdrawn"
+  ): TypedContractEvent<
+    WithdrawnEvent.InputTuple,
+    WithdrawnEvent.OutputTuple,
+    WithdrawnEvent.OutputObject
+  >;
 
   filters: {
     "Approval(address,address,uint256)": TypedContractEvent<
@@ -604,6 +2173,83 @@ export interface SimpleNFT extends BaseContract {
       BatchMetadataUpdateEvent.OutputObject
     >;
 
+    "ContractURIUpdated()": TypedContractEvent<
+      ContractURIUpdatedEvent.InputTuple,
+      ContractURIUpdatedEvent.OutputTuple,
+      ContractURIUpdatedEvent.OutputObject
+    >;
+    ContractURIUpdated: TypedContractEvent<
+      ContractURIUpdatedEvent.InputTuple,
+      ContractURIUpdatedEvent.OutputTuple,
+      ContractURIUpdatedEvent.OutputObject
+    >;
+
+    "DefaultRoyaltyUpdated(address,uint96)": TypedContractEvent<
+      DefaultRoyaltyUpdatedEvent.InputTuple,
+      DefaultRoyaltyUpdatedEvent.OutputTuple,
+      DefaultRoyaltyUpdatedEvent.OutputObject
+    >;
+    DefaultRoyaltyUpdated: TypedContractEvent<
+      DefaultRoyaltyUpdatedEvent.InputTuple,
+      DefaultRoyaltyUpdatedEvent.OutputTuple,
+      DefaultRoyaltyUpdatedEvent.OutputObject
+    >;
+
+    "EIP712DomainChanged()": TypedContractEvent<
+      EIP712DomainChangedEvent.InputTuple,
+      EIP712DomainChangedEvent.OutputTuple,
+      EIP712DomainChangedEvent.OutputObject
+    >;
+    EIP712DomainChanged: TypedContractEvent<
+      EIP712DomainChangedEvent.InputTuple,
+      EIP712DomainChangedEvent.OutputTuple,
+      EIP712DomainChangedEvent.OutputObject
+    >;
+
+    "Initialized(uint64)": TypedContractEvent<
+      InitializedEvent.InputTuple,
+      InitializedEvent.OutputTuple,
+      InitializedEvent.OutputObject
+    >;
+    Initialized: TypedContractEvent<
+      InitializedEvent.InputTuple,
+      InitializedEvent.OutputTuple,
+      InitializedEvent.OutputObject
+    >;
+
+    "Locked(uint256)": TypedContractEvent<
+      LockedEvent.InputTuple,
+      LockedEvent.OutputTuple,
+      LockedEvent.OutputObject
+    >;
+    Locked: TypedContractEvent<
+      LockedEvent.InputTuple,
+      LockedEvent.OutputTuple,
+      LockedEvent.OutputObject
+    >;
+
+    "MaxPerWalletUpdated(uint256)": TypedContractEvent<
+      MaxPerWalletUpdatedEvent.InputTuple,
+      MaxPerWalletUpdatedEvent.OutputTuple,
+      MaxPerWalletUpdatedEvent.OutputObject
+    >;
+    MaxPerWalletUpdated: TypedContractEvent<
+      MaxPerWalletUpdatedEvent.InputTuple,
+      MaxPerWalletUpdatedEvent.OutputTuple,
+      MaxPerWalletUpdatedEvent.OutputObject
+    >;
+
+    "MerkleRootUpdated(bytes32)": TypedContractEvent<
+      MerkleRootUpdatedEvent.InputTuple,
+      MerkleRootUpdatedEvent.OutputTuple,
+      MerkleRootUpdatedEvent.OutputObject
+    >;
+    MerkleRootUpdated: TypedContractEvent<
+      MerkleRootUpdatedEvent.InputTuple,
+      MerkleRootUpdatedEvent.OutputTuple,
+      MerkleRootUpdatedEvent.OutputObject
+    >;
+
     "MetadataUpdate(uint256)": TypedContractEvent<
       MetadataUpdateEvent.InputTuple,
       MetadataUpdateEvent.OutputTuple,
@@ -615,6 +2261,39 @@ export interface SimpleNFT extends BaseContract {
       MetadataUpdateEvent.OutputObject
     >;
 
+    "MintModeUpdated(uint8)": TypedContractEvent<
+      MintModeUpdatedEvent.InputTuple,
+      MintModeUpdatedEvent.OutputTuple,
+      MintModeUpdatedEvent.OutputObject
+    >;
+    MintModeUpdated: TypedContractEvent<
+      MintModeUpdatedEvent.InputTuple,
+      MintModeUpdatedEvent.OutputTuple,
+      MintModeUpdatedEvent.OutputObject
+    >;
+
+    "MintPriceUpdated(uint256,uint256)": TypedContractEvent<
+      MintPriceUpdatedEvent.InputTuple,
+      MintPriceUpdatedEvent.OutputTuple,
+      MintPriceUpdatedEvent.OutputObject
+    >;
+    MintPriceUpdated: TypedContractEvent<
+      MintPriceUpdatedEvent.InputTuple,
+      MintPriceUpdatedEvent.OutputTuple,
+      MintPriceUpdatedEvent.OutputObject
+    >;
+
+    "OwnershipTransferStarted(address,address)": TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+    OwnershipTransferStarted: TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+
     "OwnershipTransferred(address,address)": TypedContractEvent<
       OwnershipTransferredEvent.InputTuple,
       OwnershipTransferredEvent.OutputTuple,
@@ -626,6 +2305,17 @@ export interface SimpleNFT extends BaseContract {
       OwnershipTransferredEvent.OutputObject
     >;
 
+    "Paused(address)": TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+    Paused: TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+
     "PermanentURI(string,uint256)": TypedContractEvent<
       PermanentURIEvent.InputTuple,
       PermanentURIEvent.OutputTuple,
@@ -637,6 +2327,83 @@ export interface SimpleNFT extends BaseContract {
       PermanentURIEvent.OutputObject
     >;
 
+    "RendererUpdated(address)": TypedContractEvent<
+      RendererUpdatedEvent.InputTuple,
+      RendererUpdatedEvent.OutputTuple,
+      RendererUpdatedEvent.OutputObject
+    >;
+    RendererUpdated: TypedContractEvent<
+      RendererUpdatedEvent.InputTuple,
+      RendererUpdatedEvent.OutputTuple,
+      RendererUpdatedEvent.OutputObject
+    >;
+
+    "Revealed(string)": TypedContractEvent<
+      RevealedEvent.InputTuple,
+      RevealedEvent.OutputTuple,
+      RevealedEvent.OutputObject
+    >;
+    Revealed: TypedContractEvent<
+      RevealedEvent.InputTuple,
+      RevealedEvent.OutputTuple,
+      RevealedEvent.OutputObject
+    >;
+
+    "RoleAdminChanged(bytes32,bytes32,bytes32)": TypedContractEvent<
+      RoleAdminChangedEvent.InputTuple,
+      RoleAdminChangedEvent.OutputTuple,
+      RoleAdminChangedEvent.OutputObject
+    >;
+    RoleAdminChanged: TypedContractEvent<
+      RoleAdminChangedEvent.InputTuple,
+      RoleAdminChangedEvent.OutputTuple,
+      RoleAdminChangedEvent.OutputObject
+    >;
+
+    "RoleGranted(bytes32,address,address)": TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+    RoleGranted: TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+
+    "RoleRevoked(bytes32,address,address)": TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+    RoleRevoked: TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+
+    "SaleWindowUpdated(uint256,uint256)": TypedContractEvent<
+      SaleWindowUpdatedEvent.InputTuple,
+      SaleWindowUpdatedEvent.OutputTuple,
+      SaleWindowUpdatedEvent.OutputObject
+    >;
+    SaleWindowUpdated: TypedContractEvent<
+      SaleWindowUpdatedEvent.InputTuple,
+      SaleWindowUpdatedEvent.OutputTuple,
+      SaleWindowUpdatedEvent.OutputObject
+    >;
+
+    "TokenRoyaltyUpdated(uint256,address,uint96)": TypedContractEvent<
+      TokenRoyaltyUpdatedEvent.InputTuple,
+      TokenRoyaltyUpdatedEvent.OutputTuple,
+      TokenRoyaltyUpdatedEvent.OutputObject
+    >;
+    TokenRoyaltyUpdated: TypedContractEvent<
+      TokenRoyaltyUpdatedEvent.InputTuple,
+      TokenRoyaltyUpdatedEvent.OutputTuple,
+      TokenRoyaltyUpdatedEvent.OutputObject
+    >;
+
     "Transfer(address,address,uint256)": TypedContractEvent<
       TransferEvent.InputTuple,
       TransferEvent.OutputTuple,
@@ -647,5 +2414,60 @@ export interface SimpleNFT extends BaseContract {
       TransferEvent.OutputTuple,
       TransferEvent.OutputObject
     >;
+
+    "Unlocked(uint256)": TypedContractEvent<
+      UnlockedEvent.InputTuple,
+      UnlockedEvent.OutputTuple,
+      UnlockedEvent.OutputObject
+    >;
+    Unlocked: TypedContractEvent<
+      UnlockedEvent.InputTuple,
+      UnlockedEvent.OutputTuple,
+      UnlockedEvent.OutputObject
+    >;
+
+    "Unpaused(address)": TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+    Unpaused: TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+
+    "UpdateUser(uint256,address,uint64)": TypedContractEvent<
+      UpdateUserEvent.InputTuple,
+      UpdateUserEvent.OutputTuple,
+      UpdateUserEvent.OutputObject
+    >;
+    UpdateUser: TypedContractEvent<
+      UpdateUserEvent.InputTuple,
+      UpdateUserEvent.OutputTuple,
+      UpdateUserEvent.OutputObject
+    >;
+
+    "VoucherRedeemed(uint256,uint256,address)": TypedContractEvent<
+      VoucherRedeemedEvent.InputTuple,
+      VoucherRedeemedEvent.OutputTuple,
+      VoucherRedeemedEvent.OutputObject
+    >;
+    VoucherRedeemed: TypedContractEvent<
+      VoucherRedeemedEvent.InputTuple,
+      VoucherRedeemedEvent.OutputTuple,
+      VoucherRedeemedEvent.OutputObject
+    >;
+
+    "Withdrawn(address,uint256)": TypedContractEvent<
+      WithdrawnEvent.InputTuple,
+      WithdrawnEvent.OutputTuple,
+      WithdrawnEvent.OutputObject
+    >;
+    Withdrawn: TypedContractEvent<
+      WithdrawnEvent.InputTuple,
+      WithdrawnEvent.OutputTuple,
+      WithdrawnEvent.OutputObject
+    >;
   };
 }
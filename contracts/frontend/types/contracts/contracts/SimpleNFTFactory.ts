@@ -0,0 +1,316 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface SimpleNFTFactoryInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "collectionCount"
+      | "collectionsOf"
+      | "createCollection"
+      | "createEditions"
+      | "editionsImplementation"
+      | "implementation"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic: "CollectionCreated" | "EditionsCreated"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "collectionCount",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "collectionsOf",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createCollection",
+    values: [
+      string,
+      string,
+      BigNumberish,
+      AddressLike,
+      BigNumberish,
+      BytesLike,
+      boolean
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createEditions",
+    values: [string, string, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "editionsImplementation",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "implementation",
+    values?: undefined
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "collectionCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "collectionsOf",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createCollection",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createEditions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "editionsImplementation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "implementation",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace CollectionCreatedEvent {
+  export type InputTuple = [
+    creator: AddressLike,
+    collection: AddressLike,
+    name: string,
+    symbol: string
+  ];
+  export type OutputTuple = [
+    creator: string,
+    collection: string,
+    name: string,
+    symbol: string
+  ];
+  export interface OutputObject {
+    creator: string;
+    collection: string;
+    name: string;
+    symbol: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EditionsCreatedEvent {
+  export type InputTuple = [
+    creator: AddressLike,
+    collection: AddressLike,
+    name: string,
+    symbol: string
+  ];
+  export type OutputTuple = [
+    creator: string,
+    collection: string,
+    name: string,
+    symbol: string
+  ];
+  export interface OutputObject {
+    creator: string;
+    collection: string;
+    name: string;
+    symbol: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface SimpleNFTFactory extends BaseContract {
+  connect(runner?: ContractRunner | null): SimpleNFTFactory;
+  waitForDeployment(): Promise<this>;
+
+  interface: SimpleNFTFactoryInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  collectionCount: TypedContractMethod<
+    [creator: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  collectionsOf: TypedContractMethod<
+    [creator: AddressLike],
+    [string[]],
+    "view"
+  >;
+
+  createCollection: TypedContractMethod<
+    [
+      name: string,
+      symbol: string,
+      maxSupply: BigNumberish,
+      royaltyReceiver: AddressLike,
+      royaltyFeeNumerator: BigNumberish,
+      provenanceHash: BytesLike,
+      soulbound: boolean
+    ],
+    [string],
+    "nonpayable"
+  >;
+
+  createEditions: TypedContractMethod<
+    [
+      name: string,
+      symbol: string,
+      royaltyReceiver: AddressLike,
+      royaltyFeeNumerator: BigNumberish
+    ],
+    [string],
+    "nonpayable"
+  >;
+
+  editionsImplementation: TypedContractMethod<[], [string], "view">;
+
+  implementation: TypedContractMethod<[], [string], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "collectionCount"
+  ): TypedContractMethod<[creator: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "collectionsOf"
+  ): TypedContractMethod<[creator: AddressLike], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "createCollection"
+  ): TypedContractMethod<
+    [
+      name: string,
+      symbol: string,
+      maxSupply: BigNumberish,
+      royaltyReceiver: AddressLike,
+      royaltyFeeNumerator: BigNumberish,
+      provenanceHash: BytesLike,
+      soulbound: boolean
+    ],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createEditions"
+  ): TypedContractMethod<
+    [
+      name: string,
+      symbol: string,
+      royaltyReceiver: AddressLike,
+      royaltyFeeNumerator: BigNumberish
+    ],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "editionsImplementation"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "implementation"
+  ): TypedContractMethod<[], [string], "view">;
+
+  getEvent(
+    key: "CollectionCreated"
+  ): TypedContractEvent<
+    CollectionCreatedEvent.InputTuple,
+    CollectionCreatedEvent.OutputTuple,
+    CollectionCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EditionsCreated"
+  ): TypedContractEvent<
+    EditionsCreatedEvent.InputTuple,
+    EditionsCreatedEvent.OutputTuple,
+    EditionsCreatedEvent.OutputObject
+  >;
+
+  filters: {
+    "CollectionCreated(address,address,string,string)": TypedContractEvent<
+      CollectionCreatedEvent.InputTuple,
+      CollectionCreatedEvent.OutputTuple,
+      CollectionCreatedEvent.OutputObject
+    >;
+    CollectionCreated: TypedContractEvent<
+      CollectionCreatedEvent.InputTuple,
+      CollectionCreatedEvent.OutputTuple,
+      CollectionCreatedEvent.OutputObject
+    >;
+
+    "EditionsCreated(address,address,string,string)": TypedContractEvent<
+      EditionsCreatedEvent.InputTuple,
+      EditionsCreatedEvent.OutputTuple,
+      EditionsCreatedEvent.OutputObject
+    >;
+    EditionsCreated: TypedContractEvent<
+      EditionsCreatedEvent.InputTuple,
+      EditionsCreatedEvent.OutputTuple,
+      EditionsCreatedEvent.OutputObject
+    >;
+  };
+}
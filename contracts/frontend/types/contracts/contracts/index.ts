@@ -1,4 +1,15 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+import type * as interfaces from "./interfaces";
+export type { interfaces };
+import type * as mocks from "./mocks";
+export type { mocks };
+import type * as token from "./token";
+export type { token };
 export type { SimpleNFT } from "./SimpleNFT";
+export type { SimpleNFTEditions } from "./SimpleNFTEditions";
+export type { SimpleNFTFactory } from "./SimpleNFTFactory";
+export type { SimpleNFTPacked } from "./SimpleNFTPacked";
+export type { SimpleNFTRenderer } from "./SimpleNFTRenderer";
+export type { SimpleNFTUpgradeable } from "./SimpleNFTUpgradeable";
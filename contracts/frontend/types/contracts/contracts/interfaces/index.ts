@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { IERC4907 } from "./IERC4907";
+export type { IERC5192 } from "./IERC5192";
+export type { ITokenURIRenderer } from "./ITokenURIRenderer";
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { AccessControlEnumerable__factory } from "./AccessControlEnumerable__factory";
+export { IAccessControlEnumerable__factory } from "./IAccessControlEnumerable__factory";
@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { ERC1155Burnable__factory } from "./ERC1155Burnable__factory";
+export { ERC1155Supply__factory } from "./ERC1155Supply__factory";
+export { IERC1155MetadataURI__factory } from "./IERC1155MetadataURI__factory";
@@ -1,4 +1,6 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export { ERC721Burnable__factory } from "./ERC721Burnable__factory";
+export { ERC721Pausable__factory } from "./ERC721Pausable__factory";
 export { IERC721Metadata__factory } from "./IERC721Metadata__factory";
@@ -0,0 +1,1401 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  BigNumberish,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  SimpleNFTEditions,
+  SimpleNFTEditionsInterface,
+} from "../../contracts/SimpleNFTEditions";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name_",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "symbol_",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "initialOwner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "royaltyReceiver",
+        type: "address",
+      },
+      {
+        internalType: "uint96",
+        name: "royaltyFeeNumerator",
+        type: "uint96",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "balance",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "needed",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ERC1155InsufficientBalance",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "approver",
+        type: "address",
+      },
+    ],
+    name: "ERC1155InvalidApprover",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idsLength",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "valuesLength",
+        type: "uint256",
+      },
+    ],
+    name: "ERC1155InvalidArrayLength",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "ERC1155InvalidOperator",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ERC1155InvalidReceiver",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "ERC1155InvalidSender",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "ERC1155MissingApprovalForAll",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "numerator",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "denominator",
+        type: "uint256",
+      },
+    ],
+    name: "ERC2981InvalidDefaultRoyalty",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ERC2981InvalidDefaultRoyaltyReceiver",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "numerator",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "denominator",
+        type: "uint256",
+      },
+    ],
+    name: "ERC2981InvalidTokenRoyalty",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ERC2981InvalidTokenRoyaltyReceiver",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "required",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "provided",
+        type: "uint256",
+      },
+    ],
+    name: "IncorrectPayment",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidInitialization",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidQuantity",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidWithdrawalRecipient",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotInitializing",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "OwnableInvalidOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "OwnableUnauthorizedAccount",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "TypeDoesNotExist",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "TypeNotForSale",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "maxSupply",
+        type: "uint256",
+      },
+    ],
+    name: "TypeSupplyExceeded",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "WithdrawalFailed",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "ApprovalForAll",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_fromTokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_toTokenId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchMetadataUpdate",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [],
+    name: "ContractURIUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint96",
+        name: "feeNumerator",
+        type: "uint96",
+      },
+    ],
+    name: "DefaultRoyaltyUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "version",
+        type: "uint64",
+      },
+    ],
+    name: "Initialized",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "MetadataUpdate",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "ids",
+        type: "uint256[]",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "values",
+        type: "uint256[]",
+      },
+    ],
+    name: "TransferBatch",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "TransferSingle",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maxSupply",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "publicMint",
+        type: "bool",
+      },
+    ],
+    name: "TypeCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "publicMint",
+        type: "bool",
+      },
+    ],
+    name: "TypeSaleUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "value",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "URI",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "Withdrawn",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "acceptOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address[]",
+        name: "accounts",
+        type: "address[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "ids",
+        type: "uint256[]",
+      },
+    ],
+    name: "balanceOfBatch",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "burn",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "uint256[]",
+        name: "ids",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "values",
+        type: "uint256[]",
+      },
+    ],
+    name: "burnBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "contractURI",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "maxSupply",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "publicMint",
+        type: "bool",
+      },
+      {
+        internalType: "string",
+        name: "typeURI",
+        type: "string",
+      },
+    ],
+    name: "createType",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "exists",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name_",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "symbol_",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "initialOwner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "royaltyReceiver",
+        type: "address",
+      },
+      {
+        internalType: "uint96",
+        name: "royaltyFeeNumerator",
+        type: "uint96",
+      },
+    ],
+    name: "initialize",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "isApprovedForAll",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "mint",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "mintTo",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pendingOwner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "remainingSupply",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "renounceOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "salePrice",
+        type: "uint256",
+      },
+    ],
+    name: "royaltyInfo",
+    outputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256[]",
+        name: "ids",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "values",
+        type: "uint256[]",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "safeBatchTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "setApprovalForAll",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "newURI",
+        type: "string",
+      },
+    ],
+    name: "setBaseURI",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "newContractURI",
+        type: "string",
+      },
+    ],
+    name: "setContractURI",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        internalType: "uint96",
+        name: "feeNumerator",
+        type: "uint96",
+      },
+    ],
+    name: "setDefaultRoyalty",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "publicMint",
+        type: "bool",
+      },
+    ],
+    name: "setTypeSale",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "typeURI",
+        type: "string",
+      },
+    ],
+    name: "setTypeURI",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes4",
+        name: "interfaceId",
+        type: "bytes4",
+      },
+    ],
+    name: "supportsInterface",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalSupply",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "totalSupply",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "typeCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "typeExists",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "typeInfo",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "maxSupply",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "minted",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "publicMint",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "uri",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address payable",
+        name: "to",
+        type: "address",
+      },
+    ],
+    name: "withdraw",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60806040523480156200001157600080fd5b50604051620031d8380380620031d88339810160408190526200003491620003f9565b60408051602081019091526000815283906200005081620000b0565b506001600160a01b0381166200008157604051631e4fbdf760e01b8152600060048201526024015b60405180910390fd5b6200008c81620000c2565b506200009b85858484620000e0565b620000a562000168565b505050505062000608565b6002620000be82826200053c565b5050565b600880546001600160a01b0319169055620000dd816200021b565b50565b6009620000ee85826200053c565b50600a620000fd84826200053c565b506001600160601b0381161562000162576200011a82826200026d565b6040516001600160601b03821681526001600160a01b038316907fe12d7d5bdb8218a22277dca8f854dd4573a1cea3d3e4808dc567df9eb1c14bf49060200160405180910390a25b50505050565b7ff0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a00805468010000000000000000900460ff1615620001b95760405163f92ee8a960e01b815260040160405180910390fd5b80546001600160401b0390811614620000dd5780546001600160401b0319166001600160401b0390811782556040519081527fc7f505b2f371ae2175ee4913f4499e1f2633a7b5936321eed1cdaeb6115181d29060200160405180910390a150565b600780546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e090600090a35050565b6127106001600160601b038216811015620002ae57604051636f483d0960e01b81526001600160601b03831660048201526024810182905260440162000078565b6001600160a01b038316620002da57604051635b6cc80560e11b81526000600482015260240162000078565b50604080518082019091526001600160a01b039092168083526001600160601b039091166020909201829052600160a01b90910217600555565b634e487b7160e01b600052604160045260246000fd5b600082601f8301126200033c57600080fd5b81516001600160401b038082111562000359576200035962000314565b604051601f8301601f19908116603f0116810190828211818310171562000384576200038462000314565b8160405283815260209250866020858801011115620003a257600080fd5b600091505b83821015620003c65785820183015181830184015290820190620003a7565b6000602085830101528094505050505092915050565b80516001600160a01b0381168114620003f457600080fd5b919050565b600080600080600060a086880312156200041257600080fd5b85516001600160401b03808211156200042a57600080fd5b6200043889838a016200032a565b965060208801519150808211156200044f57600080fd5b506200045e888289016200032a565b9450506200046f60408701620003dc565b92506200047f60608701620003dc565b60808701519092506001600160601b03811681146200049d57600080fd5b809150509295509295909350565b600181811c90821680620004c057607f821691505b602082108103620004e157634e487b7160e01b600052602260045260246000fd5b50919050565b601f82111562000537576000816000526020600020601f850160051c81016020861015620005125750805b601f850160051c820191505b8181101562000533578281556001016200051e565b5050505b505050565b81516001600160401b0381111562000558576200055862000314565b6200057081620005698454620004ab565b84620004e7565b602080601f831160018114620005a857600084156200058f5750858301515b600019600386901b1c1916600185901b17855562000533565b600085815260208120601f198616915b82811015620005d957888601518255948401946001909101908401620005b8565b5085821015620005f85787850151600019600388901b60f8161c191681555b5050505050600190811b01905550565b612bc080620006186000396000f3fe60806040526004361061020e5760003560e01c806379ba509711610118578063afef7c04116100a0578063e8a3d4851161006f578063e8a3d48514610651578063e985e9c514610666578063f242432a14610686578063f2fde38b146106a6578063f5298aca146106c657600080fd5b8063afef7c04146105c6578063bd85b039146105e6578063d2c528ce14610613578063e30c39781461063357600080fd5b8063938e3d7b116100e7578063938e3d7b1461050f578063944deb9c1461052f57806395d89b411461054f578063a22cb46514610564578063a9801ee91461058457600080fd5b806379ba5097146104885780638a7c75011461049d5780638da5cb5b146104bd5780638e52b7ce146104ef57600080fd5b80632eb2c2d61161019b57806351cff8d91161016a57806351cff8d9146103fd57806355f804b31461041d578063602d7fe61461043d5780636b20c45414610453578063715018a61461047357600080fd5b80632eb2c2d61461036157806347fda41a146103815780634e1273f4146103a15780634f558e79146103ce57600080fd5b80630e89341c116101e25780630e89341c146102ba57806318160ddd146102da5780631b2ef1ca146102ef5780632a55205a146103025780632baf2acb1461034157600080fd5b8062fdd58e1461021357806301ffc9a71461024657806304634d8d1461027657806306fdde0314610298575b600080fd5b34801561021f57600080fd5b5061023361022e366004611fdf565b6106e6565b6040519081526020015b60405180910390f35b34801561025257600080fd5b50610266610261366004612021565b61070e565b604051901515815260200161023d565b34801561028257600080fd5b5061029661029136600461205a565b610719565b005b3480156102a457600080fd5b506102ad610776565b60405161023d91906120d5565b3480156102c657600080fd5b506102ad6102d53660046120e8565b610808565b3480156102e657600080fd5b50600454610233565b6102966102fd366004612101565b6108c6565b34801561030e57600080fd5b5061032261031d366004612101565b61097a565b604080516001600160a01b03909316835260208301919091520161023d565b34801561034d57600080fd5b5061029661035c366004612123565b610a01565b34801561036d57600080fd5b5061029661037c36600461229f565b610a44565b34801561038d57600080fd5b5061023361039c3660046120e8565b610aab565b3480156103ad57600080fd5b506103c16103bc36600461234c565b610b14565b60405161023d9190612449565b3480156103da57600080fd5b506102666103e93660046120e8565b600090815260036020526040902054151590565b34801561040957600080fd5b5061029661041836600461245c565b610be0565b34801561042957600080fd5b506102966104383660046124ba565b610ccb565b34801561044957600080fd5b50610233600c5481565b34801561045f57600080fd5b5061029661046e3660046124fb565b610d51565b34801561047f57600080fd5b50610296610db5565b34801561049457600080fd5b50610296610dc9565b3480156104a957600080fd5b506102336104b8366004612580565b610e0d565b3480156104c957600080fd5b506007546001600160a01b03165b6040516001600160a01b03909116815260200161023d565b3480156104fb57600080fd5b5061029661050a3660046125e7565b610f2a565b34801561051b57600080fd5b5061029661052a3660046124ba565b610fef565b34801561053b57600080fd5b5061026661054a3660046120e8565b611032565b34801561055b57600080fd5b506102ad611047565b34801561057057600080fd5b5061029661057f366004612632565b611056565b34801561059057600080fd5b506105a461059f3660046120e8565b611065565b604080519485526020850193909352918301521515606082015260800161023d565b3480156105d257600080fd5b506102966105e136600461265e565b6110c5565b3480156105f257600080fd5b506102336106013660046120e8565b60009081526003602052604090205490565b34801561061f57600080fd5b5061029661062e366004612702565b61128b565b34801561063f57600080fd5b506008546001600160a01b03166104d7565b34801561065d57600080fd5b506102ad611325565b34801561067257600080fd5b50610266610681366004612737565b611334565b34801561069257600080fd5b506102966106a1366004612770565b611362565b3480156106b257600080fd5b506102966106c136600461245c565b6113c1565b3480156106d257600080fd5b506102966106e1366004612123565b611432565b6000818152602081815260408083206001600160a01b03861684529091529020545b92915050565b600061070882611468565b61072161148d565b61072b82826114ba565b6040516001600160601b03821681526001600160a01b038316907fe12d7d5bdb8218a22277dca8f854dd4573a1cea3d3e4808dc567df9eb1c14bf49060200160405180910390a25050565b606060098054610785906127d8565b80601f01602080910402602001604051908101604052809291908181526020018280546107b1906127d8565b80156107fe5780601f106107d3576101008083540402835291602001916107fe565b820191906000526020600020905b8154815290600101906020018083116107e157829003601f168201915b5050505050905090565b6000818152600e6020526040812080546060929190610826906127d8565b80601f0160208091040260200160405190810160405280929190818152602001828054610852906127d8565b801561089f5780601f106108745761010080835404028352916020019161089f565b820191906000526020600020905b81548152906001019060200180831161088257829003601f168201915b505050505090506000815111156108b65792915050565b6108bf8361155d565b9392505050565b816108d081611032565b6108f55760405163c47fd17560e01b8152600481018290526024015b60405180910390fd5b6000838152600d60205260409020600381015460ff1661092b576040516338f0f8a160e01b8152600481018590526024016108ec565b600083826002015461093d9190612822565b905080341461096857604051630d35e92160e01b8152600481018290523460248201526044016108ec565b6109733386866115f1565b5050505050565b600082815260066020526040812080548291906001600160a01b03811690600160a01b90046001600160601b0316816109ce5750506005546001600160a01b03811690600160a01b90046001600160601b03165b60006127106109e66001600160601b03841689612822565b6109f09190612839565b9295509193505050505b9250929050565b610a0961148d565b81610a1381611032565b610a335760405163c47fd17560e01b8152600481018290526024016108ec565b610a3e8484846115f1565b50505050565b336001600160a01b0386168114801590610a655750610a638682611334565b155b15610a965760405163711bec9160e11b81526001600160a01b038083166004830152871660248201526044016108ec565b610aa38686868686611695565b505050505050565b600081610ab781611032565b610ad75760405163c47fd17560e01b8152600481018290526024016108ec565b6000838152600d602052604081208054909103610af957600019925050610b0e565b60018101548154610b0a919061285b565b9250505b50919050565b60608151835114610b455781518351604051635b05999160e01b8152600481019290925260248201526044016108ec565b600083516001600160401b03811115610b6057610b60612158565b604051908082528060200260200182016040528015610b89578160200160208202803683370190505b50905060005b8451811015610bd857602080820286010151610bb3906020808402870101516106e6565b828281518110610bc557610bc561286e565b6020908102919091010152600101610b8f565b509392505050565b610be861148d565b6001600160a01b038116610c0f57604051635b03092b60e11b815260040160405180910390fd5b60405147906000906001600160a01b0384169083908381818185875af1925050503d8060008114610c5c576040519150601f19603f3d011682016040523d82523d6000602084013e610c61565b606091505b5050905080610c83576040516327fcd9d160e01b815260040160405180910390fd5b826001600160a01b03167f7084f5476618d8e60b11ef0d7d3f06914655adb8793e28ff7f018d4c76d505d583604051610cbe91815260200190565b60405180910390a2505050565b610cd361148d565b610d1282828080601f0160208091040260200160405190810160405280939291908181526020018383808284376000920191909152506116f592505050565b604080516001815260001960208201527f6bd5c950a8d8df17f772f5af37cb3655737899cbf903264b9795592da439661c910160405180910390a15050565b6001600160a01b0383163314801590610d715750610d6f8333611334565b155b15610da557335b60405163711bec9160e11b81526001600160a01b03918216600482015290841660248201526044016108ec565b610db0838383611701565b505050565b610dbd61148d565b610dc76000611747565b565b60085433906001600160a01b03168114610e015760405163118cdaa760e01b81526001600160a01b03821660048201526024016108ec565b610e0a81611747565b50565b6000610e1761148d565b600c60008154610e2690612884565b918290555060408051608081018252888152600060208083018281528385018b81528a15156060808701828152898752600d86529588902096518755925160018701559051600286015592516003909401805460ff19169415159490941790935583518b81529081018a90529283015291925082917fd369f457605d5f15689c32794e08e683cbff80d4fd526ef8accc4556daf7cd7f910160405180910390a28115610f21576000818152600e60205260409020610ee58385836128e5565b50807f6bb7ff708619ba0610cba295a58592e0451dee2622938c8755667688daf3529b8484604051610f189291906129a4565b60405180910390a25b95945050505050565b610f3261148d565b82610f3c81611032565b610f5c5760405163c47fd17560e01b8152600481018290526024016108ec565b6000848152600e60205260409020610f758385836128e5565b50837f6bb7ff708619ba0610cba295a58592e0451dee2622938c8755667688daf3529b610fa186610808565b604051610fae91906120d5565b60405180910390a26040518481527ff8e1a15aba9398e019f0b49df1a4fde98ee17ae345cb5f6b5e2c27f5033e8ce79060200160405180910390a150505050565b610ff761148d565b600b6110048284836128e5565b506040517fa5d4097edda6d87cb9329af83fb3712ef77eeb13738ffe43cc35a4ce305ad96290600090a15050565b60008115801590610708575050600c54101590565b6060600a8054610785906127d8565b611061338383611760565b5050565b6000806000808461107581611032565b6110955760405163c47fd17560e01b8152600481018290526024016108ec565b50505060009283525050600d60205260409020805460018201546002830154600390930154919390929160ff1690565b7ff0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a008054600160401b810460ff1615906001600160401b031660008115801561110a5750825b90506000826001600160401b031660011480156111265750303b155b905081158015611134575080155b156111525760405163f92ee8a960e01b815260040160405180910390fd5b845467ffffffffffffffff19166001178555831561117c57845460ff60401b1916600160401b1785555b6001600160a01b0388166111a657604051631e4fbdf760e01b8152600060048201526024016108ec565b6111af88611747565b6112378c8c8080601f016020809104026020016040519081016040528093929190818152602001838380828437600081840152601f19601f820116905080830192505050505050508b8b8080601f0160208091040260200160405190810160405280939291908181526020018383808284376000920191909152508c92508b91506117f69050565b831561127d57845460ff60401b19168555604051600181527fc7f505b2f371ae2175ee4913f4499e1f2633a7b5936321eed1cdaeb6115181d29060200160405180910390a15b505050505050505050505050565b61129361148d565b8261129d81611032565b6112bd5760405163c47fd17560e01b8152600481018290526024016108ec565b6000848152600d602090815260409182902060028101869055600301805460ff191685151590811790915582518681529182015285917f816d284f38abf09a8248d47613ca0f0d3cfc169ecfaabb6e31416d83729b116e91015b60405180910390a250505050565b6060600b8054610785906127d8565b6001600160a01b03918216600090815260016020908152604080832093909416825291909152205460ff1690565b336001600160a01b038616811480159061138357506113818682611334565b155b156113b45760405163711bec9160e11b81526001600160a01b038083166004830152871660248201526044016108ec565b610aa3868686868661186d565b6113c961148d565b600880546001600160a01b0383166001600160a01b031990911681179091556113fa6007546001600160a01b031690565b6001600160a01b03167f38d16b8cac22d99fc7c124b9cd0de2d3fa1faef420bfe791d8c362d765e2270060405160405180910390a350565b6001600160a01b038316331480159061145257506114508333611334565b155b1561145d5733610d78565b610db08383836118fb565b60006001600160e01b0319821663152a902d60e11b1480610708575061070882611963565b6007546001600160a01b03163314610dc75760405163118cdaa760e01b81523360048201526024016108ec565b6127106001600160601b0382168110156114f957604051636f483d0960e01b81526001600160601b0383166004820152602481018290526044016108ec565b6001600160a01b03831661152357604051635b6cc80560e11b8152600060048201526024016108ec565b50604080518082019091526001600160a01b039092168083526001600160601b039091166020909201829052600160a01b90910217600555565b60606002805461156c906127d8565b80601f0160208091040260200160405190810160405280929190818152602001828054611598906127d8565b80156115e55780601f106115ba576101008083540402835291602001916115e5565b820191906000526020600020905b8154815290600101906020018083116115c857829003601f168201915b50505050509050919050565b806000036116125760405163524f409b60e01b815260040160405180910390fd5b6000828152600d6020526040812060018101549091906116339084906129d3565b8254909150158015906116465750815481115b15611671578154604051630d1ed16960e41b81526108ec918691600401918252602082015260400190565b808260010181905550610973858585604051806020016040528060008152506119b3565b6001600160a01b0384166116bf57604051632bfa23e760e11b8152600060048201526024016108ec565b6001600160a01b0385166116e857604051626a0d4560e21b8152600060048201526024016108ec565b6109738585858585611a0c565b600261106182826129e6565b6001600160a01b03831661172a57604051626a0d4560e21b8152600060048201526024016108ec565b610db0836000848460405180602001604052806000815250611a0c565b600880546001600160a01b0319169055610e0a81611a5f565b6001600160a01b0382166117895760405162ced3e160e81b8152600060048201526024016108ec565b6001600160a01b03838116600081815260016020908152604080832094871680845294825291829020805460ff191686151590811790915591519182527f17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c31910160405180910390a3505050565b600961180285826129e6565b50600a61180f84826129e6565b506001600160601b03811615610a3e5761182982826114ba565b6040516001600160601b03821681526001600160a01b038316907fe12d7d5bdb8218a22277dca8f854dd4573a1cea3d3e4808dc567df9eb1c14bf490602001611317565b6001600160a01b03841661189757604051632bfa23e760e11b8152600060048201526024016108ec565b6001600160a01b0385166118c057604051626a0d4560e21b8152600060048201526024016108ec565b604080516001808252602082018690528183019081526060820185905260808201909252906118f28787848487611a0c565b50505050505050565b6001600160a01b03831661192457604051626a0d4560e21b8152600060048201526024016108ec565b604080516001808252602082018590528183019081526060820184905260a0820190925260006080820181815291929161097391879185908590611a0c565b60006001600160e01b03198216636cdb3d1360e11b148061199457506001600160e01b031982166303a24d0760e21b145b8061070857506301ffc9a760e01b6001600160e01b0319831614610708565b6001600160a01b0384166119dd57604051632bfa23e760e11b8152600060048201526024016108ec565b60408051600180825260208201869052818301908152606082018590526080820190925290610aa36000878484875b611a1885858585611ab1565b6001600160a01b038416156109735782513390600103611a515760208481015190840151611a4a838989858589611abd565b5050610aa3565b610aa3818787878787611be1565b600780546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e090600090a35050565b610a3e84848484611cca565b6001600160a01b0384163b15610aa35760405163f23a6e6160e01b81526001600160a01b0385169063f23a6e6190611b019089908990889088908890600401612aa5565b6020604051808303816000875af1925050508015611b3c575060408051601f3d908101601f19168201909252611b3991810190612aea565b60015b611ba5573d808015611b6a576040519150601f19603f3d011682016040523d82523d6000602084013e611b6f565b606091505b508051600003611b9d57604051632bfa23e760e11b81526001600160a01b03861660048201526024016108ec565b805181602001fd5b6001600160e01b0319811663f23a6e6160e01b146118f257604051632bfa23e760e11b81526001600160a01b03861660048201526024016108ec565b6001600160a01b0384163b15610aa35760405163bc197c8160e01b81526001600160a01b0385169063bc197c8190611c259089908990889088908890600401612b07565b6020604051808303816000875af1925050508015611c60575060408051601f3d908101601f19168201909252611c5d91810190612aea565b60015b611c8e573d808015611b6a576040519150601f19603f3d011682016040523d82523d6000602084013e611b6f565b6001600160e01b0319811663bc197c8160e01b146118f257604051632bfa23e760e11b81526001600160a01b03861660048201526024016108ec565b611cd684848484611db6565b6001600160a01b038416611d56576000805b8351811015611d3c5760208181028481018201519086018201516000908152600390925260408220805491928392611d219084906129d3565b90915550611d31905081846129d3565b925050600101611ce8565b508060046000828254611d4f91906129d3565b9091555050505b6001600160a01b038316610a3e576000805b8351811015611da5576020818102848101820151908601820151600090815260039092526040909120805482900390559190910190600101611d68565b506004805491909103905550505050565b8051825114611de55781518151604051635b05999160e01b8152600481019290925260248201526044016108ec565b3360005b8351811015611eeb576020818102858101820151908501909101516001600160a01b03881615611e9c576000828152602081815260408083206001600160a01b038c16845290915290205481811015611e75576040516303dee4c560e01b81526001600160a01b038a1660048201526024810182905260448101839052606481018490526084016108ec565b6000838152602081815260408083206001600160a01b038d16845290915290209082900390555b6001600160a01b03871615611ee1576000828152602081815260408083206001600160a01b038b16845290915281208054839290611edb9084906129d3565b90915550505b5050600101611de9565b508251600103611f6c5760208301516000906020840151909150856001600160a01b0316876001600160a01b0316846001600160a01b03167fc3d58168c5ae7397731d063d5bbf3d657854427343f4c083240f7aacaa2d0f628585604051611f5d929190918252602082015260400190565b60405180910390a45050610973565b836001600160a01b0316856001600160a01b0316826001600160a01b03167f4a39dc06d4c0dbc64b70af90fd698a233a518aa5d07e595d983b8c0526c8f7fb8686604051611fbb929190612b65565b60405180910390a45050505050565b6001600160a01b0381168114610e0a57600080fd5b60008060408385031215611ff257600080fd5b8235611ffd81611fca565b946020939093013593505050565b6001600160e01b031981168114610e0a57600080fd5b60006020828403121561203357600080fd5b81356108bf8161200b565b80356001600160601b038116811461205557600080fd5b919050565b6000806040838503121561206d57600080fd5b823561207881611fca565b91506120866020840161203e565b90509250929050565b6000815180845260005b818110156120b557602081850181015186830182015201612099565b506000602082860101526020601f19601f83011685010191505092915050565b6020815260006108bf602083018461208f565b6000602082840312156120fa57600080fd5b5035919050565b6000806040838503121561211457600080fd5b50508035926020909101359150565b60008060006060848603121561213857600080fd5b833561214381611fca565b95602085013595506040909401359392505050565b634e487b7160e01b600052604160045260246000fd5b604051601f8201601f191681016001600160401b038111828210171561219657612196612158565b604052919050565b60006001600160401b038211156121b7576121b7612158565b5060051b60200190565b600082601f8301126121d257600080fd5b813560206121e76121e28361219e565b61216e565b8083825260208201915060208460051b87010193508684111561220957600080fd5b602086015b84811015612225578035835291830191830161220e565b509695505050505050565b600082601f83011261224157600080fd5b81356001600160401b0381111561225a5761225a612158565b61226d601f8201601f191660200161216e565b81815284602083860101111561228257600080fd5b816020850160208301376000918101602001919091529392505050565b600080600080600060a086880312156122b757600080fd5b85356122c281611fca565b945060208601356122d281611fca565b935060408601356001600160401b03808211156122ee57600080fd5b6122fa89838a016121c1565b9450606088013591508082111561231057600080fd5b61231c89838a016121c1565b9350608088013591508082111561233257600080fd5b5061233f88828901612230565b9150509295509295909350565b6000806040838503121561235f57600080fd5b82356001600160401b038082111561237657600080fd5b818501915085601f83011261238a57600080fd5b8135602061239a6121e28361219e565b82815260059290921b840181019181810190898411156123b957600080fd5b948201945b838610156123e05785356123d181611fca565b825294820194908201906123be565b965050860135925050808211156123f657600080fd5b50612403858286016121c1565b9150509250929050565b60008151808452602080850194506020840160005b8381101561243e57815187529582019590820190600101612422565b509495945050505050565b6020815260006108bf602083018461240d565b60006020828403121561246e57600080fd5b81356108bf81611fca565b60008083601f84011261248b57600080fd5b5081356001600160401b038111156124a257600080fd5b6020830191508360208285010111156109fa57600080fd5b600080602083850312156124cd57600080fd5b82356001600160401b038111156124e357600080fd5b6124ef85828601612479565b90969095509350505050565b60008060006060848603121561251057600080fd5b833561251b81611fca565b925060208401356001600160401b038082111561253757600080fd5b612543878388016121c1565b9350604086013591508082111561255957600080fd5b50612566868287016121c1565b9150509250925092565b8035801515811461205557600080fd5b60008060008060006080868803121561259857600080fd5b85359450602086013593506125af60408701612570565b925060608601356001600160401b038111156125ca57600080fd5b6125d688828901612479565b969995985093965092949392505050565b6000806000604084860312156125fc57600080fd5b8335925060208401356001600160401b0381111561261957600080fd5b61262586828701612479565b9497909650939450505050565b6000806040838503121561264557600080fd5b823561265081611fca565b915061208660208401612570565b600080600080600080600060a0888a03121561267957600080fd5b87356001600160401b038082111561269057600080fd5b61269c8b838c01612479565b909950975060208a01359150808211156126b557600080fd5b506126c28a828b01612479565b90965094505060408801356126d681611fca565b925060608801356126e681611fca565b91506126f46080890161203e565b905092959891949750929550565b60008060006060848603121561271757600080fd5b833592506020840135915061272e60408501612570565b90509250925092565b6000806040838503121561274a57600080fd5b823561275581611fca565b9150602083013561276581611fca565b809150509250929050565b600080600080600060a0868803121561278857600080fd5b853561279381611fca565b945060208601356127a381611fca565b9350604086013592506060860135915060808601356001600160401b038111156127cc57600080fd5b61233f88828901612230565b600181811c908216806127ec57607f821691505b602082108103610b0e57634e487b7160e01b600052602260045260246000fd5b634e487b7160e01b600052601160045260246000fd5b80820281158282048414176107085761070861280c565b60008261285657634e487b7160e01b600052601260045260246000fd5b500490565b818103818111156107085761070861280c565b634e487b7160e01b600052603260045260246000fd5b6000600182016128965761289661280c565b5060010190565b601f821115610db0576000816000526020600020601f850160051c810160208610156128c65750805b601f850160051c820191505b81811015610aa3578281556001016128d2565b6001600160401b038311156128fc576128fc612158565b6129108361290a83546127d8565b8361289d565b6000601f841160018114612944576000851561292c5750838201355b600019600387901b1c1916600186901b178355610973565b600083815260209020601f19861690835b828110156129755786850135825560209485019460019092019101612955565b50868210156129925760001960f88860031b161c19848701351681555b505060018560011b0183555050505050565b60208152816020820152818360408301376000818301604090810191909152601f909201601f19160101919050565b808201808211156107085761070861280c565b81516001600160401b038111156129ff576129ff612158565b612a1381612a0d84546127d8565b8461289d565b602080601f831160018114612a485760008415612a305750858301515b600019600386901b1c1916600185901b178555610aa3565b600085815260208120601f198616915b82811015612a7757888601518255948401946001909101908401612a58565b5085821015612a955787850151600019600388901b60f8161c191681555b5050505050600190811b01905550565b6001600160a01b03868116825285166020820152604081018490526060810183905260a060808201819052600090612adf9083018461208f565b979650505050505050565b600060208284031215612afc57600080fd5b81516108bf8161200b565b6001600160a01b0386811682528516602082015260a060408201819052600090612b339083018661240d565b8281036060840152612b45818661240d565b90508281036080840152612b59818561208f565b98975050505050505050565b604081526000612b78604083018561240d565b8281036020840152610f21818561240d56fea26469706673582212209b02c39a3c3a194d275c4cc561de1668db0f3cf93dd899e1ce69054254cfa0f264736f6c63430008160033";
+
+type SimpleNFTEditionsConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: SimpleNFTEditionsConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class SimpleNFTEditions__factory extends ContractFactory {
+  constructor(...args: SimpleNFTEditionsConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    name_: string,
+    symbol_: string,
+    initialOwner: AddressLike,
+    royaltyReceiver: AddressLike,
+    royaltyFeeNumerator: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(
+      name_,
+      symbol_,
+      initialOwner,
+      royaltyReceiver,
+      royaltyFeeNumerator,
+      overrides || {}
+    );
+  }
+  override deploy(
+    name_: string,
+    symbol_: string,
+    initialOwner: AddressLike,
+    royaltyReceiver: AddressLike,
+    royaltyFeeNumerator: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(
+      name_,
+      symbol_,
+      initialOwner,
+      royaltyReceiver,
+      royaltyFeeNumerator,
+      overrides || {}
+    ) as Promise<
+      SimpleNFTEditions & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): SimpleNFTEditions__factory {
+    return super.connect(runner) as SimpleNFTEditions__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): SimpleNFTEditionsInterface {
+    return new Interface(_abi) as SimpleNFTEditionsInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): SimpleNFTEditions {
+    return new Contract(address, _abi, runner) as unknown as SimpleNFTEditions;
+  }
+}
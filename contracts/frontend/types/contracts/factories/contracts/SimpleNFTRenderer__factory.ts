@@ -0,0 +1,110 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  SimpleNFTRenderer,
+  SimpleNFTRendererInterface,
+} from "../../contracts/SimpleNFTRenderer";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "renderSVG",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "collection",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "tokenURI",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608060405234801561001057600080fd5b50611f77806100206000396000f3fe608060405234801561001057600080fd5b50600436106100365760003560e01c8063d12a4c981461003b578063e9dc637514610064575b600080fd5b61004e6100493660046113ff565b610077565b60405161005b919061143c565b60405180910390f35b61004e61007236600461146f565b610156565b6060600061008483610241565b90506000610091826102d4565b905060008082126100a257816100ab565b6100ab826114bd565b905060006100c36100be610168846114ef565b610241565b6040516020016100d3919061151f565b60405160208183030381529060405290506100ed8161031c565b6101216100fb6005856114ef565b610106906003611560565b610111601e87611573565b61011c906032611587565b610347565b61012a866103ad565b60405160200161013c939291906115a7565b604051602081830303815290604052945050505050919050565b6060600061016383610241565b905060006101d5856001600160a01b03166306fdde036040518163ffffffff1660e01b8152600401600060405180830381865afa1580156101a8573d6000803e3d6000fd5b505050506040513d6000823e601f3d908101601f191682016040526101d09190810190611600565b6103c0565b82836101e86101e388610077565b61089c565b856040516020016101fd9594939291906116ad565b60405160208183030381529060405290506102178161089c565b6040516020016102279190611857565b604051602081830303815290604052925050505b92915050565b6060600061024e836108c2565b600101905060008167ffffffffffffffff81111561026e5761026e6115ea565b6040519080825280601f01601f191660200182016040528015610298576020820181803683370190505b5090508181016020015b600019016f181899199a1a9b1b9c1cb0b131b232b360811b600a86061a8153600a85049450846102a257509392505050565b60008181805b8251811015610311578281815181106102f5576102f561189c565b60209101015160f81c601f9290920291909101906001016102da565b5060030b9392505050565b606081826040516020016103319291906118b2565b6040516020818303038152906040529050919050565b6060600061035483610241565b905060005b848110156103a55760008061036e878461099a565b91509150848282866040516020016103899493929190611bb8565b60408051808303601f1901815291905294505050600101610359565b505092915050565b6060816040516020016103319190611cb9565b8051606090829060005b825181101561049a5760008382815181106103e7576103e761189c565b01602001516001600160f81b0319169050601160f91b8114806104175750601760fa1b6001600160f81b03198216145b8061042f5750600560f91b6001600160f81b03198216145b806104475750600d60f81b6001600160f81b03198216145b8061045f5750600960f81b6001600160f81b03198216145b156104765761046f600184611560565b9250610491565b602060f882901c10156104915761048e600584611560565b92505b506001016103ca565b50815181036104ab57509192915050565b6f181899199a1a9b1b9c1cb0b131b232b360811b60008267ffffffffffffffff8111156104da576104da6115ea565b6040519080825280601f01601f191660200182016040528015610504576020820181803683370190505b5090506000805b85518110156108905760008682815181106105285761052861189c565b01602001516001600160f81b0319169050601160f91b8114806105585750601760fa1b6001600160f81b03198216145b156105d057601760fa1b848461056d81611eaa565b95508151811061057f5761057f61189c565b60200101906001600160f81b031916908160001a9053508084846105a281611eaa565b9550815181106105b4576105b461189c565b60200101906001600160f81b031916908160001a905350610887565b6001600160f81b03198116600560f91b0361062e57601760fa1b84846105f581611eaa565b9550815181106106075761060761189c565b60200101906001600160f81b031916908160001a905350603760f91b84846105a281611eaa565b6001600160f81b03198116600d60f81b0361068c57601760fa1b848461065381611eaa565b9550815181106106655761066561189c565b60200101906001600160f81b031916908160001a905350603960f91b84846105a281611eaa565b6001600160f81b03198116600960f81b036106ea57601760fa1b84846106b181611eaa565b9550815181106106c3576106c361189c565b60200101906001600160f81b031916908160001a905350601d60fa1b84846105a281611eaa565b602060f882901c101561085157601760fa1b848461070781611eaa565b9550815181106107195761071961189c565b60200101906001600160f81b031916908160001a905350607560f81b848461074081611eaa565b9550815181106107525761075261189c565b60200101906001600160f81b031916908160001a905350600360fc1b848461077981611eaa565b95508151811061078b5761078b61189c565b60200101906001600160f81b031916908160001a905350600360fc1b84846107b281611eaa565b9550815181106107c4576107c461189c565b60200101906001600160f81b031916908160001a9053508460fc82901c601081106107f1576107f161189c565b1a60f81b848461080081611eaa565b9550815181106108125761081261189c565b60200101906001600160f81b031916908160001a90535084600f60f883901c16601081106108425761084261189c565b1a60f81b84846105a281611eaa565b80848461085d81611eaa565b95508151811061086f5761086f61189c565b60200101906001600160f81b031916908160001a9053505b5060010161050b565b50909695505050505050565b606061023b82604051806060016040528060408152602001611f0260409139600161127d565b60008072184f03e93ff9f4daa797ed6e38ed64bf6a1f0160401b83106109015772184f03e93ff9f4daa797ed6e38ed64bf6a1f0160401b830492506040015b6d04ee2d6d415b85acef8100000000831061092d576d04ee2d6d415b85acef8100000000830492506020015b662386f26fc10000831061094b57662386f26fc10000830492506010015b6305f5e1008310610963576305f5e100830492506008015b612710831061097757612710830492506004015b60648310610989576064830492506002015b600a831061023b5760010192915050565b60608060006040518061032001604052806040518060400160405280600381526020016203335360ec1b8152508152602001604051806040016040528060128152602001713230302e303030303030303030303030303360701b8152508152602001604051806040016040528060128152602001710c4e4e4b8e4e4e4e4e4e4e4e4e4e4e4e4e4d60721b81525081526020016040518060400160405280600381526020016203335360ec1b81525081526020016040518060400160405280600381526020016203235360ec1b81525081526020016040518060400160405280600381526020016203135360ec1b8152508152602001604051806040016040528060128152602001713234392e393939393939393939393939393760701b81525081526020016040518060400160405280600381526020016203335360ec1b815250815260200160405180604001604052806012815260200171191c18171c98189b1c9c9a199b9a1c9a1b9b60711b8152508152602001604051806040016040528060128152602001713136392e303938333030353632353035323760701b8152508152602001604051806040016040528060128152602001710c4d8e4b8c0e4e0ccc0c0d4d8c8d4c0d4c8d60721b8152508152602001604051806040016040528060118152602001703238302e3930313639393433373439343760781b81525081526020016040518060400160405280600381526020016203335360ec1b81525081526020016040518060400160405280600381526020016203330360ec1b8152508152602001604051806040016040528060128152602001713230302e303030303030303030303030303360701b81525081526020016040518060400160405280600381526020016203135360ec1b8152508152602001604051806040016040528060128152602001710c4e4e4b8e4e4e4e4e4e4e4e4e4e4e4e4e4d60721b8152508152602001604051806040016040528060128152602001710c8e4e4b8e4e4e4e4e4e4e4e4e4e4e4e4e4d60721b81525081526020016040518060400160405280600381526020016203335360ec1b81525081526020016040518060400160405280601281526020017119989917199a1c1c9c18189c1a9c1b99999b60711b8152508152602001604051806040016040528060128152602001713232372e373437393036363034333638353560701b8152508152602001604051806040016040528060118152602001703135392e3930333131333230393735383160781b8152508152602001604051806040016040528060118152602001703135392e3930333131333230393735383160781b8152508152602001604051806040016040528060128152602001713232372e373437393036363034333638353560701b81525081526020016040518060400160405280601281526020017119989917199a1c1c9c18189c1a9c1b99999b60711b815250815250905060006040518061032001604052806040518060400160405280600381526020016203235360ec1b8152508152602001604051806040016040528060118152602001703333362e3630323534303337383434333960781b8152508152602001604051806040016040528060128152602001713136332e333937343539363231353536313560701b81525081526020016040518060400160405280600381526020016203235360ec1b81525081526020016040518060400160405280600381526020016203335360ec1b81525081526020016040518060400160405280600381526020016203235360ec1b81525081526020016040518060400160405280600381526020016203135360ec1b81525081526020016040518060400160405280600381526020016203235360ec1b815250815260200160405180604001604052806012815260200171199a1a9718981a9b1a989b191c9a989a999b60711b8152508152602001604051806040016040528060118152602001703330382e3737383532353232393234373360781b8152508152602001604051806040016040528060118152602001703139312e3232313437343737303735323760781b8152508152602001604051806040016040528060128152602001710c4d4d0b8e0e4d0ccd0e0ccdcc0d0e0d0d8d60721b81525081526020016040518060400160405280600381526020016203235360ec1b8152508152602001604051806040016040528060128152602001713333362e363032353430333738343433383560701b8152508152602001604051806040016040528060118152602001703333362e3630323534303337383434333960781b81525081526020016040518060400160405280600381526020016203235360ec1b8152508152602001604051806040016040528060128152602001713136332e333937343539363231353536313560701b8152508152602001604051806040016040528060118152602001703136332e3339373435393632313535363160781b81525081526020016040518060400160405280600381526020016203235360ec1b81525081526020016040518060400160405280601081526020016f3332382e31383331343832343638303360801b8152508152602001604051806040016040528060128152602001713334372e343932373931323138313832333360701b81525081526020016040518060400160405280601181526020017006472665c667070666e667262626e6a6a7607b1b81525081526020016040518060400160405280601181526020017019181b171b18989b191b181c1c191a1a1960791b8152508152602001604051806040016040528060128152602001710c4d4c8b8d4c0dcc8c0e0dce0c4e0c4dcd8d60721b81525081526020016040518060400160405280601081526020016f3137312e38313638353137353331393760801b81525081525090506000600287600261120e9190611560565b61121960038a611ec3565b6112239190611ed6565b61122d9190611eed565b90508261123a8783611560565b6019811061124a5761124a61189c565b60200201518261125a8884611560565b6019811061126a5761126a61189c565b6020020151945094505050509250929050565b6060835160000361129d57506040805160208101909152600081526113f8565b6000826112ce576003855160046112b49190611ed6565b6112bf906002611560565b6112c99190611eed565b6112f3565b6003855160026112de9190611560565b6112e89190611eed565b6112f3906004611ed6565b905060008167ffffffffffffffff811115611310576113106115ea565b6040519080825280601f01601f19166020018201604052801561133a576020820181803683370190505b50905060018501602082018788518901602081018051600082525b828410156113b0576003840193508351603f8160121c168701518653600186019550603f81600c1c168701518653600186019550603f8160061c168701518653600186019550603f8116870151865350600185019450611355565b9052505085156113f1576003885106600181146113d457600281146113e7576113ef565b603d6001830353603d60028303536113ef565b603d60018303535b505b5090925050505b9392505050565b60006020828403121561141157600080fd5b5035919050565b60005b8381101561143357818101518382015260200161141b565b50506000910152565b602081526000825180602084015261145b816040850160208701611418565b601f01601f19169190910160400192915050565b6000806040838503121561148257600080fd5b82356001600160a01b038116811461149957600080fd5b946020939093013593505050565b634e487b7160e01b600052601160045260246000fd5b6000600160ff1b82016114d2576114d26114a7565b5060000390565b634e487b7160e01b600052601260045260246000fd5b6000826114fe576114fe6114d9565b500690565b60008151611515818560208601611418565b9290920192915050565b630d0e6d8560e31b81526000825161153e816004850160208701611418565b6a2c203730252c203630252960a81b6004939091019283015250600f01919050565b8082018082111561023b5761023b6114a7565b600082611582576115826114d9565b500790565b80820182811260008312801582168215821617156103a5576103a56114a7565b600084516115b9818460208901611418565b8451908301906115cd818360208901611418565b84519101906115e0818360208801611418565b0195945050505050565b634e487b7160e01b600052604160045260246000fd5b60006020828403121561161257600080fd5b815167ffffffffffffffff8082111561162a57600080fd5b818401915084601f83011261163e57600080fd5b815181811115611650576116506115ea565b604051601f8201601f19908116603f01168101908382118183101715611678576116786115ea565b8160405282815287602084870101111561169157600080fd5b6116a2836020830160208801611418565b979650505050505050565b683d913730b6b2911d1160b91b815285516000906116d2816009850160208b01611418565b61202360f01b60099184019182015286516116f481600b840160208b01611418565b75222c226465736372697074696f6e223a224e4654202360501b600b9290910191820152855161172b816021840160208a01611418565b7f206f6e20746865204e65787573206e6574776f726b2c2072656e646572656420602192909101918201527f66756c6c79206f6e2d636861696e2e222c22696d616765223a22646174613a696041820152731b5859d94bdcdd99cade1b5b0ed8985cd94d8d0b60621b606182015284516117ac816075840160208901611418565b61184a6118056117ff6075848601017f222c2261747472696275746573223a5b7b2274726169745f74797065223a225481527137b5b2b71024a21116113b30b63ab2911d1160711b602082015260320190565b87611503565b7f227d2c7b2274726169745f74797065223a22496d6167652054797065222c2276815272616c7565223a224f6e2d636861696e227d5d7d60681b602082015260330190565b9998505050505050505050565b7f646174613a6170706c69636174696f6e2f6a736f6e3b6261736536342c00000081526000825161188f81601d850160208701611418565b91909101601d0192915050565b634e487b7160e01b600052603260045260246000fd5b7f3c737667200a202020202020202077696474683d2235303022200a202020202081527f2020206865696768743d2235303022200a202020202020202076696577426f7860208201527f3d22302030203530302035303022200a2020202020202020786d6c6e733d226860408201527f7474703a2f2f7777772e77332e6f72672f323030302f737667220a202020202060608201527f2020207072657365727665417370656374526174696f3d22784d6964594d696460808201527f206d656574220a2020202020203e0a20202020202020203c646566733e0a202060a08201527f20202020202020203c6c696e6561724772616469656e742069643d226772616460c08201527f222078313d223025222079313d223025222078323d2231303025222079323d2260e08201527f31303025223e0a2020202020202020202020203c73746f70206f66667365743d6101008201527f22302522207374796c653d2273746f702d636f6c6f723a00000000000000000061012082015260006101378451611a448183860160208901611418565b611bae611ab06117ff84848801017f3b73746f702d6f7061636974793a3122202f3e0a20202020202020202020202081527f3c73746f70206f66667365743d223130302522207374796c653d2273746f702d60208201526531b7b637b91d60d11b604082015260460190565b7f3b73746f702d6f7061636974793a302e3722202f3e0a2020202020202020202081527f3c2f6c696e6561724772616469656e743e0a20202020202020203c2f6465667360208201527f3e0a20202020202020200a20202020202020203c212d2d204261636b67726f7560408201527f6e64202d2d3e0a20202020202020203c726563742077696474683d223130302560608201527f22206865696768743d2231303025222066696c6c3d2275726c2823677261642960808201527f222f3e0a20202020202020200a20202020202020203c212d2d2050617474657260a08201526d0371016969f0510101010101010160951b60c082015260ce0190565b9695505050505050565b60008551611bca818460208a01611418565b7f0a2020202020203c636972636c65200a202020202020202063783d22000000009083019081528551611c0481601c840160208a01611418565b6e111005101010101010101031bc9e9160891b601c92909101918201528451611c3481602b840160208901611418565b6d1110051010101010101010391e9160911b602b92909101918201528351611c63816039840160208801611418565b7f22200a202020202020202066696c6c3d2272676261283235352c3235352c3235603992909101918201527401a96181719149105101010101010179f051010101605d1b6059820152606e019695505050505050565b7f0a20202020202020200a20202020202020203c212d2d20546f6b656e2049442081527f2d2d3e0a20202020202020203c74657874200a20202020202020202020783d2260208201527f35302522200a20202020202020202020793d2235302522200a2020202020202060408201527f202020646f6d696e616e742d626173656c696e653d226d6964646c6522200a2060608201527f202020202020202020746578742d616e63686f723d226d6964646c6522200a2060808201527f202020202020202020666f6e742d66616d696c793d22417269616c2c2073616e60a08201527f732d736572696622200a20202020202020202020666f6e742d73697a653d223460c08201527f3822200a20202020202020202020666f6e742d7765696768743d22626f6c642260e08201527f200a2020202020202020202066696c6c3d227768697465220a202020202020206101008201527f20202066696c7465723d2264726f702d736861646f77283020327078203470786101208201527f207267626128302c302c302c302e322929220a20202020202020203e0a20202061014082015267202020202020202360c01b6101608201526000611e7d610168830184611503565b7f0a20202020202020203c2f746578743e0a2020202020203c2f7376673e0000008152601d019392505050565b600060018201611ebc57611ebc6114a7565b5060010190565b8181038181111561023b5761023b6114a7565b808202811582820484141761023b5761023b6114a7565b600082611efc57611efc6114d9565b50049056fe4142434445464748494a4b4c4d4e4f505152535455565758595a6162636465666768696a6b6c6d6e6f707172737475767778797a303132333435363738392b2fa2646970667358221220fa26fe2e3388a8cd6e8de188f427e88b4b23396e3a6e3d69fb011a0ba3140e5464736f6c63430008160033";
+
+type SimpleNFTRendererConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: SimpleNFTRendererConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class SimpleNFTRenderer__factory extends ContractFactory {
+  constructor(...args: SimpleNFTRendererConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      SimpleNFTRenderer & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): SimpleNFTRenderer__factory {
+    return super.connect(runner) as SimpleNFTRenderer__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): SimpleNFTRendererInterface {
+    return new Interface(_abi) as SimpleNFTRendererInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): SimpleNFTRenderer {
+    return new Contract(address, _abi, runner) as unknown as SimpleNFTRenderer;
+  }
+}
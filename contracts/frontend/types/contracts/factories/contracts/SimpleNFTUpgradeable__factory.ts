@@ -0,0 +1,2778 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  SimpleNFTUpgradeable,
+  SimpleNFTUpgradeableInterface,
+} from "../../contracts/SimpleNFTUpgradeable";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name_",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "symbol_",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "initialOwner",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "AccessControlBadConfirmation",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "neededRole",
+        type: "bytes32",
+      },
+    ],
+    name: "AccessControlUnauthorizedAccount",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+    ],
+    name: "AddressEmptyCode",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "recipients",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "quantities",
+        type: "uint256",
+      },
+    ],
+    name: "AirdropLengthMismatch",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "AllowlistAlreadyClaimed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "AllowlistNotActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "AlreadyRevealed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CollectionNotRevealed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ECDSAInvalidSignature",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "length",
+        type: "uint256",
+      },
+    ],
+    name: "ECDSAInvalidSignatureLength",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "s",
+        type: "bytes32",
+      },
+    ],
+    name: "ECDSAInvalidSignatureS",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "implementation",
+        type: "address",
+      },
+    ],
+    name: "ERC1967InvalidImplementation",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ERC1967NonPayable",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "numerator",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "denominator",
+        type: "uint256",
+      },
+    ],
+    name: "ERC2981InvalidDefaultRoyalty",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ERC2981InvalidDefaultRoyaltyReceiver",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "numerator",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "denominator",
+        type: "uint256",
+      },
+    ],
+    name: "ERC2981InvalidTokenRoyalty",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ERC2981InvalidTokenRoyaltyReceiver",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "ERC721IncorrectOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ERC721InsufficientApproval",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "approver",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidApprover",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidOperator",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidReceiver",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidSender",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ERC721NonexistentToken",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "EnforcedPause",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ExpectedPause",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "FailedCall",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "required",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "provided",
+        type: "uint256",
+      },
+    ],
+    name: "IncorrectPayment",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidInitialization",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidMaxSupply",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidMerkleProof",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidQuantity",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "saleStart",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "saleEnd",
+        type: "uint256",
+      },
+    ],
+    name: "InvalidSaleWindow",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidShortString",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "fromId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "toId",
+        type: "uint256",
+      },
+    ],
+    name: "InvalidTokenRange",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "signer",
+        type: "address",
+      },
+    ],
+    name: "InvalidVoucherSignature",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidWithdrawalRecipient",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "maxPerWallet",
+        type: "uint256",
+      },
+    ],
+    name: "MaxPerWalletExceeded",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "maxSupply",
+        type: "uint256",
+      },
+    ],
+    name: "MaxSupplyReached",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "MetadataNotFrozen",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum SimpleNFT.MintMode",
+        name: "mode",
+        type: "uint8",
+      },
+    ],
+    name: "MintNotAllowed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotInitializing",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "OwnableInvalidOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "OwnableUnauthorizedAccount",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "saleEnd",
+        type: "uint256",
+      },
+    ],
+    name: "SaleEnded",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "saleStart",
+        type: "uint256",
+      },
+    ],
+    name: "SaleNotStarted",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "str",
+        type: "string",
+      },
+    ],
+    name: "StringTooLong",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "TokenIsSoulbound",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "TokenMetadataFrozen",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "TokenURINotSet",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UUPSUnauthorizedCallContext",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "slot",
+        type: "bytes32",
+      },
+    ],
+    name: "UUPSUnsupportedProxiableUUID",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "nonce",
+        type: "uint256",
+      },
+    ],
+    name: "VoucherAlreadyRedeemed",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "expiry",
+        type: "uint256",
+      },
+    ],
+    name: "VoucherExpired",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "WithdrawalFailed",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "approved",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Approval",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "ApprovalForAll",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_fromTokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_toTokenId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchMetadataUpdate",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [],
+    name: "ContractURIUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint96",
+        name: "feeNumerator",
+        type: "uint96",
+      },
+    ],
+    name: "DefaultRoyaltyUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [],
+    name: "EIP712DomainChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "version",
+        type: "uint64",
+      },
+    ],
+    name: "Initialized",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Locked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maxPerWallet",
+        type: "uint256",
+      },
+    ],
+    name: "MaxPerWalletUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "merkleRoot",
+        type: "bytes32",
+      },
+    ],
+    name: "MerkleRootUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "MetadataUpdate",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "enum SimpleNFT.MintMode",
+        name: "mode",
+        type: "uint8",
+      },
+    ],
+    name: "MintModeUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldPrice",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newPrice",
+        type: "uint256",
+      },
+    ],
+    name: "MintPriceUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Paused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "_value",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "_id",
+        type: "uint256",
+      },
+    ],
+    name: "PermanentURI",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "renderer",
+        type: "address",
+      },
+    ],
+    name: "RendererUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "baseURI",
+        type: "string",
+      },
+    ],
+    name: "Revealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "previousAdminRole",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "newAdminRole",
+        type: "bytes32",
+      },
+    ],
+    name: "RoleAdminChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "saleStart",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "saleEnd",
+        type: "uint256",
+      },
+    ],
+    name: "SaleWindowUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint96",
+        name: "feeNumerator",
+        type: "uint96",
+      },
+    ],
+    name: "TokenRoyaltyUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Transfer",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Unlocked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Unpaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "expires",
+        type: "uint64",
+      },
+    ],
+    name: "UpdateUser",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "implementation",
+        type: "address",
+      },
+    ],
+    name: "Upgraded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "nonce",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+    ],
+    name: "VoucherRedeemed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "Withdrawn",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "DEFAULT_ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "METADATA_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MINTER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "UPGRADE_INTERFACE_VERSION",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "VOUCHER_SIGNER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "acceptOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address[]",
+        name: "recipients",
+        type: "address[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "quantities",
+        type: "uint256[]",
+      },
+    ],
+    name: "airdrop",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "allowlistClaimed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32[]",
+        name: "proof",
+        type: "bytes32[]",
+      },
+    ],
+    name: "allowlistMint",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "approve",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "burn",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "contractURI",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "deleteDefaultRoyalty",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "eip712Domain",
+    outputs: [
+      {
+        internalType: "bytes1",
+        name: "fields",
+        type: "bytes1",
+      },
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "version",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "chainId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "verifyingContract",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "salt",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256[]",
+        name: "extensions",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "fromId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "toId",
+        type: "uint256",
+      },
+    ],
+    name: "emitPermanentURIs",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "freezeMetadata",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "freezeToken",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "getApproved",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "getRoleAdmin",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "getRoleMember",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "getRoleMemberCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "getRoleMembers",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "grantRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "hasRole",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name_",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "symbol_",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "initialOwner",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "maxSupply_",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "royaltyReceiver",
+        type: "address",
+      },
+      {
+        internalType: "uint96",
+        name: "royaltyFeeNumerator",
+        type: "uint96",
+      },
+      {
+        internalType: "bytes32",
+        name: "provenanceHash_",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "soulbound_",
+        type: "bool",
+      },
+    ],
+    name: "initialize",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "initializedVersion",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "isApprovedForAll",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "isMetadataFrozen",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "isRevealed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "isSaleActive",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "isTokenFrozen",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "locked",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "maxPerWallet",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "maxSupply",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "merkleRoot",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "mint",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "quantity",
+        type: "uint256",
+      },
+    ],
+    name: "mintBatch",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "firstTokenId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "mintMode",
+    outputs: [
+      {
+        internalType: "enum SimpleNFT.MintMode",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "mintPrice",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "notRevealedURI",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ownerOf",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pendingOwner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "provenanceHash",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "proxiableUUID",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "recipient",
+            type: "address",
+          },
+          {
+            internalType: "string",
+            name: "uri",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "price",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "expiry",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "nonce",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct SimpleNFT.MintVoucher",
+        name: "voucher",
+        type: "tuple",
+      },
+      {
+        internalType: "bytes",
+        name: "signature",
+        type: "bytes",
+      },
+    ],
+    name: "redeem",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "remainingMints",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "remainingSupply",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "renderer",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "renounceOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "callerConfirmation",
+        type: "address",
+      },
+    ],
+    name: "renounceRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "resetTokenRoyalty",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "baseURI",
+        type: "string",
+      },
+    ],
+    name: "reveal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "revokeRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "salePrice",
+        type: "uint256",
+      },
+    ],
+    name: "royaltyInfo",
+    outputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "saleEnd",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "saleStart",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "setApprovalForAll",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "baseURI",
+        type: "string",
+      },
+    ],
+    name: "setBaseURI",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "uri",
+        type: "string",
+      },
+    ],
+    name: "setContractURI",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        internalType: "uint96",
+        name: "feeNumerator",
+        type: "uint96",
+      },
+    ],
+    name: "setDefaultRoyalty",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "setMaxPerWallet",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "root",
+        type: "bytes32",
+      },
+    ],
+    name: "setMerkleRoot",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum SimpleNFT.MintMode",
+        name: "mode",
+        type: "uint8",
+      },
+    ],
+    name: "setMintMode",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newPrice",
+        type: "uint256",
+      },
+    ],
+    name: "setMintPrice",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "uri",
+        type: "string",
+      },
+    ],
+    name: "setNotRevealedURI",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "renderer_",
+        type: "address",
+      },
+    ],
+    name: "setRenderer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "start",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "end",
+        type: "uint256",
+      },
+    ],
+    name: "setSaleWindow",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        internalType: "uint96",
+        name: "feeNumerator",
+        type: "uint96",
+      },
+    ],
+    name: "setTokenRoyalty",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "uri",
+        type: "string",
+      },
+    ],
+    name: "setTokenURI",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        internalType: "uint64",
+        name: "expires",
+        type: "uint64",
+      },
+    ],
+    name: "setUser",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "soulbound",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes4",
+        name: "interfaceId",
+        type: "bytes4",
+      },
+    ],
+    name: "supportsInterface",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "tokenURI",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner_",
+        type: "address",
+      },
+    ],
+    name: "tokensOfOwner",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "tokenIds",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalMinted",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalSupply",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "transferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "unpause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newImplementation",
+        type: "address",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "upgradeToAndCall",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "userExpires",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "userOf",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "voucherRedeemed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "walletMints",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address payable",
+        name: "to",
+        type: "address",
+      },
+    ],
+    name: "withdraw",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x61018060405230610160523480156200001757600080fd5b506040516200686f3803806200686f8339810160408190526200003a9162000a52565b82828260018460008060001b60006040518060400160405280600981526020016814da5b5c1b1953919560ba1b815250604051806040016040528060018152602001603160f81b8152508760405180602001604052806000815250604051806020016040528060008152508160009081620000b6919062000b70565b506001620000c5828262000b70565b50506006805460ff19169055506001600160a01b0381166200010257604051631e4fbdf760e01b8152600060048201526024015b60405180910390fd5b6200010d81620001f0565b506200011b82600d620002f7565b610120526200012c81600e620002f7565b61014052815160208084019190912060e052815190820120610100524660a052620001ba60e05161010051604080517f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f60208201529081019290925260608201524660808201523060a082015260009060c00160405160208183030381529060405280519060200120905090565b60805250503060c052620001d5888888888888888862000330565b620001df62000457565b505050505050505050505062000ce4565b6000620002056009546001600160a01b031690565b905062000212826200050b565b6001600160a01b03811615806200023a5750816001600160a01b0316816001600160a01b0316145b1562000244575050565b6040805160608101825260008082526000805160206200684f83398151915260208301526000805160206200682f83398151915292820192909252905b6003811015620002f157620002b0828260038110620002a457620002a462000c3c565b60200201518462000526565b506001600160a01b03841615620002e857620002e6828260038110620002da57620002da62000c3c565b60200201518562000561565b505b60010162000281565b50505050565b600060208351101562000317576200030f8362000593565b90506200032a565b8162000324848262000b70565b5060ff90505b92915050565b84600003620003525760405163066f305360e21b815260040160405180910390fd5b601062000360898262000b70565b5060116200036f888262000b70565b50601e859055601b829055601c805460ff60a01b1916600160a01b831515021790556001600f556022805460ff19166002179055620003b060008762000561565b50620003cc6000805160206200684f8339815191528762000561565b50620003e86000805160206200682f8339815191528762000561565b506001600160601b038316156200044d57620004058484620005d6565b6040516001600160601b03841681526001600160a01b038516907fe12d7d5bdb8218a22277dca8f854dd4573a1cea3d3e4808dc567df9eb1c14bf49060200160405180910390a25b5050505050505050565b7ff0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a00805468010000000000000000900460ff1615620004a85760405163f92ee8a960e01b815260040160405180910390fd5b80546001600160401b0390811614620005085780546001600160401b0319166001600160401b0390811782556040519081527fc7f505b2f371ae2175ee4913f4499e1f2633a7b5936321eed1cdaeb6115181d29060200160405180910390a15b50565b600a80546001600160a01b031916905562000508816200067d565b600080620005358484620006cf565b905080156200055a576000848152600c6020526040902062000558908462000761565b505b9392505050565b60008062000570848462000778565b905080156200055a576000848152600c6020526040902062000558908462000821565b600080829050601f81511115620005c1578260405163305a27a960e01b8152600401620000f9919062000c52565b8051620005ce8262000c87565b179392505050565b6127106001600160601b0382168110156200061757604051636f483d0960e01b81526001600160601b038316600482015260248101829052604401620000f9565b6001600160a01b0383166200064357604051635b6cc80560e11b815260006004820152602401620000f9565b50604080518082019091526001600160a01b039092168083526001600160601b039091166020909201829052600160a01b90910217600755565b600980546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e090600090a35050565b6000828152600b602090815260408083206001600160a01b038516845290915281205460ff161562000758576000838152600b602090815260408083206001600160a01b0386168085529252808320805460ff1916905551339286917ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b9190a45060016200032a565b5060006200032a565b60006200055a836001600160a01b03841662000838565b6000828152600b602090815260408083206001600160a01b038516845290915281205460ff1662000758576000838152600b602090815260408083206001600160a01b03861684529091529020805460ff19166001179055620007d83390565b6001600160a01b0316826001600160a01b0316847f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d60405160405180910390a45060016200032a565b60006200055a836001600160a01b0384166200093c565b60008181526001830160205260408120548015620009315760006200085f60018362000cac565b8554909150600090620008759060019062000cac565b9050808214620008e157600086600001828154811062000899576200089962000c3c565b9060005260206000200154905080876000018481548110620008bf57620008bf62000c3c565b6000918252602080832090910192909255918252600188019052604090208390555b8554869080620008f557620008f562000cce565b6001900381819060005260206000200160009055905585600101600086815260200190815260200160002060009055600193505050506200032a565b60009150506200032a565b600081815260018301602052604081205462000758575081546001818101845560008481526020808220909301849055845484825282860190935260409020919091556200032a565b634e487b7160e01b600052604160045260246000fd5b60005b83811015620009b85781810151838201526020016200099e565b50506000910152565b600082601f830112620009d357600080fd5b81516001600160401b0380821115620009f057620009f062000985565b604051601f8301601f19908116603f0116810190828211818310171562000a1b5762000a1b62000985565b8160405283815286602085880101111562000a3557600080fd5b62000a488460208301602089016200099b565b9695505050505050565b60008060006060848603121562000a6857600080fd5b83516001600160401b038082111562000a8057600080fd5b62000a8e87838801620009c1565b9450602086015191508082111562000aa557600080fd5b5062000ab486828701620009c1565b604086015190935090506001600160a01b038116811462000ad457600080fd5b809150509250925092565b600181811c9082168062000af457607f821691505b60208210810362000b1557634e487b7160e01b600052602260045260246000fd5b50919050565b601f82111562000b6b576000816000526020600020601f850160051c8101602086101562000b465750805b601f850160051c820191505b8181101562000b675782815560010162000b52565b5050505b505050565b81516001600160401b0381111562000b8c5762000b8c62000985565b62000ba48162000b9d845462000adf565b8462000b1b565b602080601f83116001811462000bdc576000841562000bc35750858301515b600019600386901b1c1916600185901b17855562000b67565b600085815260208120601f198616915b8281101562000c0d5788860151825594840194600190910190840162000bec565b508582101562000c2c5787850151600019600388901b60f8161c191681555b5050505050600190811b01905550565b634e487b7160e01b600052603260045260246000fd5b602081526000825180602084015262000c738160408501602087016200099b565b601f01601f19169190910160400192915050565b8051602080830151919081101562000b155760001960209190910360031b1b16919050565b818103818111156200032a57634e487b7160e01b600052601160045260246000fd5b634e487b7160e01b600052603160045260246000fd5b60805160a05160c05160e05161010051610120516101405161016051615ad762000d58600039600081816134da015281816135030152613644015260006139990152600061396c0152600061491b015260006148f30152600061484e01526000614878015260006148a20152615ad76000f3fe6080604052600436106105025760003560e01c8063788c599911610297578063b6854f9611610165578063da0239a6116100cc578063e985e9c511610085578063e985e9c514610f9c578063ef8d4ce014610fbc578063f0293fd314610fdc578063f2c4ce1e14611009578063f2fde38b14611029578063f4a0a5281461104957600080fd5b8063da0239a614610ee0578063df78dcb314610ef5578063e030565e14610f29578063e268e4d314610f49578063e30c397814610f69578063e8a3d48514610f8757600080fd5b8063ca15c8731161011e578063ca15c87314610e33578063cc888bab14610e53578063d111515d14610e73578063d539139314610e88578063d547741f14610eaa578063d5abeb0114610eca57600080fd5b8063b6854f9614610d87578063b88d4fde14610da7578063c10b935814610dc7578063c2f1f14a14610ddd578063c6ab67a314610dfd578063c87b56dd14610e1357600080fd5b806391d1485411610209578063a3246ad3116101c2578063a3246ad314610cbe578063aa1b103f14610ceb578063ab0bcc4114610d00578063ad3cb1cc14610d16578063ae0d3eb814610d47578063b45a3c0e14610d6757600080fd5b806391d1485414610c1f578063938e3d7b14610c3f57806395d89b4114610c5f578063a217fddf14610c74578063a22cb46514610c89578063a2309ff814610ca957600080fd5b806384b0196e1161025b57806384b0196e14610b3c5780638a616bc014610b645780638ada6b0f14610b845780638da5cb5b14610ba45780638fc88c4814610bc25780639010d07c14610bff57600080fd5b8063788c599914610a9e57806379ba509714610ac55780637cb6475914610ada5780638456cb5914610afa5780638462151c14610b0f57600080fd5b806342966c68116103d45780635944c75311610346578063680e354a116102ff578063680e354a146109fe5780636817c76c14610a1e57806370a0823114610a34578063715018a614610a5457806372131db314610a695780637225038014610a8957600080fd5b80635944c753146109535780635c975abb146109735780636352211e1461098b57806364d0764e146109ab57806367243482146109cb578063679f15bb146109eb57600080fd5b806352d1902d1161039857806352d1902d146108c1578063537924ef146108d657806354214f69146108e957806355f804b3146108fe578063564566a81461091e57806356d3163d1461093357600080fd5b806342966c6814610838578063453c2310146108585780634c2612471461086e5780634f1ef2861461088e57806351cff8d9146108a157600080fd5b806320e409b41161047857806330b42ec21161043157806330b42ec214610761578063337eb6301461079157806336568abe146107c157806338841782146107e15780633f4ba83a1461080357806342842e0e1461081857600080fd5b806320e409b41461068957806323b872dd1461069c578063248a9ca3146106bc5780632a55205a146106ec5780632eb4a7ab1461072b5780632f2ff15d1461074157600080fd5b8063095ea7b3116104ca578063095ea7b3146105e55780630e24495e146106055780630fad0f511461061d5780631249c58b1461063e578063162094c41461065457806318160ddd1461067457600080fd5b806301ffc9a71461050757806304634d8d1461053c57806306fdde031461055e578063081812fc1461058057806308828eb7146105b8575b600080fd5b34801561051357600080fd5b50610527610522366004614d34565b611069565b60405190151581526020015b60405180910390f35b34801561054857600080fd5b5061055c610557366004614d82565b6110c2565b005b34801561056a57600080fd5b5061057361114b565b6040516105339190614e07565b34801561058c57600080fd5b506105a061059b366004614e1a565b6111dd565b6040516001600160a01b039091168152602001610533565b3480156105c457600080fd5b506105cd611206565b6040516001600160401b039091168152602001610533565b3480156105f157600080fd5b5061055c610600366004614e33565b61123e565b34801561061157600080fd5b5060165460ff16610527565b34801561062957600080fd5b50601c5461052790600160a01b900460ff1681565b61064661124d565b604051908152602001610533565b34801561066057600080fd5b5061055c61066f366004614f22565b611336565b34801561068057600080fd5b506106466113ff565b610646610697366004614e1a565b611416565b3480156106a857600080fd5b5061055c6106b7366004614f68565b6115ac565b3480156106c857600080fd5b506106466106d7366004614e1a565b6000908152600b602052604090206001015490565b3480156106f857600080fd5b5061070c610707366004614fa9565b611637565b604080516001600160a01b039093168352602083019190915201610533565b34801561073757600080fd5b5061064660255481565b34801561074d57600080fd5b5061055c61075c366004614fcb565b6116be565b34801561076d57600080fd5b5061052761077c366004614ffb565b60266020526000908152604090205460ff1681565b34801561079d57600080fd5b506105276107ac366004614e1a565b60276020526000908152604090205460ff1681565b3480156107cd57600080fd5b5061055c6107dc366004614fcb565b6116e3565b3480156107ed57600080fd5b50610646600080516020615a2283398151915281565b34801561080f57600080fd5b5061055c61171b565b34801561082457600080fd5b5061055c610833366004614f68565b61172d565b34801561084457600080fd5b5061055c610853366004614e1a565b611748565b34801561086457600080fd5b5061064660205481565b34801561087a57600080fd5b5061055c610889366004615018565b611754565b61055c61089c36600461504c565b611832565b3480156108ad57600080fd5b5061055c6108bc366004614ffb565b61184d565b3480156108cd57600080fd5b50610646611938565b6106466108e43660046150c9565b611955565b3480156108f557600080fd5b50610527611a44565b34801561090a57600080fd5b5061055c610919366004615018565b611a67565b34801561092a57600080fd5b50610527611ad5565b34801561093f57600080fd5b5061055c61094e366004614ffb565b611af8565b34801561095f57600080fd5b5061055c61096e36600461510a565b611ba0565b34801561097f57600080fd5b5060065460ff16610527565b34801561099757600080fd5b506105a06109a6366004614e1a565b611c25565b3480156109b757600080fd5b506106466109c6366004614ffb565b611c30565b3480156109d757600080fd5b5061055c6109e6366004615148565b611ca4565b6106466109f93660046151f4565b611de0565b348015610a0a57600080fd5b5061055c610a19366004614fa9565b612067565b348015610a2a57600080fd5b50610646601f5481565b348015610a4057600080fd5b50610646610a4f366004614ffb565b6120e6565b348015610a6057600080fd5b5061055c61212e565b348015610a7557600080fd5b5061055c610a84366004615264565b612140565b348015610a9557600080fd5b506105736121a6565b348015610aaa57600080fd5b50602254610ab89060ff1681565b604051610533919061529b565b348015610ad157600080fd5b5061055c6121b5565b348015610ae657600080fd5b5061055c610af5366004614e1a565b6121f9565b348015610b0657600080fd5b5061055c612236565b348015610b1b57600080fd5b50610b2f610b2a366004614ffb565b612246565b60405161053391906152ff565b348015610b4857600080fd5b50610b51612319565b6040516105339796959493929190615312565b348015610b7057600080fd5b5061055c610b7f366004614e1a565b61235f565b348015610b9057600080fd5b50601c546105a0906001600160a01b031681565b348015610bb057600080fd5b506009546001600160a01b03166105a0565b348015610bce57600080fd5b50610646610bdd366004614e1a565b6000908152601d6020526040902054600160a01b90046001600160401b031690565b348015610c0b57600080fd5b506105a0610c1a366004614fa9565b6123d4565b348015610c2b57600080fd5b50610527610c3a366004614fcb565b6123f3565b348015610c4b57600080fd5b5061055c610c5a366004615018565b61241e565b348015610c6b57600080fd5b50610573612493565b348015610c8057600080fd5b50610646600081565b348015610c9557600080fd5b5061055c610ca4366004615392565b6124a2565b348015610cb557600080fd5b506106466124ad565b348015610cca57600080fd5b50610cde610cd9366004614e1a565b6124be565b60405161053391906153be565b348015610cf757600080fd5b5061055c6124d8565b348015610d0c57600080fd5b5061064660235481565b348015610d2257600080fd5b50610573604051806040016040528060058152602001640352e302e360dc1b81525081565b348015610d5357600080fd5b5061055c610d6236600461540b565b612545565b348015610d7357600080fd5b50610527610d82366004614e1a565b61271e565b348015610d9357600080fd5b5061055c610da2366004614e1a565b61273d565b348015610db357600080fd5b5061055c610dc23660046154d3565b6128cd565b348015610dd357600080fd5b5061064660245481565b348015610de957600080fd5b506105a0610df8366004614e1a565b6128e5565b348015610e0957600080fd5b50610646601b5481565b348015610e1f57600080fd5b50610573610e2e366004614e1a565b612937565b348015610e3f57600080fd5b50610646610e4e366004614e1a565b612b68565b348015610e5f57600080fd5b50610527610e6e366004614e1a565b612b7f565b348015610e7f57600080fd5b5061055c612ba4565b348015610e9457600080fd5b50610646600080516020615a8283398151915281565b348015610eb657600080fd5b5061055c610ec5366004614fcb565b612c14565b348015610ed657600080fd5b50610646601e5481565b348015610eec57600080fd5b50610646612c39565b348015610f0157600080fd5b506106467f9089c70e1cc864bea9e548485d837bd067c653ad269b11b56a2b917f24b7eca381565b348015610f3557600080fd5b5061055c610f4436600461553e565b612c50565b348015610f5557600080fd5b5061055c610f64366004614e1a565b612d01565b348015610f7557600080fd5b50600a546001600160a01b03166105a0565b348015610f9357600080fd5b50610573612d3c565b348015610fa857600080fd5b50610527610fb736600461558c565b612d4b565b348015610fc857600080fd5b5061055c610fd7366004614fa9565b612d79565b348015610fe857600080fd5b50610646610ff7366004614ffb565b60216020526000908152604090205481565b34801561101557600080fd5b5061055c611024366004615018565b612ea7565b34801561103557600080fd5b5061055c611044366004614ffb565b612f12565b34801561105557600080fd5b5061055c611064366004614e1a565b612f83565b60006001600160e01b03198216158061109257506001600160e01b03198216632b424ad760e21b145b806110ad57506001600160e01b03198216635a2d1e0760e11b145b806110bc57506110bc82612fcc565b92915050565b6110ca612ff1565b60165460ff16156110f65760405162461bcd60e51b81526004016110ed906155ba565b60405180910390fd5b611100828261301e565b6040516001600160601b03821681526001600160a01b038316907fe12d7d5bdb8218a22277dca8f854dd4573a1cea3d3e4808dc567df9eb1c14bf49060200160405180910390a25050565b60606010805461115a906155e6565b80601f0160208091040260200160405190810160405280929190818152602001828054611186906155e6565b80156111d35780601f106111a8576101008083540402835291602001916111d3565b820191906000526020600020905b8154815290600101906020018083116111b657829003601f168201915b5050505050905090565b60006111e8826130c1565b506000828152600460205260409020546001600160a01b03166110bc565b60006112397ff0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a00546001600160401b031690565b905090565b6112498282336130fa565b5050565b60008060225460ff16600281111561126757611267615285565b14806112a95750600160225460ff16600281111561128757611287615285565b1480156112a957506112a7600080516020615a82833981519152336123f3565b155b156112ce57602254604051633848972160e21b81526110ed9160ff169060040161529b565b6023544210156112f75760235460405163456afd0b60e01b81526004016110ed91815260200190565b60245415801590611309575060245442115b1561132d576024546040516394bb74a960e01b81526004016110ed91815260200190565b61123933613107565b600080516020615a2283398151915261134e81613191565b60165460ff16156113715760405162461bcd60e51b81526004016110ed906155ba565b61137a836130c1565b5060008381526017602052604090205460ff16156113ae5760405163a8e77cd960e01b8152600481018490526024016110ed565b60008381526015602052604090206113c68382615668565b506040518381527ff8e1a15aba9398e019f0b49df1a4fde98ee17ae345cb5f6b5e2c27f5033e8ce79060200160405180910390a1505050565b600060125461140c6124ad565b611239919061573d565b60008060225460ff16600281111561143057611430615285565b14806114725750600160225460ff16600281111561145057611450615285565b1480156114725750611470600080516020615a82833981519152336123f3565b155b1561149757602254604051633848972160e21b81526110ed9160ff169060040161529b565b6023544210156114c05760235460405163456afd0b60e01b81526004016110ed91815260200190565b602454158015906114d2575060245442115b156114f6576024546040516394bb74a960e01b81526004016110ed91815260200190565b816000036115175760405163524f409b60e01b815260040160405180910390fd5b600082601f546115279190615750565b905080341461155257604051630d35e92160e01b8152600481018290523460248201526044016110ed565b61155c338461319b565b6115663384613229565b9150600080516020615a628339815191528260016115848683615767565b61158e919061573d565b6040805192835260208301919091520160405180910390a150919050565b6001600160a01b0382166115d657604051633250574960e11b8152600060048201526024016110ed565b60006115e3838333613282565b9050836001600160a01b0316816001600160a01b031614611631576040516364283d7b60e01b81526001600160a01b03808616600483015260248201849052821660448201526064016110ed565b50505050565b600082815260086020526040812080548291906001600160a01b03811690600160a01b90046001600160601b03168161168b5750506007546001600160a01b03811690600160a01b90046001600160601b03165b60006127106116a36001600160601b03841689615750565b6116ad919061577a565b9295509193505050505b9250929050565b6000828152600b60205260409020600101546116d981613191565b611631838361341b565b6001600160a01b038116331461170c5760405163334bd91960e11b815260040160405180910390fd5b6117168282613450565b505050565b611723612ff1565b61172b61347d565b565b611716838383604051806020016040528060008152506128cd565b61124960008233613282565b600080516020615a2283398151915261176c81613191565b60165460ff161561178f5760405162461bcd60e51b81526004016110ed906155ba565b601a5460ff16156117b35760405163a89ac15160e01b815260040160405180910390fd5b601a805460ff1916600117905560136117cc8382615668565b507f34f25fe82e04b6b4bb3440737372e9d5d8e7a6a2b12da5dc4abead2c0b544ad9826040516117fc9190614e07565b60405180910390a160408051600181526000196020820152600080516020615a6283398151915291015b60405180910390a15050565b61183a6134cf565b61184382613574565b611249828261357c565b611855612ff1565b6001600160a01b03811661187c57604051635b03092b60e11b815260040160405180910390fd5b60405147906000906001600160a01b0384169083908381818185875af1925050503d80600081146118c9576040519150601f19603f3d011682016040523d82523d6000602084013e6118ce565b606091505b50509050806118f0576040516327fcd9d160e01b815260040160405180910390fd5b826001600160a01b03167f7084f5476618d8e60b11ef0d7d3f06914655adb8793e28ff7f018d4c76d505d58360405161192b91815260200190565b60405180910390a2505050565b6000611942613639565b50600080516020615a4283398151915290565b602554600090611978576040516330e7dab160e21b815260040160405180910390fd5b3360009081526026602052604090205460ff16156119ab5760405163d6c772ff60e01b81523360048201526024016110ed565b604080513360208201526000910160408051601f19818403018152828252805160209182012090830152016040516020818303038152906040528051906020012090506119fc848460255484613682565b611a195760405163582f497d60e11b815260040160405180910390fd5b336000818152602660205260409020805460ff19166001179055611a3c90613107565b949350505050565b601a5460009060ff1680611239575060198054611a60906155e6565b1592915050565b600080516020615a22833981519152611a7f81613191565b60165460ff1615611aa25760405162461bcd60e51b81526004016110ed906155ba565b6013611aae8382615668565b5060408051600181526000196020820152600080516020615a628339815191529101611826565b600060235442101580156112395750602454158061123957505060245442111590565b600080516020615a22833981519152611b1081613191565b60165460ff1615611b335760405162461bcd60e51b81526004016110ed906155ba565b601c80546001600160a01b0319166001600160a01b0384169081179091556040517f482cbbbcf912da3be80deb8503ae1e94c0b7d5d1d0ec0af3d9d6403e06e609ee90600090a260408051600181526000196020820152600080516020615a628339815191529101611826565b611ba8612ff1565b60165460ff1615611bcb5760405162461bcd60e51b81526004016110ed906155ba565b611bd683838361369a565b6040516001600160601b03821681526001600160a01b0383169084907fe361b60b9164428d036a601ec08552e653bfe8c44389b8a4ebfd47281eb8741a906020015b60405180910390a3505050565b60006110bc826130c1565b600080611c3b612c39565b9050602054600003611c4d5792915050565b6001600160a01b03831660009081526021602090815260408220549054909190821015611c875781602054611c82919061573d565b611c8a565b60005b9050828110611c995782611c9b565b805b95945050505050565b600080516020615a82833981519152611cbc81613191565b838214611ce657604051632851925b60e21b815260048101859052602481018390526044016110ed565b6000849003611d085760405163524f409b60e01b815260040160405180910390fd5b600f5460005b85811015611da057848482818110611d2857611d2861579c565b90506020020135600003611d4f5760405163524f409b60e01b815260040160405180910390fd5b611d97878783818110611d6457611d6461579c565b9050602002016020810190611d799190614ffb565b868684818110611d8b57611d8b61579c565b90506020020135613229565b50600101611d0e565b50600080516020615a62833981519152816001600f54611dc0919061573d565b6040805192835260208301919091520160405180910390a1505050505050565b60008360600135421115611e0d576040516307185d5160e01b8152606085013560048201526024016110ed565b608084013560009081526027602052604090205460ff1615611e4857604051632dbfcda160e01b8152608085013560048201526024016110ed565b83604001353414611e785760408051630d35e92160e01b81529085013560048201523460248201526044016110ed565b6000611ec2611e868661375c565b85858080601f01602080910402602001604051908101604052809392919081815260200183838082843760009201919091525061381192505050565b9050611ed66009546001600160a01b031690565b6001600160a01b0316816001600160a01b031614158015611f1e5750611f1c7f9089c70e1cc864bea9e548485d837bd067c653ad269b11b56a2b917f24b7eca3826123f3565b155b15611f4757604051631497dfb360e21b81526001600160a01b03821660048201526024016110ed565b60808501356000908152602760209081526040909120805460ff19166001179055611f7f90611f7890870187614ffb565b6001613229565b91506000611f9060208701876157b2565b90501115611fe45760165460ff1615611fbb5760405162461bcd60e51b81526004016110ed906155ba565b611fc860208601866157b2565b600084815260156020526040902091611fe29190836157f8565b505b6040518281527ff8e1a15aba9398e019f0b49df1a4fde98ee17ae345cb5f6b5e2c27f5033e8ce79060200160405180910390a16120246020860186614ffb565b6001600160a01b03168286608001357f34cd4b0d30098edaf14317aa89d9ce2d2a91b309b7d9b0aeb8cfa07aee4da5f260405160405180910390a4509392505050565b61206f612ff1565b801580159061207e5750818111155b156120a65760405163b42d8cef60e01b815260048101839052602481018290526044016110ed565b6023829055602481905560408051838152602081018390527f7291acdf619347e3dd338a8b65d1788570a0f1bc413e94e9e7333d0561c6ed589101611826565b60006001600160a01b038216612112576040516322718ad960e21b8152600060048201526024016110ed565b506001600160a01b031660009081526003602052604090205490565b612136612ff1565b61172b600061383b565b612148612ff1565b6022805482919060ff1916600183600281111561216757612167615285565b02179055507f7fc504f71d58bc2e04f75e1659c8c228d53ae22d3c99326171fd6899d708f84e8160405161219b919061529b565b60405180910390a150565b60606019805461115a906155e6565b600a5433906001600160a01b031681146121ed5760405163118cdaa760e01b81526001600160a01b03821660048201526024016110ed565b6121f68161383b565b50565b612201612ff1565b60258190556040518181527f90004c04698bc3322499a575ed3752dd4abf33e0a7294c06a787a0fe01bea9419060200161219b565b61223e612ff1565b61172b613928565b60606000612253836120e6565b9050806001600160401b0381111561226d5761226d614e5f565b604051908082528060200260200182016040528015612296578160200160208202803683370190505b509150600060015b82821080156122ae5750600f5481105b15612311576000818152600260205260409020546001600160a01b038681169116036122ff578084836122e0816158b7565b9450815181106122f2576122f261579c565b6020026020010181815250505b80612309816158b7565b91505061229e565b505050919050565b60006060806000806000606061232d613965565b612335613992565b60408051600080825260208201909252600f60f81b9b939a50919850469750309650945092509050565b612367612ff1565b60165460ff161561238a5760405162461bcd60e51b81526004016110ed906155ba565b60008181526008602052604081205560405160008082529082907fe361b60b9164428d036a601ec08552e653bfe8c44389b8a4ebfd47281eb8741a9060200160405180910390a350565b6000828152600c602052604081206123ec90836139bf565b9392505050565b6000918252600b602090815260408084206001600160a01b0393909316845291905290205460ff1690565b600080516020615a2283398151915261243681613191565b60165460ff16156124595760405162461bcd60e51b81526004016110ed906155ba565b60146124658382615668565b506040517fa5d4097edda6d87cb9329af83fb3712ef77eeb13738ffe43cc35a4ce305ad96290600090a15050565b60606011805461115a906155e6565b6112493383836139cb565b60006001600f54611239919061573d565b6000818152600c602052604090206060906110bc90613a62565b6124e0612ff1565b60165460ff16156125035760405162461bcd60e51b81526004016110ed906155ba565b61250d6000600755565b6040516000808252907fe12d7d5bdb8218a22277dca8f854dd4573a1cea3d3e4808dc567df9eb1c14bf49060200160405180910390a2565b7ff0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a008054600160401b810460ff1615906001600160401b031660008115801561258a5750825b90506000826001600160401b031660011480156125a65750303b155b9050811580156125b4575080155b156125d25760405163f92ee8a960e01b815260040160405180910390fd5b845467ffffffffffffffff1916600117855583156125fc57845460ff60401b1916600160401b1785555b6001600160a01b038b1661262657604051631e4fbdf760e01b8152600060048201526024016110ed565b61262f8b61383b565b6126c78f8f8080601f016020809104026020016040519081016040528093929190818152602001838380828437600081840152601f19601f820116905080830192505050505050508e8e8080601f016020809104026020016040519081016040528093929190818152602001838380828437600081840152601f19601f820116905080830192505050505050508d8d8d8d8d8d613a6f565b831561270d57845460ff60401b19168555604051600181527fc7f505b2f371ae2175ee4913f4499e1f2633a7b5936321eed1cdaeb6115181d29060200160405180910390a15b505050505050505050505050505050565b6000612729826130c1565b5050601c54600160a01b900460ff16919050565b600080516020615a2283398151915261275581613191565b60165460ff16156127785760405162461bcd60e51b81526004016110ed906155ba565b612780611a44565b61279d5760405163847b198f60e01b815260040160405180910390fd5b60008281526017602052604090205460ff16156127d05760405163a8e77cd960e01b8152600481018390526024016110ed565b60006127db83612937565b9050805160000361280257604051636ea1b76f60e11b8152600481018490526024016110ed565b6000838152601560205260409020805461281b906155e6565b905060000361288257601c546001600160a01b03161561286857601c54600084815260186020526040902080546001600160a01b0319166001600160a01b03909216919091179055612882565b60008381526015602052604090206128808282615668565b505b60008381526017602052604090819020805460ff191660011790555183907fa109ba539900bf1b633f956d63c96fc89b814c7287f7aa50a9216d0b556572079061192b908490614e07565b6128d88484846115ac565b6116313385858585613b86565b6000818152601d602090815260408083208151808301909252546001600160a01b0381168252600160a01b90046001600160401b0316918101829052904211156129305760006123ec565b5192915050565b6060612942826130c1565b5060008281526017602052604090205460ff16801580156129685750612966611a44565b155b15612a00576019805461297a906155e6565b80601f01602080910402602001604051908101604052809291908181526020018280546129a6906155e6565b80156129f35780601f106129c8576101008083540402835291602001916129f3565b820191906000526020600020905b8154815290600101906020018083116129d657829003601f168201915b5050505050915050919050565b60008381526015602052604081208054612a19906155e6565b80601f0160208091040260200160405190810160405280929190818152602001828054612a45906155e6565b8015612a925780601f10612a6757610100808354040283529160200191612a92565b820191906000526020600020905b815481529060010190602001808311612a7557829003601f168201915b50505050509050600081511115612aaa579392505050565b600082612ac257601c546001600160a01b0316612adb565b6000858152601860205260409020546001600160a01b03165b90506001600160a01b03811615612b5f5760405163e9dc637560e01b8152306004820152602481018690526001600160a01b0382169063e9dc637590604401600060405180830381865afa158015612b37573d6000803e3d6000fd5b505050506040513d6000823e601f3d908101601f19168201604052611c9b91908101906158d0565b611c9b85613cb0565b6000818152600c602052604081206110bc90613d17565b60165460009060ff16806110bc57505060009081526017602052604090205460ff1690565b600080516020615a22833981519152612bbc81613191565b60165460ff1615612bdf5760405162461bcd60e51b81526004016110ed906155ba565b6016805460ff19166001908117909155604080519182526000196020830152600080516020615a62833981519152910161219b565b6000828152600b6020526040902060010154612c2f81613191565b6116318383613450565b6000612c436124ad565b601e54611239919061573d565b600083815260026020526040902054612c73906001600160a01b03163385613d21565b6040805180820182526001600160a01b038481168083526001600160401b03858116602080860182815260008b8152601d835288902096518754915196166001600160e01b031990911617600160a01b959093169490940291909117909355925191825285917f4e06b4e7000e659094299b3533b47b6aa8ad048e95e872d23d1f4ee55af89cfe9101611c18565b612d09612ff1565b60208181556040518281527f97e4f91a4b7e108aff6d29a03d7b9f94705ad90ed51b377784a1943ea32257e7910161219b565b60606014805461115a906155e6565b6001600160a01b03918216600090815260056020908152604080832093909416825291909152205460ff1690565b600080516020615a22833981519152612d9181613191565b60165460ff16612db457604051630dc799dd60e31b815260040160405180910390fd5b821580612dc057508282105b15612de7576040516273750960e01b815260048101849052602481018390526044016110ed565b6000600f548310612e06576001600f54612e01919061573d565b612e08565b825b9050835b818111612ea0576000818152600260205260409020546001600160a01b031615801590612e48575060008181526017602052604090205460ff16155b15612e8e57807fa109ba539900bf1b633f956d63c96fc89b814c7287f7aa50a9216d0b55657207612e7883612937565b604051612e859190614e07565b60405180910390a25b80612e98816158b7565b915050612e0c565b5050505050565b600080516020615a22833981519152612ebf81613191565b60165460ff1615612ee25760405162461bcd60e51b81526004016110ed906155ba565b601a5460ff1615612f065760405163a89ac15160e01b815260040160405180910390fd5b6019611aae8382615668565b612f1a612ff1565b600a80546001600160a01b0383166001600160a01b03199091168117909155612f4b6009546001600160a01b031690565b6001600160a01b03167f38d16b8cac22d99fc7c124b9cd0de2d3fa1faef420bfe791d8c362d765e2270060405160405180910390a350565b612f8b612ff1565b601f5460408051918252602082018390527f2e1c9e000c6e8dda4d03536adb13b7cb6034ccff90d17f01de381e4d5097b525910160405180910390a1601f55565b60006001600160e01b03198216635a05180f60e01b14806110bc57506110bc82613d85565b6009546001600160a01b0316331461172b5760405163118cdaa760e01b81523360048201526024016110ed565b6127106001600160601b03821681101561305d57604051636f483d0960e01b81526001600160601b0383166004820152602481018290526044016110ed565b6001600160a01b03831661308757604051635b6cc80560e11b8152600060048201526024016110ed565b50604080518082019091526001600160a01b039092168083526001600160601b039091166020909201829052600160a01b90910217600755565b6000818152600260205260408120546001600160a01b0316806110bc57604051637e27328960e01b8152600481018490526024016110ed565b6117168383836001613daa565b6000601f54341461313857601f54604051630d35e92160e01b815260048101919091523460248201526044016110ed565b61314382600161319b565b6000613150836001613229565b90507ff8e1a15aba9398e019f0b49df1a4fde98ee17ae345cb5f6b5e2c27f5033e8ce78160405161318391815260200190565b60405180910390a192915050565b6121f68133613eb0565b6001600160a01b0382166000908152602160205260408120546131bf908390615767565b90506020546000141580156131d5575060205481115b156132095760205460405163500d620560e01b81526001600160a01b038516600482015260248101919091526044016110ed565b6001600160a01b0390921660009081526021602052604090209190915550565b600f54601e54600161323b8484615767565b613245919061573d565b111561326a57601e5460405163f9f8491560e01b81526004016110ed91815260200190565b6132748282615767565b600f556110bc838284613ee9565b600080613290858585613f0f565b9050846001600160a01b0316816001600160a01b0316141580156132ca57506000848152601d60205260409020546001600160a01b031615155b15613320576000848152601d6020908152604080832080546001600160e01b03191690555182815286917f4e06b4e7000e659094299b3533b47b6aa8ad048e95e872d23d1f4ee55af89cfe910160405180910390a35b6001600160a01b038516613348576012805490600061333e836158b7565b9190505550611a3c565b6001600160a01b0381166133ed57601c54600160a01b900460ff161561339c576040518481527f032bc66be43dbccb7487781d168eb7bda224628a3b2c3388bdf69b532a3a16119060200160405180910390a15b60165460ff16156133e857837fa109ba539900bf1b633f956d63c96fc89b814c7287f7aa50a9216d0b556572076133d286612937565b6040516133df9190614e07565b60405180910390a25b611a3c565b601c54600160a01b900460ff1615611a3c5760405163461dd51f60e11b8152600481018590526024016110ed565b6000806134288484613f24565b905080156123ec576000848152600c602052604090206134489084613fb8565b509392505050565b60008061345d8484613fcd565b905080156123ec576000848152600c60205260409020613448908461403a565b61348561404f565b6006805460ff191690557f5db9ee0a495bf2e6ff9c91a7834c1ba4fdd244a5e8aa4e537bd38aeae4b073aa335b6040516001600160a01b03909116815260200160405180910390a1565b306001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016148061355657507f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031661354a600080516020615a42833981519152546001600160a01b031690565b6001600160a01b031614155b1561172b5760405163703e46dd60e11b815260040160405180910390fd5b6121f6612ff1565b816001600160a01b03166352d1902d6040518163ffffffff1660e01b8152600401602060405180830381865afa9250505080156135d6575060408051601f3d908101601f191682019092526135d39181019061593d565b60015b6135fe57604051634c9c8ce360e01b81526001600160a01b03831660048201526024016110ed565b600080516020615a42833981519152811461362f57604051632a87526960e21b8152600481018290526024016110ed565b6117168383614072565b306001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000161461172b5760405163703e46dd60e11b815260040160405180910390fd5b6000826136908686856140c8565b1495945050505050565b6127106001600160601b0382168110156136e05760405163dfd1fc1b60e01b8152600481018590526001600160601b0383166024820152604481018290526064016110ed565b6001600160a01b03831661371157604051634b4f842960e11b815260048101859052600060248201526044016110ed565b506040805180820182526001600160a01b0393841681526001600160601b0392831660208083019182526000968752600890529190942093519051909116600160a01b029116179055565b60006110bc7f54c4fa55144b7da0d1bae0e2c4e33bc86ab5872e30dc15a77121bf2b0224e9c961378f6020850185614ffb565b61379c60208601866157b2565b6040516137aa929190615956565b6040805191829003822060208301949094526001600160a01b0390921681830152606080820193909352908501356080808301919091529185013560a08201529084013560c082015260e0016040516020818303038152906040528051906020012061410a565b6000806000806138218686614137565b9250925092506138318282614184565b5090949350505050565b600061384f6009546001600160a01b031690565b905061385a8261423d565b6001600160a01b03811615806138815750816001600160a01b0316816001600160a01b0316145b1561388a575050565b604080516060810182526000808252600080516020615a828339815191526020830152600080516020615a2283398151915292820192909252905b6003811015611631576138ee8282600381106138e3576138e361579c565b602002015184613450565b506001600160a01b038416156139205761391e8282600381106139135761391361579c565b60200201518561341b565b505b6001016138c5565b613930614256565b6006805460ff191660011790557f62e78cea01bee320cd4e420270b5ea74000d11b0c9f74754ebdbfc544b05a2586134b23390565b60606112397f0000000000000000000000000000000000000000000000000000000000000000600d61427a565b60606112397f0000000000000000000000000000000000000000000000000000000000000000600e61427a565b60006123ec8383614325565b6001600160a01b0382166139fd57604051630b61174360e31b81526001600160a01b03831660048201526024016110ed565b6001600160a01b03838116600081815260056020908152604080832094871680845294825291829020805460ff191686151590811790915591519182527f17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c319101611c18565b606060006123ec8361434f565b84600003613a905760405163066f305360e21b815260040160405180910390fd5b6010613a9c8982615668565b506011613aa98882615668565b50601e859055601b829055601c805460ff60a01b1916600160a01b831515021790556001600f556022805460ff19166002179055613ae860008761341b565b50613b01600080516020615a828339815191528761341b565b50613b1a600080516020615a228339815191528761341b565b506001600160601b03831615613b7c57613b34848461301e565b6040516001600160601b03841681526001600160a01b038516907fe12d7d5bdb8218a22277dca8f854dd4573a1cea3d3e4808dc567df9eb1c14bf49060200160405180910390a25b5050505050505050565b6001600160a01b0383163b15612ea057604051630a85bd0160e11b81526001600160a01b0384169063150b7a0290613bc8908890889087908790600401615966565b6020604051808303816000875af1925050508015613c03575060408051601f3d908101601f19168201909252613c00918101906159a3565b60015b613c6c573d808015613c31576040519150601f19603f3d011682016040523d82523d6000602084013e613c36565b606091505b508051600003613c6457604051633250574960e11b81526001600160a01b03851660048201526024016110ed565b805181602001fd5b6001600160e01b03198116630a85bd0160e11b14613ca857604051633250574960e11b81526001600160a01b03851660048201526024016110ed565b505050505050565b6060613cbb826130c1565b506000613cc66143ab565b90506000815111613ce657604051806020016040528060008152506123ec565b80613cf0846143ba565b604051602001613d019291906159c0565b6040516020818303038152906040529392505050565b60006110bc825490565b613d2c83838361444c565b611716576001600160a01b038316613d5a57604051637e27328960e01b8152600481018290526024016110ed565b60405163177e802f60e01b81526001600160a01b0383166004820152602481018290526044016110ed565b60006001600160e01b03198216637965db0b60e01b14806110bc57506110bc826144af565b8080613dbe57506001600160a01b03821615155b15613e80576000613dce846130c1565b90506001600160a01b03831615801590613dfa5750826001600160a01b0316816001600160a01b031614155b8015613e0d5750613e0b8184612d4b565b155b15613e365760405163a9fbf51f60e01b81526001600160a01b03841660048201526024016110ed565b8115613e7e5783856001600160a01b0316826001600160a01b03167f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b92560405160405180910390a45b505b5050600090815260046020526040902080546001600160a01b0319166001600160a01b0392909216919091179055565b613eba82826123f3565b6112495760405163e2517d3f60e01b81526001600160a01b0382166004820152602481018390526044016110ed565b60005b8181101561163157613f0784613f028386615767565b6144d4565b600101613eec565b6000613f19614256565b611a3c8484846144ee565b6000613f3083836123f3565b613fb0576000838152600b602090815260408083206001600160a01b03861684529091529020805460ff19166001179055613f683390565b6001600160a01b0316826001600160a01b0316847f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d60405160405180910390a45060016110bc565b5060006110bc565b60006123ec836001600160a01b0384166145e7565b6000613fd983836123f3565b15613fb0576000838152600b602090815260408083206001600160a01b0386168085529252808320805460ff1916905551339286917ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b9190a45060016110bc565b60006123ec836001600160a01b03841661462e565b60065460ff1661172b57604051638dfc202b60e01b815260040160405180910390fd5b61407b82614721565b6040516001600160a01b038316907fbc7cd75a20ee27fd9adebab32041f755214dbc6bffa90cc0225b39da2e5c2d3b90600090a28051156140c0576117168282614786565b6112496147f3565b600081815b84811015614101576140f7828787848181106140eb576140eb61579c565b90506020020135614812565b91506001016140cd565b50949350505050565b60006110bc614117614841565b8360405161190160f01b8152600281019290925260228201526042902090565b600080600083516041036141715760208401516040850151606086015160001a6141638882858561496c565b95509550955050505061417d565b50508151600091506002905b9250925092565b600082600381111561419857614198615285565b036141a1575050565b60018260038111156141b5576141b5615285565b036141d35760405163f645eedf60e01b815260040160405180910390fd5b60028260038111156141e7576141e7615285565b036142085760405163fce698f760e01b8152600481018290526024016110ed565b600382600381111561421c5761421c615285565b03611249576040516335e2f38360e21b8152600481018290526024016110ed565b600a80546001600160a01b03191690556121f681614a3b565b60065460ff161561172b5760405163d93c066560e01b815260040160405180910390fd5b606060ff83146142945761428d83614a8d565b90506110bc565b8180546142a0906155e6565b80601f01602080910402602001604051908101604052809291908181526020018280546142cc906155e6565b80156143195780601f106142ee57610100808354040283529160200191614319565b820191906000526020600020905b8154815290600101906020018083116142fc57829003601f168201915b505050505090506110bc565b600082600001828154811061433c5761433c61579c565b9060005260206000200154905092915050565b60608160000180548060200260200160405190810160405280929190818152602001828054801561439f57602002820191906000526020600020905b81548152602001906001019080831161438b575b50505050509050919050565b60606013805461115a906155e6565b606060006143c783614acc565b60010190506000816001600160401b038111156143e6576143e6614e5f565b6040519080825280601f01601f191660200182016040528015614410576020820181803683370190505b5090508181016020015b600019016f181899199a1a9b1b9c1cb0b131b232b360811b600a86061a8153600a850494508461441a57509392505050565b60006001600160a01b03831615801590611a3c5750826001600160a01b0316846001600160a01b0316148061448657506144868484612d4b565b80611a3c5750506000908152600460205260409020546001600160a01b03908116911614919050565b60006001600160e01b0319821663152a902d60e11b14806110bc57506110bc82614ba4565b611249828260405180602001604052806000815250614bf4565b6000828152600260205260408120546001600160a01b039081169083161561451b5761451b818486613d21565b6001600160a01b0381161561455957614538600085600080613daa565b6001600160a01b038116600090815260036020526040902080546000190190555b6001600160a01b03851615614588576001600160a01b0385166000908152600360205260409020805460010190555b60008481526002602052604080822080546001600160a01b0319166001600160a01b0389811691821790925591518793918516917fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef91a4949350505050565b6000818152600183016020526040812054613fb0575081546001818101845560008481526020808220909301849055845484825282860190935260409020919091556110bc565b6000818152600183016020526040812054801561471757600061465260018361573d565b85549091506000906146669060019061573d565b90508082146146cb5760008660000182815481106146865761468661579c565b90600052602060002001549050808760000184815481106146a9576146a961579c565b6000918252602080832090910192909255918252600188019052604090208390555b85548690806146dc576146dc6159ef565b6001900381819060005260206000200160009055905585600101600086815260200190815260200160002060009055600193505050506110bc565b60009150506110bc565b806001600160a01b03163b60000361475757604051634c9c8ce360e01b81526001600160a01b03821660048201526024016110ed565b600080516020615a4283398151915280546001600160a01b0319166001600160a01b0392909216919091179055565b6060600080846001600160a01b0316846040516147a39190615a05565b600060405180830381855af49150503d80600081146147de576040519150601f19603f3d011682016040523d82523d6000602084013e6147e3565b606091505b5091509150611c9b858383614c0c565b341561172b5760405163b398979f60e01b815260040160405180910390fd5b600081831061482e5760008281526020849052604090206123ec565b60008381526020839052604090206123ec565b6000306001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001614801561489a57507f000000000000000000000000000000000000000000000000000000000000000046145b156148c457507f000000000000000000000000000000000000000000000000000000000000000090565b611239604080517f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f60208201527f0000000000000000000000000000000000000000000000000000000000000000918101919091527f000000000000000000000000000000000000000000000000000000000000000060608201524660808201523060a082015260009060c00160405160208183030381529060405280519060200120905090565b600080807f7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a08411156149a75750600091506003905082614a31565b604080516000808252602082018084528a905260ff891692820192909252606081018790526080810186905260019060a0016020604051602081039080840390855afa1580156149fb573d6000803e3d6000fd5b5050604051601f1901519150506001600160a01b038116614a2757506000925060019150829050614a31565b9250600091508190505b9450945094915050565b600980546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e090600090a35050565b60606000614a9a83614c68565b604080516020808252818301909252919250600091906020820181803683375050509182525060208101929092525090565b60008072184f03e93ff9f4daa797ed6e38ed64bf6a1f0160401b8310614b0b5772184f03e93ff9f4daa797ed6e38ed64bf6a1f0160401b830492506040015b6d04ee2d6d415b85acef81000000008310614b37576d04ee2d6d415b85acef8100000000830492506020015b662386f26fc100008310614b5557662386f26fc10000830492506010015b6305f5e1008310614b6d576305f5e100830492506008015b6127108310614b8157612710830492506004015b60648310614b93576064830492506002015b600a83106110bc5760010192915050565b60006001600160e01b031982166380ac58cd60e01b1480614bd557506001600160e01b03198216635b5e139f60e01b145b806110bc57506301ffc9a760e01b6001600160e01b03198316146110bc565b614bfe8383614c90565b611716336000858585613b86565b606082614c2157614c1c82614cf5565b6123ec565b8151158015614c3857506001600160a01b0384163b155b15614c6157604051639996b31560e01b81526001600160a01b03851660048201526024016110ed565b50806123ec565b600060ff8216601f8111156110bc57604051632cd44ac360e21b815260040160405180910390fd5b6001600160a01b038216614cba57604051633250574960e11b8152600060048201526024016110ed565b6000614cc883836000613282565b90506001600160a01b03811615611716576040516339e3563760e11b8152600060048201526024016110ed565b805115614d055780518082602001fd5b60405163d6bda27560e01b815260040160405180910390fd5b6001600160e01b0319811681146121f657600080fd5b600060208284031215614d4657600080fd5b81356123ec81614d1e565b6001600160a01b03811681146121f657600080fd5b80356001600160601b0381168114614d7d57600080fd5b919050565b60008060408385031215614d9557600080fd5b8235614da081614d51565b9150614dae60208401614d66565b90509250929050565b60005b83811015614dd2578181015183820152602001614dba565b50506000910152565b60008151808452614df3816020860160208601614db7565b601f01601f19169290920160200192915050565b6020815260006123ec6020830184614ddb565b600060208284031215614e2c57600080fd5b5035919050565b60008060408385031215614e4657600080fd5b8235614e5181614d51565b946020939093013593505050565b634e487b7160e01b600052604160045260246000fd5b604051601f8201601f191681016001600160401b0381118282101715614e9d57614e9d614e5f565b604052919050565b60006001600160401b03821115614ebe57614ebe614e5f565b50601f01601f191660200190565b600082601f830112614edd57600080fd5b8135614ef0614eeb82614ea5565b614e75565b818152846020838601011115614f0557600080fd5b816020850160208301376000918101602001919091529392505050565b60008060408385031215614f3557600080fd5b8235915060208301356001600160401b03811115614f5257600080fd5b614f5e85828601614ecc565b9150509250929050565b600080600060608486031215614f7d57600080fd5b8335614f8881614d51565b92506020840135614f9881614d51565b929592945050506040919091013590565b60008060408385031215614fbc57600080fd5b50508035926020909101359150565b60008060408385031215614fde57600080fd5b823591506020830135614ff081614d51565b809150509250929050565b60006020828403121561500d57600080fd5b81356123ec81614d51565b60006020828403121561502a57600080fd5b81356001600160401b0381111561504057600080fd5b611a3c84828501614ecc565b6000806040838503121561505f57600080fd5b823561506a81614d51565b915060208301356001600160401b03811115614f5257600080fd5b60008083601f84011261509757600080fd5b5081356001600160401b038111156150ae57600080fd5b6020830191508360208260051b85010111156116b757600080fd5b600080602083850312156150dc57600080fd5b82356001600160401b038111156150f257600080fd5b6150fe85828601615085565b90969095509350505050565b60008060006060848603121561511f57600080fd5b83359250602084013561513181614d51565b915061513f60408501614d66565b90509250925092565b6000806000806040858703121561515e57600080fd5b84356001600160401b038082111561517557600080fd5b61518188838901615085565b9096509450602087013591508082111561519a57600080fd5b506151a787828801615085565b95989497509550505050565b60008083601f8401126151c557600080fd5b5081356001600160401b038111156151dc57600080fd5b6020830191508360208285010111156116b757600080fd5b60008060006040848603121561520957600080fd5b83356001600160401b038082111561522057600080fd5b9085019060a0828803121561523457600080fd5b9093506020850135908082111561524a57600080fd5b50615257868287016151b3565b9497909650939450505050565b60006020828403121561527657600080fd5b8135600381106123ec57600080fd5b634e487b7160e01b600052602160045260246000fd5b60208101600383106152bd57634e487b7160e01b600052602160045260246000fd5b91905290565b60008151808452602080850194506020840160005b838110156152f4578151875295820195908201906001016152d8565b509495945050505050565b6020815260006123ec60208301846152c3565b60ff60f81b8816815260e06020820152600061533160e0830189614ddb565b82810360408401526153438189614ddb565b606084018890526001600160a01b038716608085015260a0840186905283810360c0850152905061537481856152c3565b9a9950505050505050505050565b80358015158114614d7d57600080fd5b600080604083850312156153a557600080fd5b82356153b081614d51565b9150614dae60208401615382565b6020808252825182820181905260009190848201906040850190845b818110156153ff5783516001600160a01b0316835292840192918401916001016153da565b50909695505050505050565b6000806000806000806000806000806101008b8d03121561542b57600080fd5b8a356001600160401b038082111561544257600080fd5b61544e8e838f016151b3565b909c509a5060208d013591508082111561546757600080fd5b506154748d828e016151b3565b90995097505060408b013561548881614d51565b955060608b0135945060808b013561549f81614d51565b93506154ad60a08c01614d66565b925060c08b013591506154c260e08c01615382565b90509295989b9194979a5092959850565b600080600080608085870312156154e957600080fd5b84356154f481614d51565b9350602085013561550481614d51565b92506040850135915060608501356001600160401b0381111561552657600080fd5b61553287828801614ecc565b91505092959194509250565b60008060006060848603121561555357600080fd5b83359250602084013561556581614d51565b915060408401356001600160401b038116811461558157600080fd5b809150509250925092565b6000806040838503121561559f57600080fd5b82356155aa81614d51565b91506020830135614ff081614d51565b60208082526012908201527126b2ba30b230ba309034b990333937bd32b760711b604082015260600190565b600181811c908216806155fa57607f821691505b60208210810361561a57634e487b7160e01b600052602260045260246000fd5b50919050565b601f821115611716576000816000526020600020601f850160051c810160208610156156495750805b601f850160051c820191505b81811015613ca857828155600101615655565b81516001600160401b0381111561568157615681614e5f565b6156958161568f84546155e6565b84615620565b602080601f8311600181146156ca57600084156156b25750858301515b600019600386901b1c1916600185901b178555613ca8565b600085815260208120601f198616915b828110156156f9578886015182559484019460019091019084016156da565b50858210156157175787850151600019600388901b60f8161c191681555b5050505050600190811b01905550565b634e487b7160e01b600052601160045260246000fd5b818103818111156110bc576110bc615727565b80820281158282048414176110bc576110bc615727565b808201808211156110bc576110bc615727565b60008261579757634e487b7160e01b600052601260045260246000fd5b500490565b634e487b7160e01b600052603260045260246000fd5b6000808335601e198436030181126157c957600080fd5b8301803591506001600160401b038211156157e357600080fd5b6020019150368190038213156116b757600080fd5b6001600160401b0383111561580f5761580f614e5f565b6158238361581d83546155e6565b83615620565b6000601f841160018114615857576000851561583f5750838201355b600019600387901b1c1916600186901b178355612ea0565b600083815260209020601f19861690835b828110156158885786850135825560209485019460019092019101615868565b50868210156158a55760001960f88860031b161c19848701351681555b505060018560011b0183555050505050565b6000600182016158c9576158c9615727565b5060010190565b6000602082840312156158e257600080fd5b81516001600160401b038111156158f857600080fd5b8201601f8101841361590957600080fd5b8051615917614eeb82614ea5565b81815285602083850101111561592c57600080fd5b611c9b826020830160208601614db7565b60006020828403121561594f57600080fd5b5051919050565b8183823760009101908152919050565b6001600160a01b038581168252841660208201526040810183905260806060820181905260009061599990830184614ddb565b9695505050505050565b6000602082840312156159b557600080fd5b81516123ec81614d1e565b600083516159d2818460208801614db7565b8351908301906159e6818360208801614db7565b01949350505050565b634e487b7160e01b600052603160045260246000fd5b60008251615a17818460208701614db7565b919091019291505056fe6bd6b5318a46e5fff572d5e4258a20774aab40cc35ac7680654b9081fcc82f80360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc6bd5c950a8d8df17f772f5af37cb3655737899cbf903264b9795592da439661c9f2df0fed2c77648de5860a4cc508cd0818c85b8b8a1ab4ceeef8d981c8956a6a26469706673582212202b711b325e49a3401566a04686e21a97b9c968e70ec95b70d7a747fc271d5c0564736f6c634300081600336bd6b5318a46e5fff572d5e4258a20774aab40cc35ac7680654b9081fcc82f809f2df0fed2c77648de5860a4cc508cd0818c85b8b8a1ab4ceeef8d981c8956a6";
+
+type SimpleNFTUpgradeableConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: SimpleNFTUpgradeableConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class SimpleNFTUpgradeable__factory extends ContractFactory {
+  constructor(...args: SimpleNFTUpgradeableConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    name_: string,
+    symbol_: string,
+    initialOwner: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(
+      name_,
+      symbol_,
+      initialOwner,
+      overrides || {}
+    );
+  }
+  override deploy(
+    name_: string,
+    symbol_: string,
+    initialOwner: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(
+      name_,
+      symbol_,
+      initialOwner,
+      overrides || {}
+    ) as Promise<
+      SimpleNFTUpgradeable & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): SimpleNFTUpgradeable__factory {
+    return super.connect(runner) as SimpleNFTUpgradeable__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): SimpleNFTUpgradeableInterface {
+    return new Interface(_abi) as SimpleNFTUpgradeableInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): SimpleNFTUpgradeable {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as SimpleNFTUpgradeable;
+  }
+}
@@ -9,6 +9,8 @@ import {
 } from "ethers";
 import type {
   Signer,
+  BytesLike,
+  BigNumberish,
   AddressLike,
   ContractDeployTransaction,
   ContractRunner,
@@ -21,12 +23,12 @@ const _abi = [
     inputs: [
       {
         internalType: "string",
-        name: "name",
+        name: "name_",
         type: "string",
       },
       {
         internalType: "string",
-        name: "symbol",
+        name: "symbol_",
         type: "string",
       },
       {
@@ -34,89 +36,187 @@ const _abi = [
         name: "initialOwner",
         type: "address",
       },
+      {
+        internalType: "uint256",
+        name: "maxSupply_",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "royaltyReceiver",
+        type: "address",
+      },
+      {
+        internalType: "uint96",
+        name: "royaltyFeeNumerator",
+        type: "uint96",
+      },
+      {
+        internalType: "bytes32",
+        name: "provenanceHash_",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "soulbound_",
+        type: "bool",
+      },
     ],
     stateMutability: "nonpayable",
     type: "constructor",
   },
+  {
+    inputs: [],
+    name: "AccessControlBadConfirmation",
+    type: "error",
+  },
   {
     inputs: [
       {
         internalType: "address",
-        name: "sender",
+        name: "account",
         type: "address",
       },
+      {
+        internalType: "bytes32",
+        name: "neededRole",
+        type: "bytes32",
+      },
+    ],
+    name: "AccessControlUnauthorizedAccount",
+    type: "error",
+  },
+  {
+    inputs: [
       {
         internalType: "uint256",
-        name: "tokenId",
+        name: "recipients",
         type: "uint256",
       },
       {
-        internalType: "address",
-        name: "owner",
-        type: "address",
+        internalType: "uint256",
+        name: "quantities",
+        type: "uint256",
       },
     ],
-    name: "ERC721IncorrectOwner",
+    name: "AirdropLengthMismatch",
     type: "error",
   },
   {
     inputs: [
       {
         internalType: "address",
-        name: "operator",
+        name: "account",
         type: "address",
       },
+    ],
+    name: "AllowlistAlreadyClaimed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "AllowlistNotActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "AlreadyRevealed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CollectionNotRevealed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ECDSAInvalidSignature",
+    type: "error",
+  },
+  {
+    inputs: [
       {
         internalType: "uint256",
-        name: "tokenId",
+        name: "length",
         type: "uint256",
       },
     ],
-    name: "ERC721InsufficientApproval",
+    name: "ECDSAInvalidSignatureLength",
     type: "error",
   },
   {
     inputs: [
       {
-        internalType: "address",
-        name: "approver",
-        type: "address",
+        internalType: "bytes32",
+        name: "s",
+        type: "bytes32",
       },
     ],
-    name: "ERC721InvalidApprover",
+    name: "ECDSAInvalidSignatureS",
     type: "error",
   },
   {
     inputs: [
       {
-        internalType: "address",
-        name: "operator",
-        type: "address",
+        internalType: "uint256",
+        name: "numerator",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "denominator",
+        type: "uint256",
       },
     ],
-    name: "ERC721InvalidOperator",
+    name: "ERC2981InvalidDefaultRoyalty",
     type: "error",
   },
   {
     inputs: [
       {
         internalType: "address",
-        name: "owner",
+        name: "receiver",
         type: "address",
       },
     ],
-    name: "ERC721InvalidOwner",
+    name: "ERC2981InvalidDefaultRoyaltyReceiver",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "numerator",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "denominator",
+        type: "uint256",
+      },
+    ],
+    name: "ERC2981InvalidTokenRoyalty",
     type: "error",
   },
   {
     inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
       {
         internalType: "address",
         name: "receiver",
         type: "address",
       },
     ],
-    name: "ERC721InvalidReceiver",
+    name: "ERC2981InvalidTokenRoyaltyReceiver",
     type: "error",
   },
   {
@@ -126,228 +226,2102 @@ const _abi = [
         name: "sender",
         type: "address",
       },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
     ],
-    name: "ERC721InvalidSender",
+    name: "ERC721IncorrectOwner",
     type: "error",
   },
   {
     inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
       {
         internalType: "uint256",
         name: "tokenId",
         type: "uint256",
       },
     ],
-    name: "ERC721NonexistentToken",
+    name: "ERC721InsufficientApproval",
     type: "error",
   },
   {
     inputs: [
       {
         internalType: "address",
-        name: "owner",
+        name: "approver",
         type: "address",
       },
     ],
-    name: "OwnableInvalidOwner",
+    name: "ERC721InvalidApprover",
     type: "error",
   },
   {
     inputs: [
       {
         internalType: "address",
-        name: "account",
+        name: "operator",
         type: "address",
       },
     ],
-    name: "OwnableUnauthorizedAccount",
+    name: "ERC721InvalidOperator",
     type: "error",
   },
   {
-    anonymous: false,
     inputs: [
       {
-        indexed: true,
         internalType: "address",
         name: "owner",
         type: "address",
       },
+    ],
+    name: "ERC721InvalidOwner",
+    type: "error",
+  },
+  {
+    inputs: [
       {
-        indexed: true,
         internalType: "address",
-        name: "approved",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidReceiver",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
         type: "address",
       },
+    ],
+    name: "ERC721InvalidSender",
+    type: "error",
+  },
+  {
+    inputs: [
       {
-        indexed: true,
         internalType: "uint256",
         name: "tokenId",
         type: "uint256",
       },
     ],
-    name: "Approval",
-    type: "event",
+    name: "ERC721NonexistentToken",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "EnforcedPause",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ExpectedPause",
+    type: "error",
   },
   {
-    anonymous: false,
     inputs: [
       {
-        indexed: true,
-        internalType: "address",
-        name: "owner",
-        type: "address",
-      },
-      {
-        indexed: true,
-        internalType: "address",
-        name: "operator",
-        type: "address",
+        internalType: "uint256",
+        name: "required",
+        type: "uint256",
       },
       {
-        indexed: false,
-        internalType: "bool",
-        name: "approved",
-        type: "bool",
+        internalType: "uint256",
+        name: "provided",
+        type: "uint256",
       },
     ],
-    name: "ApprovalForAll",
-    type: "event",
+    name: "IncorrectPayment",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidInitialization",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidMaxSupply",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidMerkleProof",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidQuantity",
+    type: "error",
   },
   {
-    anonymous: false,
     inputs: [
       {
-        indexed: false,
         internalType: "uint256",
-        name: "_fromTokenId",
+        name: "saleStart",
         type: "uint256",
       },
       {
-        indexed: false,
         internalType: "uint256",
-        name: "_toTokenId",
+        name: "saleEnd",
         type: "uint256",
       },
     ],
-    name: "BatchMetadataUpdate",
-    type: "event",
+    name: "InvalidSaleWindow",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidShortString",
+    type: "error",
   },
   {
-    anonymous: false,
     inputs: [
       {
-        indexed: false,
         internalType: "uint256",
-        name: "_tokenId",
+        name: "fromId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "toId",
         type: "uint256",
       },
     ],
-    name: "MetadataUpdate",
-    type: "event",
+    name: "InvalidTokenRange",
+    type: "error",
   },
   {
-    anonymous: false,
     inputs: [
       {
-        indexed: true,
         internalType: "address",
-        name: "previousOwner",
+        name: "signer",
         type: "address",
       },
+    ],
+    name: "InvalidVoucherSignature",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidWithdrawalRecipient",
+    type: "error",
+  },
+  {
+    inputs: [
       {
-        indexed: true,
         internalType: "address",
-        name: "newOwner",
+        name: "account",
         type: "address",
       },
+      {
+        internalType: "uint256",
+        name: "maxPerWallet",
+        type: "uint256",
+      },
     ],
-    name: "OwnershipTransferred",
-    type: "event",
+    name: "MaxPerWalletExceeded",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "maxSupply",
+        type: "uint256",
+      },
+    ],
+    name: "MaxSupplyReached",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "MetadataNotFrozen",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum SimpleNFT.MintMode",
+        name: "mode",
+        type: "uint8",
+      },
+    ],
+    name: "MintNotAllowed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotInitializing",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "OwnableInvalidOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "OwnableUnauthorizedAccount",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "saleEnd",
+        type: "uint256",
+      },
+    ],
+    name: "SaleEnded",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "saleStart",
+        type: "uint256",
+      },
+    ],
+    name: "SaleNotStarted",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "str",
+        type: "string",
+      },
+    ],
+    name: "StringTooLong",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "TokenIsSoulbound",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "TokenMetadataFrozen",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "TokenURINotSet",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "nonce",
+        type: "uint256",
+      },
+    ],
+    name: "VoucherAlreadyRedeemed",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "expiry",
+        type: "uint256",
+      },
+    ],
+    name: "VoucherExpired",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "WithdrawalFailed",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "approved",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Approval",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "ApprovalForAll",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_fromTokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_toTokenId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchMetadataUpdate",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [],
+    name: "ContractURIUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint96",
+        name: "feeNumerator",
+        type: "uint96",
+      },
+    ],
+    name: "DefaultRoyaltyUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [],
+    name: "EIP712DomainChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "version",
+        type: "uint64",
+      },
+    ],
+    name: "Initialized",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Locked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maxPerWallet",
+        type: "uint256",
+      },
+    ],
+    name: "MaxPerWalletUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "merkleRoot",
+        type: "bytes32",
+      },
+    ],
+    name: "MerkleRootUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "MetadataUpdate",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "enum SimpleNFT.MintMode",
+        name: "mode",
+        type: "uint8",
+      },
+    ],
+    name: "MintModeUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldPrice",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newPrice",
+        type: "uint256",
+      },
+    ],
+    name: "MintPriceUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Paused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "_value",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "_id",
+        type: "uint256",
+      },
+    ],
+    name: "PermanentURI",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "renderer",
+        type: "address",
+      },
+    ],
+    name: "RendererUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "baseURI",
+        type: "string",
+      },
+    ],
+    name: "Revealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "previousAdminRole",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "newAdminRole",
+        type: "bytes32",
+      },
+    ],
+    name: "RoleAdminChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "saleStart",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "saleEnd",
+        type: "uint256",
+      },
+    ],
+    name: "SaleWindowUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint96",
+        name: "feeNumerator",
+        type: "uint96",
+      },
+    ],
+    name: "TokenRoyaltyUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Transfer",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Unlocked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Unpaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "expires",
+        type: "uint64",
+      },
+    ],
+    name: "UpdateUser",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "nonce",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+    ],
+    name: "VoucherRedeemed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "Withdrawn",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "DEFAULT_ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "METADATA_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MINTER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "VOUCHER_SIGNER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "acceptOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address[]",
+        name: "recipients",
+        type: "address[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "quantities",
+        type: "uint256[]",
+      },
+    ],
+    name: "airdrop",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "allowlistClaimed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32[]",
+        name: "proof",
+        type: "bytes32[]",
+      },
+    ],
+    name: "allowlistMint",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "approve",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "burn",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "contractURI",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "deleteDefaultRoyalty",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "eip712Domain",
+    outputs: [
+      {
+        internalType: "bytes1",
+        name: "fields",
+        type: "bytes1",
+      },
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "version",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "chainId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "verifyingContract",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "salt",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256[]",
+        name: "extensions",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "fromId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "toId",
+        type: "uint256",
+      },
+    ],
+    name: "emitPermanentURIs",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "freezeMetadata",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "freezeToken",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "getApproved",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "getRoleAdmin",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "getRoleMember",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "getRoleMemberCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "getRoleMembers",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "grantRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "hasRole",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name_",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "symbol_",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "initialOwner",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "maxSupply_",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "royaltyReceiver",
+        type: "address",
+      },
+      {
+        internalType: "uint96",
+        name: "royaltyFeeNumerator",
+        type: "uint96",
+      },
+      {
+        internalType: "bytes32",
+        name: "provenanceHash_",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "soulbound_",
+        type: "bool",
+      },
+    ],
+    name: "initialize",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "isApprovedForAll",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "isMetadataFrozen",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "isRevealed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "isSaleActive",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "isTokenFrozen",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "locked",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "maxPerWallet",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "maxSupply",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "merkleRoot",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "mint",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "quantity",
+        type: "uint256",
+      },
+    ],
+    name: "mintBatch",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "firstTokenId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "mintMode",
+    outputs: [
+      {
+        internalType: "enum SimpleNFT.MintMode",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "mintPrice",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "notRevealedURI",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ownerOf",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pendingOwner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "provenanceHash",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "recipient",
+            type: "address",
+          },
+          {
+            internalType: "string",
+            name: "uri",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "price",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "expiry",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "nonce",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct SimpleNFT.MintVoucher",
+        name: "voucher",
+        type: "tuple",
+      },
+      {
+        internalType: "bytes",
+        name: "signature",
+        type: "bytes",
+      },
+    ],
+    name: "redeem",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "remainingMints",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "remainingSupply",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "renderer",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "renounceOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "callerConfirmation",
+        type: "address",
+      },
+    ],
+    name: "renounceRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "resetTokenRoyalty",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "baseURI",
+        type: "string",
+      },
+    ],
+    name: "reveal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "revokeRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "salePrice",
+        type: "uint256",
+      },
+    ],
+    name: "royaltyInfo",
+    outputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "saleEnd",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "saleStart",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "setApprovalForAll",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "baseURI",
+        type: "string",
+      },
+    ],
+    name: "setBaseURI",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "uri",
+        type: "string",
+      },
+    ],
+    name: "setContractURI",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        internalType: "uint96",
+        name: "feeNumerator",
+        type: "uint96",
+      },
+    ],
+    name: "setDefaultRoyalty",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "setMaxPerWallet",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "root",
+        type: "bytes32",
+      },
+    ],
+    name: "setMerkleRoot",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum SimpleNFT.MintMode",
+        name: "mode",
+        type: "uint8",
+      },
+    ],
+    name: "setMintMode",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
   },
   {
-    anonymous: false,
     inputs: [
       {
-        indexed: false,
-        internalType: "string",
-        name: "_value",
-        type: "string",
-      },
-      {
-        indexed: true,
         internalType: "uint256",
-        name: "_id",
+        name: "newPrice",
         type: "uint256",
       },
     ],
-    name: "PermanentURI",
-    type: "event",
+    name: "setMintPrice",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
   },
   {
-    anonymous: false,
     inputs: [
       {
-        indexed: true,
-        internalType: "address",
-        name: "from",
-        type: "address",
+        internalType: "string",
+        name: "uri",
+        type: "string",
       },
+    ],
+    name: "setNotRevealedURI",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
-        indexed: true,
         internalType: "address",
-        name: "to",
+        name: "renderer_",
         type: "address",
       },
-      {
-        indexed: true,
-        internalType: "uint256",
-        name: "tokenId",
-        type: "uint256",
-      },
     ],
-    name: "Transfer",
-    type: "event",
+    name: "setRenderer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
   },
   {
     inputs: [
       {
-        internalType: "address",
-        name: "to",
-        type: "address",
+        internalType: "uint256",
+        name: "start",
+        type: "uint256",
       },
       {
         internalType: "uint256",
-        name: "tokenId",
+        name: "end",
         type: "uint256",
       },
     ],
-    name: "approve",
+    name: "setSaleWindow",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
   },
   {
     inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
       {
         internalType: "address",
-        name: "owner",
+        name: "receiver",
         type: "address",
       },
-    ],
-    name: "balanceOf",
-    outputs: [
       {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
+        internalType: "uint96",
+        name: "feeNumerator",
+        type: "uint96",
       },
     ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "freezeMetadata",
+    name: "setTokenRoyalty",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
@@ -359,45 +2333,43 @@ const _abi = [
         name: "tokenId",
         type: "uint256",
       },
-    ],
-    name: "getApproved",
-    outputs: [
       {
-        internalType: "address",
-        name: "",
-        type: "address",
+        internalType: "string",
+        name: "uri",
+        type: "string",
       },
     ],
-    stateMutability: "view",
+    name: "setTokenURI",
+    outputs: [],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
     inputs: [
       {
-        internalType: "address",
-        name: "owner",
-        type: "address",
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
       },
       {
         internalType: "address",
-        name: "operator",
+        name: "user",
         type: "address",
       },
-    ],
-    name: "isApprovedForAll",
-    outputs: [
       {
-        internalType: "bool",
-        name: "",
-        type: "bool",
+        internalType: "uint64",
+        name: "expires",
+        type: "uint64",
       },
     ],
-    stateMutability: "view",
+    name: "setUser",
+    outputs: [],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
     inputs: [],
-    name: "isMetadataFrozen",
+    name: "soulbound",
     outputs: [
       {
         internalType: "bool",
@@ -409,26 +2381,19 @@ const _abi = [
     type: "function",
   },
   {
-    inputs: [],
-    name: "mint",
-    outputs: [
+    inputs: [
       {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
+        internalType: "bytes4",
+        name: "interfaceId",
+        type: "bytes4",
       },
     ],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "name",
+    name: "supportsInterface",
     outputs: [
       {
-        internalType: "string",
+        internalType: "bool",
         name: "",
-        type: "string",
+        type: "bool",
       },
     ],
     stateMutability: "view",
@@ -436,12 +2401,12 @@ const _abi = [
   },
   {
     inputs: [],
-    name: "owner",
+    name: "symbol",
     outputs: [
       {
-        internalType: "address",
+        internalType: "string",
         name: "",
-        type: "address",
+        type: "string",
       },
     ],
     stateMutability: "view",
@@ -455,45 +2420,60 @@ const _abi = [
         type: "uint256",
       },
     ],
-    name: "ownerOf",
+    name: "tokenURI",
     outputs: [
       {
-        internalType: "address",
+        internalType: "string",
         name: "",
-        type: "address",
+        type: "string",
       },
     ],
     stateMutability: "view",
     type: "function",
   },
-  {
-    inputs: [],
-    name: "renounceOwnership",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
   {
     inputs: [
       {
         internalType: "address",
-        name: "from",
+        name: "owner_",
         type: "address",
       },
+    ],
+    name: "tokensOfOwner",
+    outputs: [
       {
-        internalType: "address",
-        name: "to",
-        type: "address",
+        internalType: "uint256[]",
+        name: "tokenIds",
+        type: "uint256[]",
       },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalMinted",
+    outputs: [
       {
         internalType: "uint256",
-        name: "tokenId",
+        name: "",
         type: "uint256",
       },
     ],
-    name: "safeTransferFrom",
-    outputs: [],
-    stateMutability: "nonpayable",
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalSupply",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
     type: "function",
   },
   {
@@ -513,13 +2493,8 @@ const _abi = [
         name: "tokenId",
         type: "uint256",
       },
-      {
-        internalType: "bytes",
-        name: "data",
-        type: "bytes",
-      },
     ],
-    name: "safeTransferFrom",
+    name: "transferFrom",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
@@ -528,29 +2503,18 @@ const _abi = [
     inputs: [
       {
         internalType: "address",
-        name: "operator",
+        name: "newOwner",
         type: "address",
       },
-      {
-        internalType: "bool",
-        name: "approved",
-        type: "bool",
-      },
     ],
-    name: "setApprovalForAll",
+    name: "transferOwnership",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
   },
   {
-    inputs: [
-      {
-        internalType: "string",
-        name: "baseURI",
-        type: "string",
-      },
-    ],
-    name: "setBaseURI",
+    inputs: [],
+    name: "unpause",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
@@ -558,30 +2522,17 @@ const _abi = [
   {
     inputs: [
       {
-        internalType: "bytes4",
-        name: "interfaceId",
-        type: "bytes4",
-      },
-    ],
-    name: "supportsInterface",
-    outputs: [
-      {
-        internalType: "bool",
-        name: "",
-        type: "bool",
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
       },
     ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "symbol",
+    name: "userExpires",
     outputs: [
       {
-        internalType: "string",
+        internalType: "uint256",
         name: "",
-        type: "string",
+        type: "uint256",
       },
     ],
     stateMutability: "view",
@@ -595,27 +2546,33 @@ const _abi = [
         type: "uint256",
       },
     ],
-    name: "tokenURI",
+    name: "userOf",
     outputs: [
       {
-        internalType: "string",
+        internalType: "address",
         name: "",
-        type: "string",
+        type: "address",
       },
     ],
     stateMutability: "view",
     type: "function",
   },
   {
-    inputs: [],
-    name: "totalSupply",
-    outputs: [
+    inputs: [
       {
         internalType: "uint256",
         name: "",
         type: "uint256",
       },
     ],
+    name: "voucherRedeemed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
     stateMutability: "view",
     type: "function",
   },
@@ -623,34 +2580,30 @@ const _abi = [
     inputs: [
       {
         internalType: "address",
-        name: "from",
-        type: "address",
-      },
-      {
-        internalType: "address",
-        name: "to",
+        name: "",
         type: "address",
       },
+    ],
+    name: "walletMints",
+    outputs: [
       {
         internalType: "uint256",
-        name: "tokenId",
+        name: "",
         type: "uint256",
       },
     ],
-    name: "transferFrom",
-    outputs: [],
-    stateMutability: "nonpayable",
+    stateMutability: "view",
     type: "function",
   },
   {
     inputs: [
       {
-        internalType: "address",
-        name: "newOwner",
+        internalType: "address payable",
+        name: "to",
         type: "address",
       },
     ],
-    name: "transferOwnership",
+    name: "withdraw",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
@@ -658,7 +2611,7 @@ const _abi = [
 ] as const;
 
 const _bytecode =
-  "0x608060405260016007553480156200001657600080fd5b50604051620017ac380380620017ac8339810160408190526200003991620001b7565b80838360006200004a8382620002d3565b506001620000598282620002d3565b5050506001600160a01b0381166200008b57604051631e4fbdf760e01b81526000600482015260240160405180910390fd5b6200009681620000a0565b505050506200039f565b600680546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e090600090a35050565b634e487b7160e01b600052604160045260246000fd5b600082601f8301126200011a57600080fd5b81516001600160401b0380821115620001375762000137620000f2565b604051601f8301601f19908116603f01168101908282118183101715620001625762000162620000f2565b816040528381526020925086838588010111156200017f57600080fd5b600091505b83821015620001a3578582018301518183018401529082019062000184565b600093810190920192909252949350505050565b600080600060608486031215620001cd57600080fd5b83516001600160401b0380821115620001e557600080fd5b620001f38783880162000108565b945060208601519150808211156200020a57600080fd5b50620002198682870162000108565b604086015190935090506001600160a01b03811681146200023957600080fd5b809150509250925092565b600181811c908216806200025957607f821691505b6020821081036200027a57634e487b7160e01b600052602260045260246000fd5b50919050565b601f821115620002ce57600081815260208120601f850160051c81016020861015620002a95750805b601f850160051c820191505b81811015620002ca57828155600101620002b5565b5050505b505050565b81516001600160401b03811115620002ef57620002ef620000f2565b620003078162000300845462000244565b8462000280565b602080601f8311600181146200033f5760008415620003265750858301515b600019600386901b1c1916600185901b178555620002ca565b600085815260208120601f198616915b8281101562000370578886015182559484019460019091019084016200034f565b50858210156200038f5787850151600019600388901b60f8161c191681555b5050505050600190811b01905550565b6113fd80620003af6000396000f3fe608060405234801561001057600080fd5b50600436106101375760003560e01c80636352211e116100b8578063a22cb4651161007c578063a22cb46514610262578063b88d4fde14610275578063c87b56dd14610288578063d111515d1461029b578063e985e9c5146102a3578063f2fde38b146102b657600080fd5b80636352211e1461021b57806370a082311461022e578063715018a6146102415780638da5cb5b1461024957806395d89b411461025a57600080fd5b80631249c58b116100ff5780631249c58b146101c457806318160ddd146101da57806323b872dd146101e257806342842e0e146101f557806355f804b31461020857600080fd5b806301ffc9a71461013c57806306fdde0314610164578063081812fc14610179578063095ea7b3146101a45780630e24495e146101b9575b600080fd5b61014f61014a366004610ec6565b6102c9565b60405190151581526020015b60405180910390f35b61016c6102ec565b60405161015b9190610f33565b61018c610187366004610f46565b61037e565b6040516001600160a01b03909116815260200161015b565b6101b76101b2366004610f7b565b6103a7565b005b60095460ff1661014f565b6101cc6103b6565b60405190815260200161015b565b6101cc610412565b6101b76101f0366004610fa5565b610428565b6101b7610203366004610fa5565b6104b8565b6101b761021636600461106d565b6104d8565b61018c610229366004610f46565b610573565b6101cc61023c3660046110b6565b61057e565b6101b76105c6565b6006546001600160a01b031661018c565b61016c6105da565b6101b76102703660046110d1565b6105e9565b6101b761028336600461110d565b6105f4565b61016c610296366004610f46565b61060c565b6101b7610674565b61014f6102b1366004611189565b61068b565b6101b76102c43660046110b6565b6106b9565b60006001600160e01b0319821615806102e657506102e6826106f7565b92915050565b6060600080546102fb906111bc565b80601f0160208091040260200160405190810160405280929190818152602001828054610327906111bc565b80156103745780601f1061034957610100808354040283529160200191610374565b820191906000526020600020905b81548152906001019060200180831161035757829003601f168201915b5050505050905090565b600061038982610747565b506000828152600460205260409020546001600160a01b03166102e6565b6103b2828233610780565b5050565b60078054600091829190826103ca8361120c565b9190505590506103da338261078d565b6040518181527ff8e1a15aba9398e019f0b49df1a4fde98ee17ae345cb5f6b5e2c27f5033e8ce79060200160405180910390a1919050565b600060016007546104239190611225565b905090565b6001600160a01b03821661045757604051633250574960e11b8152600060048201526024015b60405180910390fd5b60006104648383336107a7565b9050836001600160a01b0316816001600160a01b0316146104b2576040516364283d7b60e01b81526001600160a01b038086166004830152602482018490528216604482015260640161044e565b50505050565b6104d3838383604051806020016040528060008152506105f4565b505050565b6104e06108a0565b60095460ff16156105285760405162461bcd60e51b815260206004820152601260248201527126b2ba30b230ba309034b990333937bd32b760711b604482015260640161044e565b6008610534828261127e565b50604080516001815260001960208201527f6bd5c950a8d8df17f772f5af37cb3655737899cbf903264b9795592da439661c910160405180910390a150565b60006102e682610747565b60006001600160a01b0382166105aa576040516322718ad960e21b81526000600482015260240161044e565b506001600160a01b031660009081526003602052604090205490565b6105ce6108a0565b6105d860006108cd565b565b6060600180546102fb906111bc565b6103b233838361091f565b6105ff848484610428565b6104b233858585856109be565b606061061782610747565b506000610622610ae9565b90506000815111610642576040518060200160405280600081525061066d565b8061064c84610af8565b60405160200161065d92919061133e565b6040516020818303038152906040525b9392505050565b61067c6108a0565b6009805460ff19166001179055565b6001600160a01b03918216600090815260056020908152604080832093909416825291909152205460ff1690565b6106c16108a0565b6001600160a01b0381166106eb57604051631e4fbdf760e01b81526000600482015260240161044e565b6106f4816108cd565b50565b60006001600160e01b031982166380ac58cd60e01b148061072857506001600160e01b03198216635b5e139f60e01b145b806102e657506301ffc9a760e01b6001600160e01b03198316146102e6565b6000818152600260205260408120546001600160a01b0316806102e657604051637e27328960e01b81526004810184905260240161044e565b6104d38383836001610b8b565b6103b2828260405180602001604052806000815250610c91565b6000828152600260205260408120546001600160a01b03908116908316156107d4576107d4818486610ca9565b6001600160a01b03811615610812576107f1600085600080610b8b565b6001600160a01b038116600090815260036020526040902080546000190190555b6001600160a01b03851615610841576001600160a01b0385166000908152600360205260409020805460010190555b60008481526002602052604080822080546001600160a01b0319166001600160a01b0389811691821790925591518793918516917fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef91a4949350505050565b6006546001600160a01b031633146105d85760405163118cdaa760e01b815233600482015260240161044e565b600680546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e090600090a35050565b6001600160a01b03821661095157604051630b61174360e31b81526001600160a01b038316600482015260240161044e565b6001600160a01b03838116600081815260056020908152604080832094871680845294825291829020805460ff191686151590811790915591519182527f17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c31910160405180910390a3505050565b6001600160a01b0383163b15610ae257604051630a85bd0160e11b81526001600160a01b0384169063150b7a0290610a0090889088908790879060040161136d565b6020604051808303816000875af1925050508015610a3b575060408051601f3d908101601f19168201909252610a38918101906113aa565b60015b610aa4573d808015610a69576040519150601f19603f3d011682016040523d82523d6000602084013e610a6e565b606091505b508051600003610a9c57604051633250574960e11b81526001600160a01b038516600482015260240161044e565b805181602001fd5b6001600160e01b03198116630a85bd0160e11b14610ae057604051633250574960e11b81526001600160a01b038516600482015260240161044e565b505b5050505050565b6060600880546102fb906111bc565b60606000610b0583610d0d565b600101905060008167ffffffffffffffff811115610b2557610b25610fe1565b6040519080825280601f01601f191660200182016040528015610b4f576020820181803683370190505b5090508181016020015b600019016f181899199a1a9b1b9c1cb0b131b232b360811b600a86061a8153600a8504945084610b5957509392505050565b8080610b9f57506001600160a01b03821615155b15610c61576000610baf84610747565b90506001600160a01b03831615801590610bdb5750826001600160a01b0316816001600160a01b031614155b8015610bee5750610bec818461068b565b155b15610c175760405163a9fbf51f60e01b81526001600160a01b038416600482015260240161044e565b8115610c5f5783856001600160a01b0316826001600160a01b03167f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b92560405160405180910390a45b505b5050600090815260046020526040902080546001600160a01b0319166001600160a01b0392909216919091179055565b610c9b8383610de5565b6104d33360008585856109be565b610cb4838383610e4a565b6104d3576001600160a01b038316610ce257604051637e27328960e01b81526004810182905260240161044e565b60405163177e802f60e01b81526001600160a01b03831660048201526024810182905260440161044e565b60008072184f03e93ff9f4daa797ed6e38ed64bf6a1f0160401b8310610d4c5772184f03e93ff9f4daa797ed6e38ed64bf6a1f0160401b830492506040015b6d04ee2d6d415b85acef81000000008310610d78576d04ee2d6d415b85acef8100000000830492506020015b662386f26fc100008310610d9657662386f26fc10000830492506010015b6305f5e1008310610dae576305f5e100830492506008015b6127108310610dc257612710830492506004015b60648310610dd4576064830492506002015b600a83106102e65760010192915050565b6001600160a01b038216610e0f57604051633250574960e11b81526000600482015260240161044e565b6000610e1d838360006107a7565b90506001600160a01b038116156104d3576040516339e3563760e11b81526000600482015260240161044e565b60006001600160a01b03831615801590610ea85750826001600160a01b0316846001600160a01b03161480610e845750610e84848461068b565b80610ea857506000828152600460205260409020546001600160a01b038481169116145b949350505050565b6001600160e01b0319811681146106f457600080fd5b600060208284031215610ed857600080fd5b813561066d81610eb0565b60005b83811015610efe578181015183820152602001610ee6565b50506000910152565b60008151808452610f1f816020860160208601610ee3565b601f01601f19169290920160200192915050565b60208152600061066d6020830184610f07565b600060208284031215610f5857600080fd5b5035919050565b80356001600160a01b0381168114610f7657600080fd5b919050565b60008060408385031215610f8e57600080fd5b610f9783610f5f565b946020939093013593505050565b600080600060608486031215610fba57600080fd5b610fc384610f5f565b9250610fd160208501610f5f565b9150604084013590509250925092565b634e487b7160e01b600052604160045260246000fd5b600067ffffffffffffffff8084111561101257611012610fe1565b604051601f8501601f19908116603f0116810190828211818310171561103a5761103a610fe1565b8160405280935085815286868601111561105357600080fd5b858560208301376000602087830101525050509392505050565b60006020828403121561107f57600080fd5b813567ffffffffffffffff81111561109657600080fd5b8201601f810184136110a757600080fd5b610ea884823560208401610ff7565b6000602082840312156110c857600080fd5b61066d82610f5f565b600080604083850312156110e457600080fd5b6110ed83610f5f565b91506020830135801515811461110257600080fd5b809150509250929050565b6000806000806080858703121561112357600080fd5b61112c85610f5f565b935061113a60208601610f5f565b925060408501359150606085013567ffffffffffffffff81111561115d57600080fd5b8501601f8101871361116e57600080fd5b61117d87823560208401610ff7565b91505092959194509250565b6000806040838503121561119c57600080fd5b6111a583610f5f565b91506111b360208401610f5f565b90509250929050565b600181811c908216806111d057607f821691505b6020821081036111f057634e487b7160e01b600052602260045260246000fd5b50919050565b634e487b7160e01b600052601160045260246000fd5b60006001820161121e5761121e6111f6565b5060010190565b818103818111156102e6576102e66111f6565b601f8211156104d357600081815260208120601f850160051c8101602086101561125f5750805b601f850160051c820191505b81811015610ae05782815560010161126b565b815167ffffffffffffffff81111561129857611298610fe1565b6112ac816112a684546111bc565b84611238565b602080601f8311600181146112e157600084156112c95750858301515b600019600386901b1c1916600185901b178555610ae0565b600085815260208120601f198616915b82811015611310578886015182559484019460019091019084016112f1565b508582101561132e5787850151600019600388901b60f8161c191681555b5050505050600190811b01905550565b60008351611350818460208801610ee3565b835190830190611364818360208801610ee3565b01949350505050565b6001600160a01b03858116825284166020820152604081018390526080606082018190526000906113a090830184610f07565b9695505050505050565b6000602082840312156113bc57600080fd5b815161066d81610eb056fea2646970667358221220c981966df919e5603b5a561e819d480d459a65e11b09f836bb517a894dfbffde64736f6c63430008140033";
+  "0x6101606040523480156200001257600080fd5b50604051620063aa380380620063aa833981016040819052620000359162000a6a565b6040518060400160405280600981526020016814da5b5c1b1953919560ba1b815250604051806040016040528060018152602001603160f81b8152508760405180602001604052806000815250604051806020016040528060008152508160009081620000a3919062000bd2565b506001620000b2828262000bd2565b50506006805460ff19169055506001600160a01b038116620000ef57604051631e4fbdf760e01b8152600060048201526024015b60405180910390fd5b620000fa81620001da565b506200010882600d620002e1565b610120526200011981600e620002e1565b61014052815160208084019190912060e052815190820120610100524660a052620001a760e05161010051604080517f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f60208201529081019290925260608201524660808201523060a082015260009060c00160405160208183030381529060405280519060200120905090565b60805250503060c052620001c288888888888888886200031a565b620001cc62000441565b505050505050505062000d46565b6000620001ef6009546001600160a01b031690565b9050620001fc82620004f5565b6001600160a01b0381161580620002245750816001600160a01b0316816001600160a01b0316145b156200022e575050565b6040805160608101825260008082526000805160206200638a83398151915260208301526000805160206200636a83398151915292820192909252905b6003811015620002db576200029a8282600381106200028e576200028e62000c9e565b60200201518462000510565b506001600160a01b03841615620002d257620002d0828260038110620002c457620002c462000c9e565b6020020151856200054b565b505b6001016200026b565b50505050565b60006020835110156200030157620002f9836200057d565b905062000314565b816200030e848262000bd2565b5060ff90505b92915050565b846000036200033c5760405163066f305360e21b815260040160405180910390fd5b60106200034a898262000bd2565b50601162000359888262000bd2565b50601e859055601b829055601c805460ff60a01b1916600160a01b831515021790556001600f556022805460ff191660021790556200039a6000876200054b565b50620003b66000805160206200638a833981519152876200054b565b50620003d26000805160206200636a833981519152876200054b565b506001600160601b038316156200043757620003ef8484620005c0565b6040516001600160601b03841681526001600160a01b038516907fe12d7d5bdb8218a22277dca8f854dd4573a1cea3d3e4808dc567df9eb1c14bf49060200160405180910390a25b5050505050505050565b7ff0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a00805468010000000000000000900460ff1615620004925760405163f92ee8a960e01b815260040160405180910390fd5b80546001600160401b0390811614620004f25780546001600160401b0319166001600160401b0390811782556040519081527fc7f505b2f371ae2175ee4913f4499e1f2633a7b5936321eed1cdaeb6115181d29060200160405180910390a15b50565b600a80546001600160a01b0319169055620004f28162000667565b6000806200051f8484620006b9565b9050801562000544576000848152600c602052604090206200054290846200074b565b505b9392505050565b6000806200055a848462000762565b9050801562000544576000848152600c602052604090206200054290846200080b565b600080829050601f81511115620005ab578260405163305a27a960e01b8152600401620000e6919062000cb4565b8051620005b88262000ce9565b179392505050565b6127106001600160601b0382168110156200060157604051636f483d0960e01b81526001600160601b038316600482015260248101829052604401620000e6565b6001600160a01b0383166200062d57604051635b6cc80560e11b815260006004820152602401620000e6565b50604080518082019091526001600160a01b039092168083526001600160601b039091166020909201829052600160a01b90910217600755565b600980546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e090600090a35050565b6000828152600b602090815260408083206001600160a01b038516845290915281205460ff161562000742576000838152600b602090815260408083206001600160a01b0386168085529252808320805460ff1916905551339286917ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b9190a450600162000314565b50600062000314565b600062000544836001600160a01b03841662000822565b6000828152600b602090815260408083206001600160a01b038516845290915281205460ff1662000742576000838152600b602090815260408083206001600160a01b03861684529091529020805460ff19166001179055620007c23390565b6001600160a01b0316826001600160a01b0316847f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d60405160405180910390a450600162000314565b600062000544836001600160a01b03841662000926565b600081815260018301602052604081205480156200091b5760006200084960018362000d0e565b85549091506000906200085f9060019062000d0e565b9050808214620008cb57600086600001828154811062000883576200088362000c9e565b9060005260206000200154905080876000018481548110620008a957620008a962000c9e565b6000918252602080832090910192909255918252600188019052604090208390555b8554869080620008df57620008df62000d30565b60019003818190600052602060002001600090559055856001016000868152602001908152602001600020600090556001935050505062000314565b600091505062000314565b6000818152600183016020526040812054620007425750815460018181018455600084815260208082209093018490558454848252828601909352604090209190915562000314565b634e487b7160e01b600052604160045260246000fd5b60005b83811015620009a257818101518382015260200162000988565b50506000910152565b600082601f830112620009bd57600080fd5b81516001600160401b0380821115620009da57620009da6200096f565b604051601f8301601f19908116603f0116810190828211818310171562000a055762000a056200096f565b8160405283815286602085880101111562000a1f57600080fd5b62000a3284602083016020890162000985565b9695505050505050565b80516001600160a01b038116811462000a5457600080fd5b919050565b8051801515811462000a5457600080fd5b600080600080600080600080610100898b03121562000a8857600080fd5b88516001600160401b038082111562000aa057600080fd5b62000aae8c838d01620009ab565b995060208b015191508082111562000ac557600080fd5b5062000ad48b828c01620009ab565b97505062000ae560408a0162000a3c565b95506060890151945062000afc60808a0162000a3c565b60a08a01519094506001600160601b038116811462000b1a57600080fd5b60c08a0151909350915062000b3260e08a0162000a59565b90509295985092959890939650565b600181811c9082168062000b5657607f821691505b60208210810362000b7757634e487b7160e01b600052602260045260246000fd5b50919050565b601f82111562000bcd576000816000526020600020601f850160051c8101602086101562000ba85750805b601f850160051c820191505b8181101562000bc95782815560010162000bb4565b5050505b505050565b81516001600160401b0381111562000bee5762000bee6200096f565b62000c068162000bff845462000b41565b8462000b7d565b602080601f83116001811462000c3e576000841562000c255750858301515b600019600386901b1c1916600185901b17855562000bc9565b600085815260208120601f198616915b8281101562000c6f5788860151825594840194600190910190840162000c4e565b508582101562000c8e5787850151600019600388901b60f8161c191681555b5050505050600190811b01905550565b634e487b7160e01b600052603260045260246000fd5b602081526000825180602084015262000cd581604085016020870162000985565b601f01601f19169190910160400192915050565b8051602080830151919081101562000b775760001960209190910360031b1b16919050565b818103818111156200031457634e487b7160e01b600052601160045260246000fd5b634e487b7160e01b600052603160045260246000fd5b60805160a05160c05160e0516101005161012051610140516155c962000da160003960006136c90152600061369c01526000614504015260006144dc01526000614437015260006144610152600061448b01526155c96000f3fe6080604052600436106104d65760003560e01c806379ba509711610281578063b88d4fde1161015a578063da0239a6116100cc578063e985e9c511610085578063e985e9c514610eea578063ef8d4ce014610f0a578063f0293fd314610f2a578063f2c4ce1e14610f57578063f2fde38b14610f77578063f4a0a52814610f9757600080fd5b8063da0239a614610e2e578063df78dcb314610e43578063e030565e14610e77578063e268e4d314610e97578063e30c397814610eb7578063e8a3d48514610ed557600080fd5b8063ca15c8731161011e578063ca15c87314610d81578063cc888bab14610da1578063d111515d14610dc1578063d539139314610dd6578063d547741f14610df8578063d5abeb0114610e1857600080fd5b8063b88d4fde14610cf5578063c10b935814610d15578063c2f1f14a14610d2b578063c6ab67a314610d4b578063c87b56dd14610d6157600080fd5b8063938e3d7b116101f3578063a3246ad3116101b7578063a3246ad314610c3d578063aa1b103f14610c6a578063ab0bcc4114610c7f578063ae0d3eb814610c95578063b45a3c0e14610cb5578063b6854f9614610cd557600080fd5b8063938e3d7b14610bbe57806395d89b4114610bde578063a217fddf14610bf3578063a22cb46514610c08578063a2309ff814610c2857600080fd5b80638a616bc0116102455780638a616bc014610ae35780638ada6b0f14610b035780638da5cb5b14610b235780638fc88c4814610b415780639010d07c14610b7e57806391d1485414610b9e57600080fd5b806379ba509714610a445780637cb6475914610a595780638456cb5914610a795780638462151c14610a8e57806384b0196e14610abb57600080fd5b806342966c68116103b35780636352211e116103255780636817c76c116102e95780636817c76c1461099d57806370a08231146109b3578063715018a6146109d357806372131db3146109e85780637225038014610a08578063788c599914610a1d57600080fd5b80636352211e1461090a57806364d0764e1461092a578063672434821461094a578063679f15bb1461096a578063680e354a1461097d57600080fd5b806354214f691161037757806354214f691461086857806355f804b31461087d578063564566a81461089d57806356d3163d146108b25780635944c753146108d25780635c975abb146108f257600080fd5b806342966c68146107df578063453c2310146107ff5780634c2612471461081557806351cff8d914610835578063537924ef1461085557600080fd5b806323b872dd1161044c57806330b42ec21161041057806330b42ec214610708578063337eb6301461073857806336568abe1461076857806338841782146107885780633f4ba83a146107aa57806342842e0e146107bf57600080fd5b806323b872dd14610643578063248a9ca3146106635780632a55205a146106935780632eb4a7ab146106d25780632f2ff15d146106e857600080fd5b80630e24495e1161049e5780630e24495e146105ac5780630fad0f51146105c45780631249c58b146105e5578063162094c4146105fb57806318160ddd1461061b57806320e409b41461063057600080fd5b806301ffc9a7146104db57806304634d8d1461051057806306fdde0314610532578063081812fc14610554578063095ea7b31461058c575b600080fd5b3480156104e757600080fd5b506104fb6104f6366004614898565b610fb7565b60405190151581526020015b60405180910390f35b34801561051c57600080fd5b5061053061052b3660046148e6565b611010565b005b34801561053e57600080fd5b50610547611099565b604051610507919061496b565b34801561056057600080fd5b5061057461056f36600461497e565b61112b565b6040516001600160a01b039091168152602001610507565b34801561059857600080fd5b506105306105a7366004614997565b611154565b3480156105b857600080fd5b5060165460ff166104fb565b3480156105d057600080fd5b50601c546104fb90600160a01b900460ff1681565b6105ed611163565b604051908152602001610507565b34801561060757600080fd5b50610530610616366004614a8e565b611251565b34801561062757600080fd5b506105ed61131a565b6105ed61063e36600461497e565b611331565b34801561064f57600080fd5b5061053061065e366004614ad4565b6114c7565b34801561066f57600080fd5b506105ed61067e36600461497e565b6000908152600b602052604090206001015490565b34801561069f57600080fd5b506106b36106ae366004614b15565b611552565b604080516001600160a01b039093168352602083019190915201610507565b3480156106de57600080fd5b506105ed60255481565b3480156106f457600080fd5b50610530610703366004614b37565b6115d9565b34801561071457600080fd5b506104fb610723366004614b67565b60266020526000908152604090205460ff1681565b34801561074457600080fd5b506104fb61075336600461497e565b60276020526000908152604090205460ff1681565b34801561077457600080fd5b50610530610783366004614b37565b6115fe565b34801561079457600080fd5b506105ed60008051602061553483398151915281565b3480156107b657600080fd5b50610530611636565b3480156107cb57600080fd5b506105306107da366004614ad4565b611648565b3480156107eb57600080fd5b506105306107fa36600461497e565b611663565b34801561080b57600080fd5b506105ed60205481565b34801561082157600080fd5b50610530610830366004614b84565b61166f565b34801561084157600080fd5b50610530610850366004614b67565b61174d565b6105ed610863366004614bfc565b611838565b34801561087457600080fd5b506104fb611927565b34801561088957600080fd5b50610530610898366004614b84565b61194a565b3480156108a957600080fd5b506104fb6119b8565b3480156108be57600080fd5b506105306108cd366004614b67565b6119db565b3480156108de57600080fd5b506105306108ed366004614c3d565b611a83565b3480156108fe57600080fd5b5060065460ff166104fb565b34801561091657600080fd5b5061057461092536600461497e565b611b08565b34801561093657600080fd5b506105ed610945366004614b67565b611b13565b34801561095657600080fd5b50610530610965366004614c7b565b611b87565b6105ed610978366004614d27565b611cc3565b34801561098957600080fd5b50610530610998366004614b15565b611f4a565b3480156109a957600080fd5b506105ed601f5481565b3480156109bf57600080fd5b506105ed6109ce366004614b67565b611fc9565b3480156109df57600080fd5b50610530612011565b3480156109f457600080fd5b50610530610a03366004614d97565b612023565b348015610a1457600080fd5b50610547612089565b348015610a2957600080fd5b50602254610a379060ff1681565b6040516105079190614dce565b348015610a5057600080fd5b50610530612098565b348015610a6557600080fd5b50610530610a7436600461497e565b6120dc565b348015610a8557600080fd5b50610530612119565b348015610a9a57600080fd5b50610aae610aa9366004614b67565b612129565b6040516105079190614e32565b348015610ac757600080fd5b50610ad06121fc565b6040516105079796959493929190614e45565b348015610aef57600080fd5b50610530610afe36600461497e565b612242565b348015610b0f57600080fd5b50601c54610574906001600160a01b031681565b348015610b2f57600080fd5b506009546001600160a01b0316610574565b348015610b4d57600080fd5b506105ed610b5c36600461497e565b6000908152601d6020526040902054600160a01b90046001600160401b031690565b348015610b8a57600080fd5b50610574610b99366004614b15565b6122b7565b348015610baa57600080fd5b506104fb610bb9366004614b37565b6122d6565b348015610bca57600080fd5b50610530610bd9366004614b84565b612301565b348015610bea57600080fd5b50610547612376565b348015610bff57600080fd5b506105ed600081565b348015610c1457600080fd5b50610530610c23366004614ec5565b612385565b348015610c3457600080fd5b506105ed612390565b348015610c4957600080fd5b50610c5d610c5836600461497e565b6123a1565b6040516105079190614ef1565b348015610c7657600080fd5b506105306123bb565b348015610c8b57600080fd5b506105ed60235481565b348015610ca157600080fd5b50610530610cb0366004614f3e565b612428565b348015610cc157600080fd5b506104fb610cd036600461497e565b612601565b348015610ce157600080fd5b50610530610cf036600461497e565b612620565b348015610d0157600080fd5b50610530610d10366004615006565b6127b0565b348015610d2157600080fd5b506105ed60245481565b348015610d3757600080fd5b50610574610d4636600461497e565b6127c8565b348015610d5757600080fd5b506105ed601b5481565b348015610d6d57600080fd5b50610547610d7c36600461497e565b61281a565b348015610d8d57600080fd5b506105ed610d9c36600461497e565b612a4b565b348015610dad57600080fd5b506104fb610dbc36600461497e565b612a62565b348015610dcd57600080fd5b50610530612a87565b348015610de257600080fd5b506105ed60008051602061557483398151915281565b348015610e0457600080fd5b50610530610e13366004614b37565b612af7565b348015610e2457600080fd5b506105ed601e5481565b348015610e3a57600080fd5b506105ed612b1c565b348015610e4f57600080fd5b506105ed7f9089c70e1cc864bea9e548485d837bd067c653ad269b11b56a2b917f24b7eca381565b348015610e8357600080fd5b50610530610e92366004615085565b612b33565b348015610ea357600080fd5b50610530610eb236600461497e565b612be4565b348015610ec357600080fd5b50600a546001600160a01b0316610574565b348015610ee157600080fd5b50610547612c1f565b348015610ef657600080fd5b506104fb610f053660046150d3565b612c2e565b348015610f1657600080fd5b50610530610f25366004614b15565b612c5c565b348015610f3657600080fd5b506105ed610f45366004614b67565b60216020526000908152604090205481565b348015610f6357600080fd5b50610530610f72366004614b84565b612d8a565b348015610f8357600080fd5b50610530610f92366004614b67565b612df5565b348015610fa357600080fd5b50610530610fb236600461497e565b612e66565b60006001600160e01b031982161580610fe057506001600160e01b03198216632b424ad760e21b145b80610ffb57506001600160e01b03198216635a2d1e0760e11b145b8061100a575061100a82612eaf565b92915050565b611018612ed4565b60165460ff16156110445760405162461bcd60e51b815260040161103b90615101565b60405180910390fd5b61104e8282612f01565b6040516001600160601b03821681526001600160a01b038316907fe12d7d5bdb8218a22277dca8f854dd4573a1cea3d3e4808dc567df9eb1c14bf49060200160405180910390a25050565b6060601080546110a89061512d565b80601f01602080910402602001604051908101604052809291908181526020018280546110d49061512d565b80156111215780601f106110f657610100808354040283529160200191611121565b820191906000526020600020905b81548152906001019060200180831161110457829003601f168201915b5050505050905090565b600061113682612fa4565b506000828152600460205260409020546001600160a01b031661100a565b61115f828233612fdd565b5050565b60008060225460ff16600281111561117d5761117d614db8565b14806111bf5750600160225460ff16600281111561119d5761119d614db8565b1480156111bf57506111bd600080516020615574833981519152336122d6565b155b156111e457602254604051633848972160e21b815261103b9160ff1690600401614dce565b60235442101561120d5760235460405163456afd0b60e01b815260040161103b91815260200190565b6024541580159061121f575060245442115b15611243576024546040516394bb74a960e01b815260040161103b91815260200190565b61124c33612fea565b905090565b60008051602061553483398151915261126981613074565b60165460ff161561128c5760405162461bcd60e51b815260040161103b90615101565b61129583612fa4565b5060008381526017602052604090205460ff16156112c95760405163a8e77cd960e01b81526004810184905260240161103b565b60008381526015602052604090206112e183826151af565b506040518381527ff8e1a15aba9398e019f0b49df1a4fde98ee17ae345cb5f6b5e2c27f5033e8ce79060200160405180910390a1505050565b6000601254611327612390565b61124c9190615284565b60008060225460ff16600281111561134b5761134b614db8565b148061138d5750600160225460ff16600281111561136b5761136b614db8565b14801561138d575061138b600080516020615574833981519152336122d6565b155b156113b257602254604051633848972160e21b815261103b9160ff1690600401614dce565b6023544210156113db5760235460405163456afd0b60e01b815260040161103b91815260200190565b602454158015906113ed575060245442115b15611411576024546040516394bb74a960e01b815260040161103b91815260200190565b816000036114325760405163524f409b60e01b815260040160405180910390fd5b600082601f546114429190615297565b905080341461146d57604051630d35e92160e01b81526004810182905234602482015260440161103b565b611477338461307e565b611481338461310c565b915060008051602061555483398151915282600161149f86836152ae565b6114a99190615284565b6040805192835260208301919091520160405180910390a150919050565b6001600160a01b0382166114f157604051633250574960e11b81526000600482015260240161103b565b60006114fe838333613165565b9050836001600160a01b0316816001600160a01b03161461154c576040516364283d7b60e01b81526001600160a01b038086166004830152602482018490528216604482015260640161103b565b50505050565b600082815260086020526040812080548291906001600160a01b03811690600160a01b90046001600160601b0316816115a65750506007546001600160a01b03811690600160a01b90046001600160601b03165b60006127106115be6001600160601b03841689615297565b6115c891906152c1565b9295509193505050505b9250929050565b6000828152600b60205260409020600101546115f481613074565b61154c83836132fe565b6001600160a01b03811633146116275760405163334bd91960e11b815260040160405180910390fd5b6116318282613333565b505050565b61163e612ed4565b611646613360565b565b611631838383604051806020016040528060008152506127b0565b61115f60008233613165565b60008051602061553483398151915261168781613074565b60165460ff16156116aa5760405162461bcd60e51b815260040161103b90615101565b601a5460ff16156116ce5760405163a89ac15160e01b815260040160405180910390fd5b601a805460ff1916600117905560136116e783826151af565b507f34f25fe82e04b6b4bb3440737372e9d5d8e7a6a2b12da5dc4abead2c0b544ad982604051611717919061496b565b60405180910390a16040805160018152600019602082015260008051602061555483398151915291015b60405180910390a15050565b611755612ed4565b6001600160a01b03811661177c57604051635b03092b60e11b815260040160405180910390fd5b60405147906000906001600160a01b0384169083908381818185875af1925050503d80600081146117c9576040519150601f19603f3d011682016040523d82523d6000602084013e6117ce565b606091505b50509050806117f0576040516327fcd9d160e01b815260040160405180910390fd5b826001600160a01b03167f7084f5476618d8e60b11ef0d7d3f06914655adb8793e28ff7f018d4c76d505d58360405161182b91815260200190565b60405180910390a2505050565b60255460009061185b576040516330e7dab160e21b815260040160405180910390fd5b3360009081526026602052604090205460ff161561188e5760405163d6c772ff60e01b815233600482015260240161103b565b604080513360208201526000910160408051601f19818403018152828252805160209182012090830152016040516020818303038152906040528051906020012090506118df8484602554846133b2565b6118fc5760405163582f497d60e11b815260040160405180910390fd5b336000818152602660205260409020805460ff1916600117905561191f90612fea565b949350505050565b601a5460009060ff168061124c5750601980546119439061512d565b1592915050565b60008051602061553483398151915261196281613074565b60165460ff16156119855760405162461bcd60e51b815260040161103b90615101565b601361199183826151af565b50604080516001815260001960208201526000805160206155548339815191529101611741565b6000602354421015801561124c5750602454158061124c57505060245442111590565b6000805160206155348339815191526119f381613074565b60165460ff1615611a165760405162461bcd60e51b815260040161103b90615101565b601c80546001600160a01b0319166001600160a01b0384169081179091556040517f482cbbbcf912da3be80deb8503ae1e94c0b7d5d1d0ec0af3d9d6403e06e609ee90600090a2604080516001815260001960208201526000805160206155548339815191529101611741565b611a8b612ed4565b60165460ff1615611aae5760405162461bcd60e51b815260040161103b90615101565b611ab98383836133ca565b6040516001600160601b03821681526001600160a01b0383169084907fe361b60b9164428d036a601ec08552e653bfe8c44389b8a4ebfd47281eb8741a906020015b60405180910390a3505050565b600061100a82612fa4565b600080611b1e612b1c565b9050602054600003611b305792915050565b6001600160a01b03831660009081526021602090815260408220549054909190821015611b6a5781602054611b659190615284565b611b6d565b60005b9050828110611b7c5782611b7e565b805b95945050505050565b600080516020615574833981519152611b9f81613074565b838214611bc957604051632851925b60e21b8152600481018590526024810183905260440161103b565b6000849003611beb5760405163524f409b60e01b815260040160405180910390fd5b600f5460005b85811015611c8357848482818110611c0b57611c0b6152e3565b90506020020135600003611c325760405163524f409b60e01b815260040160405180910390fd5b611c7a878783818110611c4757611c476152e3565b9050602002016020810190611c5c9190614b67565b868684818110611c6e57611c6e6152e3565b9050602002013561310c565b50600101611bf1565b50600080516020615554833981519152816001600f54611ca39190615284565b6040805192835260208301919091520160405180910390a1505050505050565b60008360600135421115611cf0576040516307185d5160e01b81526060850135600482015260240161103b565b608084013560009081526027602052604090205460ff1615611d2b57604051632dbfcda160e01b81526080850135600482015260240161103b565b83604001353414611d5b5760408051630d35e92160e01b815290850135600482015234602482015260440161103b565b6000611da5611d698661348c565b85858080601f01602080910402602001604051908101604052809392919081815260200183838082843760009201919091525061354192505050565b9050611db96009546001600160a01b031690565b6001600160a01b0316816001600160a01b031614158015611e015750611dff7f9089c70e1cc864bea9e548485d837bd067c653ad269b11b56a2b917f24b7eca3826122d6565b155b15611e2a57604051631497dfb360e21b81526001600160a01b038216600482015260240161103b565b60808501356000908152602760209081526040909120805460ff19166001179055611e6290611e5b90870187614b67565b600161310c565b91506000611e7360208701876152f9565b90501115611ec75760165460ff1615611e9e5760405162461bcd60e51b815260040161103b90615101565b611eab60208601866152f9565b600084815260156020526040902091611ec591908361533f565b505b6040518281527ff8e1a15aba9398e019f0b49df1a4fde98ee17ae345cb5f6b5e2c27f5033e8ce79060200160405180910390a1611f076020860186614b67565b6001600160a01b03168286608001357f34cd4b0d30098edaf14317aa89d9ce2d2a91b309b7d9b0aeb8cfa07aee4da5f260405160405180910390a4509392505050565b611f52612ed4565b8015801590611f615750818111155b15611f895760405163b42d8cef60e01b8152600481018390526024810182905260440161103b565b6023829055602481905560408051838152602081018390527f7291acdf619347e3dd338a8b65d1788570a0f1bc413e94e9e7333d0561c6ed589101611741565b60006001600160a01b038216611ff5576040516322718ad960e21b81526000600482015260240161103b565b506001600160a01b031660009081526003602052604090205490565b612019612ed4565b611646600061356b565b61202b612ed4565b6022805482919060ff1916600183600281111561204a5761204a614db8565b02179055507f7fc504f71d58bc2e04f75e1659c8c228d53ae22d3c99326171fd6899d708f84e8160405161207e9190614dce565b60405180910390a150565b6060601980546110a89061512d565b600a5433906001600160a01b031681146120d05760405163118cdaa760e01b81526001600160a01b038216600482015260240161103b565b6120d98161356b565b50565b6120e4612ed4565b60258190556040518181527f90004c04698bc3322499a575ed3752dd4abf33e0a7294c06a787a0fe01bea9419060200161207e565b612121612ed4565b611646613658565b6060600061213683611fc9565b9050806001600160401b03811115612150576121506149c3565b604051908082528060200260200182016040528015612179578160200160208202803683370190505b509150600060015b82821080156121915750600f5481105b156121f4576000818152600260205260409020546001600160a01b038681169116036121e2578084836121c3816153fe565b9450815181106121d5576121d56152e3565b6020026020010181815250505b806121ec816153fe565b915050612181565b505050919050565b600060608060008060006060612210613695565b6122186136c2565b60408051600080825260208201909252600f60f81b9b939a50919850469750309650945092509050565b61224a612ed4565b60165460ff161561226d5760405162461bcd60e51b815260040161103b90615101565b60008181526008602052604081205560405160008082529082907fe361b60b9164428d036a601ec08552e653bfe8c44389b8a4ebfd47281eb8741a9060200160405180910390a350565b6000828152600c602052604081206122cf90836136ef565b9392505050565b6000918252600b602090815260408084206001600160a01b0393909316845291905290205460ff1690565b60008051602061553483398151915261231981613074565b60165460ff161561233c5760405162461bcd60e51b815260040161103b90615101565b601461234883826151af565b506040517fa5d4097edda6d87cb9329af83fb3712ef77eeb13738ffe43cc35a4ce305ad96290600090a15050565b6060601180546110a89061512d565b61115f3383836136fb565b60006001600f5461124c9190615284565b6000818152600c6020526040902060609061100a90613792565b6123c3612ed4565b60165460ff16156123e65760405162461bcd60e51b815260040161103b90615101565b6123f06000600755565b6040516000808252907fe12d7d5bdb8218a22277dca8f854dd4573a1cea3d3e4808dc567df9eb1c14bf49060200160405180910390a2565b7ff0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a008054600160401b810460ff1615906001600160401b031660008115801561246d5750825b90506000826001600160401b031660011480156124895750303b155b905081158015612497575080155b156124b55760405163f92ee8a960e01b815260040160405180910390fd5b845467ffffffffffffffff1916600117855583156124df57845460ff60401b1916600160401b1785555b6001600160a01b038b1661250957604051631e4fbdf760e01b81526000600482015260240161103b565b6125128b61356b565b6125aa8f8f8080601f016020809104026020016040519081016040528093929190818152602001838380828437600081840152601f19601f820116905080830192505050505050508e8e8080601f016020809104026020016040519081016040528093929190818152602001838380828437600081840152601f19601f820116905080830192505050505050508d8d8d8d8d8d61379f565b83156125f057845460ff60401b19168555604051600181527fc7f505b2f371ae2175ee4913f4499e1f2633a7b5936321eed1cdaeb6115181d29060200160405180910390a15b505050505050505050505050505050565b600061260c82612fa4565b5050601c54600160a01b900460ff16919050565b60008051602061553483398151915261263881613074565b60165460ff161561265b5760405162461bcd60e51b815260040161103b90615101565b612663611927565b6126805760405163847b198f60e01b815260040160405180910390fd5b60008281526017602052604090205460ff16156126b35760405163a8e77cd960e01b81526004810183905260240161103b565b60006126be8361281a565b905080516000036126e557604051636ea1b76f60e11b81526004810184905260240161103b565b600083815260156020526040902080546126fe9061512d565b905060000361276557601c546001600160a01b03161561274b57601c54600084815260186020526040902080546001600160a01b0319166001600160a01b03909216919091179055612765565b600083815260156020526040902061276382826151af565b505b60008381526017602052604090819020805460ff191660011790555183907fa109ba539900bf1b633f956d63c96fc89b814c7287f7aa50a9216d0b556572079061182b90849061496b565b6127bb8484846114c7565b61154c33858585856138b6565b6000818152601d602090815260408083208151808301909252546001600160a01b0381168252600160a01b90046001600160401b0316918101829052904211156128135760006122cf565b5192915050565b606061282582612fa4565b5060008281526017602052604090205460ff168015801561284b5750612849611927565b155b156128e3576019805461285d9061512d565b80601f01602080910402602001604051908101604052809291908181526020018280546128899061512d565b80156128d65780601f106128ab576101008083540402835291602001916128d6565b820191906000526020600020905b8154815290600101906020018083116128b957829003601f168201915b5050505050915050919050565b600083815260156020526040812080546128fc9061512d565b80601f01602080910402602001604051908101604052809291908181526020018280546129289061512d565b80156129755780601f1061294a57610100808354040283529160200191612975565b820191906000526020600020905b81548152906001019060200180831161295857829003601f168201915b5050505050905060008151111561298d579392505050565b6000826129a557601c546001600160a01b03166129be565b6000858152601860205260409020546001600160a01b03165b90506001600160a01b03811615612a425760405163e9dc637560e01b8152306004820152602481018690526001600160a01b0382169063e9dc637590604401600060405180830381865afa158015612a1a573d6000803e3d6000fd5b505050506040513d6000823e601f3d908101601f19168201604052611b7e9190810190615417565b611b7e856139e0565b6000818152600c6020526040812061100a90613a47565b60165460009060ff168061100a57505060009081526017602052604090205460ff1690565b600080516020615534833981519152612a9f81613074565b60165460ff1615612ac25760405162461bcd60e51b815260040161103b90615101565b6016805460ff19166001908117909155604080519182526000196020830152600080516020615554833981519152910161207e565b6000828152600b6020526040902060010154612b1281613074565b61154c8383613333565b6000612b26612390565b601e5461124c9190615284565b600083815260026020526040902054612b56906001600160a01b03163385613a51565b6040805180820182526001600160a01b038481168083526001600160401b03858116602080860182815260008b8152601d835288902096518754915196166001600160e01b031990911617600160a01b959093169490940291909117909355925191825285917f4e06b4e7000e659094299b3533b47b6aa8ad048e95e872d23d1f4ee55af89cfe9101611afb565b612bec612ed4565b60208181556040518281527f97e4f91a4b7e108aff6d29a03d7b9f94705ad90ed51b377784a1943ea32257e7910161207e565b6060601480546110a89061512d565b6001600160a01b03918216600090815260056020908152604080832093909416825291909152205460ff1690565b600080516020615534833981519152612c7481613074565b60165460ff16612c9757604051630dc799dd60e31b815260040160405180910390fd5b821580612ca357508282105b15612cca576040516273750960e01b8152600481018490526024810183905260440161103b565b6000600f548310612ce9576001600f54612ce49190615284565b612ceb565b825b9050835b818111612d83576000818152600260205260409020546001600160a01b031615801590612d2b575060008181526017602052604090205460ff16155b15612d7157807fa109ba539900bf1b633f956d63c96fc89b814c7287f7aa50a9216d0b55657207612d5b8361281a565b604051612d68919061496b565b60405180910390a25b80612d7b816153fe565b915050612cef565b5050505050565b600080516020615534833981519152612da281613074565b60165460ff1615612dc55760405162461bcd60e51b815260040161103b90615101565b601a5460ff1615612de95760405163a89ac15160e01b815260040160405180910390fd5b601961199183826151af565b612dfd612ed4565b600a80546001600160a01b0383166001600160a01b03199091168117909155612e2e6009546001600160a01b031690565b6001600160a01b03167f38d16b8cac22d99fc7c124b9cd0de2d3fa1faef420bfe791d8c362d765e2270060405160405180910390a350565b612e6e612ed4565b601f5460408051918252602082018390527f2e1c9e000c6e8dda4d03536adb13b7cb6034ccff90d17f01de381e4d5097b525910160405180910390a1601f55565b60006001600160e01b03198216635a05180f60e01b148061100a575061100a82613ab5565b6009546001600160a01b031633146116465760405163118cdaa760e01b815233600482015260240161103b565b6127106001600160601b038216811015612f4057604051636f483d0960e01b81526001600160601b03831660048201526024810182905260440161103b565b6001600160a01b038316612f6a57604051635b6cc80560e11b81526000600482015260240161103b565b50604080518082019091526001600160a01b039092168083526001600160601b039091166020909201829052600160a01b90910217600755565b6000818152600260205260408120546001600160a01b03168061100a57604051637e27328960e01b81526004810184905260240161103b565b6116318383836001613ada565b6000601f54341461301b57601f54604051630d35e92160e01b8152600481019190915234602482015260440161103b565b61302682600161307e565b600061303383600161310c565b90507ff8e1a15aba9398e019f0b49df1a4fde98ee17ae345cb5f6b5e2c27f5033e8ce78160405161306691815260200190565b60405180910390a192915050565b6120d98133613be0565b6001600160a01b0382166000908152602160205260408120546130a29083906152ae565b90506020546000141580156130b8575060205481115b156130ec5760205460405163500d620560e01b81526001600160a01b0385166004820152602481019190915260440161103b565b6001600160a01b0390921660009081526021602052604090209190915550565b600f54601e54600161311e84846152ae565b6131289190615284565b111561314d57601e5460405163f9f8491560e01b815260040161103b91815260200190565b61315782826152ae565b600f5561100a838284613c19565b600080613173858585613c3f565b9050846001600160a01b0316816001600160a01b0316141580156131ad57506000848152601d60205260409020546001600160a01b031615155b15613203576000848152601d6020908152604080832080546001600160e01b03191690555182815286917f4e06b4e7000e659094299b3533b47b6aa8ad048e95e872d23d1f4ee55af89cfe910160405180910390a35b6001600160a01b03851661322b5760128054906000613221836153fe565b919050555061191f565b6001600160a01b0381166132d057601c54600160a01b900460ff161561327f576040518481527f032bc66be43dbccb7487781d168eb7bda224628a3b2c3388bdf69b532a3a16119060200160405180910390a15b60165460ff16156132cb57837fa109ba539900bf1b633f956d63c96fc89b814c7287f7aa50a9216d0b556572076132b58661281a565b6040516132c2919061496b565b60405180910390a25b61191f565b601c54600160a01b900460ff161561191f5760405163461dd51f60e11b81526004810185905260240161103b565b60008061330b8484613c54565b905080156122cf576000848152600c6020526040902061332b9084613ce8565b509392505050565b6000806133408484613cfd565b905080156122cf576000848152600c6020526040902061332b9084613d6a565b613368613d7f565b6006805460ff191690557f5db9ee0a495bf2e6ff9c91a7834c1ba4fdd244a5e8aa4e537bd38aeae4b073aa335b6040516001600160a01b03909116815260200160405180910390a1565b6000826133c0868685613da2565b1495945050505050565b6127106001600160601b0382168110156134105760405163dfd1fc1b60e01b8152600481018590526001600160601b03831660248201526044810182905260640161103b565b6001600160a01b03831661344157604051634b4f842960e11b8152600481018590526000602482015260440161103b565b506040805180820182526001600160a01b0393841681526001600160601b0392831660208083019182526000968752600890529190942093519051909116600160a01b029116179055565b600061100a7f54c4fa55144b7da0d1bae0e2c4e33bc86ab5872e30dc15a77121bf2b0224e9c96134bf6020850185614b67565b6134cc60208601866152f9565b6040516134da929190615484565b6040805191829003822060208301949094526001600160a01b0390921681830152606080820193909352908501356080808301919091529185013560a08201529084013560c082015260e00160405160208183030381529060405280519060200120613de4565b6000806000806135518686613e11565b9250925092506135618282613e5e565b5090949350505050565b600061357f6009546001600160a01b031690565b905061358a82613f17565b6001600160a01b03811615806135b15750816001600160a01b0316816001600160a01b0316145b156135ba575050565b604080516060810182526000808252600080516020615574833981519152602083015260008051602061553483398151915292820192909252905b600381101561154c5761361e828260038110613613576136136152e3565b602002015184613333565b506001600160a01b038416156136505761364e828260038110613643576136436152e3565b6020020151856132fe565b505b6001016135f5565b613660613f30565b6006805460ff191660011790557f62e78cea01bee320cd4e420270b5ea74000d11b0c9f74754ebdbfc544b05a2586133953390565b606061124c7f0000000000000000000000000000000000000000000000000000000000000000600d613f54565b606061124c7f0000000000000000000000000000000000000000000000000000000000000000600e613f54565b60006122cf8383613fff565b6001600160a01b03821661372d57604051630b61174360e31b81526001600160a01b038316600482015260240161103b565b6001600160a01b03838116600081815260056020908152604080832094871680845294825291829020805460ff191686151590811790915591519182527f17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c319101611afb565b606060006122cf83614029565b846000036137c05760405163066f305360e21b815260040160405180910390fd5b60106137cc89826151af565b5060116137d988826151af565b50601e859055601b829055601c805460ff60a01b1916600160a01b831515021790556001600f556022805460ff191660021790556138186000876132fe565b50613831600080516020615574833981519152876132fe565b5061384a600080516020615534833981519152876132fe565b506001600160601b038316156138ac576138648484612f01565b6040516001600160601b03841681526001600160a01b038516907fe12d7d5bdb8218a22277dca8f854dd4573a1cea3d3e4808dc567df9eb1c14bf49060200160405180910390a25b5050505050505050565b6001600160a01b0383163b15612d8357604051630a85bd0160e11b81526001600160a01b0384169063150b7a02906138f8908890889087908790600401615494565b6020604051808303816000875af1925050508015613933575060408051601f3d908101601f19168201909252613930918101906154d1565b60015b61399c573d808015613961576040519150601f19603f3d011682016040523d82523d6000602084013e613966565b606091505b50805160000361399457604051633250574960e11b81526001600160a01b038516600482015260240161103b565b805181602001fd5b6001600160e01b03198116630a85bd0160e11b146139d857604051633250574960e11b81526001600160a01b038516600482015260240161103b565b505050505050565b60606139eb82612fa4565b5060006139f6614085565b90506000815111613a1657604051806020016040528060008152506122cf565b80613a2084614094565b604051602001613a319291906154ee565b6040516020818303038152906040529392505050565b600061100a825490565b613a5c838383614126565b611631576001600160a01b038316613a8a57604051637e27328960e01b81526004810182905260240161103b565b60405163177e802f60e01b81526001600160a01b03831660048201526024810182905260440161103b565b60006001600160e01b03198216637965db0b60e01b148061100a575061100a82614189565b8080613aee57506001600160a01b03821615155b15613bb0576000613afe84612fa4565b90506001600160a01b03831615801590613b2a5750826001600160a01b0316816001600160a01b031614155b8015613b3d5750613b3b8184612c2e565b155b15613b665760405163a9fbf51f60e01b81526001600160a01b038416600482015260240161103b565b8115613bae5783856001600160a01b0316826001600160a01b03167f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b92560405160405180910390a45b505b5050600090815260046020526040902080546001600160a01b0319166001600160a01b0392909216919091179055565b613bea82826122d6565b61115f5760405163e2517d3f60e01b81526001600160a01b03821660048201526024810183905260440161103b565b60005b8181101561154c57613c3784613c3283866152ae565b6141ae565b600101613c1c565b6000613c49613f30565b61191f8484846141c8565b6000613c6083836122d6565b613ce0576000838152600b602090815260408083206001600160a01b03861684529091529020805460ff19166001179055613c983390565b6001600160a01b0316826001600160a01b0316847f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d60405160405180910390a450600161100a565b50600061100a565b60006122cf836001600160a01b0384166142c1565b6000613d0983836122d6565b15613ce0576000838152600b602090815260408083206001600160a01b0386168085529252808320805460ff1916905551339286917ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b9190a450600161100a565b60006122cf836001600160a01b038416614308565b60065460ff1661164657604051638dfc202b60e01b815260040160405180910390fd5b600081815b84811015613ddb57613dd182878784818110613dc557613dc56152e3565b905060200201356143fb565b9150600101613da7565b50949350505050565b600061100a613df161442a565b8360405161190160f01b8152600281019290925260228201526042902090565b60008060008351604103613e4b5760208401516040850151606086015160001a613e3d88828585614555565b955095509550505050613e57565b50508151600091506002905b9250925092565b6000826003811115613e7257613e72614db8565b03613e7b575050565b6001826003811115613e8f57613e8f614db8565b03613ead5760405163f645eedf60e01b815260040160405180910390fd5b6002826003811115613ec157613ec1614db8565b03613ee25760405163fce698f760e01b81526004810182905260240161103b565b6003826003811115613ef657613ef6614db8565b0361115f576040516335e2f38360e21b81526004810182905260240161103b565b600a80546001600160a01b03191690556120d981614624565b60065460ff16156116465760405163d93c066560e01b815260040160405180910390fd5b606060ff8314613f6e57613f6783614676565b905061100a565b818054613f7a9061512d565b80601f0160208091040260200160405190810160405280929190818152602001828054613fa69061512d565b8015613ff35780601f10613fc857610100808354040283529160200191613ff3565b820191906000526020600020905b815481529060010190602001808311613fd657829003601f168201915b5050505050905061100a565b6000826000018281548110614016576140166152e3565b9060005260206000200154905092915050565b60608160000180548060200260200160405190810160405280929190818152602001828054801561407957602002820191906000526020600020905b815481526020019060010190808311614065575b50505050509050919050565b6060601380546110a89061512d565b606060006140a1836146b5565b60010190506000816001600160401b038111156140c0576140c06149c3565b6040519080825280601f01601f1916602001820160405280156140ea576020820181803683370190505b5090508181016020015b600019016f181899199a1a9b1b9c1cb0b131b232b360811b600a86061a8153600a85049450846140f457509392505050565b60006001600160a01b0383161580159061191f5750826001600160a01b0316846001600160a01b0316148061416057506141608484612c2e565b8061191f5750506000908152600460205260409020546001600160a01b03908116911614919050565b60006001600160e01b0319821663152a902d60e11b148061100a575061100a8261478d565b61115f8282604051806020016040528060008152506147dd565b6000828152600260205260408120546001600160a01b03908116908316156141f5576141f5818486613a51565b6001600160a01b0381161561423357614212600085600080613ada565b6001600160a01b038116600090815260036020526040902080546000190190555b6001600160a01b03851615614262576001600160a01b0385166000908152600360205260409020805460010190555b60008481526002602052604080822080546001600160a01b0319166001600160a01b0389811691821790925591518793918516917fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef91a4949350505050565b6000818152600183016020526040812054613ce05750815460018181018455600084815260208082209093018490558454848252828601909352604090209190915561100a565b600081815260018301602052604081205480156143f157600061432c600183615284565b855490915060009061434090600190615284565b90508082146143a5576000866000018281548110614360576143606152e3565b9060005260206000200154905080876000018481548110614383576143836152e3565b6000918252602080832090910192909255918252600188019052604090208390555b85548690806143b6576143b661551d565b60019003818190600052602060002001600090559055856001016000868152602001908152602001600020600090556001935050505061100a565b600091505061100a565b60008183106144175760008281526020849052604090206122cf565b60008381526020839052604090206122cf565b6000306001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001614801561448357507f000000000000000000000000000000000000000000000000000000000000000046145b156144ad57507f000000000000000000000000000000000000000000000000000000000000000090565b61124c604080517f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f60208201527f0000000000000000000000000000000000000000000000000000000000000000918101919091527f000000000000000000000000000000000000000000000000000000000000000060608201524660808201523060a082015260009060c00160405160208183030381529060405280519060200120905090565b600080807f7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a0841115614590575060009150600390508261461a565b604080516000808252602082018084528a905260ff891692820192909252606081018790526080810186905260019060a0016020604051602081039080840390855afa1580156145e4573d6000803e3d6000fd5b5050604051601f1901519150506001600160a01b0381166146105750600092506001915082905061461a565b9250600091508190505b9450945094915050565b600980546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e090600090a35050565b60606000614683836147f5565b604080516020808252818301909252919250600091906020820181803683375050509182525060208101929092525090565b60008072184f03e93ff9f4daa797ed6e38ed64bf6a1f0160401b83106146f45772184f03e93ff9f4daa797ed6e38ed64bf6a1f0160401b830492506040015b6d04ee2d6d415b85acef81000000008310614720576d04ee2d6d415b85acef8100000000830492506020015b662386f26fc10000831061473e57662386f26fc10000830492506010015b6305f5e1008310614756576305f5e100830492506008015b612710831061476a57612710830492506004015b6064831061477c576064830492506002015b600a831061100a5760010192915050565b60006001600160e01b031982166380ac58cd60e01b14806147be57506001600160e01b03198216635b5e139f60e01b145b8061100a57506301ffc9a760e01b6001600160e01b031983161461100a565b6147e7838361481d565b6116313360008585856138b6565b600060ff8216601f81111561100a57604051632cd44ac360e21b815260040160405180910390fd5b6001600160a01b03821661484757604051633250574960e11b81526000600482015260240161103b565b600061485583836000613165565b90506001600160a01b03811615611631576040516339e3563760e11b81526000600482015260240161103b565b6001600160e01b0319811681146120d957600080fd5b6000602082840312156148aa57600080fd5b81356122cf81614882565b6001600160a01b03811681146120d957600080fd5b80356001600160601b03811681146148e157600080fd5b919050565b600080604083850312156148f957600080fd5b8235614904816148b5565b9150614912602084016148ca565b90509250929050565b60005b8381101561493657818101518382015260200161491e565b50506000910152565b6000815180845261495781602086016020860161491b565b601f01601f19169290920160200192915050565b6020815260006122cf602083018461493f565b60006020828403121561499057600080fd5b5035919050565b600080604083850312156149aa57600080fd5b82356149b5816148b5565b946020939093013593505050565b634e487b7160e01b600052604160045260246000fd5b604051601f8201601f191681016001600160401b0381118282101715614a0157614a016149c3565b604052919050565b60006001600160401b03821115614a2257614a226149c3565b50601f01601f191660200190565b6000614a43614a3e84614a09565b6149d9565b9050828152838383011115614a5757600080fd5b828260208301376000602084830101529392505050565b600082601f830112614a7f57600080fd5b6122cf83833560208501614a30565b60008060408385031215614aa157600080fd5b8235915060208301356001600160401b03811115614abe57600080fd5b614aca85828601614a6e565b9150509250929050565b600080600060608486031215614ae957600080fd5b8335614af4816148b5565b92506020840135614b04816148b5565b929592945050506040919091013590565b60008060408385031215614b2857600080fd5b50508035926020909101359150565b60008060408385031215614b4a57600080fd5b823591506020830135614b5c816148b5565b809150509250929050565b600060208284031215614b7957600080fd5b81356122cf816148b5565b600060208284031215614b9657600080fd5b81356001600160401b03811115614bac57600080fd5b61191f84828501614a6e565b60008083601f840112614bca57600080fd5b5081356001600160401b03811115614be157600080fd5b6020830191508360208260051b85010111156115d257600080fd5b60008060208385031215614c0f57600080fd5b82356001600160401b03811115614c2557600080fd5b614c3185828601614bb8565b90969095509350505050565b600080600060608486031215614c5257600080fd5b833592506020840135614c64816148b5565b9150614c72604085016148ca565b90509250925092565b60008060008060408587031215614c9157600080fd5b84356001600160401b0380821115614ca857600080fd5b614cb488838901614bb8565b90965094506020870135915080821115614ccd57600080fd5b50614cda87828801614bb8565b95989497509550505050565b60008083601f840112614cf857600080fd5b5081356001600160401b03811115614d0f57600080fd5b6020830191508360208285010111156115d257600080fd5b600080600060408486031215614d3c57600080fd5b83356001600160401b0380821115614d5357600080fd5b9085019060a08288031215614d6757600080fd5b90935060208501359080821115614d7d57600080fd5b50614d8a86828701614ce6565b9497909650939450505050565b600060208284031215614da957600080fd5b8135600381106122cf57600080fd5b634e487b7160e01b600052602160045260246000fd5b6020810160038310614df057634e487b7160e01b600052602160045260246000fd5b91905290565b60008151808452602080850194506020840160005b83811015614e2757815187529582019590820190600101614e0b565b509495945050505050565b6020815260006122cf6020830184614df6565b60ff60f81b8816815260e060208201526000614e6460e083018961493f565b8281036040840152614e76818961493f565b606084018890526001600160a01b038716608085015260a0840186905283810360c08501529050614ea78185614df6565b9a9950505050505050505050565b803580151581146148e157600080fd5b60008060408385031215614ed857600080fd5b8235614ee3816148b5565b915061491260208401614eb5565b6020808252825182820181905260009190848201906040850190845b81811015614f325783516001600160a01b031683529284019291840191600101614f0d565b50909695505050505050565b6000806000806000806000806000806101008b8d031215614f5e57600080fd5b8a356001600160401b0380821115614f7557600080fd5b614f818e838f01614ce6565b909c509a5060208d0135915080821115614f9a57600080fd5b50614fa78d828e01614ce6565b90995097505060408b0135614fbb816148b5565b955060608b0135945060808b0135614fd2816148b5565b9350614fe060a08c016148ca565b925060c08b01359150614ff560e08c01614eb5565b90509295989b9194979a5092959850565b6000806000806080858703121561501c57600080fd5b8435615027816148b5565b93506020850135615037816148b5565b92506040850135915060608501356001600160401b0381111561505957600080fd5b8501601f8101871361506a57600080fd5b61507987823560208401614a30565b91505092959194509250565b60008060006060848603121561509a57600080fd5b8335925060208401356150ac816148b5565b915060408401356001600160401b03811681146150c857600080fd5b809150509250925092565b600080604083850312156150e657600080fd5b82356150f1816148b5565b91506020830135614b5c816148b5565b60208082526012908201527126b2ba30b230ba309034b990333937bd32b760711b604082015260600190565b600181811c9082168061514157607f821691505b60208210810361516157634e487b7160e01b600052602260045260246000fd5b50919050565b601f821115611631576000816000526020600020601f850160051c810160208610156151905750805b601f850160051c820191505b818110156139d85782815560010161519c565b81516001600160401b038111156151c8576151c86149c3565b6151dc816151d6845461512d565b84615167565b602080601f83116001811461521157600084156151f95750858301515b600019600386901b1c1916600185901b1785556139d8565b600085815260208120601f198616915b8281101561524057888601518255948401946001909101908401615221565b508582101561525e5787850151600019600388901b60f8161c191681555b5050505050600190811b01905550565b634e487b7160e01b600052601160045260246000fd5b8181038181111561100a5761100a61526e565b808202811582820484141761100a5761100a61526e565b8082018082111561100a5761100a61526e565b6000826152de57634e487b7160e01b600052601260045260246000fd5b500490565b634e487b7160e01b600052603260045260246000fd5b6000808335601e1984360301811261531057600080fd5b8301803591506001600160401b0382111561532a57600080fd5b6020019150368190038213156115d257600080fd5b6001600160401b03831115615356576153566149c3565b61536a83615364835461512d565b83615167565b6000601f84116001811461539e57600085156153865750838201355b600019600387901b1c1916600186901b178355612d83565b600083815260209020601f19861690835b828110156153cf57868501358255602094850194600190920191016153af565b50868210156153ec5760001960f88860031b161c19848701351681555b505060018560011b0183555050505050565b6000600182016154105761541061526e565b5060010190565b60006020828403121561542957600080fd5b81516001600160401b0381111561543f57600080fd5b8201601f8101841361545057600080fd5b805161545e614a3e82614a09565b81815285602083850101111561547357600080fd5b611b7e82602083016020860161491b565b8183823760009101908152919050565b6001600160a01b03858116825284166020820152604081018390526080606082018190526000906154c79083018461493f565b9695505050505050565b6000602082840312156154e357600080fd5b81516122cf81614882565b6000835161550081846020880161491b565b83519083019061551481836020880161491b565b01949350505050565b634e487b7160e01b600052603160045260246000fdfe6bd6b5318a46e5fff572d5e4258a20774aab40cc35ac7680654b9081fcc82f806bd5c950a8d8df17f772f5af37cb3655737899cbf903264b9795592da439661c9f2df0fed2c77648de5860a4cc508cd0818c85b8b8a1ab4ceeef8d981c8956a6a2646970667358221220531ac23d02b3ea8670a5353b6ea21d32f70d14ef0dc1f947ea3a2c1d0026a5b464736f6c634300081600336bd6b5318a46e5fff572d5e4258a20774aab40cc35ac7680654b9081fcc82f809f2df0fed2c77648de5860a4cc508cd0818c85b8b8a1ab4ceeef8d981c8956a6";
 
 type SimpleNFTConstructorParams =
   | [signer?: Signer]
@@ -678,25 +2631,50 @@ export class SimpleNFT__factory extends ContractFactory {
   }
 
   override getDeployTransaction(
-    name: string,
-    symbol: string,
+    name_: string,
+    symbol_: string,
     initialOwner: AddressLike,
+    maxSupply_: BigNumberish,
+    royaltyReceiver: AddressLike,
+    royaltyFeeNumerator: BigNumberish,
+    provenanceHash_: BytesLike,
+    soulbound_: boolean,
     overrides?: NonPayableOverrides & { from?: string }
   ): Promise<ContractDeployTransaction> {
     return super.getDeployTransaction(
-      name,
-      symbol,
+      name_,
+      symbol_,
       initialOwner,
+      maxSupply_,
+      royaltyReceiver,
+      royaltyFeeNumerator,
+      provenanceHash_,
+      soulbound_,
       overrides || {}
     );
   }
   override deploy(
-    name: string,
-    symbol: string,
+    name_: string,
+    symbol_: string,
     initialOwner: AddressLike,
+    maxSupply_: BigNumberish,
+    royaltyReceiver: AddressLike,
+    royaltyFeeNumerator: BigNumberish,
+    provenanceHash_: BytesLike,
+    soulbound_: boolean,
     overrides?: NonPayableOverrides & { from?: string }
   ) {
-    return super.deploy(name, symbol, initialOwner, overrides || {}) as Promise<
+    return super.deploy(
+      name_,
+      symbol_,
+      initialOwner,
+      maxSupply_,
+      royaltyReceiver,
+      royaltyFeeNumerator,
+      provenanceHash_,
+      soulbound_,
+      overrides || {}
+    ) as Promise<
       SimpleNFT & {
         deploymentTransaction(): ContractTransactionResponse;
       }
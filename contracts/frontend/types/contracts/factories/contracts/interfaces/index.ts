@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { IERC4907__factory } from "./IERC4907__factory";
+export { IERC5192__factory } from "./IERC5192__factory";
+export { ITokenURIRenderer__factory } from "./ITokenURIRenderer__factory";
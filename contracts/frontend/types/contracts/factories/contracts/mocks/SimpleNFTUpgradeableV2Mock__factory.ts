@@ -0,0 +1,2811 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  SimpleNFTUpgradeableV2Mock,
+  SimpleNFTUpgradeableV2MockInterface,
+} from "../../../contracts/mocks/SimpleNFTUpgradeableV2Mock";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name_",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "symbol_",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "initialOwner",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "AccessControlBadConfirmation",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "neededRole",
+        type: "bytes32",
+      },
+    ],
+    name: "AccessControlUnauthorizedAccount",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+    ],
+    name: "AddressEmptyCode",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "recipients",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "quantities",
+        type: "uint256",
+      },
+    ],
+    name: "AirdropLengthMismatch",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "AllowlistAlreadyClaimed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "AllowlistNotActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "AlreadyRevealed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CollectionNotRevealed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ECDSAInvalidSignature",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "length",
+        type: "uint256",
+      },
+    ],
+    name: "ECDSAInvalidSignatureLength",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "s",
+        type: "bytes32",
+      },
+    ],
+    name: "ECDSAInvalidSignatureS",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "implementation",
+        type: "address",
+      },
+    ],
+    name: "ERC1967InvalidImplementation",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ERC1967NonPayable",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "numerator",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "denominator",
+        type: "uint256",
+      },
+    ],
+    name: "ERC2981InvalidDefaultRoyalty",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ERC2981InvalidDefaultRoyaltyReceiver",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "numerator",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "denominator",
+        type: "uint256",
+      },
+    ],
+    name: "ERC2981InvalidTokenRoyalty",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ERC2981InvalidTokenRoyaltyReceiver",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "ERC721IncorrectOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ERC721InsufficientApproval",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "approver",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidApprover",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidOperator",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidReceiver",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidSender",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ERC721NonexistentToken",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "EnforcedPause",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ExpectedPause",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "FailedCall",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "required",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "provided",
+        type: "uint256",
+      },
+    ],
+    name: "IncorrectPayment",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidInitialization",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidMaxSupply",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidMerkleProof",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidQuantity",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "saleStart",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "saleEnd",
+        type: "uint256",
+      },
+    ],
+    name: "InvalidSaleWindow",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidShortString",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "fromId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "toId",
+        type: "uint256",
+      },
+    ],
+    name: "InvalidTokenRange",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "signer",
+        type: "address",
+      },
+    ],
+    name: "InvalidVoucherSignature",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidWithdrawalRecipient",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "maxPerWallet",
+        type: "uint256",
+      },
+    ],
+    name: "MaxPerWalletExceeded",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "maxSupply",
+        type: "uint256",
+      },
+    ],
+    name: "MaxSupplyReached",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "MetadataNotFrozen",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum SimpleNFT.MintMode",
+        name: "mode",
+        type: "uint8",
+      },
+    ],
+    name: "MintNotAllowed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotInitializing",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "OwnableInvalidOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "OwnableUnauthorizedAccount",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "saleEnd",
+        type: "uint256",
+      },
+    ],
+    name: "SaleEnded",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "saleStart",
+        type: "uint256",
+      },
+    ],
+    name: "SaleNotStarted",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "str",
+        type: "string",
+      },
+    ],
+    name: "StringTooLong",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "TokenIsSoulbound",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "TokenMetadataFrozen",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "TokenURINotSet",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UUPSUnauthorizedCallContext",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "slot",
+        type: "bytes32",
+      },
+    ],
+    name: "UUPSUnsupportedProxiableUUID",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "nonce",
+        type: "uint256",
+      },
+    ],
+    name: "VoucherAlreadyRedeemed",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "expiry",
+        type: "uint256",
+      },
+    ],
+    name: "VoucherExpired",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "WithdrawalFailed",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "approved",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Approval",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "ApprovalForAll",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_fromTokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_toTokenId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchMetadataUpdate",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [],
+    name: "ContractURIUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint96",
+        name: "feeNumerator",
+        type: "uint96",
+      },
+    ],
+    name: "DefaultRoyaltyUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [],
+    name: "EIP712DomainChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "version",
+        type: "uint64",
+      },
+    ],
+    name: "Initialized",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Locked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maxPerWallet",
+        type: "uint256",
+      },
+    ],
+    name: "MaxPerWalletUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "merkleRoot",
+        type: "bytes32",
+      },
+    ],
+    name: "MerkleRootUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "MetadataUpdate",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "enum SimpleNFT.MintMode",
+        name: "mode",
+        type: "uint8",
+      },
+    ],
+    name: "MintModeUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldPrice",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newPrice",
+        type: "uint256",
+      },
+    ],
+    name: "MintPriceUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Paused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "_value",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "_id",
+        type: "uint256",
+      },
+    ],
+    name: "PermanentURI",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "renderer",
+        type: "address",
+      },
+    ],
+    name: "RendererUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "baseURI",
+        type: "string",
+      },
+    ],
+    name: "Revealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "previousAdminRole",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "newAdminRole",
+        type: "bytes32",
+      },
+    ],
+    name: "RoleAdminChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "saleStart",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "saleEnd",
+        type: "uint256",
+      },
+    ],
+    name: "SaleWindowUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint96",
+        name: "feeNumerator",
+        type: "uint96",
+      },
+    ],
+    name: "TokenRoyaltyUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Transfer",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Unlocked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Unpaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "expires",
+        type: "uint64",
+      },
+    ],
+    name: "UpdateUser",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "implementation",
+        type: "address",
+      },
+    ],
+    name: "Upgraded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "nonce",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+    ],
+    name: "VoucherRedeemed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "Withdrawn",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "DEFAULT_ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "METADATA_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MINTER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "UPGRADE_INTERFACE_VERSION",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "VOUCHER_SIGNER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "acceptOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address[]",
+        name: "recipients",
+        type: "address[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "quantities",
+        type: "uint256[]",
+      },
+    ],
+    name: "airdrop",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "allowlistClaimed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32[]",
+        name: "proof",
+        type: "bytes32[]",
+      },
+    ],
+    name: "allowlistMint",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "approve",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "burn",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "contractURI",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "deleteDefaultRoyalty",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "eip712Domain",
+    outputs: [
+      {
+        internalType: "bytes1",
+        name: "fields",
+        type: "bytes1",
+      },
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "version",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "chainId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "verifyingContract",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "salt",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256[]",
+        name: "extensions",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "fromId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "toId",
+        type: "uint256",
+      },
+    ],
+    name: "emitPermanentURIs",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "freezeMetadata",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "freezeToken",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "getApproved",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "getRoleAdmin",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "getRoleMember",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "getRoleMemberCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "getRoleMembers",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "grantRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "hasRole",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name_",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "symbol_",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "initialOwner",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "maxSupply_",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "royaltyReceiver",
+        type: "address",
+      },
+      {
+        internalType: "uint96",
+        name: "royaltyFeeNumerator",
+        type: "uint96",
+      },
+      {
+        internalType: "bytes32",
+        name: "provenanceHash_",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "soulbound_",
+        type: "bool",
+      },
+    ],
+    name: "initialize",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "initializeV2",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "initializedVersion",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "isApprovedForAll",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "isMetadataFrozen",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "isRevealed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "isSaleActive",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "isTokenFrozen",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "locked",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "maxPerWallet",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "maxSupply",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "merkleRoot",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "mint",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "quantity",
+        type: "uint256",
+      },
+    ],
+    name: "mintBatch",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "firstTokenId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "mintMode",
+    outputs: [
+      {
+        internalType: "enum SimpleNFT.MintMode",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "mintPrice",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "notRevealedURI",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ownerOf",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pendingOwner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "provenanceHash",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "proxiableUUID",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "recipient",
+            type: "address",
+          },
+          {
+            internalType: "string",
+            name: "uri",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "price",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "expiry",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "nonce",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct SimpleNFT.MintVoucher",
+        name: "voucher",
+        type: "tuple",
+      },
+      {
+        internalType: "bytes",
+        name: "signature",
+        type: "bytes",
+      },
+    ],
+    name: "redeem",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "remainingMints",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "remainingSupply",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "renderer",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "renounceOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "callerConfirmation",
+        type: "address",
+      },
+    ],
+    name: "renounceRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "resetTokenRoyalty",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "baseURI",
+        type: "string",
+      },
+    ],
+    name: "reveal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "revokeRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "salePrice",
+        type: "uint256",
+      },
+    ],
+    name: "royaltyInfo",
+    outputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "saleEnd",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "saleStart",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "setApprovalForAll",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "baseURI",
+        type: "string",
+      },
+    ],
+    name: "setBaseURI",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "uri",
+        type: "string",
+      },
+    ],
+    name: "setContractURI",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        internalType: "uint96",
+        name: "feeNumerator",
+        type: "uint96",
+      },
+    ],
+    name: "setDefaultRoyalty",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "setMaxPerWallet",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "root",
+        type: "bytes32",
+      },
+    ],
+    name: "setMerkleRoot",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum SimpleNFT.MintMode",
+        name: "mode",
+        type: "uint8",
+      },
+    ],
+    name: "setMintMode",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newPrice",
+        type: "uint256",
+      },
+    ],
+    name: "setMintPrice",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "uri",
+        type: "string",
+      },
+    ],
+    name: "setNotRevealedURI",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "renderer_",
+        type: "address",
+      },
+    ],
+    name: "setRenderer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "start",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "end",
+        type: "uint256",
+      },
+    ],
+    name: "setSaleWindow",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        internalType: "uint96",
+        name: "feeNumerator",
+        type: "uint96",
+      },
+    ],
+    name: "setTokenRoyalty",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "uri",
+        type: "string",
+      },
+    ],
+    name: "setTokenURI",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        internalType: "uint64",
+        name: "expires",
+        type: "uint64",
+      },
+    ],
+    name: "setUser",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "soulbound",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes4",
+        name: "interfaceId",
+        type: "bytes4",
+      },
+    ],
+    name: "supportsInterface",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "tokenURI",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner_",
+        type: "address",
+      },
+    ],
+    name: "tokensOfOwner",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "tokenIds",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalMinted",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalSupply",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "transferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "unpause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newImplementation",
+        type: "address",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "upgradeToAndCall",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "upgradedAt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "userExpires",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "userOf",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "version",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "voucherRedeemed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "walletMints",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address payable",
+        name: "to",
+        type: "address",
+      },
+    ],
+    name: "withdraw",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x61018060405230610160523480156200001757600080fd5b50604051620069b4380380620069b48339810160408190526200003a9162000a58565b82828282828260018460008060001b60006040518060400160405280600981526020016814da5b5c1b1953919560ba1b815250604051806040016040528060018152602001603160f81b8152508760405180602001604052806000815250604051806020016040528060008152508160009081620000b9919062000b76565b506001620000c8828262000b76565b50506006805460ff19169055506001600160a01b0381166200010557604051631e4fbdf760e01b8152600060048201526024015b60405180910390fd5b6200011081620001f6565b506200011e82600d620002fd565b610120526200012f81600e620002fd565b61014052815160208084019190912060e052815190820120610100524660a052620001bd60e05161010051604080517f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f60208201529081019290925260608201524660808201523060a082015260009060c00160405160208183030381529060405280519060200120905090565b60805250503060c052620001d8888888888888888862000336565b620001e26200045d565b505050505050505050505050505062000cea565b60006200020b6009546001600160a01b031690565b9050620002188262000511565b6001600160a01b0381161580620002405750816001600160a01b0316816001600160a01b0316145b156200024a575050565b6040805160608101825260008082526000805160206200699483398151915260208301526000805160206200697483398151915292820192909252905b6003811015620002f757620002b6828260038110620002aa57620002aa62000c42565b6020020151846200052c565b506001600160a01b03841615620002ee57620002ec828260038110620002e057620002e062000c42565b60200201518562000567565b505b60010162000287565b50505050565b60006020835110156200031d57620003158362000599565b905062000330565b816200032a848262000b76565b5060ff90505b92915050565b84600003620003585760405163066f305360e21b815260040160405180910390fd5b601062000366898262000b76565b50601162000375888262000b76565b50601e859055601b829055601c805460ff60a01b1916600160a01b831515021790556001600f556022805460ff19166002179055620003b660008762000567565b50620003d2600080516020620069948339815191528762000567565b50620003ee600080516020620069748339815191528762000567565b506001600160601b0383161562000453576200040b8484620005dc565b6040516001600160601b03841681526001600160a01b038516907fe12d7d5bdb8218a22277dca8f854dd4573a1cea3d3e4808dc567df9eb1c14bf49060200160405180910390a25b5050505050505050565b7ff0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a00805468010000000000000000900460ff1615620004ae5760405163f92ee8a960e01b815260040160405180910390fd5b80546001600160401b03908116146200050e5780546001600160401b0319166001600160401b0390811782556040519081527fc7f505b2f371ae2175ee4913f4499e1f2633a7b5936321eed1cdaeb6115181d29060200160405180910390a15b50565b600a80546001600160a01b03191690556200050e8162000683565b6000806200053b8484620006d5565b9050801562000560576000848152600c602052604090206200055e908462000767565b505b9392505050565b6000806200057684846200077e565b9050801562000560576000848152600c602052604090206200055e908462000827565b600080829050601f81511115620005c7578260405163305a27a960e01b8152600401620000fc919062000c58565b8051620005d48262000c8d565b179392505050565b6127106001600160601b0382168110156200061d57604051636f483d0960e01b81526001600160601b038316600482015260248101829052604401620000fc565b6001600160a01b0383166200064957604051635b6cc80560e11b815260006004820152602401620000fc565b50604080518082019091526001600160a01b039092168083526001600160601b039091166020909201829052600160a01b90910217600755565b600980546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e090600090a35050565b6000828152600b602090815260408083206001600160a01b038516845290915281205460ff16156200075e576000838152600b602090815260408083206001600160a01b0386168085529252808320805460ff1916905551339286917ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b9190a450600162000330565b50600062000330565b600062000560836001600160a01b0384166200083e565b6000828152600b602090815260408083206001600160a01b038516845290915281205460ff166200075e576000838152600b602090815260408083206001600160a01b03861684529091529020805460ff19166001179055620007de3390565b6001600160a01b0316826001600160a01b0316847f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d60405160405180910390a450600162000330565b600062000560836001600160a01b03841662000942565b60008181526001830160205260408120548015620009375760006200086560018362000cb2565b85549091506000906200087b9060019062000cb2565b9050808214620008e75760008660000182815481106200089f576200089f62000c42565b9060005260206000200154905080876000018481548110620008c557620008c562000c42565b6000918252602080832090910192909255918252600188019052604090208390555b8554869080620008fb57620008fb62000cd4565b60019003818190600052602060002001600090559055856001016000868152602001908152602001600020600090556001935050505062000330565b600091505062000330565b60008181526001830160205260408120546200075e5750815460018181018455600084815260208082209093018490558454848252828601909352604090209190915562000330565b634e487b7160e01b600052604160045260246000fd5b60005b83811015620009be578181015183820152602001620009a4565b50506000910152565b600082601f830112620009d957600080fd5b81516001600160401b0380821115620009f657620009f66200098b565b604051601f8301601f19908116603f0116810190828211818310171562000a215762000a216200098b565b8160405283815286602085880101111562000a3b57600080fd5b62000a4e846020830160208901620009a1565b9695505050505050565b60008060006060848603121562000a6e57600080fd5b83516001600160401b038082111562000a8657600080fd5b62000a9487838801620009c7565b9450602086015191508082111562000aab57600080fd5b5062000aba86828701620009c7565b604086015190935090506001600160a01b038116811462000ada57600080fd5b809150509250925092565b600181811c9082168062000afa57607f821691505b60208210810362000b1b57634e487b7160e01b600052602260045260246000fd5b50919050565b601f82111562000b71576000816000526020600020601f850160051c8101602086101562000b4c5750805b601f850160051c820191505b8181101562000b6d5782815560010162000b58565b5050505b505050565b81516001600160401b0381111562000b925762000b926200098b565b62000baa8162000ba3845462000ae5565b8462000b21565b602080601f83116001811462000be2576000841562000bc95750858301515b600019600386901b1c1916600185901b17855562000b6d565b600085815260208120601f198616915b8281101562000c135788860151825594840194600190910190840162000bf2565b508582101562000c325787850151600019600388901b60f8161c191681555b5050505050600190811b01905550565b634e487b7160e01b600052603260045260246000fd5b602081526000825180602084015262000c79816040850160208701620009a1565b601f01601f19169190910160400192915050565b8051602080830151919081101562000b1b5760001960209190910360031b1b16919050565b818103818111156200033057634e487b7160e01b600052601160045260246000fd5b634e487b7160e01b600052603160045260246000fd5b60805160a05160c05160e05161010051610120516101405161016051615c1662000d5e6000396000818161361901528181613642015261378301526000613ad801526000613aab01526000614a5a01526000614a320152600061498d015260006149b7015260006149e10152615c166000f3fe6080604052600436106105235760003560e01c806372250380116102a2578063b6854f9611610165578063da0239a6116100cc578063e985e9c511610085578063e985e9c514611012578063ef8d4ce014611032578063f0293fd314611052578063f2c4ce1e1461107f578063f2fde38b1461109f578063f4a0a528146110bf57600080fd5b8063da0239a614610f56578063df78dcb314610f6b578063e030565e14610f9f578063e268e4d314610fbf578063e30c397814610fdf578063e8a3d48514610ffd57600080fd5b8063ca15c8731161011e578063ca15c87314610ea9578063cc888bab14610ec9578063d111515d14610ee9578063d539139314610efe578063d547741f14610f20578063d5abeb0114610f4057600080fd5b8063b6854f9614610dfd578063b88d4fde14610e1d578063c10b935814610e3d578063c2f1f14a14610e53578063c6ab67a314610e73578063c87b56dd14610e8957600080fd5b806391d1485411610209578063a3246ad3116101c2578063a3246ad314610d34578063aa1b103f14610d61578063ab0bcc4114610d76578063ad3cb1cc14610d8c578063ae0d3eb814610dbd578063b45a3c0e14610ddd57600080fd5b806391d1485414610c95578063938e3d7b14610cb557806395d89b4114610cd5578063a217fddf14610cea578063a22cb46514610cff578063a2309ff814610d1f57600080fd5b806384b0196e1161025b57806384b0196e14610bb25780638a616bc014610bda5780638ada6b0f14610bfa5780638da5cb5b14610c1a5780638fc88c4814610c385780639010d07c14610c7557600080fd5b80637225038014610aff578063788c599914610b1457806379ba509714610b3b5780637cb6475914610b505780638456cb5914610b705780638462151c14610b8557600080fd5b806342ad0095116103ea5780635944c75311610351578063679f15bb1161030a578063679f15bb14610a61578063680e354a14610a745780636817c76c14610a9457806370a0823114610aaa578063715018a614610aca57806372131db314610adf57600080fd5b80635944c753146109b45780635c975abb146109d45780635cd8a76b146109ec5780636352211e14610a0157806364d0764e14610a215780636724348214610a4157600080fd5b8063537924ef116103a3578063537924ef1461090d57806354214f691461092057806354fd4d501461093557806355f804b31461095f578063564566a81461097f57806356d3163d1461099457600080fd5b806342ad009514610879578063453c23101461088f5780634c261247146108a55780634f1ef286146108c557806351cff8d9146108d857806352d1902d146108f857600080fd5b806323b872dd1161048e578063337eb63011610447578063337eb630146107b257806336568abe146107e257806338841782146108025780633f4ba83a1461082457806342842e0e1461083957806342966c681461085957600080fd5b806323b872dd146106bd578063248a9ca3146106dd5780632a55205a1461070d5780632eb4a7ab1461074c5780632f2ff15d1461076257806330b42ec21461078257600080fd5b80630e24495e116104e05780630e24495e146106265780630fad0f511461063e5780631249c58b1461065f578063162094c41461067557806318160ddd1461069557806320e409b4146106aa57600080fd5b806301ffc9a71461052857806304634d8d1461055d57806306fdde031461057f578063081812fc146105a157806308828eb7146105d9578063095ea7b314610606575b600080fd5b34801561053457600080fd5b50610548610543366004614e73565b6110df565b60405190151581526020015b60405180910390f35b34801561056957600080fd5b5061057d610578366004614ec1565b611138565b005b34801561058b57600080fd5b506105946111c1565b6040516105549190614f46565b3480156105ad57600080fd5b506105c16105bc366004614f59565b611253565b6040516001600160a01b039091168152602001610554565b3480156105e557600080fd5b506105ee61127c565b6040516001600160401b039091168152602001610554565b34801561061257600080fd5b5061057d610621366004614f72565b6112b4565b34801561063257600080fd5b5060165460ff16610548565b34801561064a57600080fd5b50601c5461054890600160a01b900460ff1681565b6106676112c3565b604051908152602001610554565b34801561068157600080fd5b5061057d610690366004615061565b6113ac565b3480156106a157600080fd5b50610667611475565b6106676106b8366004614f59565b61148c565b3480156106c957600080fd5b5061057d6106d83660046150a7565b611622565b3480156106e957600080fd5b506106676106f8366004614f59565b6000908152600b602052604090206001015490565b34801561071957600080fd5b5061072d6107283660046150e8565b6116ad565b604080516001600160a01b039093168352602083019190915201610554565b34801561075857600080fd5b5061066760255481565b34801561076e57600080fd5b5061057d61077d36600461510a565b611734565b34801561078e57600080fd5b5061054861079d36600461513a565b60266020526000908152604090205460ff1681565b3480156107be57600080fd5b506105486107cd366004614f59565b60276020526000908152604090205460ff1681565b3480156107ee57600080fd5b5061057d6107fd36600461510a565b611759565b34801561080e57600080fd5b50610667600080516020615b6183398151915281565b34801561083057600080fd5b5061057d611791565b34801561084557600080fd5b5061057d6108543660046150a7565b6117a3565b34801561086557600080fd5b5061057d610874366004614f59565b6117be565b34801561088557600080fd5b50610667605a5481565b34801561089b57600080fd5b5061066760205481565b3480156108b157600080fd5b5061057d6108c0366004615157565b6117ca565b61057d6108d336600461518b565b6118a8565b3480156108e457600080fd5b5061057d6108f336600461513a565b6118c3565b34801561090457600080fd5b506106676119ae565b61066761091b366004615208565b6119cb565b34801561092c57600080fd5b50610548611aba565b34801561094157600080fd5b506040805180820190915260018152601960f91b6020820152610594565b34801561096b57600080fd5b5061057d61097a366004615157565b611add565b34801561098b57600080fd5b50610548611b4b565b3480156109a057600080fd5b5061057d6109af36600461513a565b611b6e565b3480156109c057600080fd5b5061057d6109cf366004615249565b611c16565b3480156109e057600080fd5b5060065460ff16610548565b3480156109f857600080fd5b5061057d611c9b565b348015610a0d57600080fd5b506105c1610a1c366004614f59565b611d64565b348015610a2d57600080fd5b50610667610a3c36600461513a565b611d6f565b348015610a4d57600080fd5b5061057d610a5c366004615287565b611de3565b610667610a6f366004615333565b611f1f565b348015610a8057600080fd5b5061057d610a8f3660046150e8565b6121a6565b348015610aa057600080fd5b50610667601f5481565b348015610ab657600080fd5b50610667610ac536600461513a565b612225565b348015610ad657600080fd5b5061057d61226d565b348015610aeb57600080fd5b5061057d610afa3660046153a3565b61227f565b348015610b0b57600080fd5b506105946122e5565b348015610b2057600080fd5b50602254610b2e9060ff1681565b60405161055491906153da565b348015610b4757600080fd5b5061057d6122f4565b348015610b5c57600080fd5b5061057d610b6b366004614f59565b612338565b348015610b7c57600080fd5b5061057d612375565b348015610b9157600080fd5b50610ba5610ba036600461513a565b612385565b604051610554919061543e565b348015610bbe57600080fd5b50610bc7612458565b6040516105549796959493929190615451565b348015610be657600080fd5b5061057d610bf5366004614f59565b61249e565b348015610c0657600080fd5b50601c546105c1906001600160a01b031681565b348015610c2657600080fd5b506009546001600160a01b03166105c1565b348015610c4457600080fd5b50610667610c53366004614f59565b6000908152601d6020526040902054600160a01b90046001600160401b031690565b348015610c8157600080fd5b506105c1610c903660046150e8565b612513565b348015610ca157600080fd5b50610548610cb036600461510a565b612532565b348015610cc157600080fd5b5061057d610cd0366004615157565b61255d565b348015610ce157600080fd5b506105946125d2565b348015610cf657600080fd5b50610667600081565b348015610d0b57600080fd5b5061057d610d1a3660046154d1565b6125e1565b348015610d2b57600080fd5b506106676125ec565b348015610d4057600080fd5b50610d54610d4f366004614f59565b6125fd565b60405161055491906154fd565b348015610d6d57600080fd5b5061057d612617565b348015610d8257600080fd5b5061066760235481565b348015610d9857600080fd5b50610594604051806040016040528060058152602001640352e302e360dc1b81525081565b348015610dc957600080fd5b5061057d610dd836600461554a565b612684565b348015610de957600080fd5b50610548610df8366004614f59565b61285d565b348015610e0957600080fd5b5061057d610e18366004614f59565b61287c565b348015610e2957600080fd5b5061057d610e38366004615612565b612a0c565b348015610e4957600080fd5b5061066760245481565b348015610e5f57600080fd5b506105c1610e6e366004614f59565b612a24565b348015610e7f57600080fd5b50610667601b5481565b348015610e9557600080fd5b50610594610ea4366004614f59565b612a76565b348015610eb557600080fd5b50610667610ec4366004614f59565b612ca7565b348015610ed557600080fd5b50610548610ee4366004614f59565b612cbe565b348015610ef557600080fd5b5061057d612ce3565b348015610f0a57600080fd5b50610667600080516020615bc183398151915281565b348015610f2c57600080fd5b5061057d610f3b36600461510a565b612d53565b348015610f4c57600080fd5b50610667601e5481565b348015610f6257600080fd5b50610667612d78565b348015610f7757600080fd5b506106677f9089c70e1cc864bea9e548485d837bd067c653ad269b11b56a2b917f24b7eca381565b348015610fab57600080fd5b5061057d610fba36600461567d565b612d8f565b348015610fcb57600080fd5b5061057d610fda366004614f59565b612e40565b348015610feb57600080fd5b50600a546001600160a01b03166105c1565b34801561100957600080fd5b50610594612e7b565b34801561101e57600080fd5b5061054861102d3660046156cb565b612e8a565b34801561103e57600080fd5b5061057d61104d3660046150e8565b612eb8565b34801561105e57600080fd5b5061066761106d36600461513a565b60216020526000908152604090205481565b34801561108b57600080fd5b5061057d61109a366004615157565b612fe6565b3480156110ab57600080fd5b5061057d6110ba36600461513a565b613051565b3480156110cb57600080fd5b5061057d6110da366004614f59565b6130c2565b60006001600160e01b03198216158061110857506001600160e01b03198216632b424ad760e21b145b8061112357506001600160e01b03198216635a2d1e0760e11b145b8061113257506111328261310b565b92915050565b611140613130565b60165460ff161561116c5760405162461bcd60e51b8152600401611163906156f9565b60405180910390fd5b611176828261315d565b6040516001600160601b03821681526001600160a01b038316907fe12d7d5bdb8218a22277dca8f854dd4573a1cea3d3e4808dc567df9eb1c14bf49060200160405180910390a25050565b6060601080546111d090615725565b80601f01602080910402602001604051908101604052809291908181526020018280546111fc90615725565b80156112495780601f1061121e57610100808354040283529160200191611249565b820191906000526020600020905b81548152906001019060200180831161122c57829003601f168201915b5050505050905090565b600061125e82613200565b506000828152600460205260409020546001600160a01b0316611132565b60006112af7ff0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a00546001600160401b031690565b905090565b6112bf828233613239565b5050565b60008060225460ff1660028111156112dd576112dd6153c4565b148061131f5750600160225460ff1660028111156112fd576112fd6153c4565b14801561131f575061131d600080516020615bc183398151915233612532565b155b1561134457602254604051633848972160e21b81526111639160ff16906004016153da565b60235442101561136d5760235460405163456afd0b60e01b815260040161116391815260200190565b6024541580159061137f575060245442115b156113a3576024546040516394bb74a960e01b815260040161116391815260200190565b6112af33613246565b600080516020615b618339815191526113c4816132d0565b60165460ff16156113e75760405162461bcd60e51b8152600401611163906156f9565b6113f083613200565b5060008381526017602052604090205460ff16156114245760405163a8e77cd960e01b815260048101849052602401611163565b600083815260156020526040902061143c83826157a7565b506040518381527ff8e1a15aba9398e019f0b49df1a4fde98ee17ae345cb5f6b5e2c27f5033e8ce79060200160405180910390a1505050565b60006012546114826125ec565b6112af919061587c565b60008060225460ff1660028111156114a6576114a66153c4565b14806114e85750600160225460ff1660028111156114c6576114c66153c4565b1480156114e857506114e6600080516020615bc183398151915233612532565b155b1561150d57602254604051633848972160e21b81526111639160ff16906004016153da565b6023544210156115365760235460405163456afd0b60e01b815260040161116391815260200190565b60245415801590611548575060245442115b1561156c576024546040516394bb74a960e01b815260040161116391815260200190565b8160000361158d5760405163524f409b60e01b815260040160405180910390fd5b600082601f5461159d919061588f565b90508034146115c857604051630d35e92160e01b815260048101829052346024820152604401611163565b6115d233846132da565b6115dc3384613368565b9150600080516020615ba18339815191528260016115fa86836158a6565b611604919061587c565b6040805192835260208301919091520160405180910390a150919050565b6001600160a01b03821661164c57604051633250574960e11b815260006004820152602401611163565b60006116598383336133c1565b9050836001600160a01b0316816001600160a01b0316146116a7576040516364283d7b60e01b81526001600160a01b0380861660048301526024820184905282166044820152606401611163565b50505050565b600082815260086020526040812080548291906001600160a01b03811690600160a01b90046001600160601b0316816117015750506007546001600160a01b03811690600160a01b90046001600160601b03165b60006127106117196001600160601b0384168961588f565b61172391906158b9565b9295509193505050505b9250929050565b6000828152600b602052604090206001015461174f816132d0565b6116a7838361355a565b6001600160a01b03811633146117825760405163334bd91960e11b815260040160405180910390fd5b61178c828261358f565b505050565b611799613130565b6117a16135bc565b565b61178c83838360405180602001604052806000815250612a0c565b6112bf600082336133c1565b600080516020615b618339815191526117e2816132d0565b60165460ff16156118055760405162461bcd60e51b8152600401611163906156f9565b601a5460ff16156118295760405163a89ac15160e01b815260040160405180910390fd5b601a805460ff19166001179055601361184283826157a7565b507f34f25fe82e04b6b4bb3440737372e9d5d8e7a6a2b12da5dc4abead2c0b544ad9826040516118729190614f46565b60405180910390a160408051600181526000196020820152600080516020615ba183398151915291015b60405180910390a15050565b6118b061360e565b6118b9826136b3565b6112bf82826136bb565b6118cb613130565b6001600160a01b0381166118f257604051635b03092b60e11b815260040160405180910390fd5b60405147906000906001600160a01b0384169083908381818185875af1925050503d806000811461193f576040519150601f19603f3d011682016040523d82523d6000602084013e611944565b606091505b5050905080611966576040516327fcd9d160e01b815260040160405180910390fd5b826001600160a01b03167f7084f5476618d8e60b11ef0d7d3f06914655adb8793e28ff7f018d4c76d505d5836040516119a191815260200190565b60405180910390a2505050565b60006119b8613778565b50600080516020615b8183398151915290565b6025546000906119ee576040516330e7dab160e21b815260040160405180910390fd5b3360009081526026602052604090205460ff1615611a215760405163d6c772ff60e01b8152336004820152602401611163565b604080513360208201526000910160408051601f1981840301815282825280516020918201209083015201604051602081830303815290604052805190602001209050611a728484602554846137c1565b611a8f5760405163582f497d60e11b815260040160405180910390fd5b336000818152602660205260409020805460ff19166001179055611ab290613246565b949350505050565b601a5460009060ff16806112af575060198054611ad690615725565b1592915050565b600080516020615b61833981519152611af5816132d0565b60165460ff1615611b185760405162461bcd60e51b8152600401611163906156f9565b6013611b2483826157a7565b5060408051600181526000196020820152600080516020615ba1833981519152910161189c565b600060235442101580156112af575060245415806112af57505060245442111590565b600080516020615b61833981519152611b86816132d0565b60165460ff1615611ba95760405162461bcd60e51b8152600401611163906156f9565b601c80546001600160a01b0319166001600160a01b0384169081179091556040517f482cbbbcf912da3be80deb8503ae1e94c0b7d5d1d0ec0af3d9d6403e06e609ee90600090a260408051600181526000196020820152600080516020615ba1833981519152910161189c565b611c1e613130565b60165460ff1615611c415760405162461bcd60e51b8152600401611163906156f9565b611c4c8383836137d9565b6040516001600160601b03821681526001600160a01b0383169084907fe361b60b9164428d036a601ec08552e653bfe8c44389b8a4ebfd47281eb8741a906020015b60405180910390a3505050565b7ff0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a00805460029190600160401b900460ff1680611ce4575080546001600160401b03808416911610155b15611d025760405163f92ee8a960e01b815260040160405180910390fd5b805468ffffffffffffffffff19166001600160401b038316908117600160401b17825543605a55815460ff60401b191682556040519081527fc7f505b2f371ae2175ee4913f4499e1f2633a7b5936321eed1cdaeb6115181d29060200161189c565b600061113282613200565b600080611d7a612d78565b9050602054600003611d8c5792915050565b6001600160a01b03831660009081526021602090815260408220549054909190821015611dc65781602054611dc1919061587c565b611dc9565b60005b9050828110611dd85782611dda565b805b95945050505050565b600080516020615bc1833981519152611dfb816132d0565b838214611e2557604051632851925b60e21b81526004810185905260248101839052604401611163565b6000849003611e475760405163524f409b60e01b815260040160405180910390fd5b600f5460005b85811015611edf57848482818110611e6757611e676158db565b90506020020135600003611e8e5760405163524f409b60e01b815260040160405180910390fd5b611ed6878783818110611ea357611ea36158db565b9050602002016020810190611eb8919061513a565b868684818110611eca57611eca6158db565b90506020020135613368565b50600101611e4d565b50600080516020615ba1833981519152816001600f54611eff919061587c565b6040805192835260208301919091520160405180910390a1505050505050565b60008360600135421115611f4c576040516307185d5160e01b815260608501356004820152602401611163565b608084013560009081526027602052604090205460ff1615611f8757604051632dbfcda160e01b815260808501356004820152602401611163565b83604001353414611fb75760408051630d35e92160e01b8152908501356004820152346024820152604401611163565b6000612001611fc58661389b565b85858080601f01602080910402602001604051908101604052809392919081815260200183838082843760009201919091525061395092505050565b90506120156009546001600160a01b031690565b6001600160a01b0316816001600160a01b03161415801561205d575061205b7f9089c70e1cc864bea9e548485d837bd067c653ad269b11b56a2b917f24b7eca382612532565b155b1561208657604051631497dfb360e21b81526001600160a01b0382166004820152602401611163565b60808501356000908152602760209081526040909120805460ff191660011790556120be906120b79087018761513a565b6001613368565b915060006120cf60208701876158f1565b905011156121235760165460ff16156120fa5760405162461bcd60e51b8152600401611163906156f9565b61210760208601866158f1565b600084815260156020526040902091612121919083615937565b505b6040518281527ff8e1a15aba9398e019f0b49df1a4fde98ee17ae345cb5f6b5e2c27f5033e8ce79060200160405180910390a1612163602086018661513a565b6001600160a01b03168286608001357f34cd4b0d30098edaf14317aa89d9ce2d2a91b309b7d9b0aeb8cfa07aee4da5f260405160405180910390a4509392505050565b6121ae613130565b80158015906121bd5750818111155b156121e55760405163b42d8cef60e01b81526004810183905260248101829052604401611163565b6023829055602481905560408051838152602081018390527f7291acdf619347e3dd338a8b65d1788570a0f1bc413e94e9e7333d0561c6ed58910161189c565b60006001600160a01b038216612251576040516322718ad960e21b815260006004820152602401611163565b506001600160a01b031660009081526003602052604090205490565b612275613130565b6117a1600061397a565b612287613130565b6022805482919060ff191660018360028111156122a6576122a66153c4565b02179055507f7fc504f71d58bc2e04f75e1659c8c228d53ae22d3c99326171fd6899d708f84e816040516122da91906153da565b60405180910390a150565b6060601980546111d090615725565b600a5433906001600160a01b0316811461232c5760405163118cdaa760e01b81526001600160a01b0382166004820152602401611163565b6123358161397a565b50565b612340613130565b60258190556040518181527f90004c04698bc3322499a575ed3752dd4abf33e0a7294c06a787a0fe01bea941906020016122da565b61237d613130565b6117a1613a67565b6060600061239283612225565b9050806001600160401b038111156123ac576123ac614f9e565b6040519080825280602002602001820160405280156123d5578160200160208202803683370190505b509150600060015b82821080156123ed5750600f5481105b15612450576000818152600260205260409020546001600160a01b0386811691160361243e5780848361241f816159f6565b945081518110612431576124316158db565b6020026020010181815250505b80612448816159f6565b9150506123dd565b505050919050565b60006060806000806000606061246c613aa4565b612474613ad1565b60408051600080825260208201909252600f60f81b9b939a50919850469750309650945092509050565b6124a6613130565b60165460ff16156124c95760405162461bcd60e51b8152600401611163906156f9565b60008181526008602052604081205560405160008082529082907fe361b60b9164428d036a601ec08552e653bfe8c44389b8a4ebfd47281eb8741a9060200160405180910390a350565b6000828152600c6020526040812061252b9083613afe565b9392505050565b6000918252600b602090815260408084206001600160a01b0393909316845291905290205460ff1690565b600080516020615b61833981519152612575816132d0565b60165460ff16156125985760405162461bcd60e51b8152600401611163906156f9565b60146125a483826157a7565b506040517fa5d4097edda6d87cb9329af83fb3712ef77eeb13738ffe43cc35a4ce305ad96290600090a15050565b6060601180546111d090615725565b6112bf338383613b0a565b60006001600f546112af919061587c565b6000818152600c6020526040902060609061113290613ba1565b61261f613130565b60165460ff16156126425760405162461bcd60e51b8152600401611163906156f9565b61264c6000600755565b6040516000808252907fe12d7d5bdb8218a22277dca8f854dd4573a1cea3d3e4808dc567df9eb1c14bf49060200160405180910390a2565b7ff0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a008054600160401b810460ff1615906001600160401b03166000811580156126c95750825b90506000826001600160401b031660011480156126e55750303b155b9050811580156126f3575080155b156127115760405163f92ee8a960e01b815260040160405180910390fd5b845467ffffffffffffffff19166001178555831561273b57845460ff60401b1916600160401b1785555b6001600160a01b038b1661276557604051631e4fbdf760e01b815260006004820152602401611163565b61276e8b61397a565b6128068f8f8080601f016020809104026020016040519081016040528093929190818152602001838380828437600081840152601f19601f820116905080830192505050505050508e8e8080601f016020809104026020016040519081016040528093929190818152602001838380828437600081840152601f19601f820116905080830192505050505050508d8d8d8d8d8d613bae565b831561284c57845460ff60401b19168555604051600181527fc7f505b2f371ae2175ee4913f4499e1f2633a7b5936321eed1cdaeb6115181d29060200160405180910390a15b505050505050505050505050505050565b600061286882613200565b5050601c54600160a01b900460ff16919050565b600080516020615b61833981519152612894816132d0565b60165460ff16156128b75760405162461bcd60e51b8152600401611163906156f9565b6128bf611aba565b6128dc5760405163847b198f60e01b815260040160405180910390fd5b60008281526017602052604090205460ff161561290f5760405163a8e77cd960e01b815260048101839052602401611163565b600061291a83612a76565b9050805160000361294157604051636ea1b76f60e11b815260048101849052602401611163565b6000838152601560205260409020805461295a90615725565b90506000036129c157601c546001600160a01b0316156129a757601c54600084815260186020526040902080546001600160a01b0319166001600160a01b039092169190911790556129c1565b60008381526015602052604090206129bf82826157a7565b505b60008381526017602052604090819020805460ff191660011790555183907fa109ba539900bf1b633f956d63c96fc89b814c7287f7aa50a9216d0b55657207906119a1908490614f46565b612a17848484611622565b6116a73385858585613cc5565b6000818152601d602090815260408083208151808301909252546001600160a01b0381168252600160a01b90046001600160401b031691810182905290421115612a6f57600061252b565b5192915050565b6060612a8182613200565b5060008281526017602052604090205460ff1680158015612aa75750612aa5611aba565b155b15612b3f5760198054612ab990615725565b80601f0160208091040260200160405190810160405280929190818152602001828054612ae590615725565b8015612b325780601f10612b0757610100808354040283529160200191612b32565b820191906000526020600020905b815481529060010190602001808311612b1557829003601f168201915b5050505050915050919050565b60008381526015602052604081208054612b5890615725565b80601f0160208091040260200160405190810160405280929190818152602001828054612b8490615725565b8015612bd15780601f10612ba657610100808354040283529160200191612bd1565b820191906000526020600020905b815481529060010190602001808311612bb457829003601f168201915b50505050509050600081511115612be9579392505050565b600082612c0157601c546001600160a01b0316612c1a565b6000858152601860205260409020546001600160a01b03165b90506001600160a01b03811615612c9e5760405163e9dc637560e01b8152306004820152602481018690526001600160a01b0382169063e9dc637590604401600060405180830381865afa158015612c76573d6000803e3d6000fd5b505050506040513d6000823e601f3d908101601f19168201604052611dda9190810190615a0f565b611dda85613def565b6000818152600c6020526040812061113290613e56565b60165460009060ff168061113257505060009081526017602052604090205460ff1690565b600080516020615b61833981519152612cfb816132d0565b60165460ff1615612d1e5760405162461bcd60e51b8152600401611163906156f9565b6016805460ff19166001908117909155604080519182526000196020830152600080516020615ba183398151915291016122da565b6000828152600b6020526040902060010154612d6e816132d0565b6116a7838361358f565b6000612d826125ec565b601e546112af919061587c565b600083815260026020526040902054612db2906001600160a01b03163385613e60565b6040805180820182526001600160a01b038481168083526001600160401b03858116602080860182815260008b8152601d835288902096518754915196166001600160e01b031990911617600160a01b959093169490940291909117909355925191825285917f4e06b4e7000e659094299b3533b47b6aa8ad048e95e872d23d1f4ee55af89cfe9101611c8e565b612e48613130565b60208181556040518281527f97e4f91a4b7e108aff6d29a03d7b9f94705ad90ed51b377784a1943ea32257e791016122da565b6060601480546111d090615725565b6001600160a01b03918216600090815260056020908152604080832093909416825291909152205460ff1690565b600080516020615b61833981519152612ed0816132d0565b60165460ff16612ef357604051630dc799dd60e31b815260040160405180910390fd5b821580612eff57508282105b15612f26576040516273750960e01b81526004810184905260248101839052604401611163565b6000600f548310612f45576001600f54612f40919061587c565b612f47565b825b9050835b818111612fdf576000818152600260205260409020546001600160a01b031615801590612f87575060008181526017602052604090205460ff16155b15612fcd57807fa109ba539900bf1b633f956d63c96fc89b814c7287f7aa50a9216d0b55657207612fb783612a76565b604051612fc49190614f46565b60405180910390a25b80612fd7816159f6565b915050612f4b565b5050505050565b600080516020615b61833981519152612ffe816132d0565b60165460ff16156130215760405162461bcd60e51b8152600401611163906156f9565b601a5460ff16156130455760405163a89ac15160e01b815260040160405180910390fd5b6019611b2483826157a7565b613059613130565b600a80546001600160a01b0383166001600160a01b0319909116811790915561308a6009546001600160a01b031690565b6001600160a01b03167f38d16b8cac22d99fc7c124b9cd0de2d3fa1faef420bfe791d8c362d765e2270060405160405180910390a350565b6130ca613130565b601f5460408051918252602082018390527f2e1c9e000c6e8dda4d03536adb13b7cb6034ccff90d17f01de381e4d5097b525910160405180910390a1601f55565b60006001600160e01b03198216635a05180f60e01b1480611132575061113282613ec4565b6009546001600160a01b031633146117a15760405163118cdaa760e01b8152336004820152602401611163565b6127106001600160601b03821681101561319c57604051636f483d0960e01b81526001600160601b038316600482015260248101829052604401611163565b6001600160a01b0383166131c657604051635b6cc80560e11b815260006004820152602401611163565b50604080518082019091526001600160a01b039092168083526001600160601b039091166020909201829052600160a01b90910217600755565b6000818152600260205260408120546001600160a01b03168061113257604051637e27328960e01b815260048101849052602401611163565b61178c8383836001613ee9565b6000601f54341461327757601f54604051630d35e92160e01b81526004810191909152346024820152604401611163565b6132828260016132da565b600061328f836001613368565b90507ff8e1a15aba9398e019f0b49df1a4fde98ee17ae345cb5f6b5e2c27f5033e8ce7816040516132c291815260200190565b60405180910390a192915050565b6123358133613fef565b6001600160a01b0382166000908152602160205260408120546132fe9083906158a6565b9050602054600014158015613314575060205481115b156133485760205460405163500d620560e01b81526001600160a01b03851660048201526024810191909152604401611163565b6001600160a01b0390921660009081526021602052604090209190915550565b600f54601e54600161337a84846158a6565b613384919061587c565b11156133a957601e5460405163f9f8491560e01b815260040161116391815260200190565b6133b382826158a6565b600f55611132838284614028565b6000806133cf85858561404e565b9050846001600160a01b0316816001600160a01b03161415801561340957506000848152601d60205260409020546001600160a01b031615155b1561345f576000848152601d6020908152604080832080546001600160e01b03191690555182815286917f4e06b4e7000e659094299b3533b47b6aa8ad048e95e872d23d1f4ee55af89cfe910160405180910390a35b6001600160a01b038516613487576012805490600061347d836159f6565b9190505550611ab2565b6001600160a01b03811661352c57601c54600160a01b900460ff16156134db576040518481527f032bc66be43dbccb7487781d168eb7bda224628a3b2c3388bdf69b532a3a16119060200160405180910390a15b60165460ff161561352757837fa109ba539900bf1b633f956d63c96fc89b814c7287f7aa50a9216d0b5565720761351186612a76565b60405161351e9190614f46565b60405180910390a25b611ab2565b601c54600160a01b900460ff1615611ab25760405163461dd51f60e11b815260048101859052602401611163565b6000806135678484614063565b9050801561252b576000848152600c6020526040902061358790846140f7565b509392505050565b60008061359c848461410c565b9050801561252b576000848152600c602052604090206135879084614179565b6135c461418e565b6006805460ff191690557f5db9ee0a495bf2e6ff9c91a7834c1ba4fdd244a5e8aa4e537bd38aeae4b073aa335b6040516001600160a01b03909116815260200160405180910390a1565b306001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016148061369557507f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316613689600080516020615b81833981519152546001600160a01b031690565b6001600160a01b031614155b156117a15760405163703e46dd60e11b815260040160405180910390fd5b612335613130565b816001600160a01b03166352d1902d6040518163ffffffff1660e01b8152600401602060405180830381865afa925050508015613715575060408051601f3d908101601f1916820190925261371291810190615a7c565b60015b61373d57604051634c9c8ce360e01b81526001600160a01b0383166004820152602401611163565b600080516020615b81833981519152811461376e57604051632a87526960e21b815260048101829052602401611163565b61178c83836141b1565b306001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016146117a15760405163703e46dd60e11b815260040160405180910390fd5b6000826137cf868685614207565b1495945050505050565b6127106001600160601b03821681101561381f5760405163dfd1fc1b60e01b8152600481018590526001600160601b038316602482015260448101829052606401611163565b6001600160a01b03831661385057604051634b4f842960e11b81526004810185905260006024820152604401611163565b506040805180820182526001600160a01b0393841681526001600160601b0392831660208083019182526000968752600890529190942093519051909116600160a01b029116179055565b60006111327f54c4fa55144b7da0d1bae0e2c4e33bc86ab5872e30dc15a77121bf2b0224e9c96138ce602085018561513a565b6138db60208601866158f1565b6040516138e9929190615a95565b6040805191829003822060208301949094526001600160a01b0390921681830152606080820193909352908501356080808301919091529185013560a08201529084013560c082015260e00160405160208183030381529060405280519060200120614249565b6000806000806139608686614276565b92509250925061397082826142c3565b5090949350505050565b600061398e6009546001600160a01b031690565b90506139998261437c565b6001600160a01b03811615806139c05750816001600160a01b0316816001600160a01b0316145b156139c9575050565b604080516060810182526000808252600080516020615bc18339815191526020830152600080516020615b6183398151915292820192909252905b60038110156116a757613a2d828260038110613a2257613a226158db565b60200201518461358f565b506001600160a01b03841615613a5f57613a5d828260038110613a5257613a526158db565b60200201518561355a565b505b600101613a04565b613a6f614395565b6006805460ff191660011790557f62e78cea01bee320cd4e420270b5ea74000d11b0c9f74754ebdbfc544b05a2586135f13390565b60606112af7f0000000000000000000000000000000000000000000000000000000000000000600d6143b9565b60606112af7f0000000000000000000000000000000000000000000000000000000000000000600e6143b9565b600061252b8383614464565b6001600160a01b038216613b3c57604051630b61174360e31b81526001600160a01b0383166004820152602401611163565b6001600160a01b03838116600081815260056020908152604080832094871680845294825291829020805460ff191686151590811790915591519182527f17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c319101611c8e565b6060600061252b8361448e565b84600003613bcf5760405163066f305360e21b815260040160405180910390fd5b6010613bdb89826157a7565b506011613be888826157a7565b50601e859055601b829055601c805460ff60a01b1916600160a01b831515021790556001600f556022805460ff19166002179055613c2760008761355a565b50613c40600080516020615bc18339815191528761355a565b50613c59600080516020615b618339815191528761355a565b506001600160601b03831615613cbb57613c73848461315d565b6040516001600160601b03841681526001600160a01b038516907fe12d7d5bdb8218a22277dca8f854dd4573a1cea3d3e4808dc567df9eb1c14bf49060200160405180910390a25b5050505050505050565b6001600160a01b0383163b15612fdf57604051630a85bd0160e11b81526001600160a01b0384169063150b7a0290613d07908890889087908790600401615aa5565b6020604051808303816000875af1925050508015613d42575060408051601f3d908101601f19168201909252613d3f91810190615ae2565b60015b613dab573d808015613d70576040519150601f19603f3d011682016040523d82523d6000602084013e613d75565b606091505b508051600003613da357604051633250574960e11b81526001600160a01b0385166004820152602401611163565b805181602001fd5b6001600160e01b03198116630a85bd0160e11b14613de757604051633250574960e11b81526001600160a01b0385166004820152602401611163565b505050505050565b6060613dfa82613200565b506000613e056144ea565b90506000815111613e25576040518060200160405280600081525061252b565b80613e2f846144f9565b604051602001613e40929190615aff565b6040516020818303038152906040529392505050565b6000611132825490565b613e6b83838361458b565b61178c576001600160a01b038316613e9957604051637e27328960e01b815260048101829052602401611163565b60405163177e802f60e01b81526001600160a01b038316600482015260248101829052604401611163565b60006001600160e01b03198216637965db0b60e01b14806111325750611132826145ee565b8080613efd57506001600160a01b03821615155b15613fbf576000613f0d84613200565b90506001600160a01b03831615801590613f395750826001600160a01b0316816001600160a01b031614155b8015613f4c5750613f4a8184612e8a565b155b15613f755760405163a9fbf51f60e01b81526001600160a01b0384166004820152602401611163565b8115613fbd5783856001600160a01b0316826001600160a01b03167f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b92560405160405180910390a45b505b5050600090815260046020526040902080546001600160a01b0319166001600160a01b0392909216919091179055565b613ff98282612532565b6112bf5760405163e2517d3f60e01b81526001600160a01b038216600482015260248101839052604401611163565b60005b818110156116a7576140468461404183866158a6565b614613565b60010161402b565b6000614058614395565b611ab284848461462d565b600061406f8383612532565b6140ef576000838152600b602090815260408083206001600160a01b03861684529091529020805460ff191660011790556140a73390565b6001600160a01b0316826001600160a01b0316847f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d60405160405180910390a4506001611132565b506000611132565b600061252b836001600160a01b038416614726565b60006141188383612532565b156140ef576000838152600b602090815260408083206001600160a01b0386168085529252808320805460ff1916905551339286917ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b9190a4506001611132565b600061252b836001600160a01b03841661476d565b60065460ff166117a157604051638dfc202b60e01b815260040160405180910390fd5b6141ba82614860565b6040516001600160a01b038316907fbc7cd75a20ee27fd9adebab32041f755214dbc6bffa90cc0225b39da2e5c2d3b90600090a28051156141ff5761178c82826148c5565b6112bf614932565b600081815b84811015614240576142368287878481811061422a5761422a6158db565b90506020020135614951565b915060010161420c565b50949350505050565b6000611132614256614980565b8360405161190160f01b8152600281019290925260228201526042902090565b600080600083516041036142b05760208401516040850151606086015160001a6142a288828585614aab565b9550955095505050506142bc565b50508151600091506002905b9250925092565b60008260038111156142d7576142d76153c4565b036142e0575050565b60018260038111156142f4576142f46153c4565b036143125760405163f645eedf60e01b815260040160405180910390fd5b6002826003811115614326576143266153c4565b036143475760405163fce698f760e01b815260048101829052602401611163565b600382600381111561435b5761435b6153c4565b036112bf576040516335e2f38360e21b815260048101829052602401611163565b600a80546001600160a01b031916905561233581614b7a565b60065460ff16156117a15760405163d93c066560e01b815260040160405180910390fd5b606060ff83146143d3576143cc83614bcc565b9050611132565b8180546143df90615725565b80601f016020809104026020016040519081016040528092919081815260200182805461440b90615725565b80156144585780601f1061442d57610100808354040283529160200191614458565b820191906000526020600020905b81548152906001019060200180831161443b57829003601f168201915b50505050509050611132565b600082600001828154811061447b5761447b6158db565b9060005260206000200154905092915050565b6060816000018054806020026020016040519081016040528092919081815260200182805480156144de57602002820191906000526020600020905b8154815260200190600101908083116144ca575b50505050509050919050565b6060601380546111d090615725565b6060600061450683614c0b565b60010190506000816001600160401b0381111561452557614525614f9e565b6040519080825280601f01601f19166020018201604052801561454f576020820181803683370190505b5090508181016020015b600019016f181899199a1a9b1b9c1cb0b131b232b360811b600a86061a8153600a850494508461455957509392505050565b60006001600160a01b03831615801590611ab25750826001600160a01b0316846001600160a01b031614806145c557506145c58484612e8a565b80611ab25750506000908152600460205260409020546001600160a01b03908116911614919050565b60006001600160e01b0319821663152a902d60e11b1480611132575061113282614ce3565b6112bf828260405180602001604052806000815250614d33565b6000828152600260205260408120546001600160a01b039081169083161561465a5761465a818486613e60565b6001600160a01b0381161561469857614677600085600080613ee9565b6001600160a01b038116600090815260036020526040902080546000190190555b6001600160a01b038516156146c7576001600160a01b0385166000908152600360205260409020805460010190555b60008481526002602052604080822080546001600160a01b0319166001600160a01b0389811691821790925591518793918516917fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef91a4949350505050565b60008181526001830160205260408120546140ef57508154600181810184556000848152602080822090930184905584548482528286019093526040902091909155611132565b6000818152600183016020526040812054801561485657600061479160018361587c565b85549091506000906147a59060019061587c565b905080821461480a5760008660000182815481106147c5576147c56158db565b90600052602060002001549050808760000184815481106147e8576147e86158db565b6000918252602080832090910192909255918252600188019052604090208390555b855486908061481b5761481b615b2e565b600190038181906000526020600020016000905590558560010160008681526020019081526020016000206000905560019350505050611132565b6000915050611132565b806001600160a01b03163b60000361489657604051634c9c8ce360e01b81526001600160a01b0382166004820152602401611163565b600080516020615b8183398151915280546001600160a01b0319166001600160a01b0392909216919091179055565b6060600080846001600160a01b0316846040516148e29190615b44565b600060405180830381855af49150503d806000811461491d576040519150601f19603f3d011682016040523d82523d6000602084013e614922565b606091505b5091509150611dda858383614d4b565b34156117a15760405163b398979f60e01b815260040160405180910390fd5b600081831061496d57600082815260208490526040902061252b565b600083815260208390526040902061252b565b6000306001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000161480156149d957507f000000000000000000000000000000000000000000000000000000000000000046145b15614a0357507f000000000000000000000000000000000000000000000000000000000000000090565b6112af604080517f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f60208201527f0000000000000000000000000000000000000000000000000000000000000000918101919091527f000000000000000000000000000000000000000000000000000000000000000060608201524660808201523060a082015260009060c00160405160208183030381529060405280519060200120905090565b600080807f7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a0841115614ae65750600091506003905082614b70565b604080516000808252602082018084528a905260ff891692820192909252606081018790526080810186905260019060a0016020604051602081039080840390855afa158015614b3a573d6000803e3d6000fd5b5050604051601f1901519150506001600160a01b038116614b6657506000925060019150829050614b70565b9250600091508190505b9450945094915050565b600980546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e090600090a35050565b60606000614bd983614da7565b604080516020808252818301909252919250600091906020820181803683375050509182525060208101929092525090565b60008072184f03e93ff9f4daa797ed6e38ed64bf6a1f0160401b8310614c4a5772184f03e93ff9f4daa797ed6e38ed64bf6a1f0160401b830492506040015b6d04ee2d6d415b85acef81000000008310614c76576d04ee2d6d415b85acef8100000000830492506020015b662386f26fc100008310614c9457662386f26fc10000830492506010015b6305f5e1008310614cac576305f5e100830492506008015b6127108310614cc057612710830492506004015b60648310614cd2576064830492506002015b600a83106111325760010192915050565b60006001600160e01b031982166380ac58cd60e01b1480614d1457506001600160e01b03198216635b5e139f60e01b145b8061113257506301ffc9a760e01b6001600160e01b0319831614611132565b614d3d8383614dcf565b61178c336000858585613cc5565b606082614d6057614d5b82614e34565b61252b565b8151158015614d7757506001600160a01b0384163b155b15614da057604051639996b31560e01b81526001600160a01b0385166004820152602401611163565b508061252b565b600060ff8216601f81111561113257604051632cd44ac360e21b815260040160405180910390fd5b6001600160a01b038216614df957604051633250574960e11b815260006004820152602401611163565b6000614e07838360006133c1565b90506001600160a01b0381161561178c576040516339e3563760e11b815260006004820152602401611163565b805115614e445780518082602001fd5b60405163d6bda27560e01b815260040160405180910390fd5b6001600160e01b03198116811461233557600080fd5b600060208284031215614e8557600080fd5b813561252b81614e5d565b6001600160a01b038116811461233557600080fd5b80356001600160601b0381168114614ebc57600080fd5b919050565b60008060408385031215614ed457600080fd5b8235614edf81614e90565b9150614eed60208401614ea5565b90509250929050565b60005b83811015614f11578181015183820152602001614ef9565b50506000910152565b60008151808452614f32816020860160208601614ef6565b601f01601f19169290920160200192915050565b60208152600061252b6020830184614f1a565b600060208284031215614f6b57600080fd5b5035919050565b60008060408385031215614f8557600080fd5b8235614f9081614e90565b946020939093013593505050565b634e487b7160e01b600052604160045260246000fd5b604051601f8201601f191681016001600160401b0381118282101715614fdc57614fdc614f9e565b604052919050565b60006001600160401b03821115614ffd57614ffd614f9e565b50601f01601f191660200190565b600082601f83011261501c57600080fd5b813561502f61502a82614fe4565b614fb4565b81815284602083860101111561504457600080fd5b816020850160208301376000918101602001919091529392505050565b6000806040838503121561507457600080fd5b8235915060208301356001600160401b0381111561509157600080fd5b61509d8582860161500b565b9150509250929050565b6000806000606084860312156150bc57600080fd5b83356150c781614e90565b925060208401356150d781614e90565b929592945050506040919091013590565b600080604083850312156150fb57600080fd5b50508035926020909101359150565b6000806040838503121561511d57600080fd5b82359150602083013561512f81614e90565b809150509250929050565b60006020828403121561514c57600080fd5b813561252b81614e90565b60006020828403121561516957600080fd5b81356001600160401b0381111561517f57600080fd5b611ab28482850161500b565b6000806040838503121561519e57600080fd5b82356151a981614e90565b915060208301356001600160401b0381111561509157600080fd5b60008083601f8401126151d657600080fd5b5081356001600160401b038111156151ed57600080fd5b6020830191508360208260051b850101111561172d57600080fd5b6000806020838503121561521b57600080fd5b82356001600160401b0381111561523157600080fd5b61523d858286016151c4565b90969095509350505050565b60008060006060848603121561525e57600080fd5b83359250602084013561527081614e90565b915061527e60408501614ea5565b90509250925092565b6000806000806040858703121561529d57600080fd5b84356001600160401b03808211156152b457600080fd5b6152c0888389016151c4565b909650945060208701359150808211156152d957600080fd5b506152e6878288016151c4565b95989497509550505050565b60008083601f84011261530457600080fd5b5081356001600160401b0381111561531b57600080fd5b60208301915083602082850101111561172d57600080fd5b60008060006040848603121561534857600080fd5b83356001600160401b038082111561535f57600080fd5b9085019060a0828803121561537357600080fd5b9093506020850135908082111561538957600080fd5b50615396868287016152f2565b9497909650939450505050565b6000602082840312156153b557600080fd5b81356003811061252b57600080fd5b634e487b7160e01b600052602160045260246000fd5b60208101600383106153fc57634e487b7160e01b600052602160045260246000fd5b91905290565b60008151808452602080850194506020840160005b8381101561543357815187529582019590820190600101615417565b509495945050505050565b60208152600061252b6020830184615402565b60ff60f81b8816815260e06020820152600061547060e0830189614f1a565b82810360408401526154828189614f1a565b606084018890526001600160a01b038716608085015260a0840186905283810360c085015290506154b38185615402565b9a9950505050505050505050565b80358015158114614ebc57600080fd5b600080604083850312156154e457600080fd5b82356154ef81614e90565b9150614eed602084016154c1565b6020808252825182820181905260009190848201906040850190845b8181101561553e5783516001600160a01b031683529284019291840191600101615519565b50909695505050505050565b6000806000806000806000806000806101008b8d03121561556a57600080fd5b8a356001600160401b038082111561558157600080fd5b61558d8e838f016152f2565b909c509a5060208d01359150808211156155a657600080fd5b506155b38d828e016152f2565b90995097505060408b01356155c781614e90565b955060608b0135945060808b01356155de81614e90565b93506155ec60a08c01614ea5565b925060c08b0135915061560160e08c016154c1565b90509295989b9194979a5092959850565b6000806000806080858703121561562857600080fd5b843561563381614e90565b9350602085013561564381614e90565b92506040850135915060608501356001600160401b0381111561566557600080fd5b6156718782880161500b565b91505092959194509250565b60008060006060848603121561569257600080fd5b8335925060208401356156a481614e90565b915060408401356001600160401b03811681146156c057600080fd5b809150509250925092565b600080604083850312156156de57600080fd5b82356156e981614e90565b9150602083013561512f81614e90565b60208082526012908201527126b2ba30b230ba309034b990333937bd32b760711b604082015260600190565b600181811c9082168061573957607f821691505b60208210810361575957634e487b7160e01b600052602260045260246000fd5b50919050565b601f82111561178c576000816000526020600020601f850160051c810160208610156157885750805b601f850160051c820191505b81811015613de757828155600101615794565b81516001600160401b038111156157c0576157c0614f9e565b6157d4816157ce8454615725565b8461575f565b602080601f83116001811461580957600084156157f15750858301515b600019600386901b1c1916600185901b178555613de7565b600085815260208120601f198616915b8281101561583857888601518255948401946001909101908401615819565b50858210156158565787850151600019600388901b60f8161c191681555b5050505050600190811b01905550565b634e487b7160e01b600052601160045260246000fd5b8181038181111561113257611132615866565b808202811582820484141761113257611132615866565b8082018082111561113257611132615866565b6000826158d657634e487b7160e01b600052601260045260246000fd5b500490565b634e487b7160e01b600052603260045260246000fd5b6000808335601e1984360301811261590857600080fd5b8301803591506001600160401b0382111561592257600080fd5b60200191503681900382131561172d57600080fd5b6001600160401b0383111561594e5761594e614f9e565b6159628361595c8354615725565b8361575f565b6000601f841160018114615996576000851561597e5750838201355b600019600387901b1c1916600186901b178355612fdf565b600083815260209020601f19861690835b828110156159c757868501358255602094850194600190920191016159a7565b50868210156159e45760001960f88860031b161c19848701351681555b505060018560011b0183555050505050565b600060018201615a0857615a08615866565b5060010190565b600060208284031215615a2157600080fd5b81516001600160401b03811115615a3757600080fd5b8201601f81018413615a4857600080fd5b8051615a5661502a82614fe4565b818152856020838501011115615a6b57600080fd5b611dda826020830160208601614ef6565b600060208284031215615a8e57600080fd5b5051919050565b8183823760009101908152919050565b6001600160a01b0385811682528416602082015260408101839052608060608201819052600090615ad890830184614f1a565b9695505050505050565b600060208284031215615af457600080fd5b815161252b81614e5d565b60008351615b11818460208801614ef6565b835190830190615b25818360208801614ef6565b01949350505050565b634e487b7160e01b600052603160045260246000fd5b60008251615b56818460208701614ef6565b919091019291505056fe6bd6b5318a46e5fff572d5e4258a20774aab40cc35ac7680654b9081fcc82f80360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc6bd5c950a8d8df17f772f5af37cb3655737899cbf903264b9795592da439661c9f2df0fed2c77648de5860a4cc508cd0818c85b8b8a1ab4ceeef8d981c8956a6a2646970667358221220567502e8ed6a628c18d1ab8e7c0f6ddc39f5c1c2a47ad06f107330bb84e0d5da64736f6c634300081600336bd6b5318a46e5fff572d5e4258a20774aab40cc35ac7680654b9081fcc82f809f2df0fed2c77648de5860a4cc508cd0818c85b8b8a1ab4ceeef8d981c8956a6";
+
+type SimpleNFTUpgradeableV2MockConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: SimpleNFTUpgradeableV2MockConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class SimpleNFTUpgradeableV2Mock__factory extends ContractFactory {
+  constructor(...args: SimpleNFTUpgradeableV2MockConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    name_: string,
+    symbol_: string,
+    initialOwner: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(
+      name_,
+      symbol_,
+      initialOwner,
+      overrides || {}
+    );
+  }
+  override deploy(
+    name_: string,
+    symbol_: string,
+    initialOwner: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(
+      name_,
+      symbol_,
+      initialOwner,
+      overrides || {}
+    ) as Promise<
+      SimpleNFTUpgradeableV2Mock & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): SimpleNFTUpgradeableV2Mock__factory {
+    return super.connect(runner) as SimpleNFTUpgradeableV2Mock__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): SimpleNFTUpgradeableV2MockInterface {
+    return new Interface(_abi) as SimpleNFTUpgradeableV2MockInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): SimpleNFTUpgradeableV2Mock {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as SimpleNFTUpgradeableV2Mock;
+  }
+}
@@ -6,31 +6,117 @@ export type { openzeppelin };
 import type * as contracts from "./contracts";
 export type { contracts };
 export * as factories from "./factories";
+export type { AccessControl } from "./@openzeppelin/contracts/access/AccessControl";
+export { AccessControl__factory } from "./factories/@openzeppelin/contracts/access/AccessControl__factory";
+export type { AccessControlEnumerable } from "./@openzeppelin/contracts/access/extensions/AccessControlEnumerable";
+export { AccessControlEnumerable__factory } from "./factories/@openzeppelin/contracts/access/extensions/AccessControlEnumerable__factory";
+export type { IAccessControlEnumerable } from "./@openzeppelin/contracts/access/extensions/IAccessControlEnumerable";
+export { IAccessControlEnumerable__factory } from "./factories/@openzeppelin/contracts/access/extensions/IAccessControlEnumerable__factory";
+export type { IAccessControl } from "./@openzeppelin/contracts/access/IAccessControl";
+export { IAccessControl__factory } from "./factories/@openzeppelin/contracts/access/IAccessControl__factory";
 export type { Ownable } from "./@openzeppelin/contracts/access/Ownable";
 export { Ownable__factory } from "./factories/@openzeppelin/contracts/access/Ownable__factory";
+export type { Ownable2Step } from "./@openzeppelin/contracts/access/Ownable2Step";
+export { Ownable2Step__factory } from "./factories/@openzeppelin/contracts/access/Ownable2Step__factory";
+export type { IERC1822Proxiable } from "./@openzeppelin/contracts/interfaces/draft-IERC1822.sol/IERC1822Proxiable";
+export { IERC1822Proxiable__factory } from "./factories/@openzeppelin/contracts/interfaces/draft-IERC1822.sol/IERC1822Proxiable__factory";
 export type { IERC1155Errors } from "./@openzeppelin/contracts/interfaces/draft-IERC6093.sol/IERC1155Errors";
 export { IERC1155Errors__factory } from "./factories/@openzeppelin/contracts/interfaces/draft-IERC6093.sol/IERC1155Errors__factory";
 export type { IERC20Errors } from "./@openzeppelin/contracts/interfaces/draft-IERC6093.sol/IERC20Errors";
 export { IERC20Errors__factory } from "./factories/@openzeppelin/contracts/interfaces/draft-IERC6093.sol/IERC20Errors__factory";
 export type { IERC721Errors } from "./@openzeppelin/contracts/interfaces/draft-IERC6093.sol/IERC721Errors";
 export { IERC721Errors__factory } from "./factories/@openzeppelin/contracts/interfaces/draft-IERC6093.sol/IERC721Errors__factory";
+export type { IERC1967 } from "./@openzeppelin/contracts/interfaces/IERC1967";
+export { IERC1967__factory } from "./factories/@openzeppelin/contracts/interfaces/IERC1967__factory";
+export type { IERC2981 } from "./@openzeppelin/contracts/interfaces/IERC2981";
+export { IERC2981__factory } from "./factories/@openzeppelin/contracts/interfaces/IERC2981__factory";
 export type { IERC4906 } from "./@openzeppelin/contracts/interfaces/IERC4906";
 export { IERC4906__factory } from "./factories/@openzeppelin/contracts/interfaces/IERC4906__factory";
+export type { IERC5267 } from "./@openzeppelin/contracts/interfaces/IERC5267";
+export { IERC5267__factory } from "./factories/@openzeppelin/contracts/interfaces/IERC5267__factory";
+export type { IBeacon } from "./@openzeppelin/contracts/proxy/beacon/IBeacon";
+export { IBeacon__factory } from "./factories/@openzeppelin/contracts/proxy/beacon/IBeacon__factory";
+export type { Clones } from "./@openzeppelin/contracts/proxy/Clones";
+export { Clones__factory } from "./factories/@openzeppelin/contracts/proxy/Clones__factory";
+export type { ERC1967Proxy } from "./@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy";
+export { ERC1967Proxy__factory } from "./factories/@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy__factory";
+export type { ERC1967Utils } from "./@openzeppelin/contracts/proxy/ERC1967/ERC1967Utils";
+export { ERC1967Utils__factory } from "./factories/@openzeppelin/contracts/proxy/ERC1967/ERC1967Utils__factory";
+export type { Proxy } from "./@openzeppelin/contracts/proxy/Proxy";
+export { Proxy__factory } from "./factories/@openzeppelin/contracts/proxy/Proxy__factory";
+export type { Initializable } from "./@openzeppelin/contracts/proxy/utils/Initializable";
+export { Initializable__factory } from "./factories/@openzeppelin/contracts/proxy/utils/Initializable__factory";
+export type { UUPSUpgradeable } from "./@openzeppelin/contracts/proxy/utils/UUPSUpgradeable";
+export { UUPSUpgradeable__factory } from "./factories/@openzeppelin/contracts/proxy/utils/UUPSUpgradeable__factory";
+export type { ERC2981 } from "./@openzeppelin/contracts/token/common/ERC2981";
+export { ERC2981__factory } from "./factories/@openzeppelin/contracts/token/common/ERC2981__factory";
+export type { ERC1155 } from "./@openzeppelin/contracts/token/ERC1155/ERC1155";
+export { ERC1155__factory } from "./factories/@openzeppelin/contracts/token/ERC1155/ERC1155__factory";
+export type { ERC1155Burnable } from "./@openzeppelin/contracts/token/ERC1155/extensions/ERC1155Burnable";
+export { ERC1155Burnable__factory } from "./factories/@openzeppelin/contracts/token/ERC1155/extensions/ERC1155Burnable__factory";
+export type { ERC1155Supply } from "./@openzeppelin/contracts/token/ERC1155/extensions/ERC1155Supply";
+export { ERC1155Supply__factory } from "./factories/@openzeppelin/contracts/token/ERC1155/extensions/ERC1155Supply__factory";
+export type { IERC1155MetadataURI } from "./@openzeppelin/contracts/token/ERC1155/extensions/IERC1155MetadataURI";
+export { IERC1155MetadataURI__factory } from "./factories/@openzeppelin/contracts/token/ERC1155/extensions/IERC1155MetadataURI__factory";
+export type { IERC1155 } from "./@openzeppelin/contracts/token/ERC1155/IERC1155";
+export { IERC1155__factory } from "./factories/@openzeppelin/contracts/token/ERC1155/IERC1155__factory";
+export type { IERC1155Receiver } from "./@openzeppelin/contracts/token/ERC1155/IERC1155Receiver";
+export { IERC1155Receiver__factory } from "./factories/@openzeppelin/contracts/token/ERC1155/IERC1155Receiver__factory";
 export type { ERC721 } from "./@openzeppelin/contracts/token/ERC721/ERC721";
 export { ERC721__factory } from "./factories/@openzeppelin/contracts/token/ERC721/ERC721__factory";
+export type { ERC721Burnable } from "./@openzeppelin/contracts/token/ERC721/extensions/ERC721Burnable";
+export { ERC721Burnable__factory } from "./factories/@openzeppelin/contracts/token/ERC721/extensions/ERC721Burnable__factory";
+export type { ERC721Pausable } from "./@openzeppelin/contracts/token/ERC721/extensions/ERC721Pausable";
+export { ERC721Pausable__factory } from "./factories/@openzeppelin/contracts/token/ERC721/extensions/ERC721Pausable__factory";
 export type { IERC721Metadata } from "./@openzeppelin/contracts/token/ERC721/extensions/IERC721Metadata";
 export { IERC721Metadata__factory } from "./factories/@openzeppelin/contracts/token/ERC721/extensions/IERC721Metadata__factory";
 export type { IERC721 } from "./@openzeppelin/contracts/token/ERC721/IERC721";
 export { IERC721__factory } from "./factories/@openzeppelin/contracts/token/ERC721/IERC721__factory";
 export type { IERC721Receiver } from "./@openzeppelin/contracts/token/ERC721/IERC721Receiver";
 export { IERC721Receiver__factory } from "./factories/@openzeppelin/contracts/token/ERC721/IERC721Receiver__factory";
+export type { Address } from "./@openzeppelin/contracts/utils/Address";
+export { Address__factory } from "./factories/@openzeppelin/contracts/utils/Address__factory";
+export type { Create2 } from "./@openzeppelin/contracts/utils/Create2";
+export { Create2__factory } from "./factories/@openzeppelin/contracts/utils/Create2__factory";
+export type { ECDSA } from "./@openzeppelin/contracts/utils/cryptography/ECDSA";
+export { ECDSA__factory } from "./factories/@openzeppelin/contracts/utils/cryptography/ECDSA__factory";
+export type { EIP712 } from "./@openzeppelin/contracts/utils/cryptography/EIP712";
+export { EIP712__factory } from "./factories/@openzeppelin/contracts/utils/cryptography/EIP712__factory";
+export type { MerkleProof } from "./@openzeppelin/contracts/utils/cryptography/MerkleProof";
+export { MerkleProof__factory } from "./factories/@openzeppelin/contracts/utils/cryptography/MerkleProof__factory";
+export type { Errors } from "./@openzeppelin/contracts/utils/Errors";
+export { Errors__factory } from "./factories/@openzeppelin/contracts/utils/Errors__factory";
 export type { ERC165 } from "./@openzeppelin/contracts/utils/introspection/ERC165";
 export { ERC165__factory } from "./factories/@openzeppelin/contracts/utils/introspection/ERC165__factory";
 export type { IERC165 } from "./@openzeppelin/contracts/utils/introspection/IERC165";
 export { IERC165__factory } from "./factories/@openzeppelin/contracts/utils/introspection/IERC165__factory";
 export type { SafeCast } from "./@openzeppelin/contracts/utils/math/SafeCast";
 export { SafeCast__factory } from "./factories/@openzeppelin/contracts/utils/math/SafeCast__factory";
+export type { Pausable } from "./@openzeppelin/contracts/utils/Pausable";
+export { Pausable__factory } from "./factories/@openzeppelin/contracts/utils/Pausable__factory";
+export type { ShortStrings } from "./@openzeppelin/contracts/utils/ShortStrings";
+export { ShortStrings__factory } from "./factories/@openzeppelin/contracts/utils/ShortStrings__factory";
 export type { Strings } from "./@openzeppelin/contracts/utils/Strings";
 export { Strings__factory } from "./factories/@openzeppelin/contracts/utils/Strings__factory";
+export type { IERC4907 } from "./contracts/interfaces/IERC4907";
+export { IERC4907__factory } from "./factories/contracts/interfaces/IERC4907__factory";
+export type { IERC5192 } from "./contracts/interfaces/IERC5192";
+export { IERC5192__factory } from "./factories/contracts/interfaces/IERC5192__factory";
+export type { ITokenURIRenderer } from "./contracts/interfaces/ITokenURIRenderer";
+export { ITokenURIRenderer__factory } from "./factories/contracts/interfaces/ITokenURIRenderer__factory";
+export type { SimpleNFTUpgradeableV2Mock } from "./contracts/mocks/SimpleNFTUpgradeableV2Mock";
+export { SimpleNFTUpgradeableV2Mock__factory } from "./factories/contracts/mocks/SimpleNFTUpgradeableV2Mock__factory";
 export type { SimpleNFT } from "./contracts/SimpleNFT";
 export { SimpleNFT__factory } from "./factories/contracts/SimpleNFT__factory";
+export type { SimpleNFTEditions } from "./contracts/SimpleNFTEditions";
+export { SimpleNFTEditions__factory } from "./factories/contracts/SimpleNFTEditions__factory";
+export type { SimpleNFTFactory } from "./contracts/SimpleNFTFactory";
+export { SimpleNFTFactory__factory } from "./factories/contracts/SimpleNFTFactory__factory";
+export type { SimpleNFTPacked } from "./contracts/SimpleNFTPacked";
+export { SimpleNFTPacked__factory } from "./factories/contracts/SimpleNFTPacked__factory";
+export type { SimpleNFTRenderer } from "./contracts/SimpleNFTRenderer";
+export { SimpleNFTRenderer__factory } from "./factories/contracts/SimpleNFTRenderer__factory";
+export type { SimpleNFTUpgradeable } from "./contracts/SimpleNFTUpgradeable";
+export { SimpleNFTUpgradeable__factory } from "./factories/contracts/SimpleNFTUpgradeable__factory";
+export type { ERC721Packed } from "./contracts/token/ERC721Packed";
+export { ERC721Packed__factory } from "./factories/contracts/token/ERC721Packed__factory";
@@ -0,0 +1,101 @@
+/**
+ * Allowlist Builder Script for SimpleNFT
+ *
+ * This script builds the Merkle tree used by `SimpleNFT.allowlistMint` from a
+ * CSV of wallet addresses and writes the root and per-address proofs to JSON.
+ *
+ * Features:
+ * - Accepts one address per line, optionally in the first CSV column
+ * - Skips header rows, blank lines and duplicate addresses
+ * - Rejects malformed addresses with the offending line number
+ * - Uses OpenZeppelin's StandardMerkleTree leaf encoding
+ *
+ * Usage:
+ *   npm run allowlist -- <input.csv> [output.json]
+ *
+ * The printed root is what the owner passes to `setMerkleRoot`. The output
+ * JSON can be uploaded from the collection page so minters can look up
+ * their proof.
+ */
+
+import fs from "fs";
+import path from "path";
+import { getAddress, isAddress } from "ethers";
+import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
+
+export interface AllowlistProofs {
+  /** Merkle root to set on the contract */
+  root: string;
+  /** Proofs keyed by checksummed address */
+  proofs: Record<string, string[]>;
+}
+
+/**
+ * Parses a CSV file into a list of unique checksummed addresses
+ * @param csv The raw CSV contents
+ * @returns The addresses in the order they first appear
+ */
+export function parseAllowlistCsv(csv: string): string[] {
+  const addresses = new Set<string>();
+
+  csv.split(/\r?\n/).forEach((line, index) => {
+    const value = line.split(",")[0].trim();
+    // Allow a single header row such as "address"
+    if (!value || (index === 0 && !value.startsWith("0x"))) return;
+
+    if (!isAddress(value)) {
+      throw new Error(`Invalid address on line ${index + 1}: ${value}`);
+    }
+
+    addresses.add(getAddress(value));
+  });
+
+  return Array.from(addresses);
+}
+
+/**
+ * Builds the Merkle root and proofs for a list of addresses
+ * @param addresses The allowlisted addresses
+ * @returns The root and a proof for every address
+ */
+export function buildAllowlist(addresses: string[]): AllowlistProofs {
+  if (addresses.length === 0) {
+    throw new Error("Allowlist is empty");
+  }
+
+  const tree = StandardMerkleTree.of(addresses.map((address) => [address]), ["address"]);
+  const proofs: Record<string, string[]> = {};
+
+  for (const [index, [address]] of tree.entries()) {
+    proofs[address] = tree.getProof(index);
+  }
+
+  return { root: tree.root, proofs };
+}
+
+async function main() {
+  try {
+    const [inputPath, outputPath = "allowlist.json"] = process.argv.slice(2);
+    if (!inputPath) {
+      throw new Error("Usage: npm run allowlist -- <input.csv> [output.json]");
+    }
+
+    console.log("Reading allowlist from:", path.resolve(inputPath));
+    const addresses = parseAllowlistCsv(fs.readFileSync(inputPath, "utf8"));
+    console.log("Unique addresses:", addresses.length);
+
+    const allowlist = buildAllowlist(addresses);
+    fs.writeFileSync(outputPath, JSON.stringify(allowlist, null, 2));
+
+    console.log("Proofs written to:", path.resolve(outputPath));
+    console.log("Merkle root:", allowlist.root);
+    console.log("\nSet it on the collection with setMerkleRoot(root)");
+  } catch (error) {
+    console.error("Allowlist build failed:", error);
+    process.exitCode = 1;
+  }
+}
+
+if (require.main === module) {
+  main();
+}
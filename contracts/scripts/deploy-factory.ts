@@ -0,0 +1,96 @@
+/**
+ * Deployment Script for SimpleNFTFactory
+ *
+ * This script deploys the SimpleNFT and SimpleNFTEditions implementations and
+ * the factory that the frontend uses to create collections as minimal proxy clones.
+ *
+ * Features:
+ * - Deploys locked SimpleNFT and SimpleNFTEditions implementations owned by the deployer
+ * - Deploys SimpleNFTFactory pointing at both implementations
+ * - Prints the environment variable the frontend needs
+ * - Logs verification commands for both contracts
+ *
+ * Usage:
+ *   npm run deploy:factory
+ */
+
+import { ethers } from "hardhat";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+async function main() {
+  try {
+    console.log("Starting SimpleNFTFactory deployment...");
+
+    const [deployer] = await ethers.getSigners();
+    console.log("Deploying contracts with account:", deployer.address);
+
+    // The implementation is never used as a collection, so it gets a minimal
+    // supply and no royalty. Its constructor disables `initialize`.
+    const SimpleNFT = await ethers.getContractFactory("SimpleNFT");
+    const implementation = await SimpleNFT.deploy(
+      "SimpleNFT Implementation", // name
+      "SNFT",                     // symbol
+      deployer.address,           // initialOwner
+      1,                          // maxSupply
+      deployer.address,           // royaltyReceiver
+      0,                          // royaltyFeeNumerator
+      ethers.ZeroHash,            // provenanceHash
+      false                       // soulbound
+    );
+    await implementation.waitForDeployment();
+    const implementationAddress = await implementation.getAddress();
+    console.log("SimpleNFT implementation deployed to:", implementationAddress);
+
+    const SimpleNFTEditions = await ethers.getContractFactory("SimpleNFTEditions");
+    const editionsImplementation = await SimpleNFTEditions.deploy(
+      "SimpleNFTEditions Implementation", // name
+      "SNFTE",                            // symbol
+      deployer.address,                   // initialOwner
+      deployer.address,                   // royaltyReceiver
+      0                                   // royaltyFeeNumerator
+    );
+    await editionsImplementation.waitForDeployment();
+    const editionsImplementationAddress = await editionsImplementation.getAddress();
+    console.log("SimpleNFTEditions implementation deployed to:", editionsImplementationAddress);
+
+    const SimpleNFTFactory = await ethers.getContractFactory("SimpleNFTFactory");
+    const factory = await SimpleNFTFactory.deploy(implementationAddress, editionsImplementationAddress);
+    await factory.waitForDeployment();
+    const factoryAddress = await factory.getAddress();
+    console.log("SimpleNFTFactory deployed to:", factoryAddress);
+    console.log("Transaction hash:", factory.deploymentTransaction()?.hash);
+
+    // Log deployment details
+    console.log({
+      implementation: implementationAddress,
+      editionsImplementation: editionsImplementationAddress,
+      factory: factoryAddress,
+      deployer: deployer.address,
+      network: (await ethers.provider.getNetwork()).name,
+      blockNumber: await ethers.provider.getBlockNumber()
+    });
+
+    console.log("\nAdd this to frontend/.env.local:");
+    console.log(`NEXT_PUBLIC_FACTORY_ADDRESS=${factoryAddress}`);
+
+    // Log verification commands
+    console.log("\nTo verify on block explorer:");
+    console.log(`npx hardhat verify --network nexus ${implementationAddress} "SimpleNFT Implementation" "SNFT" "${deployer.address}" "1" "${deployer.address}" "0" "${ethers.ZeroHash}" "false"`);
+    console.log(`npx hardhat verify --network nexus ${editionsImplementationAddress} "SimpleNFTEditions Implementation" "SNFTE" "${deployer.address}" "${deployer.address}" "0"`);
+    console.log(`npx hardhat verify --network nexus ${factoryAddress} "${implementationAddress}" "${editionsImplementationAddress}"`);
+
+    console.log("Deployment completed successfully");
+  } catch (error) {
+    console.error("Deployment failed:", error);
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,62 @@
+/**
+ * Deployment Script for SimpleNFTRenderer
+ *
+ * This script deploys the stateless on-chain renderer that collections can
+ * point `setRenderer` at to serve fully on-chain metadata.
+ *
+ * Features:
+ * - Deploys a single renderer shared by every collection
+ * - Prints the environment variable the frontend needs
+ * - Logs the verification command
+ *
+ * Usage:
+ *   npm run deploy:renderer
+ */
+
+import { ethers } from "hardhat";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+async function main() {
+  try {
+    console.log("Starting SimpleNFTRenderer deployment...");
+
+    const [deployer] = await ethers.getSigners();
+    console.log("Deploying contracts with account:", deployer.address);
+
+    const SimpleNFTRenderer = await ethers.getContractFactory("SimpleNFTRenderer");
+    const renderer = await SimpleNFTRenderer.deploy();
+    await renderer.waitForDeployment();
+    const rendererAddress = await renderer.getAddress();
+    console.log("SimpleNFTRenderer deployed to:", rendererAddress);
+    console.log("Transaction hash:", renderer.deploymentTransaction()?.hash);
+
+    // Log deployment details
+    console.log({
+      renderer: rendererAddress,
+      deployer: deployer.address,
+      network: (await ethers.provider.getNetwork()).name,
+      blockNumber: await ethers.provider.getBlockNumber()
+    });
+
+    console.log("\nAdd this to frontend/.env.local:");
+    console.log(`NEXT_PUBLIC_RENDERER_ADDRESS=${rendererAddress}`);
+
+    // Log verification command
+    console.log("\nTo verify on block explorer:");
+    console.log(`npx hardhat verify --network nexus ${rendererAddress}`);
+
+    console.log("Deployment completed successfully");
+  } catch (error) {
+    console.error("Deployment failed:", error);
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
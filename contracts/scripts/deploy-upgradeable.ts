@@ -0,0 +1,135 @@
+/**
+ * Deployment Script for SimpleNFTUpgradeable
+ *
+ * This script deploys an upgradeable SimpleNFT collection: a locked
+ * SimpleNFTUpgradeable implementation behind an ERC1967 proxy that is
+ * initialized in the same transaction.
+ *
+ * Features:
+ * - Checks the implementation is upgrade safe before deploying it
+ * - Deploys the implementation and the proxy
+ * - Records the implementation's storage layout in contracts/.openzeppelin so
+ *   scripts/upgrade.ts can validate later versions against it
+ * - Initializes the proxy with the same settings as scripts/deploy.ts
+ * - Sets the base URI and contract URI on the proxy
+ * - Prints the proxy address needed by scripts/upgrade.ts
+ * - Logs verification commands for both contracts
+ *
+ * Usage:
+ *   npm run deploy:upgradeable
+ */
+
+import { ethers, upgrades } from "hardhat";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+async function main() {
+  try {
+    console.log("Starting SimpleNFTUpgradeable deployment...");
+
+    const [deployer] = await ethers.getSigners();
+    console.log("Deploying contracts with account:", deployer.address);
+
+    // Verify environment variables
+    const apiUrl = process.env.NEXT_PUBLIC_API_URL;
+    if (!apiUrl) {
+      throw new Error("NEXT_PUBLIC_API_URL environment variable is not set");
+    }
+    const baseUri = `${apiUrl.replace(/\/$/, '')}/api/metadata/`;
+    console.log("Using metadata base URI:", baseUri);
+
+    const maxSupply = BigInt(process.env.MAX_SUPPLY || "10000");
+    console.log("Using max supply:", maxSupply.toString());
+
+    const royaltyBps = BigInt(process.env.ROYALTY_BPS || "500");
+    console.log("Using royalty (bps):", royaltyBps.toString());
+
+    const provenanceHash = process.env.PROVENANCE_HASH || ethers.ZeroHash;
+    if (!ethers.isHexString(provenanceHash, 32)) {
+      throw new Error("PROVENANCE_HASH must be a 32-byte hex string");
+    }
+    console.log("Using provenance hash:", provenanceHash);
+
+    const soulbound = process.env.SOULBOUND === "true";
+    console.log("Soulbound:", soulbound);
+
+    // The implementation's own storage is never used by the proxy
+    const constructorArgs: [string, string, string] = [
+      "SimpleNFT Implementation", // name
+      "SNFT",                     // symbol
+      deployer.address            // initialOwner
+    ];
+    // The constructors only lock the implementation; proxies are set up by `initialize`
+    const validationOptions = { kind: "uups" as const, unsafeAllow: ["constructor" as const], constructorArgs };
+
+    const SimpleNFTUpgradeable = await ethers.getContractFactory("SimpleNFTUpgradeable");
+    await upgrades.validateImplementation(SimpleNFTUpgradeable, validationOptions);
+    const implementation = await SimpleNFTUpgradeable.deploy(...constructorArgs);
+    await implementation.waitForDeployment();
+    const implementationAddress = await implementation.getAddress();
+    console.log("SimpleNFTUpgradeable implementation deployed to:", implementationAddress);
+
+    const initData = SimpleNFTUpgradeable.interface.encodeFunctionData("initialize", [
+      "Nexus NFT Collection", // name
+      "NNFT",                 // symbol
+      deployer.address,       // initialOwner
+      maxSupply,              // maxSupply
+      deployer.address,       // royaltyReceiver
+      royaltyBps,             // royaltyFeeNumerator
+      provenanceHash,         // provenanceHash
+      soulbound               // soulbound
+    ]);
+
+    const ERC1967Proxy = await ethers.getContractFactory("ERC1967Proxy");
+    const proxy = await ERC1967Proxy.deploy(implementationAddress, initData);
+    await proxy.waitForDeployment();
+    const address = await proxy.getAddress();
+    const nft = await ethers.getContractAt("SimpleNFTUpgradeable", address);
+
+    // Register the proxy so upgrades are checked against this storage layout
+    await upgrades.forceImport(address, SimpleNFTUpgradeable, validationOptions);
+    console.log("Storage layout recorded in .openzeppelin");
+
+    const baseUriTx = await nft.setBaseURI(baseUri);
+    await baseUriTx.wait();
+
+    // Collection-level metadata for marketplaces
+    const contractUri = `${apiUrl.replace(/\/$/, '')}/api/collection/${address}`;
+    const contractUriTx = await nft.setContractURI(contractUri);
+    await contractUriTx.wait();
+    console.log("Using contract URI:", contractUri);
+
+    console.log("SimpleNFTUpgradeable proxy deployed to:", address);
+    console.log("Transaction hash:", proxy.deploymentTransaction()?.hash);
+
+    // Log deployment details
+    console.log({
+      proxy: address,
+      implementation: implementationAddress,
+      deployer: deployer.address,
+      network: (await ethers.provider.getNetwork()).name,
+      blockNumber: await ethers.provider.getBlockNumber()
+    });
+
+    console.log("\nAdd this to contracts/.env to upgrade later:");
+    console.log(`PROXY_ADDRESS=${address}`);
+
+    // Log verification commands
+    console.log("\nTo verify on block explorer:");
+    console.log(`npx hardhat verify --network nexus ${implementationAddress} "SimpleNFT Implementation" "SNFT" "${deployer.address}"`);
+    console.log(`npx hardhat verify --network nexus ${address} "${implementationAddress}" "${initData}"`);
+
+    console.log("Deployment completed successfully");
+  } catch (error) {
+    console.error("Deployment failed:", error);
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
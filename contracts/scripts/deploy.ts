@@ -36,20 +36,58 @@ async function main() {
     
     console.log("Using metadata base URI:", baseUri);
 
-    const SimpleNFT = await ethers.getContractFactory("SimpleNFT");
+    // Collection size is fixed at deployment
+    const maxSupply = BigInt(process.env.MAX_SUPPLY || "10000");
+    console.log("Using max supply:", maxSupply.toString());
+
+    // Secondary sale royalty in basis points, paid to the deployer
+    const royaltyBps = BigInt(process.env.ROYALTY_BPS || "500");
+    console.log("Using royalty (bps):", royaltyBps.toString());
+
+    // Optional hash of the final token ordering, committed before any mint
+    const provenanceHash = process.env.PROVENANCE_HASH || ethers.ZeroHash;
+    if (!ethers.isHexString(provenanceHash, 32)) {
+      throw new Error("PROVENANCE_HASH must be a 32-byte hex string");
+    }
+    console.log("Using provenance hash:", provenanceHash);
+
+    // Soulbound collections cannot be transferred after mint
+    const soulbound = process.env.SOULBOUND === "true";
+    console.log("Soulbound:", soulbound);
+
+    // The packed variant has the same ABI, with lazy ownership for cheaper batch mints
+    const contractName = process.env.PACKED_OWNERSHIP === "true" ? "SimpleNFTPacked" : "SimpleNFT";
+    console.log("Using contract:", contractName);
+
+    const contractFactory = await ethers.getContractFactory(contractName);
     console.log("Contract factory initialized");
 
-    const nft = await SimpleNFT.deploy(
+    const deployed = await contractFactory.deploy(
       "Nexus NFT Collection",  // name
       "NNFT",                 // symbol
-      baseUri                 // baseTokenURI
+      deployer.address,       // initialOwner
+      maxSupply,              // maxSupply
+      deployer.address,       // royaltyReceiver
+      royaltyBps,             // royaltyFeeNumerator
+      provenanceHash,         // provenanceHash
+      soulbound               // soulbound
     );
 
-    await nft.waitForDeployment();
-    const address = await nft.getAddress();
+    await deployed.waitForDeployment();
+    const address = await deployed.getAddress();
+    const nft = SimpleNFT__factory.connect(address, deployer);
+
+    const baseUriTx = await nft.setBaseURI(baseUri);
+    await baseUriTx.wait();
+
+    // Collection-level metadata for marketplaces
+    const contractUri = `${apiUrl.replace(/\/$/, '')}/api/collection/${address}`;
+    const contractUriTx = await nft.setContractURI(contractUri);
+    await contractUriTx.wait();
+    console.log("Using contract URI:", contractUri);
 
-    console.log("SimpleNFT deployed to:", address);
-    console.log("Transaction hash:", nft.deploymentTransaction()?.hash);
+    console.log(`${contractName} deployed to:`, address);
+    console.log("Transaction hash:", deployed.deploymentTransaction()?.hash);
 
     // Log deployment details
     console.log({
@@ -61,7 +99,7 @@ async function main() {
 
     // Log verification command
     console.log("\nTo verify on block explorer:");
-    console.log(`npx hardhat verify --network nexus ${address} "Nexus NFT Collection" "NNFT" "${baseUri}"`);
+    console.log(`npx hardhat verify --network nexus ${address} "Nexus NFT Collection" "NNFT" "${deployer.address}" "${maxSupply}" "${deployer.address}" "${royaltyBps}" "${provenanceHash}" "${soulbound}"`);
 
     // Optional: Mint first NFT to deployer
     const mintTx = await nft.mint();
@@ -0,0 +1,125 @@
+/**
+ * Upgrade Script for SimpleNFTUpgradeable
+ *
+ * This script deploys a new implementation and points an existing
+ * SimpleNFTUpgradeable proxy at it. It must be run by the collection owner.
+ *
+ * Features:
+ * - Validates the implementation named by UPGRADE_CONTRACT against the storage
+ *   layout recorded in contracts/.openzeppelin and refuses incompatible upgrades
+ * - Deploys that implementation, which must take the same constructor arguments
+ *   as SimpleNFTUpgradeable, and records its layout for the next upgrade
+ * - Registers a proxy deployed without the layout record when REFERENCE_CONTRACT
+ *   names the contract it currently runs
+ * - Optionally calls a no-argument reinitializer named by UPGRADE_INITIALIZER
+ *   in the same transaction as the upgrade
+ * - Checks ownership before sending and the ERC1967 implementation slot after
+ * - Logs the verification command for the new implementation
+ *
+ * Usage:
+ *   PROXY_ADDRESS=0x... npm run upgrade
+ *   PROXY_ADDRESS=0x... UPGRADE_CONTRACT=SimpleNFTUpgradeableV2 UPGRADE_INITIALIZER=initializeV2 npm run upgrade
+ *   PROXY_ADDRESS=0x... REFERENCE_CONTRACT=SimpleNFTUpgradeable UPGRADE_CONTRACT=SimpleNFTUpgradeableV2 npm run upgrade
+ */
+
+import { ethers, upgrades } from "hardhat";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+// keccak256("eip1967.proxy.implementation") - 1
+const IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+async function main() {
+  try {
+    console.log("Starting SimpleNFTUpgradeable upgrade...");
+
+    const [deployer] = await ethers.getSigners();
+    console.log("Upgrading with account:", deployer.address);
+
+    // Verify environment variables
+    const proxyAddress = process.env.PROXY_ADDRESS;
+    if (!proxyAddress || !ethers.isAddress(proxyAddress)) {
+      throw new Error("PROXY_ADDRESS environment variable must be set to the proxy address");
+    }
+    const contractName = process.env.UPGRADE_CONTRACT || "SimpleNFTUpgradeable";
+    const initializer = process.env.UPGRADE_INITIALIZER;
+    const referenceContract = process.env.REFERENCE_CONTRACT;
+    console.log("Upgrading proxy:", proxyAddress);
+    console.log("New implementation contract:", contractName);
+
+    // Only the owner can authorize upgrades
+    const nft = await ethers.getContractAt("SimpleNFTUpgradeable", proxyAddress);
+    const owner = await nft.owner();
+    if (owner !== deployer.address) {
+      throw new Error(`Only the owner (${owner}) can upgrade this collection`);
+    }
+    const previousImplementation = ethers.getAddress(
+      ethers.dataSlice(await ethers.provider.getStorage(proxyAddress, IMPLEMENTATION_SLOT), 12)
+    );
+    console.log("Current implementation:", previousImplementation);
+
+    const constructorArgs = [
+      "SimpleNFT Implementation", // name
+      "SNFT",                     // symbol
+      deployer.address            // initialOwner
+    ];
+    // The constructors only lock the implementation; proxies are set up by `initialize`
+    const validationOptions = { kind: "uups" as const, unsafeAllow: ["constructor" as const], constructorArgs };
+
+    if (referenceContract) {
+      console.log("Registering current implementation as:", referenceContract);
+      await upgrades.forceImport(proxyAddress, await ethers.getContractFactory(referenceContract), validationOptions);
+    }
+
+    // Fails if the new version would move or drop state the proxy already holds
+    const Implementation = await ethers.getContractFactory(contractName);
+    await upgrades.validateUpgrade(proxyAddress, Implementation, validationOptions);
+    console.log("Storage layout is compatible with the current implementation");
+
+    const implementationAddress = (await upgrades.prepareUpgrade(proxyAddress, Implementation, validationOptions)) as string;
+    console.log(`${contractName} implementation deployed to:`, implementationAddress);
+
+    const callData = initializer ? Implementation.interface.encodeFunctionData(initializer, []) : "0x";
+    if (initializer) {
+      console.log("Calling initializer:", initializer);
+    }
+
+    const tx = await nft.upgradeToAndCall(implementationAddress, callData);
+    await tx.wait();
+    console.log("Transaction hash:", tx.hash);
+
+    const currentImplementation = ethers.getAddress(
+      ethers.dataSlice(await ethers.provider.getStorage(proxyAddress, IMPLEMENTATION_SLOT), 12)
+    );
+    if (currentImplementation !== implementationAddress) {
+      throw new Error(`Proxy still points at ${currentImplementation}`);
+    }
+
+    // Log upgrade details
+    console.log({
+      proxy: proxyAddress,
+      previousImplementation,
+      implementation: implementationAddress,
+      initializedVersion: (await nft.initializedVersion()).toString(),
+      network: (await ethers.provider.getNetwork()).name,
+      blockNumber: await ethers.provider.getBlockNumber()
+    });
+
+    // Log verification command
+    console.log("\nTo verify on block explorer:");
+    console.log(`npx hardhat verify --network nexus ${implementationAddress} "SimpleNFT Implementation" "SNFT" "${deployer.address}"`);
+
+    console.log("Upgrade completed successfully");
+  } catch (error) {
+    console.error("Upgrade failed:", error);
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -1,7 +1,9 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
 import { SimpleNFT } from "../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { buildAllowlist, parseAllowlistCsv } from "../scripts/build-allowlist";
 
 describe("SimpleNFT", function () {
   let nft: SimpleNFT;
@@ -12,6 +14,10 @@ describe("SimpleNFT", function () {
   const SYMBOL = "TNFT";
   const BASE_URI = "https://api.example.com/metadata/";
   const TOKEN_ID_ONE = BigInt(1);
+  const MAX_SUPPLY = BigInt(100);
+  const MINT_PRICE = ethers.parseEther("0.01");
+  const ROYALTY_BPS = BigInt(500);
+  const SALE_PRICE = ethers.parseEther("1");
 
   async function getTokenIdFromTx(tx: any) {
     const receipt = await tx.wait();
@@ -31,7 +37,12 @@ describe("SimpleNFT", function () {
     nft = await SimpleNFTFactory.deploy(
       NAME,
       SYMBOL,
-      owner.address
+      owner.address,
+      MAX_SUPPLY,
+      owner.address,
+      ROYALTY_BPS,
+      ethers.ZeroHash,
+      false
     );
     await nft.waitForDeployment();
 
@@ -49,6 +60,13 @@ describe("SimpleNFT", function () {
       expect(await nft.owner()).to.equal(owner.address);
     });
 
+    it("Should not allow initializing a directly deployed contract", async function () {
+      await expect(
+        nft.initialize(NAME, SYMBOL, addr1.address, MAX_SUPPLY, addr1.address, ROYALTY_BPS, ethers.ZeroHash, false)
+      )
+        .to.be.revertedWithCustomError(nft, "InvalidInitialization");
+    });
+
     it("Should set the correct base URI", async function () {
       const tx = await nft.mint();
       const tokenId = await getTokenIdFromTx(tx);
@@ -85,46 +103,1537 @@ describe("SimpleNFT", function () {
     });
   });
 
-  describe("Base URI Management", function () {
-    it("Should allow owner to update base URI", async function () {
-      const newBaseURI = "https://new.example.com/metadata/";
-      const tx = await nft.mint();
-      const tokenId = await getTokenIdFromTx(tx);
-      await nft.setBaseURI(newBaseURI);
-      expect(await nft.tokenURI(tokenId)).to.equal(newBaseURI + tokenId.toString());
+  describe("Max Supply", function () {
+    it("Should set the max supply", async function () {
+      expect(await nft.maxSupply()).to.equal(MAX_SUPPLY);
+      expect(await nft.remainingSupply()).to.equal(MAX_SUPPLY);
     });
 
-    it("Should not allow non-owner to update base URI", async function () {
-      await expect(nft.connect(addr1).setBaseURI("new-uri/"))
+    it("Should decrease remaining supply on mint", async function () {
+      await nft.mint();
+      expect(await nft.remainingSupply()).to.equal(MAX_SUPPLY - TOKEN_ID_ONE);
+    });
+
+    it("Should not allow minting past the max supply", async function () {
+      const SimpleNFTFactory = await ethers.getContractFactory("SimpleNFT");
+      const capped = await SimpleNFTFactory.deploy(NAME, SYMBOL, owner.address, 2, owner.address, 0, ethers.ZeroHash, false);
+      await capped.mint();
+      await capped.mint();
+      expect(await capped.remainingSupply()).to.equal(BigInt(0));
+      await expect(capped.mint())
+        .to.be.revertedWithCustomError(capped, "MaxSupplyReached")
+        .withArgs(2);
+    });
+
+    it("Should not allow deploying with a zero max supply", async function () {
+      const SimpleNFTFactory = await ethers.getContractFactory("SimpleNFT");
+      await expect(SimpleNFTFactory.deploy(NAME, SYMBOL, owner.address, 0, owner.address, 0, ethers.ZeroHash, false))
+        .to.be.revertedWithCustomError(nft, "InvalidMaxSupply");
+    });
+  });
+
+  describe("Paid Minting", function () {
+    it("Should start with a free mint", async function () {
+      expect(await nft.mintPrice()).to.equal(BigInt(0));
+    });
+
+    it("Should allow owner to set the mint price", async function () {
+      await expect(nft.setMintPrice(MINT_PRICE))
+        .to.emit(nft, "MintPriceUpdated")
+        .withArgs(0, MINT_PRICE);
+      expect(await nft.mintPrice()).to.equal(MINT_PRICE);
+    });
+
+    it("Should not allow non-owner to set the mint price", async function () {
+      await expect(nft.connect(addr1).setMintPrice(MINT_PRICE))
         .to.be.revertedWithCustomError(nft, "OwnableUnauthorizedAccount")
         .withArgs(addr1.address);
     });
 
-    it("Should emit BatchMetadataUpdate on base URI change", async function () {
+    it("Should mint when the exact price is paid", async function () {
+      await nft.setMintPrice(MINT_PRICE);
+      await expect(nft.connect(addr1).mint({ value: MINT_PRICE }))
+        .to.changeEtherBalances([addr1, nft], [-MINT_PRICE, MINT_PRICE]);
+      expect(await nft.ownerOf(TOKEN_ID_ONE)).to.equal(addr1.address);
+    });
+
+    it("Should reject an incorrect payment", async function () {
+      await nft.setMintPrice(MINT_PRICE);
+      await expect(nft.connect(addr1).mint())
+        .to.be.revertedWithCustomError(nft, "IncorrectPayment")
+        .withArgs(MINT_PRICE, 0);
+      await expect(nft.connect(addr1).mint({ value: MINT_PRICE * BigInt(2) }))
+        .to.be.revertedWithCustomError(nft, "IncorrectPayment")
+        .withArgs(MINT_PRICE, MINT_PRICE * BigInt(2));
+    });
+  });
+
+  describe("Per-Wallet Limits", function () {
+    const MAX_PER_WALLET = BigInt(3);
+
+    beforeEach(async function () {
+      await nft.setMaxPerWallet(MAX_PER_WALLET);
+    });
+
+    it("Should emit MaxPerWalletUpdated when the limit changes", async function () {
+      await expect(nft.setMaxPerWallet(5))
+        .to.emit(nft, "MaxPerWalletUpdated")
+        .withArgs(5);
+      expect(await nft.maxPerWallet()).to.equal(BigInt(5));
+    });
+
+    it("Should count single and batch mints towards the limit", async function () {
+      await nft.connect(addr1).mint();
+      await nft.connect(addr1).mintBatch(2);
+      expect(await nft.walletMints(addr1.address)).to.equal(MAX_PER_WALLET);
+
+      await expect(nft.connect(addr1).mint())
+        .to.be.revertedWithCustomError(nft, "MaxPerWalletExceeded")
+        .withArgs(addr1.address, MAX_PER_WALLET);
+    });
+
+    it("Should reject a batch that would exceed the limit", async function () {
+      await expect(nft.connect(addr1).mintBatch(4))
+        .to.be.revertedWithCustomError(nft, "MaxPerWalletExceeded")
+        .withArgs(addr1.address, MAX_PER_WALLET);
+    });
+
+    it("Should count allowlist mints towards the limit", async function () {
+      const allowlist = buildAllowlist([addr1.address]);
+      await nft.setMerkleRoot(allowlist.root);
+      await nft.connect(addr1).mintBatch(3);
+
+      await expect(nft.connect(addr1).allowlistMint(allowlist.proofs[addr1.address]))
+        .to.be.revertedWithCustomError(nft, "MaxPerWalletExceeded")
+        .withArgs(addr1.address, MAX_PER_WALLET);
+    });
+
+    it("Should not count airdrops towards the limit", async function () {
+      await nft.airdrop([addr1.address], [5]);
+      expect(await nft.walletMints(addr1.address)).to.equal(BigInt(0));
+      await nft.connect(addr1).mintBatch(3);
+    });
+
+    it("Should report how many more tokens a wallet can mint", async function () {
+      expect(await nft.remainingMints(addr1.address)).to.equal(MAX_PER_WALLET);
+      await nft.connect(addr1).mint();
+      expect(await nft.remainingMints(addr1.address)).to.equal(BigInt(2));
+
+      // Lowering the limit below what was minted leaves nothing to mint
+      await nft.setMaxPerWallet(1);
+      expect(await nft.remainingMints(addr1.address)).to.equal(BigInt(0));
+    });
+
+    it("Should cap remaining mints by the remaining supply", async function () {
+      await nft.airdrop([owner.address], [MAX_SUPPLY - BigInt(1)]);
+      expect(await nft.remainingMints(addr1.address)).to.equal(BigInt(1));
+
+      await nft.setMaxPerWallet(0);
+      expect(await nft.remainingMints(addr1.address)).to.equal(BigInt(1));
+    });
+
+    it("Should not allow non-owner to set the limit", async function () {
+      await expect(nft.connect(addr1).setMaxPerWallet(10))
+        .to.be.revertedWithCustomError(nft, "OwnableUnauthorizedAccount")
+        .withArgs(addr1.address);
+    });
+  });
+
+  describe("Withdrawals", function () {
+    beforeEach(async function () {
+      await nft.setMintPrice(MINT_PRICE);
+      await nft.connect(addr1).mint({ value: MINT_PRICE });
+      await nft.connect(addr2).mint({ value: MINT_PRICE });
+    });
+
+    it("Should allow owner to withdraw the collected proceeds", async function () {
+      const balance = MINT_PRICE * BigInt(2);
+      await expect(nft.withdraw(addr2.address))
+        .to.changeEtherBalances([nft, addr2], [-balance, balance]);
+    });
+
+    it("Should emit Withdrawn on withdrawal", async function () {
+      await expect(nft.withdraw(owner.address))
+        .to.emit(nft, "Withdrawn")
+        .withArgs(owner.address, MINT_PRICE * BigInt(2));
+    });
+
+    it("Should not allow non-owner to withdraw", async function () {
+      await expect(nft.connect(addr1).withdraw(addr1.address))
+        .to.be.revertedWithCustomError(nft, "OwnableUnauthorizedAccount")
+        .withArgs(addr1.address);
+    });
+
+    it("Should not allow withdrawing to the zero address", async function () {
+      await expect(nft.withdraw(ethers.ZeroAddress))
+        .to.be.revertedWithCustomError(nft, "InvalidWithdrawalRecipient");
+    });
+  });
+
+  describe("Mint Mode", function () {
+    const MintMode = { Closed: 0, OwnerOnly: 1, Public: 2 };
+
+    it("Should start in public mode", async function () {
+      expect(await nft.mintMode()).to.equal(MintMode.Public);
+    });
+
+    it("Should allow owner to change the mint mode", async function () {
+      await expect(nft.setMintMode(MintMode.OwnerOnly))
+        .to.emit(nft, "MintModeUpdated")
+        .withArgs(MintMode.OwnerOnly);
+      expect(await nft.mintMode()).to.equal(MintMode.OwnerOnly);
+    });
+
+    it("Should not allow non-owner to change the mint mode", async function () {
+      await expect(nft.connect(addr1).setMintMode(MintMode.Closed))
+        .to.be.revertedWithCustomError(nft, "OwnableUnauthorizedAccount")
+        .withArgs(addr1.address);
+    });
+
+    it("Should only allow the owner to mint in owner-only mode", async function () {
+      await nft.setMintMode(MintMode.OwnerOnly);
+      await expect(nft.connect(addr1).mint())
+        .to.be.revertedWithCustomError(nft, "MintNotAllowed")
+        .withArgs(MintMode.OwnerOnly);
+      await expect(nft.connect(addr1).mintBatch(2))
+        .to.be.revertedWithCustomError(nft, "MintNotAllowed")
+        .withArgs(MintMode.OwnerOnly);
       await nft.mint();
+      await nft.mintBatch(2);
+      expect(await nft.balanceOf(owner.address)).to.equal(BigInt(3));
+    });
+
+    it("Should not allow anyone to mint in closed mode", async function () {
+      await nft.setMintMode(MintMode.Closed);
+      await expect(nft.mint())
+        .to.be.revertedWithCustomError(nft, "MintNotAllowed")
+        .withArgs(MintMode.Closed);
+      await expect(nft.connect(addr1).mintBatch(2))
+        .to.be.revertedWithCustomError(nft, "MintNotAllowed")
+        .withArgs(MintMode.Closed);
+    });
+
+    it("Should still allow owner airdrops in closed mode", async function () {
+      await nft.setMintMode(MintMode.Closed);
+      await nft.airdrop([addr1.address], [1]);
+      expect(await nft.ownerOf(TOKEN_ID_ONE)).to.equal(addr1.address);
+    });
+
+    it("Should still allow allowlist mints in closed mode", async function () {
+      const allowlist = buildAllowlist([addr1.address, addr2.address]);
+      await nft.setMerkleRoot(allowlist.root);
+      await nft.setMintMode(MintMode.Closed);
+      await nft.connect(addr1).allowlistMint(allowlist.proofs[addr1.address]);
+      expect(await nft.ownerOf(TOKEN_ID_ONE)).to.equal(addr1.address);
+    });
+  });
+
+  describe("Sale Window", function () {
+    let start: bigint;
+    let end: bigint;
+
+    beforeEach(async function () {
+      start = BigInt(await time.latest()) + BigInt(3600);
+      end = start + BigInt(86400);
+    });
+
+    it("Should emit SaleWindowUpdated when the window changes", async function () {
+      await expect(nft.setSaleWindow(start, end))
+        .to.emit(nft, "SaleWindowUpdated")
+        .withArgs(start, end);
+      expect(await nft.saleStart()).to.equal(start);
+      expect(await nft.saleEnd()).to.equal(end);
+    });
+
+    it("Should be open by default", async function () {
+      expect(await nft.isSaleActive()).to.be.true;
+      await nft.connect(addr1).mint();
+    });
+
+    it("Should reject mints before the sale starts", async function () {
+      await nft.setSaleWindow(start, end);
+      expect(await nft.isSaleActive()).to.be.false;
+
+      await expect(nft.connect(addr1).mint())
+        .to.be.revertedWithCustomError(nft, "SaleNotStarted")
+        .withArgs(start);
+      await expect(nft.connect(addr1).mintBatch(2))
+        .to.be.revertedWithCustomError(nft, "SaleNotStarted")
+        .withArgs(start);
+    });
+
+    it("Should allow mints once the sale starts", async function () {
+      await nft.setSaleWindow(start, end);
+      await time.increaseTo(start);
+
+      expect(await nft.isSaleActive()).to.be.true;
+      await nft.connect(addr1).mint();
+      expect(await nft.ownerOf(TOKEN_ID_ONE)).to.equal(addr1.address);
+    });
+
+    it("Should reject mints after the sale ends", async function () {
+      await nft.setSaleWindow(start, end);
+      await time.increaseTo(end + BigInt(1));
+
+      expect(await nft.isSaleActive()).to.be.false;
+      await expect(nft.connect(addr1).mint())
+        .to.be.revertedWithCustomError(nft, "SaleEnded")
+        .withArgs(end);
+    });
+
+    it("Should never close a sale without an end time", async function () {
+      await nft.setSaleWindow(start, 0);
+      await time.increaseTo(start + BigInt(365 * 86400));
+      await nft.connect(addr1).mint();
+    });
+
+    it("Should still allow airdrops and allowlist mints outside the window", async function () {
+      const allowlist = buildAllowlist([addr1.address]);
+      await nft.setMerkleRoot(allowlist.root);
+      await nft.setSaleWindow(start, end);
+
+      await nft.airdrop([addr2.address], [1]);
+      await nft.connect(addr1).allowlistMint(allowlist.proofs[addr1.address]);
+      expect(await nft.balanceOf(addr1.address)).to.equal(BigInt(1));
+    });
+
+    it("Should reject a window that ends before it starts", async function () {
+      await expect(nft.setSaleWindow(end, start))
+        .to.be.revertedWithCustomError(nft, "InvalidSaleWindow")
+        .withArgs(end, start);
+    });
+
+    it("Should not allow non-owner to set the sale window", async function () {
+      await expect(nft.connect(addr1).setSaleWindow(start, end))
+        .to.be.revertedWithCustomError(nft, "OwnableUnauthorizedAccount")
+        .withArgs(addr1.address);
+    });
+  });
+
+  describe("Batch Minting", function () {
+    it("Should mint a batch of sequential tokens to the caller", async function () {
+      await nft.connect(addr1).mintBatch(3);
+      expect(await nft.balanceOf(addr1.address)).to.equal(BigInt(3));
+      expect(await nft.ownerOf(3)).to.equal(addr1.address);
+      expect(await nft.totalSupply()).to.equal(BigInt(3));
+    });
+
+    it("Should emit a single BatchMetadataUpdate over the new range", async function () {
       await nft.mint();
-      await expect(nft.setBaseURI("new-uri/"))
-        .to.emit(nft, "BatchMetadataUpdate")
-        .withArgs(TOKEN_ID_ONE, ethers.MaxUint256);
+      const tx = nft.mintBatch(3);
+      await expect(tx).to.emit(nft, "BatchMetadataUpdate").withArgs(2, 4);
+      await expect(tx).not.to.emit(nft, "MetadataUpdate");
+    });
+
+    it("Should charge the mint price per token", async function () {
+      await nft.setMintPrice(MINT_PRICE);
+      await expect(nft.connect(addr1).mintBatch(3, { value: MINT_PRICE }))
+        .to.be.revertedWithCustomError(nft, "IncorrectPayment")
+        .withArgs(MINT_PRICE * BigInt(3), MINT_PRICE);
+      await expect(nft.connect(addr1).mintBatch(3, { value: MINT_PRICE * BigInt(3) }))
+        .to.changeEtherBalance(nft, MINT_PRICE * BigInt(3));
+    });
+
+    it("Should not allow a zero quantity", async function () {
+      await expect(nft.mintBatch(0))
+        .to.be.revertedWithCustomError(nft, "InvalidQuantity");
+    });
+
+    it("Should not allow a batch past the max supply", async function () {
+      await expect(nft.mintBatch(MAX_SUPPLY + TOKEN_ID_ONE))
+        .to.be.revertedWithCustomError(nft, "MaxSupplyReached")
+        .withArgs(MAX_SUPPLY);
+      await nft.mintBatch(MAX_SUPPLY);
+      expect(await nft.remainingSupply()).to.equal(BigInt(0));
     });
   });
 
-  describe("Metadata Freezing", function () {
-    it("Should allow owner to freeze metadata", async function () {
-      await nft.freezeMetadata();
-      expect(await nft.isMetadataFrozen()).to.be.true;
+  describe("Airdrops", function () {
+    it("Should mint the requested quantity to each recipient", async function () {
+      await nft.airdrop([addr1.address, addr2.address], [2, 3]);
+      expect(await nft.balanceOf(addr1.address)).to.equal(BigInt(2));
+      expect(await nft.balanceOf(addr2.address)).to.equal(BigInt(3));
+      expect(await nft.ownerOf(2)).to.equal(addr1.address);
+      expect(await nft.ownerOf(3)).to.equal(addr2.address);
     });
 
-    it("Should not allow non-owner to freeze metadata", async function () {
-      await expect(nft.connect(addr1).freezeMetadata())
+    it("Should emit a single BatchMetadataUpdate over the airdropped range", async function () {
+      await nft.mint();
+      const tx = nft.airdrop([addr1.address, addr2.address], [2, 3]);
+      await expect(tx).to.emit(nft, "BatchMetadataUpdate").withArgs(2, 6);
+      await expect(tx).not.to.emit(nft, "MetadataUpdate");
+    });
+
+    it("Should not allow accounts without the minter role to airdrop", async function () {
+      await expect(nft.connect(addr1).airdrop([addr1.address], [1]))
+        .to.be.revertedWithCustomError(nft, "AccessControlUnauthorizedAccount")
+        .withArgs(addr1.address, await nft.MINTER_ROLE());
+    });
+
+    it("Should reject mismatched recipients and quantities", async function () {
+      await expect(nft.airdrop([addr1.address, addr2.address], [1]))
+        .to.be.revertedWithCustomError(nft, "AirdropLengthMismatch")
+        .withArgs(2, 1);
+    });
+
+    it("Should reject empty airdrops and zero quantities", async function () {
+      await expect(nft.airdrop([], []))
+        .to.be.revertedWithCustomError(nft, "InvalidQuantity");
+      await expect(nft.airdrop([addr1.address], [0]))
+        .to.be.revertedWithCustomError(nft, "InvalidQuantity");
+    });
+
+    it("Should not allow an airdrop past the max supply", async function () {
+      await expect(nft.airdrop([addr1.address, addr2.address], [MAX_SUPPLY, 1]))
+        .to.be.revertedWithCustomError(nft, "MaxSupplyReached")
+        .withArgs(MAX_SUPPLY);
+    });
+  });
+
+  describe("Allowlist Minting", function () {
+    let proofs: Record<string, string[]>;
+
+    beforeEach(async function () {
+      const allowlist = buildAllowlist([owner.address, addr1.address]);
+      proofs = allowlist.proofs;
+      await nft.setMerkleRoot(allowlist.root);
+    });
+
+    it("Should parse addresses from a CSV with a header", async function () {
+      const csv = `address\n${addr1.address.toLowerCase()}\n\n${addr1.address},note\n${addr2.address}\n`;
+      expect(parseAllowlistCsv(csv)).to.deep.equal([addr1.address, addr2.address]);
+    });
+
+    it("Should allow an allowlisted address to mint once", async function () {
+      await nft.connect(addr1).allowlistMint(proofs[addr1.address]);
+      expect(await nft.ownerOf(TOKEN_ID_ONE)).to.equal(addr1.address);
+      expect(await nft.allowlistClaimed(addr1.address)).to.be.true;
+
+      await expect(nft.connect(addr1).allowlistMint(proofs[addr1.address]))
+        .to.be.revertedWithCustomError(nft, "AllowlistAlreadyClaimed")
+        .withArgs(addr1.address);
+    });
+
+    it("Should reject a proof for a different address", async function () {
+      await expect(nft.connect(addr2).allowlistMint(proofs[addr1.address]))
+        .to.be.revertedWithCustomError(nft, "InvalidMerkleProof");
+    });
+
+    it("Should charge the mint price", async function () {
+      await nft.setMintPrice(MINT_PRICE);
+      await expect(nft.connect(addr1).allowlistMint(proofs[addr1.address]))
+        .to.be.revertedWithCustomError(nft, "IncorrectPayment")
+        .withArgs(MINT_PRICE, 0);
+      await nft.connect(addr1).allowlistMint(proofs[addr1.address], { value: MINT_PRICE });
+      expect(await nft.balanceOf(addr1.address)).to.equal(TOKEN_ID_ONE);
+    });
+
+    it("Should reject allowlist mints when no root is set", async function () {
+      await expect(nft.setMerkleRoot(ethers.ZeroHash))
+        .to.emit(nft, "MerkleRootUpdated")
+        .withArgs(ethers.ZeroHash);
+      await expect(nft.connect(addr1).allowlistMint(proofs[addr1.address]))
+        .to.be.revertedWithCustomError(nft, "AllowlistNotActive");
+    });
+
+    it("Should not allow non-owner to set the Merkle root", async function () {
+      await expect(nft.connect(addr1).setMerkleRoot(ethers.ZeroHash))
         .to.be.revertedWithCustomError(nft, "OwnableUnauthorizedAccount")
         .withArgs(addr1.address);
     });
+  });
 
-    it("Should not allow base URI update after freezing", async function () {
+  describe("Mint Vouchers", function () {
+    const VOUCHER_URI = "https://example.com/lazy.json";
+    const VOUCHER_TYPES = {
+      MintVoucher: [
+        { name: "recipient", type: "address" },
+        { name: "uri", type: "string" },
+        { name: "price", type: "uint256" },
+        { name: "expiry", type: "uint256" },
+        { name: "nonce", type: "uint256" }
+      ]
+    };
+
+    async function createVoucher(signer: SignerWithAddress, overrides: Record<string, any> = {}) {
+      const voucher = {
+        recipient: addr1.address,
+        uri: VOUCHER_URI,
+        price: MINT_PRICE,
+        expiry: BigInt(await time.latest()) + BigInt(3600),
+        nonce: BigInt(1),
+        ...overrides
+      };
+      const domain = {
+        name: "SimpleNFT",
+        version: "1",
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: await nft.getAddress()
+      };
+      const signature = await signer.signTypedData(domain, VOUCHER_TYPES, voucher);
+      return { voucher, signature };
+    }
+
+    it("Should mint an owner-signed voucher to its recipient", async function () {
+      const { voucher, signature } = await createVoucher(owner);
+
+      await expect(nft.connect(addr2).redeem(voucher, signature, { value: MINT_PRICE }))
+        .to.emit(nft, "VoucherRedeemed")
+        .withArgs(voucher.nonce, TOKEN_ID_ONE, addr1.address);
+      expect(await nft.ownerOf(TOKEN_ID_ONE)).to.equal(addr1.address);
+      expect(await nft.tokenURI(TOKEN_ID_ONE)).to.equal(VOUCHER_URI);
+      expect(await nft.voucherRedeemed(voucher.nonce)).to.be.true;
+    });
+
+    it("Should fall back to the base URI when the voucher has no URI", async function () {
+      const { voucher, signature } = await createVoucher(owner, { uri: "" });
+      await nft.redeem(voucher, signature, { value: MINT_PRICE });
+      expect(await nft.tokenURI(TOKEN_ID_ONE)).to.equal(BASE_URI + "1");
+    });
+
+    it("Should accept vouchers from accounts with the voucher signer role", async function () {
+      await nft.grantRole(await nft.VOUCHER_SIGNER_ROLE(), addr2.address);
+
+      const { voucher, signature } = await createVoucher(addr2);
+      await nft.redeem(voucher, signature, { value: MINT_PRICE });
+      expect(await nft.ownerOf(TOKEN_ID_ONE)).to.equal(addr1.address);
+    });
+
+    it("Should reject vouchers once the voucher signer role is revoked", async function () {
+      const voucherSignerRole = await nft.VOUCHER_SIGNER_ROLE();
+      await nft.grantRole(voucherSignerRole, addr2.address);
+      const { voucher, signature } = await createVoucher(addr2);
+      await nft.revokeRole(voucherSignerRole, addr2.address);
+
+      await expect(nft.redeem(voucher, signature, { value: MINT_PRICE }))
+        .to.be.revertedWithCustomError(nft, "InvalidVoucherSignature")
+        .withArgs(addr2.address);
+    });
+
+    it("Should reject vouchers from other signers", async function () {
+      const { voucher, signature } = await createVoucher(addr2);
+      await expect(nft.redeem(voucher, signature, { value: MINT_PRICE }))
+        .to.be.revertedWithCustomError(nft, "InvalidVoucherSignature")
+        .withArgs(addr2.address);
+    });
+
+    it("Should reject a voucher whose fields were changed", async function () {
+      const { voucher, signature } = await createVoucher(owner);
+      await expect(nft.redeem({ ...voucher, recipient: addr2.address }, signature, { value: MINT_PRICE }))
+        .to.be.revertedWithCustomError(nft, "InvalidVoucherSignature");
+    });
+
+    it("Should prevent a voucher from being redeemed twice", async function () {
+      const { voucher, signature } = await createVoucher(owner);
+      await nft.redeem(voucher, signature, { value: MINT_PRICE });
+
+      await expect(nft.redeem(voucher, signature, { value: MINT_PRICE }))
+        .to.be.revertedWithCustomError(nft, "VoucherAlreadyRedeemed")
+        .withArgs(voucher.nonce);
+    });
+
+    it("Should reject expired vouchers", async function () {
+      const { voucher, signature } = await createVoucher(owner);
+      await time.increaseTo(voucher.expiry + BigInt(1));
+
+      await expect(nft.redeem(voucher, signature, { value: MINT_PRICE }))
+        .to.be.revertedWithCustomError(nft, "VoucherExpired")
+        .withArgs(voucher.expiry);
+    });
+
+    it("Should require the voucher price", async function () {
+      const { voucher, signature } = await createVoucher(owner);
+      await expect(nft.redeem(voucher, signature))
+        .to.be.revertedWithCustomError(nft, "IncorrectPayment")
+        .withArgs(MINT_PRICE, 0);
+    });
+
+    it("Should not allow non-admins to grant the voucher signer role", async function () {
+      await expect(nft.connect(addr1).grantRole(await nft.VOUCHER_SIGNER_ROLE(), addr1.address))
+        .to.be.revertedWithCustomError(nft, "AccessControlUnauthorizedAccount")
+        .withArgs(addr1.address, await nft.DEFAULT_ADMIN_ROLE());
+    });
+  });
+
+  describe("Royalties", function () {
+    it("Should support the ERC2981 interface", async function () {
+      expect(await nft.supportsInterface("0x2a55205a")).to.be.true;
+    });
+
+    it("Should set the default royalty in the constructor", async function () {
+      const [receiver, amount] = await nft.royaltyInfo(TOKEN_ID_ONE, SALE_PRICE);
+      expect(receiver).to.equal(owner.address);
+      expect(amount).to.equal(SALE_PRICE * ROYALTY_BPS / BigInt(10000));
+    });
+
+    it("Should deploy without a royalty when the fee is zero", async function () {
+      const SimpleNFTFactory = await ethers.getContractFactory("SimpleNFT");
+      const noRoyalty = await SimpleNFTFactory.deploy(
+        NAME,
+        SYMBOL,
+        owner.address,
+        MAX_SUPPLY,
+        ethers.ZeroAddress,
+        0,
+        ethers.ZeroHash,
+        false
+      );
+      const [receiver, amount] = await noRoyalty.royaltyInfo(TOKEN_ID_ONE, SALE_PRICE);
+      expect(receiver).to.equal(ethers.ZeroAddress);
+      expect(amount).to.equal(BigInt(0));
+    });
+
+    it("Should allow owner to update the default royalty", async function () {
+      await expect(nft.setDefaultRoyalty(addr1.address, 1000))
+        .to.emit(nft, "DefaultRoyaltyUpdated")
+        .withArgs(addr1.address, 1000);
+      const [receiver, amount] = await nft.royaltyInfo(TOKEN_ID_ONE, SALE_PRICE);
+      expect(receiver).to.equal(addr1.address);
+      expect(amount).to.equal(SALE_PRICE / BigInt(10));
+    });
+
+    it("Should let a token override take precedence until reset", async function () {
+      await expect(nft.setTokenRoyalty(TOKEN_ID_ONE, addr2.address, 250))
+        .to.emit(nft, "TokenRoyaltyUpdated")
+        .withArgs(TOKEN_ID_ONE, addr2.address, 250);
+      expect((await nft.royaltyInfo(TOKEN_ID_ONE, SALE_PRICE))[0]).to.equal(addr2.address);
+      expect((await nft.royaltyInfo(2, SALE_PRICE))[0]).to.equal(owner.address);
+
+      await nft.resetTokenRoyalty(TOKEN_ID_ONE);
+      expect((await nft.royaltyInfo(TOKEN_ID_ONE, SALE_PRICE))[0]).to.equal(owner.address);
+    });
+
+    it("Should allow owner to remove the default royalty", async function () {
+      await nft.deleteDefaultRoyalty();
+      expect((await nft.royaltyInfo(TOKEN_ID_ONE, SALE_PRICE))[1]).to.equal(BigInt(0));
+    });
+
+    it("Should not allow non-owner to change royalties", async function () {
+      await expect(nft.connect(addr1).setDefaultRoyalty(addr1.address, 1000))
+        .to.be.revertedWithCustomError(nft, "OwnableUnauthorizedAccount")
+        .withArgs(addr1.address);
+      await expect(nft.connect(addr1).setTokenRoyalty(TOKEN_ID_ONE, addr1.address, 1000))
+        .to.be.revertedWithCustomError(nft, "OwnableUnauthorizedAccount")
+        .withArgs(addr1.address);
+    });
+
+    it("Should not allow royalty changes after freezing", async function () {
       await nft.freezeMetadata();
-      await expect(nft.setBaseURI("new-uri/"))
+      await expect(nft.setDefaultRoyalty(addr1.address, 1000))
         .to.be.revertedWith("Metadata is frozen");
+      await expect(nft.deleteDefaultRoyalty())
+        .to.be.revertedWith("Metadata is frozen");
+      await expect(nft.setTokenRoyalty(TOKEN_ID_ONE, addr1.address, 1000))
+        .to.be.revertedWith("Metadata is frozen");
+      await expect(nft.resetTokenRoyalty(TOKEN_ID_ONE))
+        .to.be.revertedWith("Metadata is frozen");
+    });
+  });
+
+  describe("Pausing", function () {
+    beforeEach(async function () {
+      await nft.mint();
+    });
+
+    it("Should emit events when paused and unpaused", async function () {
+      await expect(nft.pause())
+        .to.emit(nft, "Paused")
+        .withArgs(owner.address);
+      expect(await nft.paused()).to.be.true;
+
+      await expect(nft.unpause())
+        .to.emit(nft, "Unpaused")
+        .withArgs(owner.address);
+      expect(await nft.paused()).to.be.false;
+    });
+
+    it("Should block minting while paused", async function () {
+      await nft.pause();
+      await expect(nft.mint()).to.be.revertedWithCustomError(nft, "EnforcedPause");
+      await expect(nft.mintBatch(2)).to.be.revertedWithCustomError(nft, "EnforcedPause");
+      await expect(nft.airdrop([addr1.address], [1])).to.be.revertedWithCustomError(nft, "EnforcedPause");
+    });
+
+    it("Should block transfers and burns while paused", async function () {
+      await nft.pause();
+      await expect(nft.transferFrom(owner.address, addr1.address, TOKEN_ID_ONE))
+        .to.be.revertedWithCustomError(nft, "EnforcedPause");
+      await expect(nft.burn(TOKEN_ID_ONE))
+        .to.be.revertedWithCustomError(nft, "EnforcedPause");
+    });
+
+    it("Should allow transfers again after unpausing", async function () {
+      await nft.pause();
+      await nft.unpause();
+      await nft.transferFrom(owner.address, addr1.address, TOKEN_ID_ONE);
+      expect(await nft.ownerOf(TOKEN_ID_ONE)).to.equal(addr1.address);
+    });
+
+    it("Should not allow non-owner to pause or unpause", async function () {
+      await expect(nft.connect(addr1).pause())
+        .to.be.revertedWithCustomError(nft, "OwnableUnauthorizedAccount")
+        .withArgs(addr1.address);
+
+      await nft.pause();
+      await expect(nft.connect(addr1).unpause())
+        .to.be.revertedWithCustomError(nft, "OwnableUnauthorizedAccount")
+        .withArgs(addr1.address);
+    });
+  });
+
+  describe("Ownership Transfer", function () {
+    it("Should only propose the new owner", async function () {
+      await expect(nft.transferOwnership(addr1.address))
+        .to.emit(nft, "OwnershipTransferStarted")
+        .withArgs(owner.address, addr1.address);
+
+      expect(await nft.owner()).to.equal(owner.address);
+      expect(await nft.pendingOwner()).to.equal(addr1.address);
+    });
+
+    it("Should transfer ownership once the pending owner accepts", async function () {
+      await nft.transferOwnership(addr1.address);
+      await expect(nft.connect(addr1).acceptOwnership())
+        .to.emit(nft, "OwnershipTransferred")
+        .withArgs(owner.address, addr1.address);
+
+      expect(await nft.owner()).to.equal(addr1.address);
+      expect(await nft.pendingOwner()).to.equal(ethers.ZeroAddress);
+    });
+
+    it("Should move the owner's roles once the pending owner accepts", async function () {
+      const roles = [await nft.DEFAULT_ADMIN_ROLE(), await nft.MINTER_ROLE(), await nft.METADATA_ROLE()];
+
+      await nft.transferOwnership(addr1.address);
+      for (const role of roles) {
+        expect(await nft.hasRole(role, owner.address)).to.be.true;
+        expect(await nft.hasRole(role, addr1.address)).to.be.false;
+      }
+
+      await nft.connect(addr1).acceptOwnership();
+      for (const role of roles) {
+        expect(await nft.hasRole(role, owner.address)).to.be.false;
+        expect(await nft.hasRole(role, addr1.address)).to.be.true;
+      }
+      await expect(nft.setContractURI("ipfs://old-owner"))
+        .to.be.revertedWithCustomError(nft, "AccessControlUnauthorizedAccount")
+        .withArgs(owner.address, roles[2]);
+      await nft.connect(addr1).setContractURI("ipfs://new-owner");
+    });
+
+    it("Should not let anyone else accept", async function () {
+      await nft.transferOwnership(addr1.address);
+      await expect(nft.connect(addr2).acceptOwnership())
+        .to.be.revertedWithCustomError(nft, "OwnableUnauthorizedAccount")
+        .withArgs(addr2.address);
+    });
+
+    it("Should let the owner cancel a pending transfer", async function () {
+      await nft.transferOwnership(addr1.address);
+      await nft.transferOwnership(ethers.ZeroAddress);
+
+      expect(await nft.pendingOwner()).to.equal(ethers.ZeroAddress);
+      await expect(nft.connect(addr1).acceptOwnership())
+        .to.be.revertedWithCustomError(nft, "OwnableUnauthorizedAccount")
+        .withArgs(addr1.address);
+    });
+
+    it("Should clear the pending owner when ownership is renounced", async function () {
+      await nft.transferOwnership(addr1.address);
+      await nft.renounceOwnership();
+
+      expect(await nft.owner()).to.equal(ethers.ZeroAddress);
+      expect(await nft.pendingOwner()).to.equal(ethers.ZeroAddress);
+    });
+
+    it("Should revoke the owner's roles when ownership is renounced", async function () {
+      const adminRole = await nft.DEFAULT_ADMIN_ROLE();
+      await nft.renounceOwnership();
+
+      expect(await nft.hasRole(adminRole, owner.address)).to.be.false;
+      expect(await nft.hasRole(await nft.MINTER_ROLE(), owner.address)).to.be.false;
+      expect(await nft.hasRole(await nft.METADATA_ROLE(), owner.address)).to.be.false;
+      expect(await nft.getRoleMemberCount(adminRole)).to.equal(BigInt(0));
+    });
+  });
+
+  describe("Access Control", function () {
+    let DEFAULT_ADMIN_ROLE: string;
+    let MINTER_ROLE: string;
+    let METADATA_ROLE: string;
+
+    beforeEach(async function () {
+      [DEFAULT_ADMIN_ROLE, MINTER_ROLE, METADATA_ROLE] = await Promise.all([
+        nft.DEFAULT_ADMIN_ROLE(),
+        nft.MINTER_ROLE(),
+        nft.METADATA_ROLE()
+      ]);
+    });
+
+    it("Should grant every role to the initial owner", async function () {
+      for (const role of [DEFAULT_ADMIN_ROLE, MINTER_ROLE, METADATA_ROLE]) {
+        expect(await nft.hasRole(role, owner.address)).to.be.true;
+        expect(await nft.getRoleMemberCount(role)).to.equal(BigInt(1));
+        expect(await nft.getRoleMember(role, 0)).to.equal(owner.address);
+      }
+    });
+
+    it("Should let the admin grant and revoke roles", async function () {
+      await expect(nft.grantRole(MINTER_ROLE, addr1.address))
+        .to.emit(nft, "RoleGranted")
+        .withArgs(MINTER_ROLE, addr1.address, owner.address);
+      expect(await nft.getRoleMembers(MINTER_ROLE)).to.deep.equal([owner.address, addr1.address]);
+
+      await expect(nft.revokeRole(MINTER_ROLE, addr1.address))
+        .to.emit(nft, "RoleRevoked")
+        .withArgs(MINTER_ROLE, addr1.address, owner.address);
+      expect(await nft.getRoleMembers(MINTER_ROLE)).to.deep.equal([owner.address]);
+    });
+
+    it("Should let minters airdrop and mint in owner-only mode", async function () {
+      await nft.grantRole(MINTER_ROLE, addr1.address);
+      await nft.setMintMode(1);
+
+      await nft.connect(addr1).mint();
+      await nft.connect(addr1).airdrop([addr2.address], [1]);
+      expect(await nft.ownerOf(TOKEN_ID_ONE)).to.equal(addr1.address);
+      expect(await nft.ownerOf(2)).to.equal(addr2.address);
+    });
+
+    it("Should stop the owner minting in owner-only mode once the minter role is revoked", async function () {
+      await nft.setMintMode(1);
+      await nft.revokeRole(MINTER_ROLE, owner.address);
+      await expect(nft.mint())
+        .to.be.revertedWithCustomError(nft, "MintNotAllowed")
+        .withArgs(1);
+    });
+
+    it("Should let metadata managers update and freeze metadata", async function () {
+      await nft.mint();
+      await nft.grantRole(METADATA_ROLE, addr1.address);
+
+      await nft.connect(addr1).setBaseURI("https://new.example.com/");
+      await nft.connect(addr1).setTokenURI(TOKEN_ID_ONE, "https://example.com/1.json");
+      await nft.connect(addr1).freezeMetadata();
+      expect(await nft.isMetadataFrozen()).to.be.true;
+    });
+
+    it("Should let accounts renounce their own roles", async function () {
+      await nft.grantRole(METADATA_ROLE, addr1.address);
+      await nft.connect(addr1).renounceRole(METADATA_ROLE, addr1.address);
+      expect(await nft.hasRole(METADATA_ROLE, addr1.address)).to.be.false;
+    });
+
+    it("Should restrict every role-gated function", async function () {
+      await nft.mint();
+      const caller = nft.connect(addr1);
+      const calls: Array<[Promise<unknown>, string]> = [
+        [caller.grantRole(MINTER_ROLE, addr1.address), DEFAULT_ADMIN_ROLE],
+        [caller.revokeRole(MINTER_ROLE, owner.address), DEFAULT_ADMIN_ROLE],
+        [caller.airdrop([addr1.address], [1]), MINTER_ROLE],
+        [caller.setBaseURI("new-uri/"), METADATA_ROLE],
+        [caller.setRenderer(addr1.address), METADATA_ROLE],
+        [caller.setTokenURI(TOKEN_ID_ONE, "new-uri"), METADATA_ROLE],
+        [caller.freezeMetadata(), METADATA_ROLE],
+        [caller.emitPermanentURIs(1, 1), METADATA_ROLE],
+        [caller.freezeToken(TOKEN_ID_ONE), METADATA_ROLE],
+        [caller.setNotRevealedURI("hidden.json"), METADATA_ROLE],
+        [caller.reveal("new-uri/"), METADATA_ROLE],
+        [caller.setContractURI("ipfs://collection.json"), METADATA_ROLE]
+      ];
+
+      for (const [call, role] of calls) {
+        await expect(call)
+          .to.be.revertedWithCustomError(nft, "AccessControlUnauthorizedAccount")
+          .withArgs(addr1.address, role);
+      }
+    });
+
+    it("Should restrict every owner-only function", async function () {
+      await nft.mint();
+      const caller = nft.connect(addr1);
+      const calls: Array<Promise<unknown>> = [
+        caller.setMintMode(0),
+        caller.setMintPrice(MINT_PRICE),
+        caller.setMaxPerWallet(1),
+        caller.setSaleWindow(0, 0),
+        caller.withdraw(addr1.address),
+        caller.setMerkleRoot(ethers.ZeroHash),
+        caller.pause(),
+        caller.unpause(),
+        caller.setDefaultRoyalty(addr1.address, ROYALTY_BPS),
+        caller.deleteDefaultRoyalty(),
+        caller.setTokenRoyalty(TOKEN_ID_ONE, addr1.address, ROYALTY_BPS),
+        caller.resetTokenRoyalty(TOKEN_ID_ONE),
+        caller.transferOwnership(addr1.address),
+        caller.renounceOwnership()
+      ];
+
+      for (const call of calls) {
+        await expect(call)
+          .to.be.revertedWithCustomError(nft, "OwnableUnauthorizedAccount")
+          .withArgs(addr1.address);
+      }
+    });
+
+    it("Should support the AccessControl interfaces", async function () {
+      expect(await nft.supportsInterface("0x7965db0b")).to.be.true; // IAccessControl
+      expect(await nft.supportsInterface("0x5a05180f")).to.be.true; // IAccessControlEnumerable
+    });
+  });
+
+  describe("Contract URI", function () {
+    const CONTRACT_URI = "https://api.example.com/api/collection/0x1";
+
+    it("Should be empty by default", async function () {
+      expect(await nft.contractURI()).to.equal("");
+    });
+
+    it("Should allow owner to set the contract URI", async function () {
+      await expect(nft.setContractURI(CONTRACT_URI))
+        .to.emit(nft, "ContractURIUpdated");
+      expect(await nft.contractURI()).to.equal(CONTRACT_URI);
+    });
+
+    it("Should allow metadata managers to set the contract URI", async function () {
+      await nft.grantRole(await nft.METADATA_ROLE(), addr1.address);
+      await nft.connect(addr1).setContractURI(CONTRACT_URI);
+      expect(await nft.contractURI()).to.equal(CONTRACT_URI);
+    });
+
+    it("Should not allow accounts without the metadata role to set the contract URI", async function () {
+      await expect(nft.connect(addr1).setContractURI(CONTRACT_URI))
+        .to.be.revertedWithCustomError(nft, "AccessControlUnauthorizedAccount")
+        .withArgs(addr1.address, await nft.METADATA_ROLE());
+    });
+
+    it("Should not allow contract URI updates after freezing", async function () {
+      await nft.setContractURI(CONTRACT_URI);
+      await nft.freezeMetadata();
+      await expect(nft.setContractURI("ipfs://other.json"))
+        .to.be.revertedWith("Metadata is frozen");
+      expect(await nft.contractURI()).to.equal(CONTRACT_URI);
+    });
+  });
+
+  describe("Base URI Management", function () {
+    it("Should allow owner to update base URI", async function () {
+      const newBaseURI = "https://new.example.com/metadata/";
+      const tx = await nft.mint();
+      const tokenId = await getTokenIdFromTx(tx);
+      await nft.setBaseURI(newBaseURI);
+      expect(await nft.tokenURI(tokenId)).to.equal(newBaseURI + tokenId.toString());
+    });
+
+    it("Should not allow accounts without the metadata role to update base URI", async function () {
+      await expect(nft.connect(addr1).setBaseURI("new-uri/"))
+        .to.be.revertedWithCustomError(nft, "AccessControlUnauthorizedAccount")
+        .withArgs(addr1.address, await nft.METADATA_ROLE());
+    });
+
+    it("Should emit BatchMetadataUpdate on base URI change", async function () {
+      await nft.mint();
+      await nft.mint();
+      await expect(nft.setBaseURI("new-uri/"))
+        .to.emit(nft, "BatchMetadataUpdate")
+        .withArgs(TOKEN_ID_ONE, ethers.MaxUint256);
+    });
+  });
+
+  describe("Token URI Overrides", function () {
+    const TOKEN_URI = "ipfs://prize/1.json";
+
+    beforeEach(async function () {
+      await nft.mint();
+      await nft.mint();
+    });
+
+    it("Should allow owner to override a token URI", async function () {
+      await nft.setTokenURI(TOKEN_ID_ONE, TOKEN_URI);
+      expect(await nft.tokenURI(TOKEN_ID_ONE)).to.equal(TOKEN_URI);
+    });
+
+    it("Should leave other tokens on the base URI", async function () {
+      await nft.setTokenURI(TOKEN_ID_ONE, TOKEN_URI);
+      expect(await nft.tokenURI(2)).to.equal(BASE_URI + "2");
+    });
+
+    it("Should keep the override when the base URI changes", async function () {
+      await nft.setTokenURI(TOKEN_ID_ONE, TOKEN_URI);
+      await nft.setBaseURI("https://new.example.com/metadata/");
+      expect(await nft.tokenURI(TOKEN_ID_ONE)).to.equal(TOKEN_URI);
+    });
+
+    it("Should fall back to the base URI when the override is cleared", async function () {
+      await nft.setTokenURI(TOKEN_ID_ONE, TOKEN_URI);
+      await nft.setTokenURI(TOKEN_ID_ONE, "");
+      expect(await nft.tokenURI(TOKEN_ID_ONE)).to.equal(BASE_URI + "1");
+    });
+
+    it("Should emit MetadataUpdate on override", async function () {
+      await expect(nft.setTokenURI(TOKEN_ID_ONE, TOKEN_URI))
+        .to.emit(nft, "MetadataUpdate")
+        .withArgs(TOKEN_ID_ONE);
+    });
+
+    it("Should not allow accounts without the metadata role to override a token URI", async function () {
+      await expect(nft.connect(addr1).setTokenURI(TOKEN_ID_ONE, TOKEN_URI))
+        .to.be.revertedWithCustomError(nft, "AccessControlUnauthorizedAccount")
+        .withArgs(addr1.address, await nft.METADATA_ROLE());
+    });
+
+    it("Should not allow overriding a nonexistent token", async function () {
+      await expect(nft.setTokenURI(99, TOKEN_URI))
+        .to.be.revertedWithCustomError(nft, "ERC721NonexistentToken")
+        .withArgs(99);
+    });
+
+    it("Should not allow overrides after freezing", async function () {
+      await nft.freezeMetadata();
+      await expect(nft.setTokenURI(TOKEN_ID_ONE, TOKEN_URI))
+        .to.be.revertedWith("Metadata is frozen");
+    });
+
+    it("Should keep existing overrides after freezing", async function () {
+      await nft.setTokenURI(TOKEN_ID_ONE, TOKEN_URI);
+      await nft.freezeMetadata();
+      expect(await nft.tokenURI(TOKEN_ID_ONE)).to.equal(TOKEN_URI);
+      expect(await nft.tokenURI(2)).to.equal(BASE_URI + "2");
+    });
+  });
+
+  describe("Metadata Freezing", function () {
+    it("Should allow owner to freeze metadata", async function () {
+      await nft.freezeMetadata();
+      expect(await nft.isMetadataFrozen()).to.be.true;
+    });
+
+    it("Should not allow accounts without the metadata role to freeze metadata", async function () {
+      await expect(nft.connect(addr1).freezeMetadata())
+        .to.be.revertedWithCustomError(nft, "AccessControlUnauthorizedAccount")
+        .withArgs(addr1.address, await nft.METADATA_ROLE());
+    });
+
+    it("Should not allow base URI update after freezing", async function () {
+      await nft.freezeMetadata();
+      await expect(nft.setBaseURI("new-uri/"))
+        .to.be.revertedWith("Metadata is frozen");
+    });
+
+    it("Should emit a single BatchMetadataUpdate for every token", async function () {
+      await nft.mint();
+      await nft.mint();
+      await nft.mint();
+
+      const tx = nft.freezeMetadata();
+      await expect(tx)
+        .to.emit(nft, "BatchMetadataUpdate")
+        .withArgs(1, ethers.MaxUint256);
+      await expect(tx).not.to.emit(nft, "PermanentURI");
+    });
+
+    it("Should emit PermanentURI for existing tokens once frozen", async function () {
+      await nft.mint();
+      await nft.mint();
+      await nft.mint();
+      await nft.burn(2);
+      await nft.freezeMetadata();
+
+      const tx = nft.emitPermanentURIs(1, 3);
+      await expect(tx)
+        .to.emit(nft, "PermanentURI")
+        .withArgs(BASE_URI + "1", TOKEN_ID_ONE);
+      await expect(tx)
+        .to.emit(nft, "PermanentURI")
+        .withArgs(BASE_URI + "3", 3);
+
+      const receipt = await (await tx).wait();
+      const permanent = receipt!.logs.filter(
+        (log: any) => log.fragment?.name === "PermanentURI"
+      );
+      expect(permanent.length).to.equal(2);
+    });
+
+    it("Should emit permanent URIs one page at a time", async function () {
+      await nft.mintBatch(5);
+      await nft.freezeMetadata();
+
+      const countPermanent = async (fromId: number, toId: number) => {
+        const receipt = await (await nft.emitPermanentURIs(fromId, toId)).wait();
+        return receipt!.logs.filter((log: any) => log.fragment?.name === "PermanentURI").length;
+      };
+      expect(await countPermanent(1, 2)).to.equal(2);
+      expect(await countPermanent(3, 100)).to.equal(3);
+      expect(await countPermanent(6, 10)).to.equal(0);
+    });
+
+    it("Should only emit permanent URIs once the metadata is frozen", async function () {
+      await nft.mint();
+      await expect(nft.emitPermanentURIs(1, 1))
+        .to.be.revertedWithCustomError(nft, "MetadataNotFrozen");
+    });
+
+    it("Should reject empty permanent URI ranges", async function () {
+      await nft.mint();
+      await nft.freezeMetadata();
+      await expect(nft.emitPermanentURIs(0, 1))
+        .to.be.revertedWithCustomError(nft, "InvalidTokenRange")
+        .withArgs(0, 1);
+      await expect(nft.emitPermanentURIs(2, 1))
+        .to.be.revertedWithCustomError(nft, "InvalidTokenRange")
+        .withArgs(2, 1);
+    });
+
+    it("Should freeze metadata for the same gas regardless of supply", async function () {
+      const SimpleNFTFactory = await ethers.getContractFactory("SimpleNFT");
+      const emptyNft = await SimpleNFTFactory.deploy(NAME, SYMBOL, owner.address, MAX_SUPPLY, owner.address, 0, ethers.ZeroHash, false);
+      await nft.mintBatch(20);
+
+      const emptyGas = (await (await emptyNft.freezeMetadata()).wait())!.gasUsed;
+      const mintedGas = (await (await nft.freezeMetadata()).wait())!.gasUsed;
+      expect(mintedGas).to.equal(emptyGas);
+    });
+
+    it("Should emit PermanentURI for tokens minted after freezing", async function () {
+      await nft.freezeMetadata();
+      await expect(nft.mint())
+        .to.emit(nft, "PermanentURI")
+        .withArgs(BASE_URI + "1", TOKEN_ID_ONE);
+    });
+
+    it("Should only freeze metadata once", async function () {
+      await nft.freezeMetadata();
+      await expect(nft.freezeMetadata())
+        .to.be.revertedWith("Metadata is frozen");
+    });
+  });
+
+  describe("Token Freezing", function () {
+    const TOKEN_URI = "ipfs://prize/1.json";
+
+    beforeEach(async function () {
+      await nft.mint();
+      await nft.mint();
+    });
+
+    it("Should freeze a single token", async function () {
+      await expect(nft.freezeToken(TOKEN_ID_ONE))
+        .to.emit(nft, "PermanentURI")
+        .withArgs(BASE_URI + "1", TOKEN_ID_ONE);
+
+      expect(await nft.isTokenFrozen(TOKEN_ID_ONE)).to.be.true;
+      expect(await nft.isTokenFrozen(2)).to.be.false;
+      expect(await nft.isMetadataFrozen()).to.be.false;
+    });
+
+    it("Should keep the frozen URI when the base URI changes", async function () {
+      await nft.freezeToken(TOKEN_ID_ONE);
+      await nft.setBaseURI("https://new.example.com/");
+
+      expect(await nft.tokenURI(TOKEN_ID_ONE)).to.equal(BASE_URI + "1");
+      expect(await nft.tokenURI(2)).to.equal("https://new.example.com/2");
+    });
+
+    it("Should keep a frozen override", async function () {
+      await nft.setTokenURI(TOKEN_ID_ONE, TOKEN_URI);
+      await expect(nft.freezeToken(TOKEN_ID_ONE))
+        .to.emit(nft, "PermanentURI")
+        .withArgs(TOKEN_URI, TOKEN_ID_ONE);
+      expect(await nft.tokenURI(TOKEN_ID_ONE)).to.equal(TOKEN_URI);
+    });
+
+    it("Should not allow overriding a frozen token", async function () {
+      await nft.freezeToken(TOKEN_ID_ONE);
+      await expect(nft.setTokenURI(TOKEN_ID_ONE, TOKEN_URI))
+        .to.be.revertedWithCustomError(nft, "TokenMetadataFrozen")
+        .withArgs(TOKEN_ID_ONE);
+      await nft.setTokenURI(2, TOKEN_URI);
+      expect(await nft.tokenURI(2)).to.equal(TOKEN_URI);
+    });
+
+    it("Should keep a frozen token on the renderer it was frozen with", async function () {
+      const SimpleNFTRenderer = await ethers.getContractFactory("SimpleNFTRenderer");
+      const renderer = await SimpleNFTRenderer.deploy();
+      await nft.setRenderer(await renderer.getAddress());
+      const rendered = await nft.tokenURI(TOKEN_ID_ONE);
+
+      await nft.freezeToken(TOKEN_ID_ONE);
+      await nft.setRenderer(ethers.ZeroAddress);
+
+      expect(await nft.tokenURI(TOKEN_ID_ONE)).to.equal(rendered);
+      expect(await nft.tokenURI(2)).to.equal(BASE_URI + "2");
+    });
+
+    it("Should not freeze a token twice", async function () {
+      await nft.freezeToken(TOKEN_ID_ONE);
+      await expect(nft.freezeToken(TOKEN_ID_ONE))
+        .to.be.revertedWithCustomError(nft, "TokenMetadataFrozen")
+        .withArgs(TOKEN_ID_ONE);
+    });
+
+    it("Should not freeze a nonexistent token", async function () {
+      await expect(nft.freezeToken(99))
+        .to.be.revertedWithCustomError(nft, "ERC721NonexistentToken")
+        .withArgs(99);
+    });
+
+    it("Should not freeze a token without a URI", async function () {
+      await nft.setBaseURI("");
+      await expect(nft.freezeToken(TOKEN_ID_ONE))
+        .to.be.revertedWithCustomError(nft, "TokenURINotSet")
+        .withArgs(TOKEN_ID_ONE);
+    });
+
+    it("Should not freeze tokens before reveal", async function () {
+      await nft.setNotRevealedURI("https://api.example.com/hidden.json");
+      await expect(nft.freezeToken(TOKEN_ID_ONE))
+        .to.be.revertedWithCustomError(nft, "CollectionNotRevealed");
+    });
+
+    it("Should report every token as frozen after a global freeze", async function () {
+      await nft.freezeMetadata();
+      expect(await nft.isTokenFrozen(2)).to.be.true;
+      await expect(nft.freezeToken(2))
+        .to.be.revertedWith("Metadata is frozen");
+    });
+
+    it("Should keep individually frozen tokens frozen after a global freeze", async function () {
+      await nft.freezeToken(TOKEN_ID_ONE);
+      await nft.freezeMetadata();
+
+      expect(await nft.isTokenFrozen(TOKEN_ID_ONE)).to.be.true;
+      expect(await nft.tokenURI(TOKEN_ID_ONE)).to.equal(BASE_URI + "1");
+    });
+
+    it("Should skip individually frozen tokens in the permanent URI events", async function () {
+      await nft.freezeToken(TOKEN_ID_ONE);
+      await nft.freezeMetadata();
+      const tx = nft.emitPermanentURIs(1, 2);
+      await expect(tx)
+        .to.emit(nft, "PermanentURI")
+        .withArgs(BASE_URI + "2", 2);
+
+      const receipt = await (await tx).wait();
+      const permanent = receipt!.logs.filter(
+        (log: any) => log.fragment?.name === "PermanentURI"
+      );
+      expect(permanent.length).to.equal(1);
+    });
+  });
+
+  describe("Reveal", function () {
+    const HIDDEN_URI = "https://api.example.com/hidden.json";
+    const REVEALED_URI = "https://reveal.example.com/metadata/";
+
+    beforeEach(async function () {
+      await nft.setNotRevealedURI(HIDDEN_URI);
+      await nft.mint();
+    });
+
+    it("Should commit the provenance hash at deployment", async function () {
+      const provenance = ethers.keccak256(ethers.toUtf8Bytes("final ordering"));
+      const SimpleNFTFactory = await ethers.getContractFactory("SimpleNFT");
+      const committed = await SimpleNFTFactory.deploy(
+        NAME,
+        SYMBOL,
+        owner.address,
+        MAX_SUPPLY,
+        owner.address,
+        ROYALTY_BPS,
+        provenance,
+        false
+      );
+
+      expect(await committed.provenanceHash()).to.equal(provenance);
+      expect(await nft.provenanceHash()).to.equal(ethers.ZeroHash);
+    });
+
+    it("Should treat collections without a placeholder as revealed", async function () {
+      await nft.setNotRevealedURI("");
+      expect(await nft.isRevealed()).to.be.true;
+      expect(await nft.tokenURI(TOKEN_ID_ONE)).to.equal(BASE_URI + "1");
+    });
+
+    it("Should return the placeholder URI for every token before reveal", async function () {
+      await nft.mint();
+      await nft.setTokenURI(TOKEN_ID_ONE, "ipfs://prize/1.json");
+
+      expect(await nft.isRevealed()).to.be.false;
+      expect(await nft.notRevealedURI()).to.equal(HIDDEN_URI);
+      expect(await nft.tokenURI(TOKEN_ID_ONE)).to.equal(HIDDEN_URI);
+      expect(await nft.tokenURI(2)).to.equal(HIDDEN_URI);
+    });
+
+    it("Should still reject nonexistent tokens before reveal", async function () {
+      await expect(nft.tokenURI(99))
+        .to.be.revertedWithCustomError(nft, "ERC721NonexistentToken")
+        .withArgs(99);
+    });
+
+    it("Should emit BatchMetadataUpdate when the placeholder changes", async function () {
+      await expect(nft.setNotRevealedURI("ipfs://hidden.json"))
+        .to.emit(nft, "BatchMetadataUpdate")
+        .withArgs(TOKEN_ID_ONE, ethers.MaxUint256);
+    });
+
+    it("Should reveal the final base URI", async function () {
+      await expect(nft.reveal(REVEALED_URI))
+        .to.emit(nft, "Revealed")
+        .withArgs(REVEALED_URI)
+        .and.to.emit(nft, "BatchMetadataUpdate")
+        .withArgs(TOKEN_ID_ONE, ethers.MaxUint256);
+
+      expect(await nft.isRevealed()).to.be.true;
+      expect(await nft.tokenURI(TOKEN_ID_ONE)).to.equal(REVEALED_URI + "1");
+    });
+
+    it("Should apply per-token overrides after reveal", async function () {
+      await nft.setTokenURI(TOKEN_ID_ONE, "ipfs://prize/1.json");
+      await nft.reveal(REVEALED_URI);
+      expect(await nft.tokenURI(TOKEN_ID_ONE)).to.equal("ipfs://prize/1.json");
+    });
+
+    it("Should only reveal once", async function () {
+      await nft.reveal(REVEALED_URI);
+      await expect(nft.reveal("https://other.example.com/"))
+        .to.be.revertedWithCustomError(nft, "AlreadyRevealed");
+    });
+
+    it("Should not allow hiding metadata again after reveal", async function () {
+      await nft.reveal(REVEALED_URI);
+      await expect(nft.setNotRevealedURI(HIDDEN_URI))
+        .to.be.revertedWithCustomError(nft, "AlreadyRevealed");
+    });
+
+    it("Should not allow revealing after freezing", async function () {
+      await nft.freezeMetadata();
+      await expect(nft.reveal(REVEALED_URI))
+        .to.be.revertedWith("Metadata is frozen");
+      await expect(nft.setNotRevealedURI("ipfs://hidden.json"))
+        .to.be.revertedWith("Metadata is frozen");
+    });
+  });
+
+  describe("Burning", function () {
+    beforeEach(async function () {
+      await nft.connect(addr1).mintBatch(3);
+    });
+
+    it("Should allow the holder to burn a token", async function () {
+      await expect(nft.connect(addr1).burn(TOKEN_ID_ONE))
+        .to.emit(nft, "Transfer")
+        .withArgs(addr1.address, ethers.ZeroAddress, TOKEN_ID_ONE);
+      await expect(nft.ownerOf(TOKEN_ID_ONE))
+        .to.be.revertedWithCustomError(nft, "ERC721NonexistentToken")
+        .withArgs(TOKEN_ID_ONE);
+      expect(await nft.balanceOf(addr1.address)).to.equal(BigInt(2));
+    });
+
+    it("Should allow an approved address to burn a token", async function () {
+      await nft.connect(addr1).approve(addr2.address, TOKEN_ID_ONE);
+      await nft.connect(addr2).burn(TOKEN_ID_ONE);
+      await expect(nft.ownerOf(TOKEN_ID_ONE))
+        .to.be.revertedWithCustomError(nft, "ERC721NonexistentToken");
+    });
+
+    it("Should not allow others to burn a token", async function () {
+      await expect(nft.connect(addr2).burn(TOKEN_ID_ONE))
+        .to.be.revertedWithCustomError(nft, "ERC721InsufficientApproval")
+        .withArgs(addr2.address, TOKEN_ID_ONE);
+      await expect(nft.burn(TOKEN_ID_ONE))
+        .to.be.revertedWithCustomError(nft, "ERC721InsufficientApproval")
+        .withArgs(owner.address, TOKEN_ID_ONE);
+    });
+
+    it("Should track live and historical supply separately", async function () {
+      await nft.connect(addr1).burn(2);
+      expect(await nft.totalSupply()).to.equal(BigInt(2));
+      expect(await nft.totalMinted()).to.equal(BigInt(3));
+    });
+
+    it("Should not free up supply when burning", async function () {
+      await nft.connect(addr1).burn(2);
+      expect(await nft.remainingSupply()).to.equal(MAX_SUPPLY - BigInt(3));
+    });
+
+    it("Should keep minting sequential IDs after a burn", async function () {
+      await nft.connect(addr1).burn(3);
+      await nft.mint();
+      expect(await nft.ownerOf(4)).to.equal(owner.address);
+    });
+
+    it("Should not return a token URI for a burned token", async function () {
+      await nft.connect(addr1).burn(TOKEN_ID_ONE);
+      await expect(nft.tokenURI(TOKEN_ID_ONE))
+        .to.be.revertedWithCustomError(nft, "ERC721NonexistentToken")
+        .withArgs(TOKEN_ID_ONE);
+    });
+  });
+
+  describe("Soulbound Mode", function () {
+    let badge: SimpleNFT;
+
+    beforeEach(async function () {
+      const SimpleNFTFactory = await ethers.getContractFactory("SimpleNFT");
+      badge = await SimpleNFTFactory.deploy(
+        NAME,
+        SYMBOL,
+        owner.address,
+        MAX_SUPPLY,
+        owner.address,
+        ROYALTY_BPS,
+        ethers.ZeroHash,
+        true
+      );
+      await badge.connect(addr1).mint();
+    });
+
+    it("Should default to transferable tokens", async function () {
+      await nft.connect(addr1).mint();
+      expect(await nft.soulbound()).to.be.false;
+      expect(await nft.locked(TOKEN_ID_ONE)).to.be.false;
+    });
+
+    it("Should lock every minted token", async function () {
+      expect(await badge.soulbound()).to.be.true;
+      expect(await badge.locked(TOKEN_ID_ONE)).to.be.true;
+    });
+
+    it("Should emit Locked on mint", async function () {
+      await expect(badge.airdrop([addr2.address], [2]))
+        .to.emit(badge, "Locked")
+        .withArgs(2)
+        .and.to.emit(badge, "Locked")
+        .withArgs(3);
+    });
+
+    it("Should not emit Locked for transferable collections", async function () {
+      await expect(nft.mint()).to.not.emit(nft, "Locked");
+    });
+
+    it("Should not allow transfers", async function () {
+      await expect(badge.connect(addr1).transferFrom(addr1.address, addr2.address, TOKEN_ID_ONE))
+        .to.be.revertedWithCustomError(badge, "TokenIsSoulbound")
+        .withArgs(TOKEN_ID_ONE);
+
+      await badge.connect(addr1).approve(addr2.address, TOKEN_ID_ONE);
+      await expect(
+        badge.connect(addr2)["safeTransferFrom(address,address,uint256)"](addr1.address, addr2.address, TOKEN_ID_ONE)
+      )
+        .to.be.revertedWithCustomError(badge, "TokenIsSoulbound")
+        .withArgs(TOKEN_ID_ONE);
+    });
+
+    it("Should still allow the holder to burn", async function () {
+      await badge.connect(addr1).burn(TOKEN_ID_ONE);
+      expect(await badge.balanceOf(addr1.address)).to.equal(BigInt(0));
+      expect(await badge.totalSupply()).to.equal(BigInt(0));
+    });
+
+    it("Should reject lock queries for nonexistent tokens", async function () {
+      await expect(badge.locked(99))
+        .to.be.revertedWithCustomError(badge, "ERC721NonexistentToken")
+        .withArgs(99);
+    });
+
+    it("Should support the ERC5192 interface", async function () {
+      expect(await badge.supportsInterface("0xb45a3c0e")).to.be.true;
+    });
+  });
+
+  describe("Rentals", function () {
+    let expires: bigint;
+
+    beforeEach(async function () {
+      await nft.connect(addr1).mint();
+      expires = BigInt(await time.latest()) + BigInt(86400);
+    });
+
+    it("Should let the owner lend a token", async function () {
+      await expect(nft.connect(addr1).setUser(TOKEN_ID_ONE, addr2.address, expires))
+        .to.emit(nft, "UpdateUser")
+        .withArgs(TOKEN_ID_ONE, addr2.address, expires);
+
+      expect(await nft.userOf(TOKEN_ID_ONE)).to.equal(addr2.address);
+      expect(await nft.userExpires(TOKEN_ID_ONE)).to.equal(expires);
+      expect(await nft.ownerOf(TOKEN_ID_ONE)).to.equal(addr1.address);
+    });
+
+    it("Should let an approved address lend a token", async function () {
+      await nft.connect(addr1).approve(owner.address, TOKEN_ID_ONE);
+      await nft.setUser(TOKEN_ID_ONE, addr2.address, expires);
+      expect(await nft.userOf(TOKEN_ID_ONE)).to.equal(addr2.address);
+    });
+
+    it("Should not let others lend a token", async function () {
+      await expect(nft.connect(addr2).setUser(TOKEN_ID_ONE, addr2.address, expires))
+        .to.be.revertedWithCustomError(nft, "ERC721InsufficientApproval")
+        .withArgs(addr2.address, TOKEN_ID_ONE);
+    });
+
+    it("Should not lend a nonexistent token", async function () {
+      await expect(nft.setUser(99, addr2.address, expires))
+        .to.be.revertedWithCustomError(nft, "ERC721NonexistentToken")
+        .withArgs(99);
+    });
+
+    it("Should return no user once the rental expires", async function () {
+      await nft.connect(addr1).setUser(TOKEN_ID_ONE, addr2.address, expires);
+      await time.increaseTo(expires + BigInt(1));
+
+      expect(await nft.userOf(TOKEN_ID_ONE)).to.equal(ethers.ZeroAddress);
+      expect(await nft.userExpires(TOKEN_ID_ONE)).to.equal(expires);
+    });
+
+    it("Should let the owner end a rental early", async function () {
+      await nft.connect(addr1).setUser(TOKEN_ID_ONE, addr2.address, expires);
+      await nft.connect(addr1).setUser(TOKEN_ID_ONE, ethers.ZeroAddress, 0);
+      expect(await nft.userOf(TOKEN_ID_ONE)).to.equal(ethers.ZeroAddress);
+    });
+
+    it("Should clear the user on transfer", async function () {
+      await nft.connect(addr1).setUser(TOKEN_ID_ONE, addr2.address, expires);
+      await expect(nft.connect(addr1).transferFrom(addr1.address, owner.address, TOKEN_ID_ONE))
+        .to.emit(nft, "UpdateUser")
+        .withArgs(TOKEN_ID_ONE, ethers.ZeroAddress, 0);
+
+      expect(await nft.userOf(TOKEN_ID_ONE)).to.equal(ethers.ZeroAddress);
+      expect(await nft.userExpires(TOKEN_ID_ONE)).to.equal(BigInt(0));
+    });
+
+    it("Should clear the user on burn", async function () {
+      await nft.connect(addr1).setUser(TOKEN_ID_ONE, addr2.address, expires);
+      await nft.connect(addr1).burn(TOKEN_ID_ONE);
+      expect(await nft.userOf(TOKEN_ID_ONE)).to.equal(ethers.ZeroAddress);
+    });
+
+    it("Should not emit UpdateUser on transfers of unrented tokens", async function () {
+      await expect(nft.connect(addr1).transferFrom(addr1.address, owner.address, TOKEN_ID_ONE))
+        .to.not.emit(nft, "UpdateUser");
+    });
+
+    it("Should support the ERC4907 interface", async function () {
+      expect(await nft.supportsInterface("0xad092b5c")).to.be.true;
+    });
+  });
+
+  describe("Owner Token Lookup", function () {
+    it("Should return an empty list for an address without tokens", async function () {
+      expect(await nft.tokensOfOwner(addr1.address)).to.deep.equal([]);
+    });
+
+    it("Should return the tokens held by an address in order", async function () {
+      await nft.airdrop([addr1.address, addr2.address, addr1.address], [2, 1, 2]);
+      expect(await nft.tokensOfOwner(addr1.address)).to.deep.equal([BigInt(1), BigInt(2), BigInt(4), BigInt(5)]);
+      expect(await nft.tokensOfOwner(addr2.address)).to.deep.equal([BigInt(3)]);
+    });
+
+    it("Should reflect transfers and burns", async function () {
+      await nft.connect(addr1).mintBatch(3);
+      await nft.connect(addr1).transferFrom(addr1.address, addr2.address, 2);
+      await nft.connect(addr1).burn(3);
+      expect(await nft.tokensOfOwner(addr1.address)).to.deep.equal([BigInt(1)]);
+      expect(await nft.tokensOfOwner(addr2.address)).to.deep.equal([BigInt(2)]);
     });
   });
 
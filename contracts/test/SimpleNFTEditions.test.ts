@@ -0,0 +1,246 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SimpleNFTEditions } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+
+describe("SimpleNFTEditions", function () {
+  let editions: SimpleNFTEditions;
+  let owner: SignerWithAddress;
+  let addr1: SignerWithAddress;
+  let addr2: SignerWithAddress;
+  const NAME = "Test Editions";
+  const SYMBOL = "TED";
+  const TYPE_URI = "ipfs://editions/1.json";
+  const TYPE_ID_ONE = BigInt(1);
+  const TYPE_SUPPLY = BigInt(10);
+  const PRICE = ethers.parseEther("0.01");
+  const ROYALTY_BPS = BigInt(500);
+  const SALE_PRICE = ethers.parseEther("1");
+
+  beforeEach(async function () {
+    [owner, addr1, addr2] = await ethers.getSigners();
+
+    const SimpleNFTEditionsContract = await ethers.getContractFactory("SimpleNFTEditions");
+    editions = await SimpleNFTEditionsContract.deploy(NAME, SYMBOL, owner.address, owner.address, ROYALTY_BPS);
+    await editions.waitForDeployment();
+  });
+
+  describe("Deployment", function () {
+    it("Should set the right name, symbol and owner", async function () {
+      expect(await editions.name()).to.equal(NAME);
+      expect(await editions.symbol()).to.equal(SYMBOL);
+      expect(await editions.owner()).to.equal(owner.address);
+      expect(await editions.typeCount()).to.equal(BigInt(0));
+    });
+
+    it("Should support the ERC1155 and ERC2981 interfaces", async function () {
+      expect(await editions.supportsInterface("0xd9b67a26")).to.be.true;
+      expect(await editions.supportsInterface("0x0e89341c")).to.be.true;
+      expect(await editions.supportsInterface("0x2a55205a")).to.be.true;
+      expect(await editions.supportsInterface("0x80ac58cd")).to.be.false;
+    });
+  });
+
+  describe("Token Types", function () {
+    it("Should create types with sequential IDs", async function () {
+      await expect(editions.createType(TYPE_SUPPLY, PRICE, true, TYPE_URI))
+        .to.emit(editions, "TypeCreated")
+        .withArgs(TYPE_ID_ONE, TYPE_SUPPLY, PRICE, true)
+        .and.to.emit(editions, "URI")
+        .withArgs(TYPE_URI, TYPE_ID_ONE);
+      await editions.createType(0, 0, false, "");
+
+      expect(await editions.typeCount()).to.equal(BigInt(2));
+      expect(await editions.typeExists(TYPE_ID_ONE)).to.be.true;
+      expect(await editions.typeExists(2)).to.be.true;
+      expect(await editions.typeExists(0)).to.be.false;
+      expect(await editions.typeExists(3)).to.be.false;
+
+      const [maxSupply, minted, price, publicMint] = await editions.typeInfo(TYPE_ID_ONE);
+      expect(maxSupply).to.equal(TYPE_SUPPLY);
+      expect(minted).to.equal(BigInt(0));
+      expect(price).to.equal(PRICE);
+      expect(publicMint).to.be.true;
+    });
+
+    it("Should not allow non-owners to create types", async function () {
+      await expect(editions.connect(addr1).createType(TYPE_SUPPLY, PRICE, true, TYPE_URI))
+        .to.be.revertedWithCustomError(editions, "OwnableUnauthorizedAccount")
+        .withArgs(addr1.address);
+    });
+
+    it("Should reject types that have not been created", async function () {
+      await expect(editions.typeInfo(1))
+        .to.be.revertedWithCustomError(editions, "TypeDoesNotExist")
+        .withArgs(1);
+      await expect(editions.mint(1, 1))
+        .to.be.revertedWithCustomError(editions, "TypeDoesNotExist")
+        .withArgs(1);
+      await expect(editions.mintTo(addr1.address, 1, 1))
+        .to.be.revertedWithCustomError(editions, "TypeDoesNotExist")
+        .withArgs(1);
+    });
+
+    it("Should update the sale of a type", async function () {
+      await editions.createType(TYPE_SUPPLY, PRICE, true, TYPE_URI);
+      await expect(editions.setTypeSale(TYPE_ID_ONE, 0, false))
+        .to.emit(editions, "TypeSaleUpdated")
+        .withArgs(TYPE_ID_ONE, 0, false);
+
+      const [, , price, publicMint] = await editions.typeInfo(TYPE_ID_ONE);
+      expect(price).to.equal(BigInt(0));
+      expect(publicMint).to.be.false;
+    });
+  });
+
+  describe("Minting", function () {
+    beforeEach(async function () {
+      await editions.createType(TYPE_SUPPLY, PRICE, true, TYPE_URI);
+    });
+
+    it("Should mint copies to the caller at the type price", async function () {
+      await editions.connect(addr1).mint(TYPE_ID_ONE, 3, { value: PRICE * BigInt(3) });
+
+      expect(await editions.balanceOf(addr1.address, TYPE_ID_ONE)).to.equal(BigInt(3));
+      expect(await editions["totalSupply(uint256)"](TYPE_ID_ONE)).to.equal(BigInt(3));
+      expect(await editions.remainingSupply(TYPE_ID_ONE)).to.equal(TYPE_SUPPLY - BigInt(3));
+      expect(await ethers.provider.getBalance(await editions.getAddress())).to.equal(PRICE * BigInt(3));
+    });
+
+    it("Should reject incorrect payments", async function () {
+      await expect(editions.connect(addr1).mint(TYPE_ID_ONE, 2, { value: PRICE }))
+        .to.be.revertedWithCustomError(editions, "IncorrectPayment")
+        .withArgs(PRICE * BigInt(2), PRICE);
+    });
+
+    it("Should reject zero quantities", async function () {
+      await expect(editions.connect(addr1).mint(TYPE_ID_ONE, 0))
+        .to.be.revertedWithCustomError(editions, "InvalidQuantity");
+    });
+
+    it("Should not allow public mints of types that are not for sale", async function () {
+      await editions.setTypeSale(TYPE_ID_ONE, PRICE, false);
+      await expect(editions.connect(addr1).mint(TYPE_ID_ONE, 1, { value: PRICE }))
+        .to.be.revertedWithCustomError(editions, "TypeNotForSale")
+        .withArgs(TYPE_ID_ONE);
+    });
+
+    it("Should enforce the supply cap", async function () {
+      await editions.mintTo(addr1.address, TYPE_ID_ONE, TYPE_SUPPLY - BigInt(1));
+      await expect(editions.connect(addr2).mint(TYPE_ID_ONE, 2, { value: PRICE * BigInt(2) }))
+        .to.be.revertedWithCustomError(editions, "TypeSupplyExceeded")
+        .withArgs(TYPE_ID_ONE, TYPE_SUPPLY);
+      await expect(editions.mintTo(addr2.address, TYPE_ID_ONE, 2))
+        .to.be.revertedWithCustomError(editions, "TypeSupplyExceeded")
+        .withArgs(TYPE_ID_ONE, TYPE_SUPPLY);
+
+      await editions.connect(addr2).mint(TYPE_ID_ONE, 1, { value: PRICE });
+      expect(await editions.remainingSupply(TYPE_ID_ONE)).to.equal(BigInt(0));
+    });
+
+    it("Should not reopen supply when copies are burned", async function () {
+      await editions.mintTo(addr1.address, TYPE_ID_ONE, TYPE_SUPPLY);
+      await editions.connect(addr1).burn(addr1.address, TYPE_ID_ONE, 4);
+
+      expect(await editions["totalSupply(uint256)"](TYPE_ID_ONE)).to.equal(TYPE_SUPPLY - BigInt(4));
+      const [, minted] = await editions.typeInfo(TYPE_ID_ONE);
+      expect(minted).to.equal(TYPE_SUPPLY);
+      await expect(editions.mintTo(addr1.address, TYPE_ID_ONE, 1))
+        .to.be.revertedWithCustomError(editions, "TypeSupplyExceeded");
+    });
+
+    it("Should not cap open editions", async function () {
+      await editions.createType(0, 0, true, "");
+      await editions.connect(addr1).mint(2, 1000);
+
+      expect(await editions.balanceOf(addr1.address, 2)).to.equal(BigInt(1000));
+      expect(await editions.remainingSupply(2)).to.equal(ethers.MaxUint256);
+    });
+
+    it("Should let the owner mint types that are not for sale", async function () {
+      await editions.setTypeSale(TYPE_ID_ONE, PRICE, false);
+      await expect(editions.mintTo(addr1.address, TYPE_ID_ONE, 2))
+        .to.emit(editions, "TransferSingle")
+        .withArgs(owner.address, ethers.ZeroAddress, addr1.address, TYPE_ID_ONE, 2);
+    });
+
+    it("Should not allow non-owners to mint for free", async function () {
+      await expect(editions.connect(addr1).mintTo(addr1.address, TYPE_ID_ONE, 1))
+        .to.be.revertedWithCustomError(editions, "OwnableUnauthorizedAccount")
+        .withArgs(addr1.address);
+    });
+  });
+
+  describe("Metadata", function () {
+    const BASE_URI = "https://api.example.com/editions/{id}.json";
+
+    beforeEach(async function () {
+      await editions.createType(TYPE_SUPPLY, 0, true, TYPE_URI);
+      await editions.createType(TYPE_SUPPLY, 0, true, "");
+    });
+
+    it("Should return the type URI, falling back to the collection URI", async function () {
+      await editions.setBaseURI(BASE_URI);
+      expect(await editions.uri(TYPE_ID_ONE)).to.equal(TYPE_URI);
+      expect(await editions.uri(2)).to.equal(BASE_URI);
+    });
+
+    it("Should signal metadata updates when a type URI changes", async function () {
+      await expect(editions.setTypeURI(2, "ipfs://editions/2.json"))
+        .to.emit(editions, "URI")
+        .withArgs("ipfs://editions/2.json", 2)
+        .and.to.emit(editions, "MetadataUpdate")
+        .withArgs(2);
+      expect(await editions.uri(2)).to.equal("ipfs://editions/2.json");
+    });
+
+    it("Should signal a batch update when the collection URI changes", async function () {
+      await expect(editions.setBaseURI(BASE_URI))
+        .to.emit(editions, "BatchMetadataUpdate")
+        .withArgs(TYPE_ID_ONE, ethers.MaxUint256);
+    });
+
+    it("Should not allow non-owners to change URIs", async function () {
+      await expect(editions.connect(addr1).setTypeURI(TYPE_ID_ONE, "new-uri"))
+        .to.be.revertedWithCustomError(editions, "OwnableUnauthorizedAccount")
+        .withArgs(addr1.address);
+      await expect(editions.connect(addr1).setBaseURI(BASE_URI))
+        .to.be.revertedWithCustomError(editions, "OwnableUnauthorizedAccount")
+        .withArgs(addr1.address);
+    });
+
+    it("Should set the collection-level metadata URI", async function () {
+      await expect(editions.setContractURI("https://api.example.com/collection.json"))
+        .to.emit(editions, "ContractURIUpdated");
+      expect(await editions.contractURI()).to.equal("https://api.example.com/collection.json");
+    });
+  });
+
+  describe("Royalties and Withdrawals", function () {
+    it("Should apply the default royalty to every type", async function () {
+      const [receiver, amount] = await editions.royaltyInfo(7, SALE_PRICE);
+      expect(receiver).to.equal(owner.address);
+      expect(amount).to.equal((SALE_PRICE * ROYALTY_BPS) / BigInt(10000));
+
+      await expect(editions.setDefaultRoyalty(addr1.address, 1000))
+        .to.emit(editions, "DefaultRoyaltyUpdated")
+        .withArgs(addr1.address, 1000);
+    });
+
+    it("Should let the owner withdraw mint proceeds", async function () {
+      await editions.createType(TYPE_SUPPLY, PRICE, true, TYPE_URI);
+      await editions.connect(addr1).mint(TYPE_ID_ONE, 2, { value: PRICE * BigInt(2) });
+
+      const tx = editions.withdraw(addr2.address);
+      await expect(tx)
+        .to.emit(editions, "Withdrawn")
+        .withArgs(addr2.address, PRICE * BigInt(2));
+      await expect(tx).to.changeEtherBalance(addr2, PRICE * BigInt(2));
+    });
+
+    it("Should reject withdrawals to the zero address", async function () {
+      await expect(editions.withdraw(ethers.ZeroAddress))
+        .to.be.revertedWithCustomError(editions, "InvalidWithdrawalRecipient");
+    });
+  });
+});
@@ -0,0 +1,262 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SimpleNFT, SimpleNFTEditions, SimpleNFTFactory } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+
+describe("SimpleNFTFactory", function () {
+  let factory: SimpleNFTFactory;
+  let implementation: SimpleNFT;
+  let editionsImplementation: SimpleNFTEditions;
+  let owner: SignerWithAddress;
+  let addr1: SignerWithAddress;
+  let addr2: SignerWithAddress;
+  const NAME = "Test NFT";
+  const SYMBOL = "TNFT";
+  const BASE_URI = "https://api.example.com/metadata/";
+  const MAX_SUPPLY = BigInt(100);
+  const ROYALTY_BPS = BigInt(500);
+  const SALE_PRICE = ethers.parseEther("1");
+
+  async function createCollection(creator: SignerWithAddress, name = NAME, symbol = SYMBOL) {
+    const tx = await factory
+      .connect(creator)
+      .createCollection(name, symbol, MAX_SUPPLY, creator.address, ROYALTY_BPS, ethers.ZeroHash, false);
+    const receipt = await tx.wait();
+    const event = receipt!.logs
+      .map((log) => factory.interface.parseLog(log))
+      .find((log) => log?.name === "CollectionCreated");
+    return ethers.getContractAt("SimpleNFT", event!.args.collection);
+  }
+
+  async function createEditions(creator: SignerWithAddress, name = NAME, symbol = SYMBOL) {
+    const tx = await factory.connect(creator).createEditions(name, symbol, creator.address, ROYALTY_BPS);
+    const receipt = await tx.wait();
+    const event = receipt!.logs
+      .map((log) => factory.interface.parseLog(log))
+      .find((log) => log?.name === "EditionsCreated");
+    return ethers.getContractAt("SimpleNFTEditions", event!.args.collection);
+  }
+
+  beforeEach(async function () {
+    [owner, addr1, addr2] = await ethers.getSigners();
+
+    // Deploy the implementation that every collection clones
+    const SimpleNFTContract = await ethers.getContractFactory("SimpleNFT");
+    implementation = await SimpleNFTContract.deploy(
+      "SimpleNFT Implementation",
+      "IMPL",
+      owner.address,
+      1,
+      owner.address,
+      0,
+      ethers.ZeroHash,
+      false
+    );
+    await implementation.waitForDeployment();
+
+    // Deploy the implementation that every editions collection clones
+    const SimpleNFTEditionsContract = await ethers.getContractFactory("SimpleNFTEditions");
+    editionsImplementation = await SimpleNFTEditionsContract.deploy(
+      "SimpleNFTEditions Implementation",
+      "IMPLE",
+      owner.address,
+      owner.address,
+      0
+    );
+    await editionsImplementation.waitForDeployment();
+
+    const FactoryContract = await ethers.getContractFactory("SimpleNFTFactory");
+    factory = await FactoryContract.deploy(
+      await implementation.getAddress(),
+      await editionsImplementation.getAddress()
+    );
+    await factory.waitForDeployment();
+  });
+
+  describe("Deployment", function () {
+    it("Should set the implementations", async function () {
+      expect(await factory.implementation()).to.equal(await implementation.getAddress());
+      expect(await factory.editionsImplementation()).to.equal(await editionsImplementation.getAddress());
+    });
+
+    it("Should reject an implementation without code", async function () {
+      const FactoryContract = await ethers.getContractFactory("SimpleNFTFactory");
+      await expect(FactoryContract.deploy(addr1.address, await editionsImplementation.getAddress()))
+        .to.be.revertedWithCustomError(factory, "InvalidImplementation")
+        .withArgs(addr1.address);
+      await expect(FactoryContract.deploy(await implementation.getAddress(), addr1.address))
+        .to.be.revertedWithCustomError(factory, "InvalidImplementation")
+        .withArgs(addr1.address);
+    });
+  });
+
+  describe("Collection Creation", function () {
+    it("Should emit CollectionCreated with the new collection", async function () {
+      await expect(
+        factory.connect(addr1).createCollection(NAME, SYMBOL, MAX_SUPPLY, addr1.address, ROYALTY_BPS, ethers.ZeroHash, false)
+      )
+        .to.emit(factory, "CollectionCreated")
+        .withArgs(addr1.address, (collection: string) => ethers.isAddress(collection), NAME, SYMBOL);
+    });
+
+    it("Should initialize the clone with the creator as owner", async function () {
+      const nft = await createCollection(addr1);
+
+      expect(await nft.name()).to.equal(NAME);
+      expect(await nft.symbol()).to.equal(SYMBOL);
+      expect(await nft.owner()).to.equal(addr1.address);
+      expect(await nft.maxSupply()).to.equal(MAX_SUPPLY);
+      expect(await nft.mintMode()).to.equal(2);
+      expect(await nft.hasRole(await nft.DEFAULT_ADMIN_ROLE(), addr1.address)).to.be.true;
+      expect(await nft.hasRole(await nft.MINTER_ROLE(), addr1.address)).to.be.true;
+      expect(await nft.hasRole(await nft.METADATA_ROLE(), addr1.address)).to.be.true;
+
+      const [receiver, amount] = await nft.royaltyInfo(1, SALE_PRICE);
+      expect(receiver).to.equal(addr1.address);
+      expect(amount).to.equal(SALE_PRICE * ROYALTY_BPS / BigInt(10000));
+    });
+
+    it("Should deploy a working collection", async function () {
+      const nft = await createCollection(addr1);
+      await nft.connect(addr1).setBaseURI(BASE_URI);
+      await nft.connect(addr2).mint();
+
+      expect(await nft.ownerOf(1)).to.equal(addr2.address);
+      expect(await nft.tokenURI(1)).to.equal(BASE_URI + "1");
+      expect(await nft.totalSupply()).to.equal(BigInt(1));
+    });
+
+    it("Should pass deployment options to the clone", async function () {
+      const provenance = ethers.keccak256(ethers.toUtf8Bytes("final ordering"));
+      const tx = await factory
+        .connect(addr1)
+        .createCollection(NAME, SYMBOL, MAX_SUPPLY, addr1.address, ROYALTY_BPS, provenance, true);
+      const receipt = await tx.wait();
+      const event = receipt!.logs
+        .map((log) => factory.interface.parseLog(log))
+        .find((log) => log?.name === "CollectionCreated");
+      const nft = await ethers.getContractAt("SimpleNFT", event!.args.collection);
+
+      expect(await nft.provenanceHash()).to.equal(provenance);
+      expect(await nft.soulbound()).to.be.true;
+    });
+
+    it("Should keep each clone's state separate", async function () {
+      const first = await createCollection(addr1, "First", "ONE");
+      const second = await createCollection(addr1, "Second", "TWO");
+      await first.mint();
+
+      expect(await first.name()).to.equal("First");
+      expect(await second.name()).to.equal("Second");
+      expect(await first.totalMinted()).to.equal(BigInt(1));
+      expect(await second.totalMinted()).to.equal(BigInt(0));
+    });
+
+    it("Should sign vouchers against the clone's own EIP712 domain", async function () {
+      const nft = await createCollection(addr1);
+      const domain = await nft.eip712Domain();
+
+      expect(domain.name).to.equal("SimpleNFT");
+      expect(domain.verifyingContract).to.equal(await nft.getAddress());
+    });
+
+    it("Should reject a zero max supply", async function () {
+      await expect(factory.createCollection(NAME, SYMBOL, 0, owner.address, ROYALTY_BPS, ethers.ZeroHash, false))
+        .to.be.revertedWithCustomError(implementation, "InvalidMaxSupply");
+    });
+
+    it("Should not allow a clone to be initialized twice", async function () {
+      const nft = await createCollection(addr1);
+      await expect(
+        nft.initialize(NAME, SYMBOL, addr2.address, MAX_SUPPLY, addr2.address, ROYALTY_BPS, ethers.ZeroHash, false)
+      )
+        .to.be.revertedWithCustomError(nft, "InvalidInitialization");
+    });
+
+    it("Should not allow the implementation to be initialized", async function () {
+      await expect(
+        implementation.initialize(
+          NAME,
+          SYMBOL,
+          addr2.address,
+          MAX_SUPPLY,
+          addr2.address,
+          ROYALTY_BPS,
+          ethers.ZeroHash,
+          false
+        )
+      ).to.be.revertedWithCustomError(implementation, "InvalidInitialization");
+    });
+  });
+
+  describe("Editions Creation", function () {
+    it("Should emit EditionsCreated with the new collection", async function () {
+      await expect(factory.connect(addr1).createEditions(NAME, SYMBOL, addr1.address, ROYALTY_BPS))
+        .to.emit(factory, "EditionsCreated")
+        .withArgs(addr1.address, (collection: string) => ethers.isAddress(collection), NAME, SYMBOL);
+    });
+
+    it("Should initialize the clone with the creator as owner", async function () {
+      const editions = await createEditions(addr1);
+
+      expect(await editions.name()).to.equal(NAME);
+      expect(await editions.symbol()).to.equal(SYMBOL);
+      expect(await editions.owner()).to.equal(addr1.address);
+      expect(await editions.typeCount()).to.equal(BigInt(0));
+
+      const [receiver, amount] = await editions.royaltyInfo(1, SALE_PRICE);
+      expect(receiver).to.equal(addr1.address);
+      expect(amount).to.equal(SALE_PRICE * ROYALTY_BPS / BigInt(10000));
+    });
+
+    it("Should deploy a working collection", async function () {
+      const editions = await createEditions(addr1);
+      await editions.connect(addr1).createType(10, 0, true, "ipfs://edition/1.json");
+      await editions.connect(addr2).mint(1, 3);
+
+      expect(await editions.balanceOf(addr2.address, 1)).to.equal(BigInt(3));
+      expect(await editions.uri(1)).to.equal("ipfs://edition/1.json");
+    });
+
+    it("Should not allow a clone to be initialized twice", async function () {
+      const editions = await createEditions(addr1);
+      await expect(editions.initialize(NAME, SYMBOL, addr2.address, addr2.address, ROYALTY_BPS))
+        .to.be.revertedWithCustomError(editions, "InvalidInitialization");
+    });
+
+    it("Should not allow the implementation to be initialized", async function () {
+      await expect(editionsImplementation.initialize(NAME, SYMBOL, addr2.address, addr2.address, ROYALTY_BPS))
+        .to.be.revertedWithCustomError(editionsImplementation, "InvalidInitialization");
+    });
+  });
+
+  describe("Creator Registry", function () {
+    it("Should list collections per creator in creation order", async function () {
+      const first = await createCollection(addr1, "First", "ONE");
+      const second = await createCollection(addr1, "Second", "TWO");
+      const other = await createCollection(addr2);
+
+      expect(await factory.collectionsOf(addr1.address)).to.deep.equal([
+        await first.getAddress(),
+        await second.getAddress()
+      ]);
+      expect(await factory.collectionsOf(addr2.address)).to.deep.equal([await other.getAddress()]);
+      expect(await factory.collectionCount(addr1.address)).to.equal(BigInt(2));
+    });
+
+    it("Should list editions alongside ERC721 collections", async function () {
+      const collection = await createCollection(addr1);
+      const editions = await createEditions(addr1);
+
+      expect(await factory.collectionsOf(addr1.address)).to.deep.equal([
+        await collection.getAddress(),
+        await editions.getAddress()
+      ]);
+    });
+
+    it("Should return an empty list for addresses without collections", async function () {
+      expect(await factory.collectionsOf(addr1.address)).to.deep.equal([]);
+      expect(await factory.collectionCount(addr1.address)).to.equal(BigInt(0));
+    });
+  });
+});
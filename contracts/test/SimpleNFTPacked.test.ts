@@ -0,0 +1,243 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SimpleNFT, SimpleNFTPacked, SimpleNFT__factory } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+
+describe("SimpleNFTPacked", function () {
+  let nft: SimpleNFTPacked;
+  let owner: SignerWithAddress;
+  let addr1: SignerWithAddress;
+  let addr2: SignerWithAddress;
+  const NAME = "Test NFT";
+  const SYMBOL = "TNFT";
+  const BASE_URI = "https://api.example.com/metadata/";
+  const MAX_SUPPLY = BigInt(100);
+  const ROYALTY_BPS = BigInt(500);
+  const BATCH_SIZE = 20;
+
+  async function deploy(contractName: "SimpleNFT" | "SimpleNFTPacked", soulbound = false) {
+    const contractFactory = await ethers.getContractFactory(contractName);
+    const contract = await contractFactory.deploy(
+      NAME,
+      SYMBOL,
+      owner.address,
+      MAX_SUPPLY,
+      owner.address,
+      ROYALTY_BPS,
+      ethers.ZeroHash,
+      soulbound
+    );
+    await contract.waitForDeployment();
+    return contract;
+  }
+
+  async function gasUsed(tx: Promise<any>) {
+    const receipt = await (await tx).wait();
+    return receipt.gasUsed as bigint;
+  }
+
+  beforeEach(async function () {
+    [owner, addr1, addr2] = await ethers.getSigners();
+    nft = (await deploy("SimpleNFTPacked")) as SimpleNFTPacked;
+    await nft.setBaseURI(BASE_URI);
+  });
+
+  describe("Compatibility", function () {
+    it("Should work through the SimpleNFT bindings", async function () {
+      const asSimpleNFT = SimpleNFT__factory.connect(await nft.getAddress(), addr1);
+
+      await asSimpleNFT.mint();
+      await asSimpleNFT.mintBatch(2);
+
+      expect(await asSimpleNFT.name()).to.equal(NAME);
+      expect(await asSimpleNFT.totalSupply()).to.equal(BigInt(3));
+      expect(await asSimpleNFT.ownerOf(3)).to.equal(addr1.address);
+      expect(await asSimpleNFT.tokenURI(3)).to.equal(`${BASE_URI}3`);
+      expect(await asSimpleNFT.tokensOfOwner(addr1.address)).to.deep.equal([BigInt(1), BigInt(2), BigInt(3)]);
+    });
+
+    it("Should support the same interfaces as SimpleNFT", async function () {
+      expect(await nft.supportsInterface("0x80ac58cd")).to.be.true;
+      expect(await nft.supportsInterface("0xad092b5c")).to.be.true;
+      expect(await nft.supportsInterface("0x2a55205a")).to.be.true;
+    });
+  });
+
+  describe("Batch Minting", function () {
+    it("Should mint sequential tokens with mint(quantity)", async function () {
+      const tx = nft.connect(addr1)["mint(uint256)"](BATCH_SIZE);
+      await expect(tx)
+        .to.emit(nft, "BatchMetadataUpdate")
+        .withArgs(1, BATCH_SIZE);
+      for (let tokenId = 1; tokenId <= BATCH_SIZE; tokenId++) {
+        await expect(tx)
+          .to.emit(nft, "Transfer")
+          .withArgs(ethers.ZeroAddress, addr1.address, tokenId);
+        expect(await nft.ownerOf(tokenId)).to.equal(addr1.address);
+      }
+
+      expect(await nft.balanceOf(addr1.address)).to.equal(BigInt(BATCH_SIZE));
+      expect(await nft.totalMinted()).to.equal(BigInt(BATCH_SIZE));
+      await expect(nft.ownerOf(BATCH_SIZE + 1))
+        .to.be.revertedWithCustomError(nft, "ERC721NonexistentToken")
+        .withArgs(BATCH_SIZE + 1);
+    });
+
+    it("Should apply the mintBatch payment, wallet and supply checks", async function () {
+      const price = ethers.parseEther("0.01");
+      await nft.setMintPrice(price);
+      await nft.setMaxPerWallet(3);
+
+      await expect(nft.connect(addr1)["mint(uint256)"](2, { value: price }))
+        .to.be.revertedWithCustomError(nft, "IncorrectPayment")
+        .withArgs(price * BigInt(2), price);
+      await expect(nft.connect(addr1)["mint(uint256)"](4, { value: price * BigInt(4) }))
+        .to.be.revertedWithCustomError(nft, "MaxPerWalletExceeded")
+        .withArgs(addr1.address, 3);
+      await expect(nft.connect(addr1)["mint(uint256)"](0))
+        .to.be.revertedWithCustomError(nft, "InvalidQuantity");
+
+      await nft.setMaxPerWallet(0);
+      await nft.setMintPrice(0);
+      await expect(nft["mint(uint256)"](MAX_SUPPLY + BigInt(1)))
+        .to.be.revertedWithCustomError(nft, "MaxSupplyReached")
+        .withArgs(MAX_SUPPLY);
+    });
+
+    it("Should keep owners separate across batches and airdrops", async function () {
+      await nft.connect(addr1)["mint(uint256)"](3);
+      await nft.airdrop([addr2.address, owner.address], [BATCH_SIZE, 2]);
+
+      expect(await nft.ownerOf(3)).to.equal(addr1.address);
+      expect(await nft.ownerOf(4)).to.equal(addr2.address);
+      expect(await nft.ownerOf(3 + BATCH_SIZE)).to.equal(addr2.address);
+      expect(await nft.ownerOf(4 + BATCH_SIZE)).to.equal(owner.address);
+      expect(await nft.balanceOf(addr2.address)).to.equal(BigInt(BATCH_SIZE));
+      expect(await nft.balanceOf(owner.address)).to.equal(BigInt(2));
+    });
+
+    it("Should revert batch mints while paused", async function () {
+      await nft.pause();
+      await expect(nft["mint(uint256)"](2)).to.be.revertedWithCustomError(nft, "EnforcedPause");
+      await expect(nft.airdrop([addr1.address], [2])).to.be.revertedWithCustomError(nft, "EnforcedPause");
+    });
+
+    it("Should reject contracts that cannot receive tokens", async function () {
+      const contractAddress = await nft.getAddress();
+      await expect(nft.airdrop([contractAddress], [2]))
+        .to.be.revertedWithCustomError(nft, "ERC721InvalidReceiver")
+        .withArgs(contractAddress);
+    });
+
+    it("Should emit Locked for every soulbound token in a batch", async function () {
+      const soulboundNft = (await deploy("SimpleNFTPacked", true)) as SimpleNFTPacked;
+      const tx = soulboundNft.connect(addr1)["mint(uint256)"](3);
+      for (let tokenId = 1; tokenId <= 3; tokenId++) {
+        await expect(tx).to.emit(soulboundNft, "Locked").withArgs(tokenId);
+      }
+
+      await expect(soulboundNft.connect(addr1).transferFrom(addr1.address, addr2.address, 2))
+        .to.be.revertedWithCustomError(soulboundNft, "TokenIsSoulbound")
+        .withArgs(2);
+    });
+
+    it("Should emit PermanentURI for batch mints after the metadata is frozen", async function () {
+      await nft.freezeMetadata();
+      const tx = nft.connect(addr1)["mint(uint256)"](2);
+      await expect(tx).to.emit(nft, "PermanentURI").withArgs(`${BASE_URI}1`, 1);
+      await expect(tx).to.emit(nft, "PermanentURI").withArgs(`${BASE_URI}2`, 2);
+    });
+  });
+
+  describe("Transfers and Burns", function () {
+    beforeEach(async function () {
+      await nft.connect(addr1)["mint(uint256)"](BATCH_SIZE);
+    });
+
+    it("Should only move the transferred token out of a batch", async function () {
+      await nft.connect(addr1).transferFrom(addr1.address, addr2.address, 5);
+
+      expect(await nft.ownerOf(4)).to.equal(addr1.address);
+      expect(await nft.ownerOf(5)).to.equal(addr2.address);
+      expect(await nft.ownerOf(6)).to.equal(addr1.address);
+      expect(await nft.ownerOf(BATCH_SIZE)).to.equal(addr1.address);
+      expect(await nft.balanceOf(addr1.address)).to.equal(BigInt(BATCH_SIZE - 1));
+      expect(await nft.balanceOf(addr2.address)).to.equal(BigInt(1));
+    });
+
+    it("Should keep the rest of a batch when a token is burned", async function () {
+      await nft.connect(addr1).burn(9);
+
+      await expect(nft.ownerOf(9))
+        .to.be.revertedWithCustomError(nft, "ERC721NonexistentToken")
+        .withArgs(9);
+      expect(await nft.ownerOf(8)).to.equal(addr1.address);
+      expect(await nft.ownerOf(10)).to.equal(addr1.address);
+      expect(await nft.totalSupply()).to.equal(BigInt(BATCH_SIZE - 1));
+      expect((await nft.tokensOfOwner(addr1.address)).length).to.equal(BATCH_SIZE - 1);
+    });
+
+    it("Should not write ownership past the minted range", async function () {
+      await nft.connect(addr1).transferFrom(addr1.address, addr2.address, BATCH_SIZE);
+      await nft.connect(owner)["mint(uint256)"](2);
+
+      expect(await nft.ownerOf(BATCH_SIZE)).to.equal(addr2.address);
+      expect(await nft.ownerOf(BATCH_SIZE + 1)).to.equal(owner.address);
+      expect(await nft.ownerOf(BATCH_SIZE + 2)).to.equal(owner.address);
+    });
+
+    it("Should clear approvals and check authorization like ERC721", async function () {
+      await nft.connect(addr1).approve(addr2.address, 3);
+      await nft.connect(addr2).transferFrom(addr1.address, owner.address, 3);
+
+      expect(await nft.getApproved(3)).to.equal(ethers.ZeroAddress);
+      await expect(nft.connect(addr2).transferFrom(owner.address, addr2.address, 3))
+        .to.be.revertedWithCustomError(nft, "ERC721InsufficientApproval")
+        .withArgs(addr2.address, 3);
+      await expect(nft.connect(addr1).transferFrom(owner.address, addr1.address, 4))
+        .to.be.revertedWithCustomError(nft, "ERC721IncorrectOwner")
+        .withArgs(owner.address, 4, addr1.address);
+    });
+  });
+
+  describe("Gas Comparison", function () {
+    let simpleNft: SimpleNFT;
+
+    beforeEach(async function () {
+      simpleNft = (await deploy("SimpleNFT")) as SimpleNFT;
+      await simpleNft.setBaseURI(BASE_URI);
+    });
+
+    it("Should mint a batch for far less gas than SimpleNFT", async function () {
+      const simpleGas = await gasUsed(simpleNft.connect(addr1).mintBatch(BATCH_SIZE));
+      const packedGas = await gasUsed(nft.connect(addr1)["mint(uint256)"](BATCH_SIZE));
+
+      console.log(`      mintBatch(${BATCH_SIZE}): SimpleNFT ${simpleGas}, SimpleNFTPacked ${packedGas}`);
+      expect(packedGas * BigInt(3)).to.be.lessThan(simpleGas);
+    });
+
+    it("Should mint a batch for close to the cost of a single mint", async function () {
+      const singleGas = await gasUsed(nft.connect(addr1)["mint()"]());
+      const batchGas = await gasUsed(nft.connect(addr2)["mint(uint256)"](BATCH_SIZE));
+      const simpleSingleGas = await gasUsed(simpleNft.connect(addr1).mint());
+
+      console.log(`      mint(): SimpleNFT ${simpleSingleGas}, SimpleNFTPacked ${singleGas}`);
+      console.log(`      SimpleNFTPacked mint(${BATCH_SIZE}): ${batchGas}`);
+      expect(singleGas).to.be.lessThanOrEqual(simpleSingleGas);
+      expect(batchGas).to.be.lessThan(singleGas * BigInt(3));
+    });
+
+    it("Should bound the cost of the first transfer out of a batch", async function () {
+      await simpleNft.connect(addr1).mintBatch(BATCH_SIZE);
+      await nft.connect(addr1)["mint(uint256)"](BATCH_SIZE);
+
+      // The last token of the first ownership stride scans furthest back
+      const tokenId = await nft.OWNERSHIP_STRIDE();
+      const simpleGas = await gasUsed(simpleNft.connect(addr1).transferFrom(addr1.address, addr2.address, tokenId));
+      const packedGas = await gasUsed(nft.connect(addr1).transferFrom(addr1.address, addr2.address, tokenId));
+
+      console.log(`      first transfer of #${tokenId}: SimpleNFT ${simpleGas}, SimpleNFTPacked ${packedGas}`);
+      expect(packedGas).to.be.lessThan(simpleGas * BigInt(2));
+    });
+  });
+});
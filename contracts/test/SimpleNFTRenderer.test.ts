@@ -0,0 +1,170 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SimpleNFT, SimpleNFTRenderer } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { GET as renderImage } from "../../frontend/src/app/api/image/[tokenId]/route";
+
+describe("SimpleNFTRenderer", function () {
+  let renderer: SimpleNFTRenderer;
+  let nft: SimpleNFT;
+  let owner: SignerWithAddress;
+  let addr1: SignerWithAddress;
+  const NAME = "Test NFT";
+  const SYMBOL = "TNFT";
+  const BASE_URI = "https://api.example.com/metadata/";
+  const MAX_SUPPLY = BigInt(100);
+  const TOKEN_ID_ONE = BigInt(1);
+  const JSON_PREFIX = "data:application/json;base64,";
+  const SVG_PREFIX = "data:image/svg+xml;base64,";
+
+  // Renders a token through the off-chain image API route
+  async function renderOffChain(tokenId: bigint) {
+    const response = await renderImage(new Request(`http://localhost/api/image/${tokenId}`), {
+      params: Promise.resolve({ tokenId: tokenId.toString() })
+    });
+    return response.text();
+  }
+
+  function decodeTokenURI(uri: string) {
+    expect(uri.startsWith(JSON_PREFIX)).to.be.true;
+    return JSON.parse(Buffer.from(uri.slice(JSON_PREFIX.length), "base64").toString("utf8"));
+  }
+
+  beforeEach(async function () {
+    [owner, addr1] = await ethers.getSigners();
+
+    const RendererContract = await ethers.getContractFactory("SimpleNFTRenderer");
+    renderer = await RendererContract.deploy();
+    await renderer.waitForDeployment();
+
+    const SimpleNFTContract = await ethers.getContractFactory("SimpleNFT");
+    nft = await SimpleNFTContract.deploy(
+      NAME,
+      SYMBOL,
+      owner.address,
+      MAX_SUPPLY,
+      owner.address,
+      0,
+      ethers.ZeroHash,
+      false
+    );
+    await nft.waitForDeployment();
+    await nft.setBaseURI(BASE_URI);
+  });
+
+  describe("SVG Rendering", function () {
+    it("Should match the off-chain image for every circle layout", async function () {
+      // IDs 1 to 40 cover all five circle counts
+      for (let tokenId = BigInt(1); tokenId <= BigInt(40); tokenId++) {
+        expect(await renderer.renderSVG(tokenId)).to.equal(await renderOffChain(tokenId));
+      }
+    });
+
+    it("Should match the off-chain image for overflowing and negative hashes", async function () {
+      const tokenIds = [BigInt(123456789), BigInt(2) ** BigInt(64), ethers.MaxUint256];
+      for (const tokenId of tokenIds) {
+        expect(await renderer.renderSVG(tokenId)).to.equal(await renderOffChain(tokenId));
+      }
+    });
+  });
+
+  describe("Token URI", function () {
+    it("Should return base64 JSON embedding the SVG", async function () {
+      const metadata = decodeTokenURI(await renderer.tokenURI(await nft.getAddress(), 7));
+
+      expect(metadata.name).to.equal(`${NAME} #7`);
+      expect(metadata.image).to.equal(SVG_PREFIX + Buffer.from(await renderOffChain(BigInt(7))).toString("base64"));
+      expect(metadata.attributes).to.deep.equal([
+        { trait_type: "Token ID", value: "7" },
+        { trait_type: "Image Type", value: "On-chain" }
+      ]);
+    });
+
+    it("Should escape quotes in the collection name", async function () {
+      const SimpleNFTContract = await ethers.getContractFactory("SimpleNFT");
+      const quoted = await SimpleNFTContract.deploy(
+        'The "Best" \\ NFT',
+        SYMBOL,
+        owner.address,
+        MAX_SUPPLY,
+        owner.address,
+        0,
+        ethers.ZeroHash,
+        false
+      );
+
+      const metadata = decodeTokenURI(await renderer.tokenURI(await quoted.getAddress(), 1));
+      expect(metadata.name).to.equal('The "Best" \\ NFT #1');
+    });
+
+    it("Should escape control characters in the collection name", async function () {
+      const controlName = "Line\nBreak\r\tTab\u0000Null\u001fUnit";
+      const SimpleNFTContract = await ethers.getContractFactory("SimpleNFT");
+      const controlled = await SimpleNFTContract.deploy(
+        controlName,
+        SYMBOL,
+        owner.address,
+        MAX_SUPPLY,
+        owner.address,
+        0,
+        ethers.ZeroHash,
+        false
+      );
+
+      const uri = await renderer.tokenURI(await controlled.getAddress(), 1);
+      const json = Buffer.from(uri.slice(JSON_PREFIX.length), "base64").toString("utf8");
+      expect(json).to.contain('"Line\\nBreak\\r\\tTab\\u0000Null\\u001fUnit #1"');
+      expect(decodeTokenURI(uri).name).to.equal(`${controlName} #1`);
+    });
+  });
+
+  describe("SimpleNFT Integration", function () {
+    beforeEach(async function () {
+      await nft.mint();
+    });
+
+    it("Should use the renderer once it is set", async function () {
+      const rendererAddress = await renderer.getAddress();
+      await expect(nft.setRenderer(rendererAddress))
+        .to.emit(nft, "RendererUpdated")
+        .withArgs(rendererAddress)
+        .and.to.emit(nft, "BatchMetadataUpdate")
+        .withArgs(TOKEN_ID_ONE, ethers.MaxUint256);
+
+      expect(await nft.renderer()).to.equal(rendererAddress);
+      expect(await nft.tokenURI(TOKEN_ID_ONE)).to.equal(
+        await renderer.tokenURI(await nft.getAddress(), TOKEN_ID_ONE)
+      );
+    });
+
+    it("Should switch back to the base URI", async function () {
+      await nft.setRenderer(await renderer.getAddress());
+      await nft.setRenderer(ethers.ZeroAddress);
+      expect(await nft.tokenURI(TOKEN_ID_ONE)).to.equal(BASE_URI + "1");
+    });
+
+    it("Should prefer per-token overrides over the renderer", async function () {
+      await nft.setRenderer(await renderer.getAddress());
+      await nft.setTokenURI(TOKEN_ID_ONE, "ipfs://prize/1.json");
+      expect(await nft.tokenURI(TOKEN_ID_ONE)).to.equal("ipfs://prize/1.json");
+    });
+
+    it("Should keep hidden collections on the placeholder", async function () {
+      await nft.setRenderer(await renderer.getAddress());
+      await nft.setNotRevealedURI("ipfs://hidden.json");
+      expect(await nft.tokenURI(TOKEN_ID_ONE)).to.equal("ipfs://hidden.json");
+    });
+
+    it("Should not allow accounts without the metadata role to set the renderer", async function () {
+      await expect(nft.connect(addr1).setRenderer(await renderer.getAddress()))
+        .to.be.revertedWithCustomError(nft, "AccessControlUnauthorizedAccount")
+        .withArgs(addr1.address, await nft.METADATA_ROLE());
+    });
+
+    it("Should not allow changing the renderer after freezing", async function () {
+      await nft.freezeMetadata();
+      await expect(nft.setRenderer(await renderer.getAddress()))
+        .to.be.revertedWith("Metadata is frozen");
+    });
+  });
+});
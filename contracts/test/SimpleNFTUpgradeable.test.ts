@@ -0,0 +1,256 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { SimpleNFTUpgradeable, SimpleNFTUpgradeableV2Mock } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+
+describe("SimpleNFTUpgradeable", function () {
+  let implementation: SimpleNFTUpgradeable;
+  let nft: SimpleNFTUpgradeable;
+  let owner: SignerWithAddress;
+  let addr1: SignerWithAddress;
+  let addr2: SignerWithAddress;
+  const NAME = "Test NFT";
+  const SYMBOL = "TNFT";
+  const BASE_URI = "https://api.example.com/metadata/";
+  const TOKEN_ID_ONE = BigInt(1);
+  const MAX_SUPPLY = BigInt(100);
+  const ROYALTY_BPS = BigInt(500);
+  const SALE_PRICE = ethers.parseEther("1");
+  const IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+  async function getImplementation(proxy: string) {
+    const value = await ethers.provider.getStorage(proxy, IMPLEMENTATION_SLOT);
+    return ethers.getAddress(ethers.dataSlice(value, 12));
+  }
+
+  async function deployV2() {
+    const V2 = await ethers.getContractFactory("SimpleNFTUpgradeableV2Mock");
+    const v2 = await V2.deploy("SimpleNFT Implementation", "IMPL", owner.address);
+    await v2.waitForDeployment();
+    return v2;
+  }
+
+  async function upgradeToV2(v2: SimpleNFTUpgradeableV2Mock) {
+    const initData = v2.interface.encodeFunctionData("initializeV2");
+    await nft.upgradeToAndCall(await v2.getAddress(), initData);
+    return ethers.getContractAt("SimpleNFTUpgradeableV2Mock", await nft.getAddress());
+  }
+
+  beforeEach(async function () {
+    [owner, addr1, addr2] = await ethers.getSigners();
+
+    const SimpleNFTUpgradeableContract = await ethers.getContractFactory("SimpleNFTUpgradeable");
+    implementation = await SimpleNFTUpgradeableContract.deploy("SimpleNFT Implementation", "IMPL", owner.address);
+    await implementation.waitForDeployment();
+
+    // Deploy the proxy and initialize it in the same transaction
+    const initData = implementation.interface.encodeFunctionData("initialize", [
+      NAME,
+      SYMBOL,
+      owner.address,
+      MAX_SUPPLY,
+      owner.address,
+      ROYALTY_BPS,
+      ethers.ZeroHash,
+      false
+    ]);
+    const ERC1967Proxy = await ethers.getContractFactory("ERC1967Proxy");
+    const proxy = await ERC1967Proxy.deploy(await implementation.getAddress(), initData);
+    await proxy.waitForDeployment();
+
+    nft = await ethers.getContractAt("SimpleNFTUpgradeable", await proxy.getAddress());
+    await nft.setBaseURI(BASE_URI);
+  });
+
+  describe("Deployment", function () {
+    it("Should initialize the proxy", async function () {
+      expect(await nft.name()).to.equal(NAME);
+      expect(await nft.symbol()).to.equal(SYMBOL);
+      expect(await nft.owner()).to.equal(owner.address);
+      expect(await nft.maxSupply()).to.equal(MAX_SUPPLY);
+      expect(await nft.hasRole(await nft.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
+      expect(await nft.initializedVersion()).to.equal(1);
+      expect(await getImplementation(await nft.getAddress())).to.equal(await implementation.getAddress());
+    });
+
+    it("Should not allow initializing the proxy twice", async function () {
+      await expect(
+        nft.initialize(NAME, SYMBOL, addr1.address, MAX_SUPPLY, addr1.address, 0, ethers.ZeroHash, false)
+      ).to.be.revertedWithCustomError(nft, "InvalidInitialization");
+    });
+
+    it("Should lock the implementation", async function () {
+      await expect(
+        implementation.initialize(NAME, SYMBOL, addr1.address, MAX_SUPPLY, addr1.address, 0, ethers.ZeroHash, false)
+      ).to.be.revertedWithCustomError(implementation, "InvalidInitialization");
+    });
+
+    it("Should keep the proxy's storage separate from the implementation", async function () {
+      await nft.mint();
+      expect(await nft.totalSupply()).to.equal(1);
+      expect(await implementation.totalSupply()).to.equal(0);
+      expect(await implementation.name()).to.equal("SimpleNFT Implementation");
+    });
+  });
+
+  describe("Upgrades", function () {
+    it("Should let the owner upgrade", async function () {
+      const v2 = await deployV2();
+      await expect(nft.upgradeToAndCall(await v2.getAddress(), "0x"))
+        .to.emit(nft, "Upgraded")
+        .withArgs(await v2.getAddress());
+
+      expect(await getImplementation(await nft.getAddress())).to.equal(await v2.getAddress());
+      const upgraded = await ethers.getContractAt("SimpleNFTUpgradeableV2Mock", await nft.getAddress());
+      expect(await upgraded.version()).to.equal("2");
+    });
+
+    it("Should not allow other accounts to upgrade", async function () {
+      const v2 = await deployV2();
+      await expect(nft.connect(addr1).upgradeToAndCall(await v2.getAddress(), "0x"))
+        .to.be.revertedWithCustomError(nft, "OwnableUnauthorizedAccount")
+        .withArgs(addr1.address);
+    });
+
+    it("Should not allow admins who are not the owner to upgrade", async function () {
+      const v2 = await deployV2();
+      await nft.grantRole(await nft.DEFAULT_ADMIN_ROLE(), addr1.address);
+      await expect(nft.connect(addr1).upgradeToAndCall(await v2.getAddress(), "0x"))
+        .to.be.revertedWithCustomError(nft, "OwnableUnauthorizedAccount")
+        .withArgs(addr1.address);
+    });
+
+    it("Should follow ownership transfers", async function () {
+      const v2 = await deployV2();
+      await nft.transferOwnership(addr1.address);
+      await nft.connect(addr1).acceptOwnership();
+
+      await expect(nft.upgradeToAndCall(await v2.getAddress(), "0x"))
+        .to.be.revertedWithCustomError(nft, "OwnableUnauthorizedAccount")
+        .withArgs(owner.address);
+      await nft.connect(addr1).upgradeToAndCall(await v2.getAddress(), "0x");
+      expect(await getImplementation(await nft.getAddress())).to.equal(await v2.getAddress());
+    });
+
+    it("Should reject implementations that are not UUPS", async function () {
+      const SimpleNFTContract = await ethers.getContractFactory("SimpleNFT");
+      const plain = await SimpleNFTContract.deploy(NAME, SYMBOL, owner.address, 1, owner.address, 0, ethers.ZeroHash, false);
+      await expect(nft.upgradeToAndCall(await plain.getAddress(), "0x"))
+        .to.be.revertedWithCustomError(nft, "ERC1967InvalidImplementation")
+        .withArgs(await plain.getAddress());
+    });
+
+    it("Should only be called through the proxy", async function () {
+      const v2 = await deployV2();
+      await expect(implementation.upgradeToAndCall(await v2.getAddress(), "0x"))
+        .to.be.revertedWithCustomError(implementation, "UUPSUnauthorizedCallContext");
+    });
+
+    it("Should run the new version's reinitializer once", async function () {
+      const v2 = await deployV2();
+      const upgraded = await upgradeToV2(v2);
+
+      expect(await upgraded.initializedVersion()).to.equal(2);
+      expect(await upgraded.upgradedAt()).to.be.greaterThan(0);
+      await expect(upgraded.initializeV2())
+        .to.be.revertedWithCustomError(upgraded, "InvalidInitialization");
+    });
+  });
+
+  describe("State Across Upgrades", function () {
+    it("Should keep tokens, balances and URIs", async function () {
+      await nft.mint();
+      await nft.connect(addr1).mint();
+      await nft.setTokenURI(TOKEN_ID_ONE, "ipfs://prize/1.json");
+      await nft.transferFrom(owner.address, addr2.address, TOKEN_ID_ONE);
+      await nft.connect(addr1).burn(2);
+
+      const upgraded = await upgradeToV2(await deployV2());
+
+      expect(await upgraded.name()).to.equal(NAME);
+      expect(await upgraded.symbol()).to.equal(SYMBOL);
+      expect(await upgraded.ownerOf(TOKEN_ID_ONE)).to.equal(addr2.address);
+      expect(await upgraded.balanceOf(addr2.address)).to.equal(1);
+      expect(await upgraded.totalMinted()).to.equal(2);
+      expect(await upgraded.totalSupply()).to.equal(1);
+      expect(await upgraded.tokenURI(TOKEN_ID_ONE)).to.equal("ipfs://prize/1.json");
+
+      // New mints continue the sequence
+      await upgraded.mint();
+      expect(await upgraded.ownerOf(3)).to.equal(owner.address);
+      expect(await upgraded.tokenURI(3)).to.equal(BASE_URI + "3");
+    });
+
+    it("Should keep ownership, roles and royalties", async function () {
+      const MINTER_ROLE = await nft.MINTER_ROLE();
+      await nft.grantRole(MINTER_ROLE, addr1.address);
+      await nft.setTokenRoyalty(TOKEN_ID_ONE, addr2.address, 1000);
+      await nft.transferOwnership(addr1.address);
+
+      const upgraded = await upgradeToV2(await deployV2());
+
+      expect(await upgraded.owner()).to.equal(owner.address);
+      expect(await upgraded.pendingOwner()).to.equal(addr1.address);
+      expect(await upgraded.hasRole(MINTER_ROLE, addr1.address)).to.be.true;
+      expect(await upgraded.getRoleMemberCount(MINTER_ROLE)).to.equal(2);
+
+      const [receiver, amount] = await upgraded.royaltyInfo(2, SALE_PRICE);
+      expect(receiver).to.equal(owner.address);
+      expect(amount).to.equal((SALE_PRICE * ROYALTY_BPS) / BigInt(10000));
+      const [tokenReceiver] = await upgraded.royaltyInfo(TOKEN_ID_ONE, SALE_PRICE);
+      expect(tokenReceiver).to.equal(addr2.address);
+    });
+
+    it("Should keep sale settings and frozen metadata", async function () {
+      await nft.mint();
+      await nft.setMintPrice(ethers.parseEther("0.01"));
+      await nft.setMintMode(1);
+      await nft.freezeMetadata();
+
+      const upgraded = await upgradeToV2(await deployV2());
+
+      expect(await upgraded.mintPrice()).to.equal(ethers.parseEther("0.01"));
+      expect(await upgraded.mintMode()).to.equal(1);
+      expect(await upgraded.isMetadataFrozen()).to.be.true;
+      await expect(upgraded.setBaseURI("new-uri/"))
+        .to.be.revertedWith("Metadata is frozen");
+    });
+
+    it("Should keep EIP712 vouchers bound to the proxy", async function () {
+      const upgraded = await upgradeToV2(await deployV2());
+      const { verifyingContract } = await upgraded.eip712Domain();
+      expect(verifyingContract).to.equal(await nft.getAddress());
+    });
+  });
+
+  describe("Storage Layout", function () {
+    // Same options as scripts/upgrade.ts
+    const validationOptions = {
+      kind: "uups" as const,
+      unsafeAllow: ["constructor" as const],
+      constructorArgs: ["SimpleNFT Implementation", "IMPL", ethers.ZeroAddress]
+    };
+
+    before(function () {
+      upgrades.silenceWarnings();
+    });
+
+    it("Should pass the upgrade safety checks", async function () {
+      const V1 = await ethers.getContractFactory("SimpleNFTUpgradeable");
+      await upgrades.validateImplementation(V1, validationOptions);
+    });
+
+    it("Should accept a version that appends state", async function () {
+      const V1 = await ethers.getContractFactory("SimpleNFTUpgradeable");
+      const V2 = await ethers.getContractFactory("SimpleNFTUpgradeableV2Mock");
+      await upgrades.validateUpgrade(V1, V2, validationOptions);
+    });
+
+    it("Should reject a version that drops state", async function () {
+      const V1 = await ethers.getContractFactory("SimpleNFTUpgradeable");
+      const V2 = await ethers.getContractFactory("SimpleNFTUpgradeableV2Mock");
+      await expect(upgrades.validateUpgrade(V2, V1, validationOptions))
+        .to.be.rejectedWith("New storage layout is incompatible");
+    });
+  });
+});
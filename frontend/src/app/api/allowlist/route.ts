@@ -0,0 +1,192 @@
+/**
+ * Allowlist API Endpoint
+ *
+ * Stores the proofs JSON produced by `contracts/scripts/build-allowlist.ts`
+ * and serves the Merkle proof for a single wallet so the collection page
+ * can call `allowlistMint`.
+ *
+ * - POST: upload a proofs file for a collection, signed by its owner
+ * - GET: look up the proof for `wallet` in collection `contract`
+ */
+
+import { NextResponse } from 'next/server';
+import { getStorage, ref, uploadBytes, getBytes } from 'firebase/storage';
+import { ethers } from 'ethers';
+import { app } from '../../../config/firebase';
+import { AUTH_ACTION_UPLOAD_ALLOWLIST, NEXUS_RPC_URL } from '../../config/constants';
+import { SimpleNFT__factory } from '../../../types/contracts/factories/contracts/SimpleNFT__factory';
+import { recoverAuthSigner } from '../auth';
+
+/**
+ * Structure of the proofs file written by the allowlist builder script
+ */
+interface AllowlistProofs {
+  /** Merkle root to set on the contract */
+  root: string;
+  /** Proofs keyed by checksummed address */
+  proofs: Record<string, string[]>;
+}
+
+// Helper function to build the storage path for a collection's allowlist
+const getAllowlistPath = (contractAddress: string) =>
+  `collections/${contractAddress.toLowerCase()}/allowlist.json`;
+
+/**
+ * Validates that an uploaded file has the shape of a proofs file
+ * @param data The parsed JSON contents
+ * @returns boolean indicating if the proofs file is valid
+ */
+function validateAllowlist(data: any): data is AllowlistProofs {
+  return !!(
+    data &&
+    ethers.isHexString(data.root, 32) &&
+    data.proofs &&
+    typeof data.proofs === 'object' &&
+    Object.entries(data.proofs).every(([address, proof]) =>
+      ethers.isAddress(address) &&
+      Array.isArray(proof) &&
+      proof.every((node) => ethers.isHexString(node, 32))
+    )
+  );
+}
+
+export async function GET(request: Request) {
+  try {
+    const url = new URL(request.url);
+    const contractAddress = url.searchParams.get('contract');
+    const wallet = url.searchParams.get('wallet');
+
+    if (!contractAddress || !ethers.isAddress(contractAddress)) {
+      return NextResponse.json(
+        { error: 'Contract address is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!wallet || !ethers.isAddress(wallet)) {
+      return NextResponse.json(
+        { error: 'Wallet address is required' },
+        { status: 400 }
+      );
+    }
+
+    const storage = getStorage(app);
+    let allowlist: AllowlistProofs;
+    try {
+      const bytes = await getBytes(ref(storage, getAllowlistPath(contractAddress)));
+      allowlist = JSON.parse(new TextDecoder().decode(bytes));
+    } catch (error) {
+      console.error('[allowlist] Error reading allowlist:', error);
+      return NextResponse.json(
+        { error: 'No allowlist found for this collection' },
+        { status: 404 }
+      );
+    }
+
+    const proof = allowlist.proofs[ethers.getAddress(wallet)];
+    if (!proof) {
+      return NextResponse.json(
+        { error: 'Wallet is not on the allowlist' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { root: allowlist.root, proof },
+      { headers: { 'Cache-Control': 'no-cache, no-store, must-revalidate' } }
+    );
+  } catch (error: any) {
+    console.error('[allowlist] Error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to load allowlist' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file') as File;
+    const contractAddress = formData.get('contractAddress') as string;
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No file uploaded' },
+        { status: 400 }
+      );
+    }
+
+    if (!contractAddress || !ethers.isAddress(contractAddress)) {
+      return NextResponse.json(
+        { error: 'Contract address is required' },
+        { status: 400 }
+      );
+    }
+
+    let allowlist: unknown;
+    try {
+      allowlist = JSON.parse(await file.text());
+    } catch {
+      allowlist = null;
+    }
+
+    if (!validateAllowlist(allowlist)) {
+      console.error('[allowlist] Invalid allowlist file:', file.name);
+      return NextResponse.json(
+        { error: 'File must be a proofs JSON from the allowlist script' },
+        { status: 400 }
+      );
+    }
+
+    // Only the owner, who sets the Merkle root on-chain, can replace the proofs
+    const signer = recoverAuthSigner(AUTH_ACTION_UPLOAD_ALLOWLIST, contractAddress, allowlist.root, {
+      issuedAt: Number(formData.get('issuedAt')),
+      signature: formData.get('signature') as string
+    });
+    if (!signer) {
+      return NextResponse.json(
+        { error: 'A recent signature from the collection owner is required' },
+        { status: 401 }
+      );
+    }
+
+    const provider = new ethers.JsonRpcProvider(NEXUS_RPC_URL);
+    const owner = await SimpleNFT__factory.connect(contractAddress, provider).owner();
+    if (signer !== owner) {
+      console.error('[allowlist] Upload signed by non-owner:', { contractAddress, signer });
+      return NextResponse.json(
+        { error: 'Only the collection owner can upload an allowlist' },
+        { status: 403 }
+      );
+    }
+
+    const storage = getStorage(app);
+    const storagePath = getAllowlistPath(contractAddress);
+    await uploadBytes(ref(storage, storagePath), Buffer.from(JSON.stringify(allowlist)), {
+      contentType: 'application/json',
+      customMetadata: {
+        contractAddress: contractAddress.toLowerCase(),
+        root: allowlist.root
+      }
+    });
+
+    console.log('[allowlist] Allowlist uploaded:', {
+      path: storagePath,
+      root: allowlist.root,
+      entries: Object.keys(allowlist.proofs).length
+    });
+
+    return NextResponse.json({
+      success: true,
+      root: allowlist.root,
+      entries: Object.keys(allowlist.proofs).length
+    });
+  } catch (error: any) {
+    console.error('[allowlist] Error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Upload failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Request Authentication Helpers
+ *
+ * Protected API routes require the caller to sign `getAuthMessage` with the
+ * wallet that manages the collection. The routes recover the signer here and
+ * then check its permissions on-chain.
+ */
+
+import { ethers } from 'ethers';
+import { getAuthMessage } from '../config/constants';
+
+// How long a signed request stays valid, in seconds
+const AUTH_MESSAGE_TTL_SECONDS = 300;
+
+// Allowed clock difference for requests issued slightly in the future
+const AUTH_CLOCK_SKEW_SECONDS = 60;
+
+/**
+ * Fields a client sends to authenticate a request
+ */
+export interface AuthFields {
+  /** Unix timestamp, in seconds, included in the signed message */
+  issuedAt: number;
+  /** Signature over `getAuthMessage` by the collection manager */
+  signature: string;
+}
+
+/**
+ * Recovers the wallet that signed a request
+ * @param action The action named in the signed message
+ * @param contractAddress The collection the request is for
+ * @param subject The value the signature is bound to
+ * @param auth The timestamp and signature sent by the client
+ * @returns The signer's checksummed address, or null if the signature is missing, stale or malformed
+ */
+export function recoverAuthSigner(
+  action: string,
+  contractAddress: string,
+  subject: string,
+  auth: Partial<AuthFields>
+): string | null {
+  const issuedAt = Number(auth.issuedAt);
+  const now = Math.floor(Date.now() / 1000);
+  if (
+    !Number.isInteger(issuedAt) ||
+    issuedAt < now - AUTH_MESSAGE_TTL_SECONDS ||
+    issuedAt > now + AUTH_CLOCK_SKEW_SECONDS ||
+    typeof auth.signature !== 'string'
+  ) {
+    return null;
+  }
+
+  try {
+    return ethers.verifyMessage(getAuthMessage(action, contractAddress, subject, issuedAt), auth.signature);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Collection Metadata API Endpoint
+ *
+ * Serves the collection-level metadata that `SimpleNFT.contractURI` points to,
+ * in the ERC-7572 contract metadata format read by marketplaces.
+ *
+ * Features:
+ * - Name and symbol read from the collection contract
+ * - Uploaded collection image with fallback to a generated image
+ * - Default royalty read from the contract's ERC-2981 royalty info
+ */
+
+import { NextResponse } from 'next/server';
+import { ethers } from 'ethers';
+import { getStorage, ref, listAll, getDownloadURL } from 'firebase/storage';
+import { app } from '../../../../config/firebase';
+import { API_URL, BASE_URL, NEXUS_RPC_URL } from '../../../config/constants';
+import { SimpleNFT__factory } from '../../../../types/contracts/factories/contracts/SimpleNFT__factory';
+
+// Sale price used to read the default royalty in basis points
+const ROYALTY_DENOMINATOR = BigInt(10000);
+
+/**
+ * Interface defining the structure of collection metadata
+ * following the ERC-7572 contract metadata standard
+ */
+interface CollectionMetadata {
+  /** The name of the collection */
+  name: string;
+  /** The symbol of the collection */
+  symbol: string;
+  /** A description of the collection */
+  description: string;
+  /** URL to the collection's image */
+  image: string;
+  /** URL to the collection's featured image */
+  featured_image: string;
+  /** URL to view the collection on the website */
+  external_link: string;
+  /** Default royalty in basis points */
+  seller_fee_basis_points: number;
+  /** Address receiving royalties */
+  fee_recipient: string;
+}
+
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ address: string }> }
+) {
+  const { address } = await context.params;
+  console.log('[collection] Request received for collection:', address);
+
+  if (!ethers.isAddress(address)) {
+    return NextResponse.json(
+      { error: 'A valid collection address is required' },
+      { status: 400 }
+    );
+  }
+
+  let onChain: { name: string; symbol: string; feeRecipient: string; feeBasisPoints: bigint };
+  try {
+    const provider = new ethers.JsonRpcProvider(NEXUS_RPC_URL);
+    const contract = SimpleNFT__factory.connect(address, provider);
+    const [name, symbol, [feeRecipient, feeBasisPoints]] = await Promise.all([
+      contract.name(),
+      contract.symbol(),
+      contract.royaltyInfo(0, ROYALTY_DENOMINATOR)
+    ]);
+    onChain = { name, symbol, feeRecipient, feeBasisPoints };
+  } catch (error) {
+    console.error('[collection] Error reading collection contract:', error);
+    return NextResponse.json(
+      { error: 'Collection not found' },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const uploadedImage = await findUploadedImage(address);
+    const image = uploadedImage || `${API_URL}/api/image/collection`;
+
+    const metadata: CollectionMetadata = {
+      name: onChain.name,
+      symbol: onChain.symbol,
+      description: `${onChain.name} (${onChain.symbol}) on the Nexus network.`,
+      image,
+      featured_image: image,
+      external_link: `${BASE_URL}/collection/${ethers.getAddress(address)}`,
+      seller_fee_basis_points: Number(onChain.feeBasisPoints),
+      fee_recipient: onChain.feeRecipient
+    };
+
+    console.log('[collection] Serving collection metadata:', {
+      address,
+      imageType: uploadedImage ? 'Uploaded' : 'Generated'
+    });
+
+    return NextResponse.json(metadata, {
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-cache, no-store, must-revalidate'
+      }
+    });
+  } catch (error: any) {
+    console.error('[collection] Error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to generate collection metadata' },
+      { status: 500 }
+    );
+  }
+}
+
+// Helper function to find the uploaded collection image
+async function findUploadedImage(contractAddress: string): Promise<string | null> {
+  try {
+    const storage = getStorage(app);
+    const listRef = ref(storage, `collections/${contractAddress.toLowerCase()}`);
+    const { items } = await listAll(listRef);
+    const collectionImage = items.find(item => item.name.startsWith('collection-'));
+
+    return collectionImage ? await getDownloadURL(collectionImage) : null;
+  } catch (error) {
+    console.error('[collection] Error finding collection image:', error);
+    return null;
+  }
+}
@@ -1,12 +1,16 @@
 import { NextResponse } from 'next/server';
+import { ethers } from 'ethers';
 import { getStorage, ref, listAll, getDownloadURL } from 'firebase/storage';
 import { app } from '../../../config/firebase';
+import { NEXUS_RPC_URL, ERC1155_INTERFACE_ID } from '../../config/constants';
+import { SimpleNFT__factory } from '../../../types/contracts/factories/contracts/SimpleNFT__factory';
 
 export async function GET(request: Request) {
   try {
     const url = new URL(request.url);
     const contractAddress = url.searchParams.get('contract');
     const tokenId = url.searchParams.get('tokenId');
+    const isPlaceholderRequest = url.searchParams.get('placeholder') === 'true';
     
     console.log('[metadata] Request received for token:', tokenId);
     
@@ -18,7 +22,7 @@ export async function GET(request: Request) {
       );
     }
 
-    if (!tokenId) {
+    if (!tokenId && !isPlaceholderRequest) {
       console.error('[metadata] Token ID is missing from request:', request.url);
       return NextResponse.json(
         { error: 'Token ID is required' },
@@ -37,6 +41,31 @@ export async function GET(request: Request) {
       uploadedImageUrl: uploadedImage
     });
 
+    // Hidden collections serve the same placeholder for every token until reveal
+    if (isPlaceholderRequest || !tokenId || !(await isCollectionRevealed(contractAddress))) {
+      const placeholder = {
+        name: tokenId ? `MyNFT #${tokenId}` : 'Unrevealed MyNFT',
+        description: 'This NFT has not been revealed yet.',
+        image: uploadedImage || `${apiUrl}/api/image/unrevealed`,
+        external_url: websiteUrl,
+        attributes: [
+          {
+            trait_type: "Status",
+            value: "Unrevealed"
+          }
+        ]
+      };
+
+      console.log('[metadata] Serving placeholder metadata:', { contractAddress, tokenId });
+
+      return NextResponse.json(placeholder, {
+        headers: {
+          'Content-Type': 'application/json',
+          'Cache-Control': 'no-cache, no-store, must-revalidate'
+        }
+      });
+    }
+
     // Generate OpenSea-compatible metadata
     const metadata = {
       name: `MyNFT #${tokenId}`,
@@ -81,6 +110,27 @@ export async function GET(request: Request) {
   }
 }
 
+// Reads the reveal state from the chain. Edition collections have no reveal
+// step, and collections that cannot be read are treated as revealed so
+// metadata keeps working if the RPC is down.
+async function isCollectionRevealed(contractAddress: string): Promise<boolean> {
+  if (!ethers.isAddress(contractAddress)) {
+    return true;
+  }
+
+  try {
+    const provider = new ethers.JsonRpcProvider(NEXUS_RPC_URL);
+    const contract = SimpleNFT__factory.connect(contractAddress, provider);
+    if (await contract.supportsInterface(ERC1155_INTERFACE_ID)) {
+      return true;
+    }
+    return await contract.isRevealed();
+  } catch (error) {
+    console.error('[metadata] Error reading reveal state:', error);
+    return true;
+  }
+}
+
 async function findUploadedImage(contractAddress: string): Promise<string | null> {
   try {
     const storage = getStorage(app);
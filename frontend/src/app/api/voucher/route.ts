@@ -0,0 +1,167 @@
+/**
+ * Mint Voucher API Endpoint
+ *
+ * Issues EIP-712 `MintVoucher`s for `SimpleNFT.redeem` so creators can
+ * authorize mints without paying gas up front. Vouchers are signed by the
+ * server key in `VOUCHER_SIGNER_PRIVATE_KEY`, which must be the collection
+ * owner or hold the VOUCHER_SIGNER_ROLE.
+ *
+ * - POST: issue a voucher for `recipient` in collection `contract`
+ *
+ * Requests must be signed with `getAuthMessage`, naming the recipient, by the
+ * collection owner or an account with the MINTER_ROLE. The voucher nonce is
+ * derived from the signed request, so replaying a request, even with a
+ * re-encoded signature, only yields a voucher that can no longer be redeemed.
+ *
+ * Vouchers are priced at the collection's current `mintPrice`, leave the
+ * token URI empty so the base URI applies, and expire after
+ * `VOUCHER_TTL_SECONDS` (one hour by default).
+ */
+
+import { NextResponse } from 'next/server';
+import { ethers } from 'ethers';
+import { AUTH_ACTION_REQUEST_VOUCHER, CHAIN_ID_DECIMAL, NEXUS_RPC_URL } from '../../config/constants';
+import { SimpleNFT__factory } from '../../../types/contracts/factories/contracts/SimpleNFT__factory';
+import { recoverAuthSigner } from '../auth';
+
+// Lifetime of an issued voucher when VOUCHER_TTL_SECONDS is not set
+const DEFAULT_VOUCHER_TTL_SECONDS = 3600;
+
+// EIP-712 types matching `SimpleNFT.MintVoucher`
+const VOUCHER_TYPES = {
+  MintVoucher: [
+    { name: 'recipient', type: 'address' },
+    { name: 'uri', type: 'string' },
+    { name: 'price', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' }
+  ]
+};
+
+// Helper function to load the server signing key
+const getVoucherSigner = () => {
+  const privateKey = process.env.VOUCHER_SIGNER_PRIVATE_KEY;
+  return privateKey ? new ethers.Wallet(privateKey) : null;
+};
+
+export async function POST(request: Request) {
+  try {
+    const { contract: contractAddress, recipient, issuedAt, signature: authSignature } = await request.json();
+
+    if (!contractAddress || !ethers.isAddress(contractAddress)) {
+      return NextResponse.json(
+        { error: 'Contract address is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!recipient || !ethers.isAddress(recipient)) {
+      return NextResponse.json(
+        { error: 'Recipient address is required' },
+        { status: 400 }
+      );
+    }
+
+    const requester = recoverAuthSigner(AUTH_ACTION_REQUEST_VOUCHER, contractAddress, recipient, {
+      issuedAt,
+      signature: authSignature
+    });
+    if (!requester) {
+      return NextResponse.json(
+        { error: 'A recent signature from the collection owner or a minter is required' },
+        { status: 401 }
+      );
+    }
+
+    const signer = getVoucherSigner();
+    if (!signer) {
+      console.error('[voucher] VOUCHER_SIGNER_PRIVATE_KEY is not configured');
+      return NextResponse.json(
+        { error: 'Voucher signing is not configured' },
+        { status: 500 }
+      );
+    }
+
+    const provider = new ethers.JsonRpcProvider(NEXUS_RPC_URL);
+    const contract = SimpleNFT__factory.connect(contractAddress, provider);
+    const [minterRole, voucherSignerRole] = await Promise.all([
+      contract.MINTER_ROLE(),
+      contract.VOUCHER_SIGNER_ROLE()
+    ]);
+    const [owner, isMinter, isVoucherSigner, price, latestBlock] = await Promise.all([
+      contract.owner(),
+      contract.hasRole(minterRole, requester),
+      contract.hasRole(voucherSignerRole, signer.address),
+      contract.mintPrice(),
+      provider.getBlock('latest')
+    ]);
+
+    // Vouchers skip the mint mode, sale window and wallet limit, so only
+    // accounts that could mint for free anyway may request them
+    if (requester !== owner && !isMinter) {
+      console.error('[voucher] Request signed by unauthorized account:', { contractAddress, requester });
+      return NextResponse.json(
+        { error: 'Only the collection owner or a minter can request vouchers' },
+        { status: 403 }
+      );
+    }
+
+    // The contract would reject vouchers from any other key
+    if (signer.address !== owner && !isVoucherSigner) {
+      return NextResponse.json(
+        { error: 'Server signer is not authorized for this collection' },
+        { status: 403 }
+      );
+    }
+
+    // Expiry is based on chain time, which is what `redeem` checks against
+    const ttl = Number(process.env.VOUCHER_TTL_SECONDS) || DEFAULT_VOUCHER_TTL_SECONDS;
+    const voucher = {
+      recipient: ethers.getAddress(recipient),
+      uri: '',
+      price,
+      expiry: BigInt((latestBlock?.timestamp ?? Math.floor(Date.now() / 1000)) + ttl),
+      // Bound to the signed request fields rather than the signature bytes,
+      // which have more than one valid encoding
+      nonce: BigInt(ethers.solidityPackedKeccak256(
+        ['string', 'address', 'address', 'address', 'uint256'],
+        [AUTH_ACTION_REQUEST_VOUCHER, contractAddress, recipient, requester, Number(issuedAt)]
+      ))
+    };
+
+    const domain = {
+      name: 'SimpleNFT',
+      version: '1',
+      chainId: CHAIN_ID_DECIMAL,
+      verifyingContract: ethers.getAddress(contractAddress)
+    };
+    const signature = await signer.signTypedData(domain, VOUCHER_TYPES, voucher);
+
+    console.log('[voucher] Voucher issued:', {
+      contract: contractAddress,
+      recipient: voucher.recipient,
+      requester,
+      expiry: voucher.expiry.toString()
+    });
+
+    // bigint fields are sent as decimal strings
+    return NextResponse.json(
+      {
+        voucher: {
+          ...voucher,
+          price: voucher.price.toString(),
+          expiry: voucher.expiry.toString(),
+          nonce: voucher.nonce.toString()
+        },
+        signature
+      },
+      { headers: { 'Cache-Control': 'no-cache, no-store, must-revalidate' } }
+    );
+  } catch (error: any) {
+    console.error('[voucher] Error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Failed to issue voucher' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,15 +1,19 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import { ethers } from 'ethers'
 import { useRouter } from 'next/navigation'
 import { use } from 'react'
-import { NEXUS_CHAIN_ID_HEX } from '../../config/constants'
+import { NEXUS_CHAIN_ID_HEX, RENDERER_ADDRESS, ERC1155_INTERFACE_ID, AUTH_ACTION_UPLOAD_ALLOWLIST, getMetadataBaseURI, getAuthMessage } from '../../config/constants'
 import { SimpleNFT__factory } from '../../../types/contracts/factories/contracts/SimpleNFT__factory'
 import type { SimpleNFT } from '../../../types/contracts/contracts/SimpleNFT'
 import { NFTCard } from '../../components/NFTCard'
 import { Navbar } from '../../components/Navbar'
 import { ExplorerLink } from '../../components/ExplorerLink'
+import { AirdropPanel } from '../../components/AirdropPanel'
+import { RolesPanel } from '../../components/RolesPanel'
+import { OwnershipPanel } from '../../components/OwnershipPanel'
+import { MintMode } from '../../types/nft'
 
 interface NFTMetadata {
   name: string;
@@ -23,6 +27,17 @@ interface NFTMetadata {
   }>;
 }
 
+type GalleryView = 'all' | 'mine'
+
+// Formats a number of seconds as "1d 02:03:04"
+const formatCountdown = (seconds: number) => {
+  const days = Math.floor(seconds / 86400)
+  const time = [Math.floor((seconds % 86400) / 3600), Math.floor((seconds % 3600) / 60), seconds % 60]
+    .map((value) => value.toString().padStart(2, '0'))
+    .join(':')
+  return days > 0 ? `${days}d ${time}` : time
+}
+
 export default function Collection({ params: paramsPromise }: { params: Promise<{ address: string }> }) {
   const { address } = use(paramsPromise)
   const router = useRouter()
@@ -34,8 +49,54 @@ export default function Collection({ params: paramsPromise }: { params: Promise<
   const [isMinting, setIsMinting] = useState(false)
   const [ownedNFTs, setOwnedNFTs] = useState<Array<{ tokenId: string; metadata: NFTMetadata | null }>>([])
   const [isLoadingNFTs, setIsLoadingNFTs] = useState(false)
+  const [galleryView, setGalleryView] = useState<GalleryView>('all')
   const [collectionName, setCollectionName] = useState('')
+  const [supply, setSupply] = useState<{ minted: bigint; max: bigint } | null>(null)
+  const isSoldOut = supply !== null && supply.minted >= supply.max
+  const [mintPrice, setMintPrice] = useState<bigint>(BigInt(0))
+  const [mintQuantity, setMintQuantity] = useState(1)
+  const remainingSupply = supply ? Number(supply.max - supply.minted) : 0
+  // Per-wallet allowance, null when the collection has no per-wallet limit
+  const [walletLimit, setWalletLimit] = useState<{ max: bigint; remaining: number } | null>(null)
+  const isWalletLimitReached = walletLimit !== null && walletLimit.remaining === 0
+  const mintableCount = walletLimit ? walletLimit.remaining : remainingSupply
+  const [allowlistProof, setAllowlistProof] = useState<string[] | null>(null)
+  const [isUploadingAllowlist, setIsUploadingAllowlist] = useState(false)
+  const allowlistInputRef = useRef<HTMLInputElement>(null)
   const [isOwner, setIsOwner] = useState(false)
+  const [ownerAddress, setOwnerAddress] = useState('')
+  const [pendingOwner, setPendingOwner] = useState(ethers.ZeroAddress)
+  const isPendingOwner = !!userAddress && pendingOwner.toLowerCase() === userAddress.toLowerCase()
+  const [isMinter, setIsMinter] = useState(false)
+  const [isAdmin, setIsAdmin] = useState(false)
+  const [isMetadataManager, setIsMetadataManager] = useState(false)
+  // Hidden collections serve placeholder metadata until revealed
+  const [isRevealed, setIsRevealed] = useState(true)
+  const [isRevealing, setIsRevealing] = useState(false)
+  const [provenanceHash, setProvenanceHash] = useState(ethers.ZeroHash)
+  const [isSoulbound, setIsSoulbound] = useState(false)
+  // Whether tokens are rendered by the on-chain renderer instead of the metadata API
+  const [isOnChainArt, setIsOnChainArt] = useState(false)
+  const [isUpdatingRenderer, setIsUpdatingRenderer] = useState(false)
+  const canUseRenderer = ethers.isAddress(RENDERER_ADDRESS)
+  const [mintMode, setMintMode] = useState<MintMode>(MintMode.Closed)
+  const [isUpdatingMintMode, setIsUpdatingMintMode] = useState(false)
+  const [isPaused, setIsPaused] = useState(false)
+  const [isUpdatingPause, setIsUpdatingPause] = useState(false)
+  // Sale window timestamps (zero when unbounded) and the offset of chain time from local time
+  const [saleWindow, setSaleWindow] = useState({ start: 0, end: 0 })
+  const [chainTimeOffset, setChainTimeOffset] = useState(0)
+  const [chainNow, setChainNow] = useState(0)
+  const saleState = chainNow < saleWindow.start
+    ? 'upcoming'
+    : saleWindow.end !== 0 && chainNow > saleWindow.end ? 'ended' : 'active'
+  // Allowlisted wallets can mint in any mode until they have claimed
+  const canMint = mintMode === MintMode.Public ||
+    (mintMode === MintMode.OwnerOnly && isMinter) ||
+    allowlistProof !== null
+  // Allowlist mints are not limited by the sale window
+  const isOutsideSale = saleState !== 'active' && allowlistProof === null
+  const isMintDisabled = isMinting || !isCorrectNetwork || isSoldOut || isPaused || isWalletLimitReached || isOutsideSale
 
   const checkNetwork = useCallback(async () => {
     if (!window.ethereum) return false
@@ -92,6 +153,132 @@ export default function Collection({ params: paramsPromise }: { params: Promise<
     }
   }
 
+  const fetchAllowlistProof = useCallback(async (contract: SimpleNFT) => {
+    setAllowlistProof(null)
+    if (!userAddress) return
+
+    try {
+      const [root, claimed] = await Promise.all([
+        contract.merkleRoot(),
+        contract.allowlistClaimed(userAddress)
+      ])
+      if (root === ethers.ZeroHash || claimed) return
+
+      const response = await fetch(`/api/allowlist?contract=${address}&wallet=${userAddress}`)
+      if (!response.ok) return
+
+      // Ignore proofs built for a different root than the one on-chain
+      const { root: proofRoot, proof } = await response.json()
+      if (proofRoot === root) {
+        setAllowlistProof(proof)
+      }
+    } catch (error) {
+      console.error('Error fetching allowlist proof:', error)
+    }
+  }, [address, userAddress])
+
+  // Tick the estimated chain time every second for the sale countdown
+  useEffect(() => {
+    const tick = () => setChainNow(Math.floor(Date.now() / 1000) + chainTimeOffset)
+    tick()
+    const interval = setInterval(tick, 1000)
+    return () => clearInterval(interval)
+  }, [chainTimeOffset])
+
+  const fetchCollectionNFTs = useCallback(async (contract: SimpleNFT, view: GalleryView) => {
+    if (!contract) return
+
+    try {
+      setIsLoadingNFTs(true)
+      const [totalMinted, maxSupply] = await Promise.all([
+        contract.totalMinted(),
+        contract.maxSupply()
+      ])
+      setSupply({ minted: totalMinted, max: maxSupply })
+      const nfts: Array<{ tokenId: string; metadata: NFTMetadata | null }> = []
+      
+      // "Mine" asks the contract for the wallet's tokens instead of scanning every ID
+      const tokenIds = view === 'mine' && userAddress
+        ? (await contract.tokensOfOwner(userAddress)).map(Number)
+        : Array.from({ length: Number(totalMinted) }, (_, index) => index + 1)
+
+      // Token IDs are sequential, but burned IDs no longer exist
+      for (const i of tokenIds) {
+        let tokenURI: string
+        try {
+          tokenURI = await contract.tokenURI(i)
+        } catch {
+          continue
+        }
+
+        try {
+          const response = await fetch(tokenURI)
+          const metadata = response.ok ? await response.json() : null
+          nfts.push({ tokenId: i.toString(), metadata })
+        } catch (error) {
+          console.error(`Error fetching NFT ${i}:`, error)
+          nfts.push({ tokenId: i.toString(), metadata: null })
+        }
+      }
+      
+      setOwnedNFTs(nfts)
+    } catch (error) {
+      console.error('Error fetching NFTs:', error)
+    } finally {
+      setIsLoadingNFTs(false)
+    }
+  }, [userAddress])
+
+  const fetchWalletLimit = useCallback(async (contract: SimpleNFT) => {
+    if (!userAddress) return
+
+    try {
+      const [max, remaining] = await Promise.all([
+        contract.maxPerWallet(),
+        contract.remainingMints(userAddress)
+      ])
+      setWalletLimit(max > BigInt(0) ? { max, remaining: Number(remaining) } : null)
+    } catch (error) {
+      console.error('Error fetching wallet limit:', error)
+    }
+  }, [userAddress])
+
+  const fetchUserRoles = useCallback(async (contract: SimpleNFT) => {
+    if (!userAddress) return
+
+    try {
+      const [minterRole, adminRole, metadataRole] = await Promise.all([
+        contract.MINTER_ROLE(),
+        contract.DEFAULT_ADMIN_ROLE(),
+        contract.METADATA_ROLE()
+      ])
+      const [minter, admin, metadataManager] = await Promise.all([
+        contract.hasRole(minterRole, userAddress),
+        contract.hasRole(adminRole, userAddress),
+        contract.hasRole(metadataRole, userAddress)
+      ])
+      setIsMinter(minter)
+      setIsAdmin(admin)
+      setIsMetadataManager(metadataManager)
+    } catch (error) {
+      console.error('Error fetching roles:', error)
+    }
+  }, [userAddress])
+
+  const fetchOwnership = useCallback(async (contract: SimpleNFT) => {
+    try {
+      const [owner, pending] = await Promise.all([
+        contract.owner(),
+        contract.pendingOwner()
+      ])
+      setOwnerAddress(owner)
+      setPendingOwner(pending)
+      setIsOwner(!!userAddress && owner.toLowerCase() === userAddress.toLowerCase())
+    } catch (error) {
+      console.error('Error fetching ownership:', error)
+    }
+  }, [userAddress])
+
   const loadContract = useCallback(async () => {
     if (!ethers.isAddress(address)) {
       router.push('/')
@@ -101,24 +288,55 @@ export default function Collection({ params: paramsPromise }: { params: Promise<
     try {
       const provider = new ethers.BrowserProvider(window.ethereum)
       const contract = SimpleNFT__factory.connect(address, provider)
+
+      // Multi-edition collections are managed from the editions page
+      if (await contract.supportsInterface(ERC1155_INTERFACE_ID)) {
+        router.replace(`/editions/${address}`)
+        return
+      }
       
       // Load contract details
-      const [name, owner] = await Promise.all([
+      const [name, price, mode, paused, saleStart, saleEnd, revealed, provenance, soulbound, renderer, latestBlock] = await Promise.all([
         contract.name(),
-        contract.owner()
+        contract.mintPrice(),
+        contract.mintMode(),
+        contract.paused(),
+        contract.saleStart(),
+        contract.saleEnd(),
+        contract.isRevealed(),
+        contract.provenanceHash(),
+        contract.soulbound(),
+        contract.renderer(),
+        provider.getBlock('latest')
       ])
 
       setCollectionName(name)
-      setIsOwner(owner.toLowerCase() === userAddress.toLowerCase())
+      setMintPrice(price)
+      setMintMode(Number(mode) as MintMode)
+      setIsPaused(paused)
+      setIsRevealed(revealed)
+      setProvenanceHash(provenance)
+      setIsSoulbound(soulbound)
+      setIsOnChainArt(renderer !== ethers.ZeroAddress)
+      setSaleWindow({ start: Number(saleStart), end: Number(saleEnd) })
+      // The sale window and rentals are checked against block time, which can drift from the local clock
+      if (latestBlock) {
+        setChainTimeOffset(latestBlock.timestamp - Math.floor(Date.now() / 1000))
+      }
       setNftContract(contract)
       
-      // Load NFTs
-      await fetchCollectionNFTs(contract)
+      // Load ownership and the connected wallet's roles, allowlist proof and NFTs
+      await fetchOwnership(contract)
+      await fetchUserRoles(contract)
+      await fetchWalletLimit(contract)
+      await fetchAllowlistProof(contract)
+      setGalleryView('all')
+      await fetchCollectionNFTs(contract, 'all')
     } catch (error) {
       console.error('Error loading contract:', error)
       router.push('/')
     }
-  }, [address, router, userAddress])
+  }, [address, router, fetchOwnership, fetchUserRoles, fetchWalletLimit, fetchAllowlistProof, fetchCollectionNFTs])
 
   useEffect(() => {
     checkWalletConnection()
@@ -142,34 +360,193 @@ export default function Collection({ params: paramsPromise }: { params: Promise<
     }
   }, [isConnected, isCorrectNetwork, loadContract])
 
-  const fetchCollectionNFTs = async (contract: SimpleNFT) => {
-    if (!contract) return
+  const changeGalleryView = async (view: GalleryView) => {
+    if (view === galleryView) return
+    setGalleryView(view)
+    if (nftContract) {
+      await fetchCollectionNFTs(nftContract, view)
+    }
+  }
+
+  const uploadAllowlist = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file || !nftContract) return
 
     try {
-      setIsLoadingNFTs(true)
-      const totalSupply = await contract.totalSupply()
-      const nfts: Array<{ tokenId: string; metadata: NFTMetadata | null }> = []
-      
-      for (let i = 1; i <= Number(totalSupply); i++) {
-        try {
-          const tokenURI = await contract.tokenURI(i)
-          const response = await fetch(tokenURI)
-          const metadata = response.ok ? await response.json() : null
-          nfts.push({ tokenId: i.toString(), metadata })
-        } catch (error) {
-          console.error(`Error fetching NFT ${i}:`, error)
-          nfts.push({ tokenId: i.toString(), metadata: null })
-        }
+      setIsUploadingAllowlist(true)
+      // The API only stores proofs signed for by the collection owner
+      let root: string
+      try {
+        root = JSON.parse(await file.text()).root
+      } catch {
+        throw new Error('File must be a proofs JSON from the allowlist script')
+      }
+      if (!ethers.isHexString(root, 32)) {
+        throw new Error('File must be a proofs JSON from the allowlist script')
+      }
+      const signer = await new ethers.BrowserProvider(window.ethereum).getSigner()
+      const issuedAt = Math.floor(Date.now() / 1000)
+      setStatus({ type: 'info', message: 'Sign the request to upload the allowlist...' })
+      const signature = await signer.signMessage(getAuthMessage(AUTH_ACTION_UPLOAD_ALLOWLIST, address, root, issuedAt))
+
+      setStatus({ type: 'info', message: 'Uploading allowlist...' })
+
+      const formData = new FormData()
+      formData.append('file', file)
+      formData.append('contractAddress', address)
+      formData.append('issuedAt', issuedAt.toString())
+      formData.append('signature', signature)
+
+      const response = await fetch('/api/allowlist', {
+        method: 'POST',
+        body: formData
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to upload allowlist')
+      }
+
+      // Only send a transaction when the on-chain root is out of date
+      if ((await nftContract.merkleRoot()) !== data.root) {
+        const tx = await nftContract.connect(signer).setMerkleRoot(data.root)
+        setStatus({ type: 'info', message: 'Updating allowlist root...', tx: tx.hash })
+        await tx.wait()
+      }
+
+      setStatus({ type: 'success', message: `Allowlist of ${data.entries} addresses is live` })
+      await fetchAllowlistProof(nftContract)
+    } catch (error: any) {
+      console.error('Allowlist upload error:', error)
+      if (error?.code === 'ACTION_REJECTED') {
+        setStatus({ type: 'info', message: 'Allowlist upload cancelled' })
+      } else {
+        setStatus({ type: 'error', message: error.message || 'Failed to upload allowlist' })
       }
-      
-      setOwnedNFTs(nfts)
-    } catch (error) {
-      console.error('Error fetching NFTs:', error)
     } finally {
-      setIsLoadingNFTs(false)
+      setIsUploadingAllowlist(false)
+    }
+  }
+
+  const updateMintMode = async (mode: MintMode) => {
+    if (!nftContract) return
+
+    try {
+      setIsUpdatingMintMode(true)
+      const signer = await new ethers.BrowserProvider(window.ethereum).getSigner()
+      const tx = await nftContract.connect(signer).setMintMode(mode)
+      setStatus({ type: 'info', message: 'Updating mint mode...', tx: tx.hash })
+
+      await tx.wait()
+      setMintMode(mode)
+      setStatus({ type: 'success', message: 'Mint mode updated', tx: tx.hash })
+    } catch (error: any) {
+      console.error('Mint mode error:', error)
+      if (error?.code === 'ACTION_REJECTED') {
+        setStatus({ type: 'info', message: 'Transaction cancelled' })
+      } else {
+        setStatus({ type: 'error', message: 'Failed to update mint mode. Please try again.' })
+      }
+    } finally {
+      setIsUpdatingMintMode(false)
     }
   }
 
+  const togglePause = async () => {
+    if (!nftContract) return
+
+    try {
+      setIsUpdatingPause(true)
+      const signer = await new ethers.BrowserProvider(window.ethereum).getSigner()
+      const contract = nftContract.connect(signer)
+      const tx = isPaused ? await contract.unpause() : await contract.pause()
+      setStatus({ type: 'info', message: isPaused ? 'Unpausing collection...' : 'Pausing collection...', tx: tx.hash })
+
+      await tx.wait()
+      setIsPaused(!isPaused)
+      setStatus({ type: 'success', message: isPaused ? 'Collection unpaused' : 'Collection paused', tx: tx.hash })
+    } catch (error: any) {
+      console.error('Pause error:', error)
+      if (error?.code === 'ACTION_REJECTED') {
+        setStatus({ type: 'info', message: 'Transaction cancelled' })
+      } else {
+        setStatus({ type: 'error', message: 'Failed to update pause state. Please try again.' })
+      }
+    } finally {
+      setIsUpdatingPause(false)
+    }
+  }
+
+  const revealCollection = async () => {
+    if (!nftContract) return
+
+    try {
+      setIsRevealing(true)
+      const signer = await new ethers.BrowserProvider(window.ethereum).getSigner()
+      const tx = await nftContract.connect(signer).reveal(getMetadataBaseURI(address))
+      setStatus({ type: 'info', message: 'Revealing collection...', tx: tx.hash })
+
+      await tx.wait()
+      setIsRevealed(true)
+      setStatus({ type: 'success', message: 'Collection revealed', tx: tx.hash })
+      await fetchCollectionNFTs(nftContract, galleryView)
+    } catch (error: any) {
+      console.error('Reveal error:', error)
+      if (error?.code === 'ACTION_REJECTED') {
+        setStatus({ type: 'info', message: 'Reveal cancelled' })
+      } else {
+        setStatus({ type: 'error', message: 'Failed to reveal collection. Please try again.' })
+      }
+    } finally {
+      setIsRevealing(false)
+    }
+  }
+
+  const toggleRenderer = async () => {
+    if (!nftContract || !canUseRenderer) return
+
+    try {
+      setIsUpdatingRenderer(true)
+      const signer = await new ethers.BrowserProvider(window.ethereum).getSigner()
+      const tx = await nftContract.connect(signer).setRenderer(isOnChainArt ? ethers.ZeroAddress : RENDERER_ADDRESS)
+      setStatus({ type: 'info', message: isOnChainArt ? 'Switching to hosted metadata...' : 'Switching to on-chain art...', tx: tx.hash })
+
+      await tx.wait()
+      setIsOnChainArt(!isOnChainArt)
+      setStatus({ type: 'success', message: isOnChainArt ? 'Using hosted metadata' : 'Using on-chain art', tx: tx.hash })
+      await fetchCollectionNFTs(nftContract, galleryView)
+    } catch (error: any) {
+      console.error('Renderer error:', error)
+      if (error?.code === 'ACTION_REJECTED') {
+        setStatus({ type: 'info', message: 'Transaction cancelled' })
+      } else {
+        setStatus({ type: 'error', message: 'Failed to update renderer. Please try again.' })
+      }
+    } finally {
+      setIsUpdatingRenderer(false)
+    }
+  }
+
+  // Keep the quantity a whole number between 1 and what the wallet can still mint
+  const handleQuantityChange = (value: string) => {
+    const quantity = Math.floor(Number(value)) || 1
+    setMintQuantity(Math.max(1, Math.min(quantity, mintableCount || 1)))
+  }
+
+  const getMintButtonLabel = () => {
+    if (isMinting) return 'Minting...'
+    if (isSoldOut) return 'Sold Out'
+    if (isPaused) return 'Paused'
+    if (isWalletLimitReached) return 'Mint Limit Reached'
+    if (isOutsideSale) return saleState === 'upcoming' ? 'Sale Not Started' : 'Sale Ended'
+    if (allowlistProof) {
+      return mintPrice > BigInt(0) ? `Allowlist Mint · ${ethers.formatEther(mintPrice)} NEXUS` : 'Allowlist Mint'
+    }
+    const label = mintQuantity > 1 ? `Mint ${mintQuantity} NFTs` : 'Mint New NFT'
+    const totalPrice = mintPrice * BigInt(mintQuantity)
+    return totalPrice > BigInt(0) ? `${label} · ${ethers.formatEther(totalPrice)} NEXUS` : label
+  }
+
   const mintNFT = async () => {
     if (!nftContract) {
       setStatus({ type: 'error', message: 'No NFT contract available' })
@@ -183,48 +560,50 @@ export default function Collection({ params: paramsPromise }: { params: Promise<
       const signer = await new ethers.BrowserProvider(window.ethereum).getSigner()
       const contractWithSigner = nftContract.connect(signer)
       
-      const tx = await contractWithSigner.mint()
+      // Re-read the price so the value sent matches what the contract expects
+      const price = await nftContract.mintPrice()
+      setMintPrice(price)
+
+      // Allowlisted wallets mint with their proof until they have claimed
+      const tx = allowlistProof
+        ? await contractWithSigner.allowlistMint(allowlistProof, { value: price })
+        : mintQuantity > 1
+          ? await contractWithSigner.mintBatch(mintQuantity, { value: price * BigInt(mintQuantity) })
+          : await contractWithSigner.mint({ value: price })
       setStatus({ 
         type: 'info', 
-        message: 'Minting NFT... Monitoring transaction status...',
+        message: `Minting ${mintQuantity > 1 && !allowlistProof ? 'NFTs' : 'NFT'}... Monitoring transaction status...`,
         tx: tx.hash 
       })
 
       const receipt = await tx.wait()
       
       if (receipt && receipt.status === 1) {
-        const mintEvent = receipt.logs.find(
-          (log) => {
-            try {
-              const parsedLog = nftContract.interface.parseLog(log)
-              return parsedLog?.name === 'Transfer' && 
-                     parsedLog.args[0] === ethers.ZeroAddress
-            } catch {
-              return false
+        const newTokenIds: string[] = []
+        for (const log of receipt.logs) {
+          try {
+            const parsedLog = nftContract.interface.parseLog(log)
+            if (parsedLog?.name === 'Transfer' && parsedLog.args[0] === ethers.ZeroAddress) {
+              newTokenIds.push(parsedLog.args[2].toString())
             }
+          } catch (error) {
+            console.error('Error parsing mint event:', error)
           }
-        )
-
-        let newTokenId = 'unknown'
-        try {
-          if (mintEvent) {
-            const parsedLog = nftContract.interface.parseLog(mintEvent)
-            if (parsedLog) {
-              newTokenId = parsedLog.args[2].toString()
-            }
-          }
-        } catch (error) {
-          console.error('Error parsing mint event:', error)
         }
 
         setStatus({ 
           type: 'success', 
-          message: `NFT #${newTokenId} minted successfully`, 
+          message: newTokenIds.length > 1
+            ? `NFTs #${newTokenIds[0]}–#${newTokenIds[newTokenIds.length - 1]} minted successfully`
+            : `NFT #${newTokenIds[0] ?? 'unknown'} minted successfully`, 
           tx: tx.hash 
         })
+        setMintQuantity(1)
 
-        // Refresh the gallery
-        await fetchCollectionNFTs(nftContract)
+        // Refresh the wallet allowance, allowlist status and gallery
+        await fetchWalletLimit(nftContract)
+        await fetchAllowlistProof(nftContract)
+        await fetchCollectionNFTs(nftContract, galleryView)
       } else {
         setStatus({ type: 'error', message: 'Minting failed. Please try again.' })
       }
@@ -233,6 +612,8 @@ export default function Collection({ params: paramsPromise }: { params: Promise<
       // Only show user-friendly error messages
       if (error?.code === 'ACTION_REJECTED') {
         setStatus({ type: 'info', message: 'Transaction cancelled' })
+      } else if (error?.code === 'INSUFFICIENT_FUNDS') {
+        setStatus({ type: 'error', message: 'Insufficient NEXUS balance to cover the mint price' })
       } else {
         setStatus({ type: 'error', message: 'Failed to mint NFT. Please try again.' })
       }
@@ -241,6 +622,93 @@ export default function Collection({ params: paramsPromise }: { params: Promise<
     }
   }
 
+  const handleAirdrop = async (recipients: string[], quantities: bigint[]) => {
+    if (!nftContract) return
+
+    try {
+      const signer = await new ethers.BrowserProvider(window.ethereum).getSigner()
+      const contractWithSigner = nftContract.connect(signer)
+
+      const tx = await contractWithSigner.airdrop(recipients, quantities)
+      setStatus({ type: 'info', message: `Airdropping to ${recipients.length} recipients...`, tx: tx.hash })
+
+      await tx.wait()
+      setStatus({ type: 'success', message: 'Airdrop completed successfully', tx: tx.hash })
+      await fetchWalletLimit(nftContract)
+      await fetchCollectionNFTs(nftContract, galleryView)
+    } catch (error: any) {
+      console.error('Airdrop error:', error)
+      if (error?.code === 'ACTION_REJECTED') {
+        setStatus({ type: 'info', message: 'Airdrop cancelled' })
+      } else {
+        setStatus({ type: 'error', message: 'Failed to airdrop NFTs. Please try again.' })
+      }
+      throw error
+    }
+  }
+
+  const updateRoleMembership = async (role: string, account: string, grant: boolean) => {
+    if (!nftContract) return
+
+    try {
+      const signer = await new ethers.BrowserProvider(window.ethereum).getSigner()
+      const contractWithSigner = nftContract.connect(signer)
+
+      const tx = grant
+        ? await contractWithSigner.grantRole(role, account)
+        : await contractWithSigner.revokeRole(role, account)
+      setStatus({ type: 'info', message: grant ? 'Granting role...' : 'Revoking role...', tx: tx.hash })
+
+      await tx.wait()
+      setStatus({ type: 'success', message: grant ? 'Role granted' : 'Role revoked', tx: tx.hash })
+      await fetchUserRoles(nftContract)
+    } catch (error: any) {
+      console.error('Role update error:', error)
+      if (error?.code === 'ACTION_REJECTED') {
+        setStatus({ type: 'info', message: 'Role update cancelled' })
+      } else {
+        setStatus({ type: 'error', message: 'Failed to update role. Please try again.' })
+      }
+      throw error
+    }
+  }
+
+  const updateOwnership = async (action: 'propose' | 'cancel' | 'accept' | 'renounce', newOwner = ethers.ZeroAddress) => {
+    if (!nftContract) return
+
+    const messages = {
+      propose: { pending: 'Proposing new owner...', done: 'New owner proposed. They must accept to take over.' },
+      cancel: { pending: 'Cancelling ownership transfer...', done: 'Ownership transfer cancelled' },
+      accept: { pending: 'Accepting ownership...', done: 'You are now the owner of this collection' },
+      renounce: { pending: 'Renouncing ownership...', done: 'Ownership renounced' }
+    }[action]
+
+    try {
+      const signer = await new ethers.BrowserProvider(window.ethereum).getSigner()
+      const contractWithSigner = nftContract.connect(signer)
+
+      const tx = action === 'accept'
+        ? await contractWithSigner.acceptOwnership()
+        : action === 'renounce'
+          ? await contractWithSigner.renounceOwnership()
+          : await contractWithSigner.transferOwnership(newOwner)
+      setStatus({ type: 'info', message: messages.pending, tx: tx.hash })
+
+      await tx.wait()
+      setStatus({ type: 'success', message: messages.done, tx: tx.hash })
+      await fetchOwnership(nftContract)
+      await fetchUserRoles(nftContract)
+    } catch (error: any) {
+      console.error('Ownership error:', error)
+      if (error?.code === 'ACTION_REJECTED') {
+        setStatus({ type: 'info', message: 'Ownership update cancelled' })
+      } else {
+        setStatus({ type: 'error', message: 'Failed to update ownership. Please try again.' })
+      }
+      throw error
+    }
+  }
+
   const handleTransfer = async (tokenId: string, to: string) => {
     if (!nftContract || !to) return
     
@@ -253,7 +721,7 @@ export default function Collection({ params: paramsPromise }: { params: Promise<
       
       await tx.wait()
       setStatus({ type: 'success', message: 'NFT transferred successfully', tx: tx.hash })
-      await fetchCollectionNFTs(nftContract)
+      await fetchCollectionNFTs(nftContract, galleryView)
     } catch (error: any) {
       console.error('Transfer error:', error)
       if (error?.code === 'ACTION_REJECTED') {
@@ -264,6 +732,53 @@ export default function Collection({ params: paramsPromise }: { params: Promise<
     }
   }
 
+  const handleLend = async (tokenId: string, user: string, expires: bigint) => {
+    if (!nftContract) return
+
+    const isEndingRental = user === ethers.ZeroAddress
+    try {
+      const signer = await new ethers.BrowserProvider(window.ethereum).getSigner()
+      const contractWithSigner = nftContract.connect(signer)
+
+      const tx = await contractWithSigner.setUser(tokenId, user, expires)
+      setStatus({ type: 'info', message: isEndingRental ? 'Ending rental...' : 'Lending NFT...', tx: tx.hash })
+
+      await tx.wait()
+      setStatus({ type: 'success', message: isEndingRental ? 'Rental ended' : 'NFT lent successfully', tx: tx.hash })
+    } catch (error: any) {
+      console.error('Lend error:', error)
+      if (error?.code === 'ACTION_REJECTED') {
+        setStatus({ type: 'info', message: 'Lending cancelled' })
+      } else {
+        setStatus({ type: 'error', message: 'Failed to update rental. Please try again.' })
+      }
+      throw error
+    }
+  }
+
+  const handleFreeze = async (tokenId: string) => {
+    if (!nftContract) return
+
+    try {
+      const signer = await new ethers.BrowserProvider(window.ethereum).getSigner()
+      const contractWithSigner = nftContract.connect(signer)
+
+      const tx = await contractWithSigner.freezeToken(tokenId)
+      setStatus({ type: 'info', message: `Freezing #${tokenId} metadata...`, tx: tx.hash })
+
+      await tx.wait()
+      setStatus({ type: 'success', message: `#${tokenId} metadata frozen`, tx: tx.hash })
+    } catch (error: any) {
+      console.error('Freeze error:', error)
+      if (error?.code === 'ACTION_REJECTED') {
+        setStatus({ type: 'info', message: 'Freeze cancelled' })
+      } else {
+        setStatus({ type: 'error', message: 'Failed to freeze metadata. Please try again.' })
+      }
+      throw error
+    }
+  }
+
   return (
     <main className="min-h-screen bg-white pt-14">
       <Navbar
@@ -276,6 +791,15 @@ export default function Collection({ params: paramsPromise }: { params: Promise<
         onNavigateHome={() => router.push('/')}
       />
 
+      {/* Paused Banner */}
+      {isPaused && (
+        <div className="bg-amber-50 border-b border-amber-100">
+          <p className="max-w-6xl mx-auto px-4 py-2 text-sm text-amber-800">
+            This collection is paused. Minting and transfers are disabled until the owner unpauses it.
+          </p>
+        </div>
+      )}
+
       {/* Collection Header */}
       <div className="bg-gray-50 border-b border-gray-100">
         <div className="max-w-6xl mx-auto px-4 py-6 md:py-8">
@@ -291,36 +815,165 @@ export default function Collection({ params: paramsPromise }: { params: Promise<
                     Owner
                   </span>
                 )}
+                {!isRevealed && (
+                  <span className="px-2 py-0.5 text-xs font-medium text-purple-700 bg-purple-50 rounded-full">
+                    Unrevealed
+                  </span>
+                )}
               </div>
 
+              {/* Minted / Max Supply */}
+              {supply && (
+                <p className="text-sm text-gray-600">
+                  {supply.minted.toString()} / {supply.max.toString()} minted
+                </p>
+              )}
+
               {/* Contract Address */}
               <ExplorerLink
                 type="address"
                 value={address}
                 className="text-sm text-gray-500 hover:text-gray-700"
               />
-            </div>
 
-            {/* Mint Button and Status */}
-            {isOwner && (
-              <div className="flex flex-col items-stretch md:items-end gap-2">
+              {/* Provenance Hash */}
+              {provenanceHash !== ethers.ZeroHash && (
+                <p className="text-xs text-gray-500 font-mono break-all">
+                  Provenance: {provenanceHash}
+                </p>
+              )}
+
+              {/* Reveal Button (shown only to metadata managers) */}
+              {!isRevealed && isMetadataManager && (
+                <button
+                  onClick={revealCollection}
+                  disabled={isRevealing || !isCorrectNetwork}
+                  className="self-start text-xs text-gray-500 hover:text-gray-700 disabled:text-gray-300 disabled:cursor-not-allowed"
+                >
+                  {isRevealing ? 'Revealing...' : 'Reveal collection'}
+                </button>
+              )}
+
+              {/* Renderer Toggle (shown only to metadata managers) */}
+              {isMetadataManager && canUseRenderer && (
                 <button
-                  onClick={mintNFT}
-                  disabled={isMinting || !isCorrectNetwork}
-                  className={`w-full md:w-auto px-6 py-2.5 text-sm font-medium rounded-lg transition-all
-                            inline-flex items-center justify-center gap-2 min-w-[160px]
-                            ${isMinting || !isCorrectNetwork
-                              ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
-                              : 'bg-black text-white hover:bg-gray-800 hover:shadow-sm active:transform active:scale-[0.98]'
-                            }`}
+                  onClick={toggleRenderer}
+                  disabled={isUpdatingRenderer || !isCorrectNetwork}
+                  className="self-start text-xs text-gray-500 hover:text-gray-700 disabled:text-gray-300 disabled:cursor-not-allowed"
                 >
-                  <span>{isMinting ? 'Minting...' : 'Mint New NFT'}</span>
-                  {!isMinting && (
-                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-                    </svg>
-                  )}
+                  {isUpdatingRenderer ? 'Updating...' : isOnChainArt ? 'Use hosted metadata' : 'Use on-chain art'}
                 </button>
+              )}
+            </div>
+
+            {/* Mint Button and Status */}
+            {(isOwner || canMint) && (
+              <div className="flex flex-col items-stretch md:items-end gap-2">
+                {canMint ? (
+                  <div className="flex gap-2">
+                    {/* Quantity Selector */}
+                    {!allowlistProof && !isSoldOut && !isWalletLimitReached && !isOutsideSale && (
+                      <input
+                        type="number"
+                        min="1"
+                        max={mintableCount}
+                        step="1"
+                        value={mintQuantity}
+                        onChange={(e) => handleQuantityChange(e.target.value)}
+                        disabled={isMinting}
+                        aria-label="Mint quantity"
+                        className="w-20 px-3 py-2 text-sm bg-white rounded-lg border border-gray-200
+                                 focus:ring-1 focus:ring-black focus:border-transparent text-gray-900"
+                      />
+                    )}
+                    <button
+                      onClick={mintNFT}
+                      disabled={isMintDisabled}
+                      className={`w-full md:w-auto px-6 py-2.5 text-sm font-medium rounded-lg transition-all
+                                inline-flex items-center justify-center gap-2 min-w-[160px]
+                                ${isMintDisabled
+                                  ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
+                                  : 'bg-black text-white hover:bg-gray-800 hover:shadow-sm active:transform active:scale-[0.98]'
+                                }`}
+                    >
+                      <span>{getMintButtonLabel()}</span>
+                      {!isMintDisabled && (
+                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                        </svg>
+                      )}
+                    </button>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">Minting is closed</p>
+                )}
+
+                {/* Sale Countdown */}
+                {canMint && !isSoldOut && (saleWindow.start !== 0 || saleWindow.end !== 0) && (
+                  <p className="text-xs text-gray-500">
+                    {saleState === 'upcoming'
+                      ? `Sale starts in ${formatCountdown(saleWindow.start - chainNow)}`
+                      : saleState === 'ended'
+                        ? 'Sale ended'
+                        : saleWindow.end !== 0 && `Sale ends in ${formatCountdown(saleWindow.end - chainNow)}`}
+                  </p>
+                )}
+
+                {/* Per-Wallet Allowance */}
+                {canMint && walletLimit && !isSoldOut && (
+                  <p className="text-xs text-gray-500">
+                    {isWalletLimitReached
+                      ? `You have minted the maximum of ${walletLimit.max.toString()} per wallet`
+                      : `You can mint ${walletLimit.remaining} more`}
+                  </p>
+                )}
+
+                {/* Mint Mode Selector (shown only to owner) */}
+                {isOwner && (
+                  <select
+                    value={mintMode}
+                    onChange={(e) => updateMintMode(Number(e.target.value) as MintMode)}
+                    disabled={isUpdatingMintMode || !isCorrectNetwork}
+                    aria-label="Mint mode"
+                    className="px-3 py-1.5 text-xs bg-white rounded-md border border-gray-200 text-gray-700
+                             focus:ring-1 focus:ring-black focus:border-transparent"
+                  >
+                    <option value={MintMode.Closed}>Minting closed</option>
+                    <option value={MintMode.OwnerOnly}>Minters only</option>
+                    <option value={MintMode.Public}>Public minting</option>
+                  </select>
+                )}
+
+                {/* Pause Toggle (shown only to owner) */}
+                {isOwner && (
+                  <button
+                    onClick={togglePause}
+                    disabled={isUpdatingPause || !isCorrectNetwork}
+                    className="text-xs text-gray-500 hover:text-gray-700 disabled:text-gray-300 disabled:cursor-not-allowed"
+                  >
+                    {isUpdatingPause ? 'Updating...' : isPaused ? 'Unpause collection' : 'Pause collection'}
+                  </button>
+                )}
+
+                {/* Allowlist Upload (shown only to owner) */}
+                {isOwner && (
+                  <>
+                    <button
+                      onClick={() => allowlistInputRef.current?.click()}
+                      disabled={isUploadingAllowlist || !isCorrectNetwork}
+                      className="text-xs text-gray-500 hover:text-gray-700 disabled:text-gray-300 disabled:cursor-not-allowed"
+                    >
+                      {isUploadingAllowlist ? 'Uploading allowlist...' : 'Upload allowlist proofs'}
+                    </button>
+                    <input
+                      ref={allowlistInputRef}
+                      type="file"
+                      accept="application/json"
+                      onChange={uploadAllowlist}
+                      className="hidden"
+                    />
+                  </>
+                )}
 
                 {/* Status Messages */}
                 {status.message && (
@@ -355,6 +1008,60 @@ export default function Collection({ params: paramsPromise }: { params: Promise<
       <div className="py-8">
         <div className="max-w-6xl mx-auto px-4">
           <div className="flex flex-col gap-6">
+            {/* Ownership Panel (shown only to the owner and pending owner) */}
+            {(isOwner || isPendingOwner) && ownerAddress && (
+              <OwnershipPanel
+                ownerAddress={ownerAddress}
+                pendingOwner={pendingOwner}
+                isOwner={isOwner}
+                isPendingOwner={isPendingOwner}
+                onTransferOwnership={(newOwner) =>
+                  updateOwnership(newOwner === ethers.ZeroAddress ? 'cancel' : 'propose', newOwner)
+                }
+                onAcceptOwnership={() => updateOwnership('accept')}
+                onRenounceOwnership={() => updateOwnership('renounce')}
+                disabled={!isCorrectNetwork}
+              />
+            )}
+
+            {/* Roles Panel (shown only to admins) */}
+            {isAdmin && (
+              <RolesPanel
+                nftContract={nftContract}
+                onGrantRole={(role, account) => updateRoleMembership(role, account, true)}
+                onRevokeRole={(role, account) => updateRoleMembership(role, account, false)}
+                disabled={!isCorrectNetwork}
+              />
+            )}
+
+            {/* Airdrop Panel (shown only to minters) */}
+            {isMinter && (
+              <AirdropPanel
+                onAirdrop={handleAirdrop}
+                disabled={!isCorrectNetwork || isSoldOut || isPaused}
+              />
+            )}
+
+            {/* Mine / All Toggle */}
+            {userAddress && (
+              <div className="flex self-start rounded-lg border border-gray-200 p-0.5">
+                {(['all', 'mine'] as const).map((view) => (
+                  <button
+                    key={view}
+                    onClick={() => changeGalleryView(view)}
+                    disabled={isLoadingNFTs}
+                    className={`px-4 py-1.5 text-sm font-medium rounded-md transition-colors
+                              ${galleryView === view
+                                ? 'bg-black text-white'
+                                : 'text-gray-500 hover:text-gray-900'
+                              }`}
+                  >
+                    {view === 'all' ? 'All' : 'Mine'}
+                  </button>
+                ))}
+              </div>
+            )}
+
             {/* NFT Gallery */}
             {isLoadingNFTs ? (
               <div className="w-full flex items-center justify-center py-12">
@@ -362,7 +1069,9 @@ export default function Collection({ params: paramsPromise }: { params: Promise<
               </div>
             ) : ownedNFTs.length === 0 ? (
               <div className="w-full py-16">
-                <p className="text-center text-gray-400">No NFTs in collection</p>
+                <p className="text-center text-gray-400">
+                  {galleryView === 'mine' ? 'You do not own any NFTs in this collection' : 'No NFTs in collection'}
+                </p>
               </div>
             ) : (
               <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
@@ -374,6 +1083,12 @@ export default function Collection({ params: paramsPromise }: { params: Promise<
                     userAddress={userAddress}
                     nftContract={nftContract}
                     onTransfer={handleTransfer}
+                    onLend={handleLend}
+                    onFreeze={handleFreeze}
+                    canFreeze={isMetadataManager && isRevealed}
+                    isPaused={isPaused}
+                    isSoulbound={isSoulbound}
+                    chainTimeOffset={chainTimeOffset}
                   />
                 ))}
               </div>
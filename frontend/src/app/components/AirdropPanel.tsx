@@ -0,0 +1,137 @@
+/**
+ * AirdropPanel Component
+ *
+ * An owner-only panel for minting tokens to many recipients in a single
+ * `airdrop` transaction.
+ *
+ * Features:
+ * - Paste recipients as one `address,quantity` pair per line
+ * - Load the same format from a CSV file
+ * - Quantity defaults to 1 when a line only contains an address
+ * - Validates every line before the transaction is sent
+ */
+
+import { useState, useRef } from 'react';
+import { ethers } from 'ethers';
+
+interface AirdropPanelProps {
+  /** Callback function to send the airdrop transaction */
+  onAirdrop: (recipients: string[], quantities: bigint[]) => Promise<void>;
+  /** Whether the connected wallet can currently send transactions */
+  disabled?: boolean;
+}
+
+interface ParsedRecipients {
+  recipients: string[];
+  quantities: bigint[];
+  /** Description of the first invalid line, if any */
+  error: string | null;
+}
+
+/**
+ * Parses `address,quantity` lines, skipping blank lines and a header row
+ */
+const parseRecipients = (text: string): ParsedRecipients => {
+  const recipients: string[] = [];
+  const quantities: bigint[] = [];
+  const lines = text.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const [address = '', quantity = '1'] = lines[i].split(',').map((value) => value.trim());
+    if (!address || (i === 0 && !address.startsWith('0x'))) continue;
+
+    if (!ethers.isAddress(address)) {
+      return { recipients, quantities, error: `Invalid address on line ${i + 1}` };
+    }
+    if (!/^[1-9]\d*$/.test(quantity)) {
+      return { recipients, quantities, error: `Invalid quantity on line ${i + 1}` };
+    }
+
+    recipients.push(ethers.getAddress(address));
+    quantities.push(BigInt(quantity));
+  }
+
+  return { recipients, quantities, error: null };
+};
+
+export function AirdropPanel({ onAirdrop, disabled = false }: AirdropPanelProps) {
+  const [recipientList, setRecipientList] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { recipients, quantities, error } = parseRecipients(recipientList);
+  const totalTokens = quantities.reduce((sum, quantity) => sum + quantity, BigInt(0));
+  const canSend = !disabled && !isSending && !error && recipients.length > 0;
+
+  // Load a CSV file into the text area so it can be reviewed before sending
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) {
+      setRecipientList(await file.text());
+    }
+  };
+
+  const handleAirdrop = async () => {
+    if (!canSend) return;
+    setIsSending(true);
+    try {
+      await onAirdrop(recipients, quantities);
+      setRecipientList('');
+    } catch (error) {
+      console.error('Airdrop error:', error);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="w-full bg-white rounded-lg border border-gray-100 overflow-hidden">
+      <div className="p-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-medium text-gray-900">Airdrop</h2>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="text-xs text-gray-500 hover:text-gray-700"
+          >
+            Load CSV
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv,text/plain"
+            onChange={handleFileSelect}
+            className="hidden"
+          />
+        </div>
+
+        <textarea
+          rows={4}
+          placeholder={'0x... , 2\n0x...'}
+          value={recipientList}
+          onChange={(e) => setRecipientList(e.target.value)}
+          className="mt-4 w-full px-3 py-2 text-xs bg-white rounded-md border border-gray-200
+                   focus:ring-1 focus:ring-black focus:border-transparent
+                   text-gray-900 placeholder-gray-400 font-mono"
+        />
+
+        <div className="mt-2 flex items-center justify-between gap-4">
+          <p className={`text-xs ${error ? 'text-red-600' : 'text-gray-500'}`}>
+            {error || `${recipients.length} recipients · ${totalTokens.toString()} tokens`}
+          </p>
+          <button
+            onClick={handleAirdrop}
+            disabled={!canSend}
+            className={`px-4 py-2 text-sm font-medium rounded-md transition-colors
+                      ${canSend
+                        ? 'bg-black text-white hover:bg-gray-800'
+                        : 'bg-gray-100 text-gray-400 cursor-not-allowed'
+                      }`}
+          >
+            {isSending ? 'Airdropping...' : 'Airdrop'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
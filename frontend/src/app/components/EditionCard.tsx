@@ -0,0 +1,173 @@
+/**
+ * EditionCard Component
+ *
+ * Displays a single token type of a SimpleNFTEditions collection with its
+ * supply and the controls to mint copies.
+ *
+ * Features:
+ * - Displays the type's image and name from its metadata
+ * - Shows minted copies against the supply cap, or marks open editions
+ * - Shows how many copies the connected wallet holds
+ * - Mints a chosen number of copies at the type price while it is on sale
+ * - Lets the owner open or close the public sale and mint copies to any address
+ */
+
+import { useState } from 'react';
+import { ethers } from 'ethers';
+import Image from 'next/image';
+import type { EditionType } from '../types/nft';
+
+interface EditionCardProps {
+  /** The token type to display */
+  edition: EditionType;
+  /** Whether the connected wallet owns the collection */
+  isOwner: boolean;
+  /** Callback function to mint copies to the connected wallet at the type price */
+  onMint: (id: string, amount: bigint) => Promise<void>;
+  /** Callback function for the owner to mint copies to any address for free */
+  onMintTo: (id: string, to: string, amount: bigint) => Promise<void>;
+  /** Callback function for the owner to open or close the public sale */
+  onUpdateSale: (id: string, price: bigint, publicMint: boolean) => Promise<void>;
+  /** Whether the connected wallet can currently send transactions */
+  disabled?: boolean;
+}
+
+export function EditionCard({ edition, isOwner, onMint, onMintTo, onUpdateSale, disabled = false }: EditionCardProps) {
+  const [amount, setAmount] = useState('1');
+  const [recipient, setRecipient] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const isOpenEdition = edition.maxSupply === BigInt(0);
+  const remaining = isOpenEdition ? null : edition.maxSupply - edition.minted;
+  const isSoldOut = remaining !== null && remaining <= BigInt(0);
+  const isValidAmount = /^[1-9]\d*$/.test(amount.trim()) &&
+    (remaining === null || BigInt(amount.trim()) <= remaining);
+  const isBusy = disabled || isSending;
+  const name = edition.metadata?.name || `Edition #${edition.id}`;
+
+  // Send a transaction and report failures through the page status
+  const send = async (action: () => Promise<void>) => {
+    setIsSending(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error('Edition update error:', error);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleMintTo = () => send(async () => {
+    await onMintTo(edition.id, ethers.getAddress(recipient), BigInt(amount.trim()));
+    setRecipient('');
+  });
+
+  return (
+    <div className="bg-white rounded-lg overflow-hidden hover:shadow-md transition-shadow duration-300 border border-gray-100">
+      {/* Edition Image */}
+      <div className="relative w-full aspect-square rounded-lg overflow-hidden bg-gray-50">
+        {edition.metadata ? (
+          <Image
+            src={edition.metadata.image || '/placeholder.png'}
+            alt={name}
+            fill
+            className="object-cover"
+            priority={false}
+          />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center">
+            <p className="text-xs text-gray-400">No metadata for #{edition.id}</p>
+          </div>
+        )}
+        <div className="absolute top-2 right-2 px-1.5 py-0.5 bg-black/70 backdrop-blur-sm rounded-full">
+          <span className="text-xs font-medium text-white">#{edition.id}</span>
+        </div>
+        {isOpenEdition && (
+          <div className="absolute top-2 left-2 px-1.5 py-0.5 bg-sky-600/90 backdrop-blur-sm rounded-full">
+            <span className="text-xs font-medium text-white">Open Edition</span>
+          </div>
+        )}
+      </div>
+
+      <div className="px-3 py-2">
+        <p className="text-sm font-medium text-gray-900 truncate">{name}</p>
+        <p className="text-xs text-gray-500">
+          {isOpenEdition
+            ? `${edition.minted.toString()} minted`
+            : `${edition.minted.toString()} / ${edition.maxSupply.toString()} minted`}
+          {edition.balance > BigInt(0) && ` · You own ${edition.balance.toString()}`}
+        </p>
+        <p className="text-xs text-gray-500">
+          {edition.publicMint
+            ? edition.price > BigInt(0) ? `${ethers.formatEther(edition.price)} NEXUS each` : 'Free mint'
+            : 'Not on sale'}
+        </p>
+      </div>
+
+      {/* Mint Controls */}
+      {!isSoldOut && (edition.publicMint || isOwner) && (
+        <div className="px-3 pb-2 flex gap-1.5">
+          <input
+            type="number"
+            min="1"
+            step="1"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            aria-label="Copies"
+            className="w-16 px-2 py-1.5 text-xs bg-white rounded-md border border-gray-200
+                     focus:ring-1 focus:ring-black focus:border-transparent text-gray-900"
+          />
+          {edition.publicMint && (
+            <button
+              onClick={() => send(() => onMint(edition.id, BigInt(amount.trim())))}
+              disabled={!isValidAmount || isBusy}
+              className="flex-1 px-4 py-1.5 text-xs font-medium text-white bg-black rounded-md
+                       hover:bg-gray-800 transition-colors
+                       disabled:bg-gray-200 disabled:text-gray-400 disabled:cursor-not-allowed"
+            >
+              {isSending ? 'Minting...' : 'Mint'}
+            </button>
+          )}
+        </div>
+      )}
+      {isSoldOut && (
+        <p className="px-3 pb-2 text-xs text-gray-400">Sold out</p>
+      )}
+
+      {/* Owner Controls */}
+      {isOwner && (
+        <div className="px-3 py-2 border-t border-gray-100 flex flex-col gap-1.5">
+          {!isSoldOut && (
+            <div className="flex gap-1.5">
+              <input
+                type="text"
+                placeholder="Recipient address (0x...)"
+                value={recipient}
+                onChange={(e) => setRecipient(e.target.value)}
+                className="flex-1 min-w-0 px-2 py-1.5 text-xs bg-white rounded-md border border-gray-200
+                         focus:ring-1 focus:ring-black focus:border-transparent
+                         text-gray-900 placeholder-gray-400"
+              />
+              <button
+                onClick={handleMintTo}
+                disabled={!ethers.isAddress(recipient) || !isValidAmount || isBusy}
+                className="px-3 py-1.5 text-xs font-medium text-gray-900 bg-white rounded-md
+                         border border-gray-200 hover:border-gray-300 transition-colors
+                         disabled:text-gray-400 disabled:cursor-not-allowed"
+              >
+                Send
+              </button>
+            </div>
+          )}
+          <button
+            onClick={() => send(() => onUpdateSale(edition.id, edition.price, !edition.publicMint))}
+            disabled={isBusy}
+            className="self-start text-xs text-gray-500 hover:text-gray-700 disabled:text-gray-300 disabled:cursor-not-allowed"
+          >
+            {edition.publicMint ? 'Close public sale' : 'Open public sale'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
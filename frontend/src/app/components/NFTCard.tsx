@@ -9,6 +9,10 @@
  * - Shows collection name and token ID
  * - Displays ownership information
  * - Provides transfer functionality for owners
+ * - Disables transfers while the collection is paused
+ * - Marks soulbound tokens and hides their transfer controls
+ * - Lends tokens to a user for a number of days (ERC-4907) and shows active rentals
+ * - Marks tokens whose metadata is frozen and lets metadata managers freeze them
  * - Fetches collection name directly from the smart contract
  * 
  * The component uses a hybrid approach where static metadata (image, attributes)
@@ -16,7 +20,8 @@
  * directly from the blockchain for maximum accuracy.
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import { ethers } from 'ethers';
 import { NFTMetadata } from '../types/nft';
 import { NEXUS_EXPLORER_URL } from '../config/constants';
 import type { SimpleNFT } from '../../types/contracts/contracts/SimpleNFT';
@@ -33,6 +38,18 @@ interface NFTCardProps {
   nftContract: SimpleNFT | null;
   /** Callback function to handle NFT transfers */
   onTransfer: (tokenId: string, to: string) => Promise<void>;
+  /** Callback function to lend the NFT, or end a rental when `user` is the zero address */
+  onLend: (tokenId: string, user: string, expires: bigint) => Promise<void>;
+  /** Callback function to freeze the NFT's metadata permanently */
+  onFreeze: (tokenId: string) => Promise<void>;
+  /** Whether the current user may freeze the NFT's metadata */
+  canFreeze?: boolean;
+  /** Whether the contract is paused, which blocks transfers */
+  isPaused?: boolean;
+  /** Whether the collection is soulbound, so tokens can never be transferred */
+  isSoulbound?: boolean;
+  /** Seconds the chain's clock is ahead of the local clock, used for rental expiries */
+  chainTimeOffset?: number;
 }
 
 /**
@@ -43,16 +60,46 @@ const formatAddress = (address: string | null | undefined) => {
   return `${address.slice(0, 6)}...${address.slice(-4)}`;
 };
 
-export function NFTCard({ tokenId, metadata, userAddress, nftContract, onTransfer }: NFTCardProps) {
+/**
+ * Formats a UNIX timestamp as a short local date and time
+ */
+const formatExpiry = (timestamp: number) =>
+  new Date(timestamp * 1000).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+export function NFTCard({
+  tokenId,
+  metadata,
+  userAddress,
+  nftContract,
+  onTransfer,
+  onLend,
+  onFreeze,
+  canFreeze = false,
+  isPaused = false,
+  isSoulbound = false,
+  chainTimeOffset = 0
+}: NFTCardProps) {
   // State for owner's address and ownership status
   const [owner, setOwner] = useState<string | null>(null);
   const [isOwner, setIsOwner] = useState(false);
   // State for transfer functionality
   const [transferAddress, setTransferAddress] = useState('');
   const [isTransferring, setIsTransferring] = useState(false);
+  // State for lending functionality
+  const [rental, setRental] = useState<{ user: string; expires: number } | null>(null);
+  const [lendAddress, setLendAddress] = useState('');
+  const [lendDays, setLendDays] = useState('7');
+  const [isLending, setIsLending] = useState(false);
+  const [isSendingLend, setIsSendingLend] = useState(false);
+  // State for metadata freezing
+  const [isFrozen, setIsFrozen] = useState(false);
+  const [isFreezing, setIsFreezing] = useState(false);
   // State for collection name from blockchain
   const [collectionName, setCollectionName] = useState<string>('');
 
+  const isValidLend = ethers.isAddress(lendAddress) && /^[1-9]\d*$/.test(lendDays.trim());
+  const isRenter = !!rental && rental.user.toLowerCase() === userAddress?.toLowerCase();
+
   // Fetch owner and collection name from blockchain
   useEffect(() => {
     const fetchOwnerAndName = async () => {
@@ -74,9 +121,41 @@ export function NFTCard({ tokenId, metadata, userAddress, nftContract, onTransfe
     fetchOwnerAndName();
   }, [nftContract, tokenId, userAddress]);
 
+  // Fetch the current rental, if any
+  const fetchRental = useCallback(async () => {
+    if (!nftContract) return;
+    try {
+      const [user, expires] = await Promise.all([
+        nftContract.userOf(tokenId),
+        nftContract.userExpires(tokenId)
+      ]);
+      setRental(user !== ethers.ZeroAddress ? { user, expires: Number(expires) } : null);
+    } catch (error) {
+      console.error('Error fetching rental:', error);
+    }
+  }, [nftContract, tokenId]);
+
+  useEffect(() => {
+    fetchRental();
+  }, [fetchRental]);
+
+  // Fetch whether the token's metadata is frozen
+  const fetchFrozen = useCallback(async () => {
+    if (!nftContract) return;
+    try {
+      setIsFrozen(await nftContract.isTokenFrozen(tokenId));
+    } catch (error) {
+      console.error('Error fetching frozen state:', error);
+    }
+  }, [nftContract, tokenId]);
+
+  useEffect(() => {
+    fetchFrozen();
+  }, [fetchFrozen]);
+
   // Handle NFT transfer
   const handleTransfer = async () => {
-    if (!transferAddress) return;
+    if (!transferAddress || isPaused || isSoulbound) return;
     setIsTransferring(true);
     try {
       await onTransfer(tokenId, transferAddress);
@@ -88,6 +167,45 @@ export function NFTCard({ tokenId, metadata, userAddress, nftContract, onTransfe
     }
   };
 
+  // Lend the NFT for the chosen number of days, or end the current rental
+  const handleLend = async (endRental = false) => {
+    if (!endRental && !isValidLend) return;
+    setIsSendingLend(true);
+    try {
+      if (endRental) {
+        await onLend(tokenId, ethers.ZeroAddress, BigInt(0));
+      } else {
+        // `userOf` compares the expiry against the block timestamp, not the local clock
+        const expires = Math.floor(Date.now() / 1000) + chainTimeOffset + Number(lendDays) * 86400;
+        await onLend(tokenId, ethers.getAddress(lendAddress), BigInt(expires));
+      }
+      setLendAddress('');
+      setIsLending(false);
+      await fetchRental();
+    } catch (error) {
+      console.error('Lend error:', error);
+    } finally {
+      setIsSendingLend(false);
+    }
+  };
+
+  // Freeze the token's metadata after confirming, since it cannot be undone
+  const handleFreeze = async () => {
+    const confirmed = window.confirm(
+      `Freezing keeps #${tokenId} on its current metadata forever. Continue?`
+    );
+    if (!confirmed) return;
+    setIsFreezing(true);
+    try {
+      await onFreeze(tokenId);
+      await fetchFrozen();
+    } catch (error) {
+      console.error('Freeze error:', error);
+    } finally {
+      setIsFreezing(false);
+    }
+  };
+
   // Format NFT name using collection name from contract
   const formattedName = collectionName ? `${collectionName} #${tokenId}` : `#${tokenId}`;
 
@@ -107,8 +225,27 @@ export function NFTCard({ tokenId, metadata, userAddress, nftContract, onTransfe
             <div className="absolute top-2 right-2 px-1.5 py-0.5 bg-black/70 backdrop-blur-sm rounded-full">
               <span className="text-xs font-medium text-white">#{tokenId}</span>
             </div>
+            <div className="absolute top-2 left-2 flex gap-1">
+              {isSoulbound && (
+                <div className="px-1.5 py-0.5 bg-purple-600/90 backdrop-blur-sm rounded-full">
+                  <span className="text-xs font-medium text-white">Soulbound</span>
+                </div>
+              )}
+              {isFrozen && (
+                <div className="px-1.5 py-0.5 bg-sky-600/90 backdrop-blur-sm rounded-full" title="Metadata is frozen">
+                  <span className="text-xs font-medium text-white">Frozen</span>
+                </div>
+              )}
+            </div>
           </div>
 
+          {/* Rental Information */}
+          {rental && (
+            <p className="px-3 pt-2 text-xs text-gray-500">
+              {isRenter ? 'Rented by you' : `Lent to ${formatAddress(rental.user)}`} until {formatExpiry(rental.expires)}
+            </p>
+          )}
+
           {/* Owner Information */}
           {owner && !isOwner && (
             <div className="mt-1.5">
@@ -138,8 +275,8 @@ export function NFTCard({ tokenId, metadata, userAddress, nftContract, onTransfe
             </div>
           )}
 
-          {/* Transfer Controls (shown only to owner) */}
-          {isOwner && (
+          {/* Transfer Controls (shown only to owner of transferable tokens) */}
+          {isOwner && !isSoulbound && (
             isTransferring ? (
               <div className="px-3 py-2 mt-1.5 border-t border-gray-100">
                 <div className="flex gap-1.5">
@@ -154,6 +291,7 @@ export function NFTCard({ tokenId, metadata, userAddress, nftContract, onTransfe
                   />
                   <button
                     onClick={handleTransfer}
+                    disabled={isPaused}
                     className="px-4 py-1.5 text-xs font-medium text-white bg-black rounded-md
                              hover:bg-gray-800 transition-colors flex items-center gap-1.5
                              disabled:bg-gray-200 disabled:text-gray-400 disabled:cursor-not-allowed"
@@ -179,11 +317,13 @@ export function NFTCard({ tokenId, metadata, userAddress, nftContract, onTransfe
               <div className="mt-1.5">
                 <button
                   onClick={() => setIsTransferring(true)}
+                  disabled={isPaused}
                   className="w-full py-2.5 text-sm font-medium text-white bg-black/90
                            hover:bg-black transition-all group flex items-center justify-center gap-2
-                           border-t border-gray-800 rounded-lg"
+                           border-t border-gray-800 rounded-lg
+                           disabled:bg-gray-200 disabled:text-gray-400 disabled:border-gray-200 disabled:cursor-not-allowed"
                 >
-                  <span>Transfer NFT</span>
+                  <span>{isPaused ? 'Transfers Paused' : 'Transfer NFT'}</span>
                   <svg 
                     className="w-4 h-4 -rotate-45 group-hover:translate-x-0.5 group-hover:-translate-y-0.5 transition-transform" 
                     fill="none" 
@@ -201,6 +341,81 @@ export function NFTCard({ tokenId, metadata, userAddress, nftContract, onTransfe
               </div>
             )
           )}
+
+          {/* Lend Controls (shown only to owner) */}
+          {isOwner && (
+            isLending ? (
+              <div className="px-3 py-2 mt-1.5 border-t border-gray-100">
+                <div className="flex gap-1.5">
+                  <input
+                    type="text"
+                    placeholder="User address (0x...)"
+                    value={lendAddress}
+                    onChange={(e) => setLendAddress(e.target.value)}
+                    className="flex-1 min-w-0 px-2 py-1.5 text-xs bg-white rounded-md border border-gray-200 
+                             focus:ring-1 focus:ring-black focus:border-transparent
+                             text-gray-900 placeholder-gray-400"
+                  />
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={lendDays}
+                    onChange={(e) => setLendDays(e.target.value)}
+                    aria-label="Rental days"
+                    className="w-14 px-2 py-1.5 text-xs bg-white rounded-md border border-gray-200 
+                             focus:ring-1 focus:ring-black focus:border-transparent text-gray-900"
+                  />
+                  <button
+                    onClick={() => handleLend()}
+                    disabled={!isValidLend || isSendingLend}
+                    className="px-4 py-1.5 text-xs font-medium text-white bg-black rounded-md
+                             hover:bg-gray-800 transition-colors
+                             disabled:bg-gray-200 disabled:text-gray-400 disabled:cursor-not-allowed"
+                  >
+                    {isSendingLend ? 'Lending...' : 'Lend'}
+                  </button>
+                </div>
+                <p className="mt-1 text-xs text-gray-400">Rental length in days</p>
+              </div>
+            ) : (
+              <div className="mt-1.5 flex gap-1.5">
+                <button
+                  onClick={() => setIsLending(true)}
+                  className="flex-1 py-2 text-sm font-medium text-gray-900 bg-white rounded-lg
+                           border border-gray-200 hover:border-gray-300 transition-colors"
+                >
+                  {rental ? 'Lend Again' : 'Lend'}
+                </button>
+                {rental && (
+                  <button
+                    onClick={() => handleLend(true)}
+                    disabled={isSendingLend}
+                    className="flex-1 py-2 text-sm font-medium text-gray-900 bg-white rounded-lg
+                             border border-gray-200 hover:border-gray-300 transition-colors
+                             disabled:text-gray-400 disabled:cursor-not-allowed"
+                  >
+                    {isSendingLend ? 'Ending...' : 'End Rental'}
+                  </button>
+                )}
+              </div>
+            )
+          )}
+
+          {/* Freeze Controls (shown only to metadata managers while the token can change) */}
+          {canFreeze && !isFrozen && (
+            <div className="mt-1.5">
+              <button
+                onClick={handleFreeze}
+                disabled={isFreezing}
+                className="w-full py-2 text-sm font-medium text-gray-900 bg-white rounded-lg
+                         border border-gray-200 hover:border-gray-300 transition-colors
+                         disabled:text-gray-400 disabled:cursor-not-allowed"
+              >
+                {isFreezing ? 'Freezing...' : 'Freeze Metadata'}
+              </button>
+            </div>
+          )}
         </>
       ) : (
         // Loading State
@@ -0,0 +1,174 @@
+/**
+ * OwnershipPanel Component
+ *
+ * A panel for handing a SimpleNFT collection over with the contract's
+ * two-step ownership transfer.
+ *
+ * Features:
+ * - Shows the current owner and any pending owner
+ * - Lets the owner propose a new owner, cancel the proposal or renounce ownership
+ * - Lets the pending owner accept ownership
+ */
+
+import { useState } from 'react';
+import { ethers } from 'ethers';
+
+interface OwnershipPanelProps {
+  /** Address of the current owner */
+  ownerAddress: string;
+  /** Address of the proposed owner, or the zero address when there is none */
+  pendingOwner: string;
+  /** Whether the connected wallet is the current owner */
+  isOwner: boolean;
+  /** Whether the connected wallet is the proposed owner */
+  isPendingOwner: boolean;
+  /** Callback function to propose a new owner, or cancel with the zero address */
+  onTransferOwnership: (newOwner: string) => Promise<void>;
+  /** Callback function to accept a pending transfer */
+  onAcceptOwnership: () => Promise<void>;
+  /** Callback function to give up ownership for good */
+  onRenounceOwnership: () => Promise<void>;
+  /** Whether the connected wallet can currently send transactions */
+  disabled?: boolean;
+}
+
+/**
+ * Formats an Ethereum address for display by showing only the first 6 and last 4 characters
+ */
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+export function OwnershipPanel({
+  ownerAddress,
+  pendingOwner,
+  isOwner,
+  isPendingOwner,
+  onTransferOwnership,
+  onAcceptOwnership,
+  onRenounceOwnership,
+  disabled = false
+}: OwnershipPanelProps) {
+  const [newOwner, setNewOwner] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const hasPendingOwner = pendingOwner !== ethers.ZeroAddress;
+  const isValidNewOwner = ethers.isAddress(newOwner) &&
+    ethers.getAddress(newOwner) !== ethers.getAddress(ownerAddress);
+  const isBusy = disabled || isSending;
+
+  // Send an ownership change and report failures through the page status
+  const sendUpdate = async (update: () => Promise<void>) => {
+    setIsSending(true);
+    try {
+      await update();
+    } catch (error) {
+      console.error('Ownership update error:', error);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handlePropose = async () => {
+    if (!isValidNewOwner || isBusy) return;
+    await sendUpdate(async () => {
+      await onTransferOwnership(ethers.getAddress(newOwner));
+      setNewOwner('');
+    });
+  };
+
+  const handleRenounce = async () => {
+    const confirmed = window.confirm(
+      'Renouncing leaves the collection without an owner. Owner-only settings can never be changed again. Continue?'
+    );
+    if (confirmed) {
+      await sendUpdate(onRenounceOwnership);
+    }
+  };
+
+  return (
+    <div className="w-full bg-white rounded-lg border border-gray-100 overflow-hidden">
+      <div className="p-4">
+        <h2 className="text-lg font-medium text-gray-900">Ownership</h2>
+
+        <div className="mt-4 grid gap-4 md:grid-cols-2">
+          <div>
+            <p className="text-sm font-medium text-gray-900">Owner</p>
+            <p className="text-xs font-mono text-gray-700" title={ownerAddress}>{formatAddress(ownerAddress)}</p>
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-900">Pending owner</p>
+            {hasPendingOwner ? (
+              <div className="flex items-center gap-2 text-xs font-mono text-gray-700">
+                <span title={pendingOwner}>{formatAddress(pendingOwner)}</span>
+                {isOwner && (
+                  <button
+                    onClick={() => sendUpdate(() => onTransferOwnership(ethers.ZeroAddress))}
+                    disabled={isBusy}
+                    className="text-gray-400 hover:text-red-600 disabled:text-gray-300 disabled:cursor-not-allowed"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+            ) : (
+              <p className="text-xs text-gray-400">None</p>
+            )}
+          </div>
+        </div>
+
+        {/* Accept (shown only to the pending owner) */}
+        {isPendingOwner && (
+          <button
+            onClick={() => sendUpdate(onAcceptOwnership)}
+            disabled={isBusy}
+            className={`mt-4 px-4 py-2 text-sm font-medium rounded-md transition-colors
+                      ${!isBusy
+                        ? 'bg-black text-white hover:bg-gray-800'
+                        : 'bg-gray-100 text-gray-400 cursor-not-allowed'
+                      }`}
+          >
+            {isSending ? 'Accepting...' : 'Accept Ownership'}
+          </button>
+        )}
+
+        {/* Propose and Renounce (shown only to the owner) */}
+        {isOwner && (
+          <div className="mt-4 flex flex-col md:flex-row gap-2">
+            <input
+              type="text"
+              placeholder="New owner address (0x...)"
+              value={newOwner}
+              onChange={(e) => setNewOwner(e.target.value)}
+              className="flex-1 px-3 py-2 text-xs bg-white rounded-md border border-gray-200
+                       focus:ring-1 focus:ring-black focus:border-transparent
+                       text-gray-900 placeholder-gray-400 font-mono"
+            />
+            <button
+              onClick={handlePropose}
+              disabled={!isValidNewOwner || isBusy}
+              className={`px-4 py-2 text-sm font-medium rounded-md transition-colors
+                        ${isValidNewOwner && !isBusy
+                          ? 'bg-black text-white hover:bg-gray-800'
+                          : 'bg-gray-100 text-gray-400 cursor-not-allowed'
+                        }`}
+            >
+              {isSending ? 'Updating...' : 'Propose Owner'}
+            </button>
+            <button
+              onClick={handleRenounce}
+              disabled={isBusy}
+              className="px-4 py-2 text-sm font-medium rounded-md text-red-600 border border-red-100
+                       hover:bg-red-50 disabled:text-gray-300 disabled:border-gray-100 disabled:cursor-not-allowed"
+            >
+              Renounce
+            </button>
+          </div>
+        )}
+        {isOwner && (
+          <p className="mt-2 text-xs text-gray-500">
+            The proposed owner must accept before ownership changes hands.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+/**
+ * RolesPanel Component
+ *
+ * An admin-only panel for managing who holds each SimpleNFT access control
+ * role.
+ *
+ * Features:
+ * - Lists the current members of the admin, minter and metadata roles
+ * - Grants a role to a pasted address
+ * - Revokes a role from any listed member
+ * - Reloads the member lists from the contract after every change
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { ethers } from 'ethers';
+import type { SimpleNFT } from '../../types/contracts/contracts/SimpleNFT';
+
+interface RolesPanelProps {
+  /** Instance of the NFT contract to read role members from */
+  nftContract: SimpleNFT | null;
+  /** Callback function to send the grantRole transaction */
+  onGrantRole: (role: string, account: string) => Promise<void>;
+  /** Callback function to send the revokeRole transaction */
+  onRevokeRole: (role: string, account: string) => Promise<void>;
+  /** Whether the connected wallet can currently send transactions */
+  disabled?: boolean;
+}
+
+interface RoleInfo {
+  /** The role identifier used on-chain */
+  id: string;
+  /** Display name of the role */
+  label: string;
+  /** What holders of the role are allowed to do */
+  description: string;
+  /** Current holders of the role */
+  members: string[];
+}
+
+/**
+ * Formats an Ethereum address for display by showing only the first 6 and last 4 characters
+ */
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+export function RolesPanel({ nftContract, onGrantRole, onRevokeRole, disabled = false }: RolesPanelProps) {
+  const [roles, setRoles] = useState<RoleInfo[]>([]);
+  const [selectedRole, setSelectedRole] = useState('');
+  const [account, setAccount] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const isValidAccount = ethers.isAddress(account);
+  const canGrant = !disabled && !isSending && isValidAccount && !!selectedRole;
+
+  // Load every role and its members from the contract
+  const loadRoles = useCallback(async () => {
+    if (!nftContract) return;
+    try {
+      const [adminRole, minterRole, metadataRole, voucherSignerRole] = await Promise.all([
+        nftContract.DEFAULT_ADMIN_ROLE(),
+        nftContract.MINTER_ROLE(),
+        nftContract.METADATA_ROLE(),
+        nftContract.VOUCHER_SIGNER_ROLE()
+      ]);
+      const definitions = [
+        { id: adminRole, label: 'Admin', description: 'Grants and revokes roles' },
+        { id: minterRole, label: 'Minter', description: 'Airdrops and mints in owner-only mode' },
+        { id: metadataRole, label: 'Metadata', description: 'Updates token URIs and freezes metadata' },
+        { id: voucherSignerRole, label: 'Voucher Signer', description: 'Signs mint vouchers for lazy minting' }
+      ];
+      const members = await Promise.all(definitions.map(({ id }) => nftContract.getRoleMembers(id)));
+
+      setRoles(definitions.map((definition, i) => ({ ...definition, members: [...members[i]] })));
+      setSelectedRole((current) => current || minterRole);
+    } catch (error) {
+      console.error('Error loading roles:', error);
+    }
+  }, [nftContract]);
+
+  useEffect(() => {
+    loadRoles();
+  }, [loadRoles]);
+
+  // Send a role change, then refresh the member lists
+  const updateRole = async (update: () => Promise<void>) => {
+    setIsSending(true);
+    try {
+      await update();
+      await loadRoles();
+    } catch (error) {
+      console.error('Role update error:', error);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleGrant = async () => {
+    if (!canGrant) return;
+    await updateRole(async () => {
+      await onGrantRole(selectedRole, ethers.getAddress(account));
+      setAccount('');
+    });
+  };
+
+  return (
+    <div className="w-full bg-white rounded-lg border border-gray-100 overflow-hidden">
+      <div className="p-4">
+        <h2 className="text-lg font-medium text-gray-900">Roles</h2>
+
+        <div className="mt-4 grid gap-4 md:grid-cols-3">
+          {roles.map((role) => (
+            <div key={role.id}>
+              <p className="text-sm font-medium text-gray-900">{role.label}</p>
+              <p className="text-xs text-gray-500">{role.description}</p>
+              <ul className="mt-2 flex flex-col gap-1">
+                {role.members.map((member) => (
+                  <li key={member} className="flex items-center justify-between gap-2 text-xs font-mono text-gray-700">
+                    <span title={member}>{formatAddress(member)}</span>
+                    <button
+                      onClick={() => updateRole(() => onRevokeRole(role.id, member))}
+                      disabled={disabled || isSending}
+                      className="text-gray-400 hover:text-red-600 disabled:text-gray-300 disabled:cursor-not-allowed"
+                    >
+                      Revoke
+                    </button>
+                  </li>
+                ))}
+                {role.members.length === 0 && (
+                  <li className="text-xs text-gray-400">No members</li>
+                )}
+              </ul>
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-4 flex flex-col md:flex-row gap-2">
+          <select
+            value={selectedRole}
+            onChange={(e) => setSelectedRole(e.target.value)}
+            aria-label="Role to grant"
+            className="px-3 py-2 text-xs bg-white rounded-md border border-gray-200 text-gray-700
+                     focus:ring-1 focus:ring-black focus:border-transparent"
+          >
+            {roles.map((role) => (
+              <option key={role.id} value={role.id}>{role.label}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            placeholder="Account address (0x...)"
+            value={account}
+            onChange={(e) => setAccount(e.target.value)}
+            className="flex-1 px-3 py-2 text-xs bg-white rounded-md border border-gray-200
+                     focus:ring-1 focus:ring-black focus:border-transparent
+                     text-gray-900 placeholder-gray-400 font-mono"
+          />
+          <button
+            onClick={handleGrant}
+            disabled={!canGrant}
+            className={`px-4 py-2 text-sm font-medium rounded-md transition-colors
+                      ${canGrant
+                        ? 'bg-black text-white hover:bg-gray-800'
+                        : 'bg-gray-100 text-gray-400 cursor-not-allowed'
+                      }`}
+          >
+            {isSending ? 'Updating...' : 'Grant Role'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -15,4 +15,30 @@ export const API_URL = typeof window !== 'undefined'
 
 // Metadata Configuration
 export const getMetadataBaseURI = (contractAddress: string) => 
-  `${API_URL}/api/metadata/?contract=${contractAddress}&tokenId=`; 
\ No newline at end of file
+  `${API_URL}/api/metadata/?contract=${contractAddress}&tokenId=`; 
+
+// Placeholder metadata served for every token of a hidden collection until reveal
+export const getPlaceholderURI = (contractAddress: string) =>
+  `${API_URL}/api/metadata/?contract=${contractAddress}&placeholder=true`;
+
+// Collection-level metadata returned by `contractURI`
+export const getCollectionURI = (contractAddress: string) =>
+  `${API_URL}/api/collection/${contractAddress}`;
+
+// Factory Configuration
+export const FACTORY_ADDRESS = process.env.NEXT_PUBLIC_FACTORY_ADDRESS || '';
+
+// On-chain renderer collections can switch to, empty when not deployed
+export const RENDERER_ADDRESS = process.env.NEXT_PUBLIC_RENDERER_ADDRESS || '';
+
+// ERC-165 interface ID of ERC-1155, used to tell editions collections apart from ERC-721 ones
+export const ERC1155_INTERFACE_ID = '0xd9b67a26';
+
+// Actions named in signed API requests
+export const AUTH_ACTION_UPLOAD_ALLOWLIST = 'Upload allowlist';
+export const AUTH_ACTION_REQUEST_VOUCHER = 'Request mint voucher';
+
+// Message a wallet signs to prove it manages a collection when calling a protected API route.
+// The subject binds the signature to one request, such as a Merkle root or a voucher recipient.
+export const getAuthMessage = (action: string, contractAddress: string, subject: string, issuedAt: number) =>
+  `Nexus NFT: ${action}\nCollection: ${contractAddress.toLowerCase()}\nSubject: ${subject.toLowerCase()}\nIssued at: ${issuedAt}`;
@@ -0,0 +1,493 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { ethers } from 'ethers'
+import { useRouter } from 'next/navigation'
+import { use } from 'react'
+import { NEXUS_CHAIN_ID_HEX, getMetadataBaseURI } from '../../config/constants'
+import { SimpleNFTEditions__factory } from '../../../types/contracts/factories/contracts/SimpleNFTEditions__factory'
+import type { SimpleNFTEditions } from '../../../types/contracts/contracts/SimpleNFTEditions'
+import { EditionCard } from '../../components/EditionCard'
+import { Navbar } from '../../components/Navbar'
+import { ExplorerLink } from '../../components/ExplorerLink'
+import { OwnershipPanel } from '../../components/OwnershipPanel'
+import type { EditionType, NFTMetadata } from '../../types/nft'
+
+export default function Editions({ params: paramsPromise }: { params: Promise<{ address: string }> }) {
+  const { address } = use(paramsPromise)
+  const router = useRouter()
+  const [isConnected, setIsConnected] = useState(false)
+  const [isCorrectNetwork, setIsCorrectNetwork] = useState(false)
+  const [userAddress, setUserAddress] = useState('')
+  const [status, setStatus] = useState<{ type: 'error' | 'success' | 'info'; message: string; tx?: string }>({ type: 'info', message: '' })
+  const [editionsContract, setEditionsContract] = useState<SimpleNFTEditions | null>(null)
+  const [collectionName, setCollectionName] = useState('')
+  const [editions, setEditions] = useState<EditionType[]>([])
+  const [isLoadingEditions, setIsLoadingEditions] = useState(false)
+  const [isOwner, setIsOwner] = useState(false)
+  const [ownerAddress, setOwnerAddress] = useState('')
+  const [pendingOwner, setPendingOwner] = useState(ethers.ZeroAddress)
+  const isPendingOwner = !!userAddress && pendingOwner.toLowerCase() === userAddress.toLowerCase()
+  // New token type form, where an empty supply cap creates an open edition
+  const [newTypeSupply, setNewTypeSupply] = useState('')
+  const [newTypePrice, setNewTypePrice] = useState('0')
+  const [newTypePublic, setNewTypePublic] = useState(true)
+  const [isCreatingType, setIsCreatingType] = useState(false)
+  const isValidNewType = /^\d*$/.test(newTypeSupply.trim()) && /^\d*\.?\d*$/.test(newTypePrice.trim()) && newTypePrice.trim() !== ''
+
+  const checkNetwork = useCallback(async () => {
+    if (!window.ethereum) return false
+    const chainId = await window.ethereum.request({ method: 'eth_chainId' })
+    const isNexus = chainId === NEXUS_CHAIN_ID_HEX
+    setIsCorrectNetwork(isNexus)
+    return isNexus
+  }, [])
+
+  const switchNetwork = async () => {
+    if (!window.ethereum) return false
+    try {
+      await window.ethereum.request({
+        method: 'wallet_switchEthereumChain',
+        params: [{ chainId: NEXUS_CHAIN_ID_HEX }],
+      })
+      return await checkNetwork()
+    } catch (switchError: any) {
+      // Handle network switching errors
+      console.error('Error switching network:', switchError)
+      return false
+    }
+  }
+
+  const checkWalletConnection = useCallback(async () => {
+    if (typeof window.ethereum !== 'undefined') {
+      try {
+        const provider = new ethers.BrowserProvider(window.ethereum)
+        const accounts = await provider.listAccounts()
+        if (accounts.length > 0) {
+          setIsConnected(true)
+          setUserAddress(accounts[0].address)
+          await checkNetwork()
+        }
+      } catch (error) {
+        console.error('Error checking wallet connection:', error)
+      }
+    }
+  }, [checkNetwork])
+
+  const connectWallet = async () => {
+    if (typeof window.ethereum !== 'undefined') {
+      try {
+        const provider = new ethers.BrowserProvider(window.ethereum)
+        await provider.send('eth_requestAccounts', [])
+        const signer = await provider.getSigner()
+        const address = await signer.getAddress()
+        setUserAddress(address.toString())
+        setIsConnected(true)
+        await checkNetwork()
+      } catch (error) {
+        console.error('Error connecting wallet:', error)
+      }
+    }
+  }
+
+  const fetchEditions = useCallback(async (contract: SimpleNFTEditions) => {
+    try {
+      setIsLoadingEditions(true)
+      const typeCount = Number(await contract.typeCount())
+      const types: EditionType[] = []
+
+      // Type IDs are sequential from 1
+      for (let id = 1; id <= typeCount; id++) {
+        const [[maxSupply, minted, price, publicMint], balance, uri] = await Promise.all([
+          contract.typeInfo(id),
+          userAddress ? contract.balanceOf(userAddress, id) : Promise.resolve(BigInt(0)),
+          contract.uri(id)
+        ])
+
+        let metadata: NFTMetadata | null = null
+        try {
+          const response = await fetch(uri)
+          metadata = response.ok ? await response.json() : null
+        } catch (error) {
+          console.error(`Error fetching edition ${id}:`, error)
+        }
+
+        types.push({ id: id.toString(), maxSupply, minted, price, publicMint, balance, metadata })
+      }
+
+      setEditions(types)
+    } catch (error) {
+      console.error('Error fetching editions:', error)
+    } finally {
+      setIsLoadingEditions(false)
+    }
+  }, [userAddress])
+
+  const fetchOwnership = useCallback(async (contract: SimpleNFTEditions) => {
+    try {
+      const [owner, pending] = await Promise.all([
+        contract.owner(),
+        contract.pendingOwner()
+      ])
+      setOwnerAddress(owner)
+      setPendingOwner(pending)
+      setIsOwner(!!userAddress && owner.toLowerCase() === userAddress.toLowerCase())
+    } catch (error) {
+      console.error('Error fetching ownership:', error)
+    }
+  }, [userAddress])
+
+  const loadContract = useCallback(async () => {
+    if (!ethers.isAddress(address)) {
+      router.push('/')
+      return
+    }
+
+    try {
+      const provider = new ethers.BrowserProvider(window.ethereum)
+      const contract = SimpleNFTEditions__factory.connect(address, provider)
+
+      setCollectionName(await contract.name())
+      setEditionsContract(contract)
+
+      await fetchOwnership(contract)
+      await fetchEditions(contract)
+    } catch (error) {
+      console.error('Error loading contract:', error)
+      router.push('/')
+    }
+  }, [address, router, fetchOwnership, fetchEditions])
+
+  useEffect(() => {
+    checkWalletConnection()
+
+    if (window.ethereum) {
+      window.ethereum.on('chainChanged', checkNetwork)
+      window.ethereum.on('accountsChanged', checkWalletConnection)
+    }
+
+    return () => {
+      if (window.ethereum) {
+        window.ethereum.removeListener('chainChanged', checkNetwork)
+        window.ethereum.removeListener('accountsChanged', checkWalletConnection)
+      }
+    }
+  }, [checkNetwork, checkWalletConnection])
+
+  useEffect(() => {
+    if (isConnected && isCorrectNetwork) {
+      loadContract()
+    }
+  }, [isConnected, isCorrectNetwork, loadContract])
+
+  const createType = async () => {
+    if (!editionsContract || !isValidNewType) return
+
+    try {
+      setIsCreatingType(true)
+      const signer = await new ethers.BrowserProvider(window.ethereum).getSigner()
+
+      // Each type points at the metadata API under its own ID
+      const id = (await editionsContract.typeCount()) + BigInt(1)
+      const tx = await editionsContract.connect(signer).createType(
+        BigInt(newTypeSupply.trim() || '0'),
+        ethers.parseEther(newTypePrice.trim()),
+        newTypePublic,
+        `${getMetadataBaseURI(address)}${id}`
+      )
+      setStatus({ type: 'info', message: 'Creating edition...', tx: tx.hash })
+
+      await tx.wait()
+      setStatus({ type: 'success', message: `Edition #${id} created`, tx: tx.hash })
+      setNewTypeSupply('')
+      await fetchEditions(editionsContract)
+    } catch (error: any) {
+      console.error('Create edition error:', error)
+      if (error?.code === 'ACTION_REJECTED') {
+        setStatus({ type: 'info', message: 'Transaction cancelled' })
+      } else {
+        setStatus({ type: 'error', message: 'Failed to create edition. Please try again.' })
+      }
+    } finally {
+      setIsCreatingType(false)
+    }
+  }
+
+  const handleMint = async (id: string, amount: bigint) => {
+    if (!editionsContract) return
+
+    try {
+      const signer = await new ethers.BrowserProvider(window.ethereum).getSigner()
+
+      // Re-read the price so the value sent matches what the contract expects
+      const [, , price] = await editionsContract.typeInfo(id)
+      const tx = await editionsContract.connect(signer).mint(id, amount, { value: price * amount })
+      setStatus({ type: 'info', message: `Minting ${amount} of #${id}...`, tx: tx.hash })
+
+      await tx.wait()
+      setStatus({ type: 'success', message: `Minted ${amount} of #${id}`, tx: tx.hash })
+      await fetchEditions(editionsContract)
+    } catch (error: any) {
+      console.error('Mint error:', error)
+      if (error?.code === 'ACTION_REJECTED') {
+        setStatus({ type: 'info', message: 'Minting cancelled' })
+      } else {
+        setStatus({ type: 'error', message: 'Failed to mint. Please try again.' })
+      }
+      throw error
+    }
+  }
+
+  const handleMintTo = async (id: string, to: string, amount: bigint) => {
+    if (!editionsContract) return
+
+    try {
+      const signer = await new ethers.BrowserProvider(window.ethereum).getSigner()
+      const tx = await editionsContract.connect(signer).mintTo(to, id, amount)
+      setStatus({ type: 'info', message: `Sending ${amount} of #${id}...`, tx: tx.hash })
+
+      await tx.wait()
+      setStatus({ type: 'success', message: `Sent ${amount} of #${id}`, tx: tx.hash })
+      await fetchEditions(editionsContract)
+    } catch (error: any) {
+      console.error('Mint to error:', error)
+      if (error?.code === 'ACTION_REJECTED') {
+        setStatus({ type: 'info', message: 'Minting cancelled' })
+      } else {
+        setStatus({ type: 'error', message: 'Failed to send copies. Please try again.' })
+      }
+      throw error
+    }
+  }
+
+  const handleUpdateSale = async (id: string, price: bigint, publicMint: boolean) => {
+    if (!editionsContract) return
+
+    try {
+      const signer = await new ethers.BrowserProvider(window.ethereum).getSigner()
+      const tx = await editionsContract.connect(signer).setTypeSale(id, price, publicMint)
+      setStatus({ type: 'info', message: publicMint ? `Opening sale of #${id}...` : `Closing sale of #${id}...`, tx: tx.hash })
+
+      await tx.wait()
+      setStatus({ type: 'success', message: publicMint ? `Sale of #${id} opened` : `Sale of #${id} closed`, tx: tx.hash })
+      await fetchEditions(editionsContract)
+    } catch (error: any) {
+      console.error('Sale update error:', error)
+      if (error?.code === 'ACTION_REJECTED') {
+        setStatus({ type: 'info', message: 'Transaction cancelled' })
+      } else {
+        setStatus({ type: 'error', message: 'Failed to update sale. Please try again.' })
+      }
+      throw error
+    }
+  }
+
+  const updateOwnership = async (action: 'propose' | 'cancel' | 'accept' | 'renounce', newOwner = ethers.ZeroAddress) => {
+    if (!editionsContract) return
+
+    const messages = {
+      propose: { pending: 'Proposing new owner...', done: 'New owner proposed. They must accept to take over.' },
+      cancel: { pending: 'Cancelling ownership transfer...', done: 'Ownership transfer cancelled' },
+      accept: { pending: 'Accepting ownership...', done: 'You are now the owner of this collection' },
+      renounce: { pending: 'Renouncing ownership...', done: 'Ownership renounced' }
+    }[action]
+
+    try {
+      const signer = await new ethers.BrowserProvider(window.ethereum).getSigner()
+      const contractWithSigner = editionsContract.connect(signer)
+
+      const tx = action === 'accept'
+        ? await contractWithSigner.acceptOwnership()
+        : action === 'renounce'
+          ? await contractWithSigner.renounceOwnership()
+          : await contractWithSigner.transferOwnership(newOwner)
+      setStatus({ type: 'info', message: messages.pending, tx: tx.hash })
+
+      await tx.wait()
+      setStatus({ type: 'success', message: messages.done, tx: tx.hash })
+      await fetchOwnership(editionsContract)
+    } catch (error: any) {
+      console.error('Ownership error:', error)
+      if (error?.code === 'ACTION_REJECTED') {
+        setStatus({ type: 'info', message: 'Ownership update cancelled' })
+      } else {
+        setStatus({ type: 'error', message: 'Failed to update ownership. Please try again.' })
+      }
+      throw error
+    }
+  }
+
+  return (
+    <main className="min-h-screen bg-white pt-14">
+      <Navbar
+        title="Nexus NFT"
+        isConnected={isConnected}
+        isCorrectNetwork={isCorrectNetwork}
+        userAddress={userAddress}
+        onConnect={connectWallet}
+        onSwitchNetwork={switchNetwork}
+        onNavigateHome={() => router.push('/')}
+      />
+
+      {/* Collection Header */}
+      <div className="bg-gray-50 border-b border-gray-100">
+        <div className="max-w-6xl mx-auto px-4 py-6 md:py-8">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-6">
+            {/* Collection Info */}
+            <div className="flex flex-col gap-3">
+              <div className="flex items-center gap-3">
+                <h1 className="text-2xl font-bold text-gray-900">
+                  {collectionName || 'Loading...'}
+                </h1>
+                {isOwner && (
+                  <span className="px-2 py-0.5 text-xs font-medium text-green-700 bg-green-50 rounded-full">
+                    Owner
+                  </span>
+                )}
+                <span className="px-2 py-0.5 text-xs font-medium text-sky-700 bg-sky-50 rounded-full">
+                  Editions
+                </span>
+              </div>
+
+              <p className="text-sm text-gray-600">
+                {editions.length} {editions.length === 1 ? 'edition' : 'editions'}
+              </p>
+
+              {/* Contract Address */}
+              <ExplorerLink
+                type="address"
+                value={address}
+                className="text-sm text-gray-500 hover:text-gray-700"
+              />
+            </div>
+
+            {/* New Edition Form and Status */}
+            <div className="flex flex-col items-stretch md:items-end gap-2">
+              {isOwner && (
+                <div className="flex flex-col md:flex-row gap-2">
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    placeholder="Supply cap (empty for open)"
+                    value={newTypeSupply}
+                    onChange={(e) => setNewTypeSupply(e.target.value)}
+                    className="md:w-48 px-3 py-2 text-sm bg-white rounded-lg border border-gray-200
+                             focus:ring-1 focus:ring-black focus:border-transparent
+                             text-gray-900 placeholder-gray-400"
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.001"
+                    placeholder="Price"
+                    value={newTypePrice}
+                    onChange={(e) => setNewTypePrice(e.target.value)}
+                    aria-label="Price per copy"
+                    className="md:w-28 px-3 py-2 text-sm bg-white rounded-lg border border-gray-200
+                             focus:ring-1 focus:ring-black focus:border-transparent
+                             text-gray-900 placeholder-gray-400"
+                  />
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={newTypePublic}
+                      onChange={(e) => setNewTypePublic(e.target.checked)}
+                      className="rounded border-gray-300"
+                    />
+                    Public sale
+                  </label>
+                  <button
+                    onClick={createType}
+                    disabled={!isValidNewType || isCreatingType || !isCorrectNetwork}
+                    className={`px-6 py-2.5 text-sm font-medium rounded-lg transition-all
+                              ${isValidNewType && !isCreatingType && isCorrectNetwork
+                                ? 'bg-black text-white hover:bg-gray-800'
+                                : 'bg-gray-100 text-gray-400 cursor-not-allowed'
+                              }`}
+                  >
+                    {isCreatingType ? 'Creating...' : 'New Edition'}
+                  </button>
+                </div>
+              )}
+
+              {/* Status Messages */}
+              {status.message && (
+                <div className="text-right">
+                  <p className={`text-sm ${
+                    status.type === 'error' ? 'text-red-600' :
+                    status.type === 'success' ? 'text-green-600' :
+                    'text-gray-600'
+                  }`}>
+                    {status.message}
+                    {status.tx && (
+                      <>
+                        <span className="mx-1">·</span>
+                        <ExplorerLink
+                          type="transaction"
+                          value={status.tx}
+                          className={status.type === 'success' ? 'text-green-600' : 'text-gray-600'}
+                          showPrefix
+                        />
+                      </>
+                    )}
+                  </p>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <div className="py-8">
+        <div className="max-w-6xl mx-auto px-4">
+          <div className="flex flex-col gap-6">
+            {/* Ownership Panel (shown only to the owner and pending owner) */}
+            {(isOwner || isPendingOwner) && ownerAddress && (
+              <OwnershipPanel
+                ownerAddress={ownerAddress}
+                pendingOwner={pendingOwner}
+                isOwner={isOwner}
+                isPendingOwner={isPendingOwner}
+                onTransferOwnership={(newOwner) =>
+                  updateOwnership(newOwner === ethers.ZeroAddress ? 'cancel' : 'propose', newOwner)
+                }
+                onAcceptOwnership={() => updateOwnership('accept')}
+                onRenounceOwnership={() => updateOwnership('renounce')}
+                disabled={!isCorrectNetwork}
+              />
+            )}
+
+            {/* Editions Grid */}
+            {isLoadingEditions && editions.length === 0 ? (
+              <div className="w-full py-16">
+                <p className="text-center text-gray-400">Loading editions...</p>
+              </div>
+            ) : editions.length === 0 ? (
+              <div className="w-full py-16">
+                <p className="text-center text-gray-400">
+                  {isOwner ? 'Create the first edition to start minting' : 'No editions in collection'}
+                </p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+                {editions.map((edition) => (
+                  <EditionCard
+                    key={edition.id}
+                    edition={edition}
+                    isOwner={isOwner}
+                    onMint={handleMint}
+                    onMintTo={handleMintTo}
+                    onUpdateSale={handleUpdateSale}
+                    disabled={!isCorrectNetwork}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </main>
+  )
+}
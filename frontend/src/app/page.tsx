@@ -4,8 +4,10 @@ import { useState, useEffect, useCallback, useRef } from 'react'
 import { ethers } from 'ethers'
 import { useRouter } from 'next/navigation'
 import Image from 'next/image'
-import { NEXUS_EXPLORER_URL, NEXUS_RPC_URL, NEXUS_CHAIN_ID_HEX, getMetadataBaseURI } from './config/constants'
+import { NEXUS_EXPLORER_URL, NEXUS_RPC_URL, NEXUS_CHAIN_ID_HEX, FACTORY_ADDRESS, getMetadataBaseURI, getPlaceholderURI, getCollectionURI, ERC1155_INTERFACE_ID } from './config/constants'
 import { SimpleNFT__factory } from '../types/contracts/factories/contracts/SimpleNFT__factory'
+import { SimpleNFTFactory__factory } from '../types/contracts/factories/contracts/SimpleNFTFactory__factory'
+import { SimpleNFTEditions__factory } from '../types/contracts/factories/contracts/SimpleNFTEditions__factory'
 import { Navbar } from './components/Navbar'
 
 // Add this function after the imports
@@ -29,12 +31,26 @@ const generateNFTSymbol = (name: string): string => {
   return initials.slice(0, 4)
 }
 
+// Single-edition collections are ERC721, multi-edition collections are ERC1155
+type CollectionStandard = '721' | '1155'
+
+// Editions collections have their own page
+const getCollectionPath = (address: string, standard: CollectionStandard): string =>
+  standard === '1155' ? `/editions/${address}` : `/collection/${address}`
+
 export default function Home() {
   const router = useRouter()
   const [isConnected, setIsConnected] = useState(false)
   const [isCorrectNetwork, setIsCorrectNetwork] = useState(false)
   const [userAddress, setUserAddress] = useState('')
   const [nftName, setNftName] = useState('MyNFT')
+  const [collectionStandard, setCollectionStandard] = useState<CollectionStandard>('721')
+  const [maxSupply, setMaxSupply] = useState('10000')
+  const [royaltyPercent, setRoyaltyPercent] = useState('5')
+  const [royaltyReceiver, setRoyaltyReceiver] = useState('')
+  const [provenanceHash, setProvenanceHash] = useState('')
+  const [isHiddenUntilReveal, setIsHiddenUntilReveal] = useState(false)
+  const [isSoulbound, setIsSoulbound] = useState(false)
   const [status, setStatus] = useState('')
   const [uploadedImage, setUploadedImage] = useState<File | null>(null)
   const [previewUrl, setPreviewUrl] = useState<string | null>(null)
@@ -42,6 +58,23 @@ export default function Home() {
   const [isDeploying, setIsDeploying] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
   const [visitAddress, setVisitAddress] = useState('')
+  const [myCollections, setMyCollections] = useState<Array<{ address: string; name: string; standard: CollectionStandard }>>([])
+  const [isLoadingCollections, setIsLoadingCollections] = useState(false)
+
+  // Max supply must be a whole number greater than zero
+  const isValidMaxSupply = /^[1-9]\d*$/.test(maxSupply.trim())
+
+  // Royalty is a percentage with up to two decimals (basis point precision)
+  const isValidRoyalty = /^\d{1,3}(\.\d{1,2})?$/.test(royaltyPercent.trim()) &&
+    Number(royaltyPercent) <= 100
+  // An empty receiver defaults to the deployer's wallet
+  const isValidRoyaltyReceiver = !royaltyReceiver.trim() || ethers.isAddress(royaltyReceiver.trim())
+  // An empty provenance hash deploys without one
+  const isValidProvenanceHash = !provenanceHash.trim() || ethers.isHexString(provenanceHash.trim(), 32)
+  // Supply and reveal settings are per type for multi-edition collections
+  const isMultiEdition = collectionStandard === '1155'
+  const isValidDeployForm = (isMultiEdition || (isValidMaxSupply && isValidProvenanceHash)) &&
+    isValidRoyalty && isValidRoyaltyReceiver
 
   const handleDragEnter = (e: React.DragEvent) => {
     e.preventDefault()
@@ -152,6 +185,41 @@ export default function Home() {
     }
   }, [checkNetwork, checkWalletConnection])
 
+  // Load the connected wallet's collections from the factory registry
+  const fetchMyCollections = useCallback(async () => {
+    if (!userAddress || !ethers.isAddress(FACTORY_ADDRESS)) return
+
+    try {
+      setIsLoadingCollections(true)
+      const provider = new ethers.BrowserProvider(window.ethereum)
+      const factory = SimpleNFTFactory__factory.connect(FACTORY_ADDRESS, provider)
+      const addresses = await factory.collectionsOf(userAddress)
+
+      const collections = await Promise.all(
+        addresses.map(async (address) => {
+          const nft = SimpleNFT__factory.connect(address, provider)
+          const [name, isEditions] = await Promise.all([
+            nft.name(),
+            nft.supportsInterface(ERC1155_INTERFACE_ID)
+          ])
+          return { address, name, standard: (isEditions ? '1155' : '721') as CollectionStandard }
+        })
+      )
+      // Newest collections first
+      setMyCollections(collections.reverse())
+    } catch (error) {
+      console.error('Error fetching collections:', error)
+    } finally {
+      setIsLoadingCollections(false)
+    }
+  }, [userAddress])
+
+  useEffect(() => {
+    if (isConnected && isCorrectNetwork) {
+      fetchMyCollections()
+    }
+  }, [isConnected, isCorrectNetwork, fetchMyCollections])
+
   const connectWallet = async () => {
     if (typeof window.ethereum !== 'undefined') {
       try {
@@ -190,40 +258,69 @@ export default function Home() {
         await switchNetwork()
       }
 
-      // Generate contract factory
-      const SimpleNFT = new SimpleNFT__factory(signer)
+      if (!ethers.isAddress(FACTORY_ADDRESS)) {
+        throw new Error('Collection factory address is not configured')
+      }
+
+      // Collections are deployed as clones through the factory
+      const factory = SimpleNFTFactory__factory.connect(FACTORY_ADDRESS, signer)
       
       setStatus('Deploying NFT collection...')
 
-      // Get current nonce and gas price
-      const [nonce, feeData] = await Promise.all([
-        provider.getTransactionCount(await signer.getAddress()),
-        provider.getFeeData()
-      ])
-
-      // Deploy with optimized parameters
-      const nft = await SimpleNFT.deploy(
-        nftName,                    // Collection name
-        generateNFTSymbol(nftName), // Collection symbol
-        await signer.getAddress(),  // Initial owner
-        {
-          nonce,
-          maxFeePerGas: feeData.maxFeePerGas,
-          maxPriorityFeePerGas: feeData.maxPriorityFeePerGas,
-          gasLimit: 3000000 // Fixed gas limit that should be sufficient
-        }
-      )
-
-      setStatus(`Deploying... Transaction: ${nft.deploymentTransaction()?.hash}`)
-
-      // Wait for deployment
-      await nft.waitForDeployment()
-      const contractAddress = await nft.getAddress()
-
-      // Set the base URI after deployment with contract address
-      const baseUri = getMetadataBaseURI(contractAddress)
-      const tx = await nft.setBaseURI(baseUri)
-      await tx.wait()
+      const deployer = await signer.getAddress()
+      const royaltyBps = BigInt(Math.round(Number(royaltyPercent) * 100))
+
+      const deployTx = isMultiEdition
+        ? await factory.createEditions(
+            nftName,                    // Collection name
+            generateNFTSymbol(nftName), // Collection symbol
+            royaltyReceiver.trim() || deployer, // Royalty receiver
+            royaltyBps                  // Royalty in basis points
+          )
+        : await factory.createCollection(
+            nftName,                    // Collection name
+            generateNFTSymbol(nftName), // Collection symbol
+            BigInt(maxSupply.trim()),   // Max supply
+            royaltyReceiver.trim() || deployer, // Royalty receiver
+            royaltyBps,                 // Royalty in basis points
+            provenanceHash.trim() || ethers.ZeroHash, // Provenance hash
+            isSoulbound                 // Non-transferable tokens
+          )
+
+      setStatus(`Deploying... Transaction: ${deployTx.hash}`)
+
+      // Read the new collection address from the creation event
+      const createdEventName = isMultiEdition ? 'EditionsCreated' : 'CollectionCreated'
+      const receipt = await deployTx.wait()
+      const createdEvent = receipt?.logs
+        .map((log) => factory.interface.parseLog(log))
+        .find((log) => log?.name === createdEventName)
+      if (!createdEvent) {
+        throw new Error('Collection address not found in deployment receipt')
+      }
+      const contractAddress: string = createdEvent.args.collection
+
+      if (isMultiEdition) {
+        // Token types and their URIs are created from the editions page
+        setStatus('Setting collection metadata...')
+        const editions = SimpleNFTEditions__factory.connect(contractAddress, signer)
+        const contractUriTx = await editions.setContractURI(getCollectionURI(contractAddress))
+        await contractUriTx.wait()
+      } else {
+        const nft = SimpleNFT__factory.connect(contractAddress, signer)
+
+        // Hidden collections serve the placeholder until the owner reveals the
+        // base URI from the collection page
+        const tx = isHiddenUntilReveal
+          ? await nft.setNotRevealedURI(getPlaceholderURI(contractAddress))
+          : await nft.setBaseURI(getMetadataBaseURI(contractAddress))
+        await tx.wait()
+
+        // Point marketplaces at the collection-level metadata
+        setStatus('Setting collection metadata...')
+        const contractUriTx = await nft.setContractURI(getCollectionURI(contractAddress))
+        await contractUriTx.wait()
+      }
 
       // Upload collection image if one was provided
       if (uploadedImage) {
@@ -252,7 +349,7 @@ export default function Home() {
         View on Explorer: ${NEXUS_EXPLORER_URL}/address/${contractAddress}`)
 
       // After successful deployment, navigate to the collection page
-      router.push(`/collection/${contractAddress}`)
+      router.push(getCollectionPath(contractAddress, collectionStandard))
     } catch (error: any) {
       console.error('Deployment error:', error)
       setStatus(`Deployment failed: ${error.message || 'Unknown error'}`)
@@ -343,6 +440,38 @@ export default function Home() {
             </div>
           </div>
 
+          {/* Your Collections Card */}
+          {isConnected && isCorrectNetwork && ethers.isAddress(FACTORY_ADDRESS) && (
+            <div className="w-full mt-4 bg-white rounded-lg border border-gray-100 overflow-hidden">
+              <div className="p-4">
+                <h2 className="text-lg font-medium text-gray-900">Your Collections</h2>
+                <div className="mt-4">
+                  {isLoadingCollections ? (
+                    <p className="text-sm text-gray-400">Loading collections...</p>
+                  ) : myCollections.length > 0 ? (
+                    <ul className="flex flex-col divide-y divide-gray-100">
+                      {myCollections.map((collection) => (
+                        <li key={collection.address}>
+                          <button
+                            onClick={() => router.push(getCollectionPath(collection.address, collection.standard))}
+                            className="w-full py-2 flex items-center justify-between gap-4 text-left group"
+                          >
+                            <span className="text-sm font-medium text-gray-900 truncate">{collection.name}</span>
+                            <span className="text-xs text-gray-400 font-mono group-hover:text-gray-700">
+                              {`${collection.address.slice(0, 6)}...${collection.address.slice(-4)}`}
+                            </span>
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-sm text-gray-400">You have not deployed any collections yet</p>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Deploy Collection Card */}
           {isConnected && isCorrectNetwork ? (
             <div className="w-full mt-4 bg-white rounded-lg border border-gray-100 overflow-hidden">
@@ -360,6 +489,101 @@ export default function Home() {
                              text-gray-900 placeholder-gray-400"
                   />
 
+                  {/* Collection Standard Choice */}
+                  <div className="grid grid-cols-2 gap-2">
+                    {([
+                      ['721', 'Single edition (721)', 'One owner per token'],
+                      ['1155', 'Multi-edition (1155)', 'Many copies per token type']
+                    ] as const).map(([standard, label, description]) => (
+                      <button
+                        key={standard}
+                        type="button"
+                        onClick={() => setCollectionStandard(standard)}
+                        className={`px-3 py-2 text-left rounded-md border transition-colors
+                                  ${collectionStandard === standard
+                                    ? 'border-black bg-gray-50'
+                                    : 'border-gray-200 hover:border-gray-300'
+                                  }`}
+                      >
+                        <span className="block text-sm font-medium text-gray-900">{label}</span>
+                        <span className="block text-xs text-gray-500">{description}</span>
+                      </button>
+                    ))}
+                  </div>
+
+                  {/* Max Supply Input */}
+                  {!isMultiEdition && (
+                    <input
+                      type="number"
+                      min="1"
+                      step="1"
+                      placeholder="Max supply"
+                      value={maxSupply}
+                      onChange={(e) => setMaxSupply(e.target.value)}
+                      className="w-full px-3 py-2 text-sm bg-white rounded-md border border-gray-200 
+                               focus:ring-1 focus:ring-black focus:border-transparent
+                               text-gray-900 placeholder-gray-400"
+                    />
+                  )}
+
+                  {/* Royalty Inputs */}
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.01"
+                      placeholder="Royalty %"
+                      value={royaltyPercent}
+                      onChange={(e) => setRoyaltyPercent(e.target.value)}
+                      className="w-28 px-3 py-2 text-sm bg-white rounded-md border border-gray-200 
+                               focus:ring-1 focus:ring-black focus:border-transparent
+                               text-gray-900 placeholder-gray-400"
+                    />
+                    <input
+                      type="text"
+                      placeholder="Royalty receiver (defaults to you)"
+                      value={royaltyReceiver}
+                      onChange={(e) => setRoyaltyReceiver(e.target.value)}
+                      className="flex-1 px-3 py-2 text-sm bg-white rounded-md border border-gray-200 
+                               focus:ring-1 focus:ring-black focus:border-transparent
+                               text-gray-900 placeholder-gray-400 font-mono"
+                    />
+                  </div>
+
+                  {/* Reveal Inputs */}
+                  {!isMultiEdition && (
+                    <>
+                      <input
+                        type="text"
+                        placeholder="Provenance hash (optional, 0x...)"
+                        value={provenanceHash}
+                        onChange={(e) => setProvenanceHash(e.target.value)}
+                        className="w-full px-3 py-2 text-sm bg-white rounded-md border border-gray-200 
+                                 focus:ring-1 focus:ring-black focus:border-transparent
+                                 text-gray-900 placeholder-gray-400 font-mono"
+                      />
+                      <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={isHiddenUntilReveal}
+                          onChange={(e) => setIsHiddenUntilReveal(e.target.checked)}
+                          className="rounded border-gray-300"
+                        />
+                        Hide metadata until reveal
+                      </label>
+                      <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={isSoulbound}
+                          onChange={(e) => setIsSoulbound(e.target.checked)}
+                          className="rounded border-gray-300"
+                        />
+                        Soulbound (tokens cannot be transferred)
+                      </label>
+                    </>
+                  )}
+
                   {/* Image Drop Area */}
                   <div
                     onDragEnter={handleDragEnter}
@@ -403,9 +627,9 @@ export default function Home() {
                   {/* Deploy Button */}
                   <button
                     onClick={deployNFT}
-                    disabled={!uploadedImage || !nftName.trim() || isDeploying}
+                    disabled={!uploadedImage || !nftName.trim() || !isValidDeployForm || isDeploying}
                     className={`w-full py-2.5 text-sm font-medium rounded-md transition-colors
-                              ${uploadedImage && nftName.trim() && !isDeploying
+                              ${uploadedImage && nftName.trim() && isValidDeployForm && !isDeploying
                                 ? 'bg-black text-white hover:bg-gray-800'
                                 : 'bg-gray-100 text-gray-400 cursor-not-allowed'
                               }`}
@@ -8,4 +8,29 @@ export interface NFTMetadata {
     value: string | number;
     display_type?: string;
   }>;
-} 
\ No newline at end of file
+} 
+/**
+ * Mint modes of SimpleNFT, in the same order as the on-chain enum
+ */
+export enum MintMode {
+  Closed = 0,
+  /** Only accounts with the minter role can mint */
+  OwnerOnly = 1,
+  Public = 2,
+}
+
+/**
+ * A token type of a SimpleNFTEditions collection, with the connected wallet's balance
+ */
+export interface EditionType {
+  id: string;
+  /** Supply cap, zero for an open edition */
+  maxSupply: bigint;
+  /** Copies ever minted, including burned ones */
+  minted: bigint;
+  /** Price of each copy in public mints */
+  price: bigint;
+  publicMint: boolean;
+  balance: bigint;
+  metadata: NFTMetadata | null;
+}
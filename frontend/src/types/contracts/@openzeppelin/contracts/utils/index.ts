@@ -1,8 +1,15 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+import type * as cryptography from "./cryptography";
+export type { cryptography };
 import type * as introspection from "./introspection";
 export type { introspection };
 import type * as math from "./math";
 export type { math };
+export type { Address } from "./Address";
+export type { Create2 } from "./Create2";
+export type { Errors } from "./Errors";
+export type { Pausable } from "./Pausable";
+export type { ShortStrings } from "./ShortStrings";
 export type { Strings } from "./Strings";
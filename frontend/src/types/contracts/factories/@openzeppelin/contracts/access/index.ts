@@ -1,4 +1,8 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export * as extensions from "./extensions";
+export { AccessControl__factory } from "./AccessControl__factory";
+export { IAccessControl__factory } from "./IAccessControl__factory";
 export { Ownable__factory } from "./Ownable__factory";
+export { Ownable2Step__factory } from "./Ownable2Step__factory";
@@ -1,5 +1,9 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export * as draftIerc1822Sol from "./draft-IERC1822.sol";
 export * as draftIerc6093Sol from "./draft-IERC6093.sol";
+export { IERC1967__factory } from "./IERC1967__factory";
+export { IERC2981__factory } from "./IERC2981__factory";
 export { IERC4906__factory } from "./IERC4906__factory";
+export { IERC5267__factory } from "./IERC5267__factory";
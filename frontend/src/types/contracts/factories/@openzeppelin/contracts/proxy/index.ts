@@ -0,0 +1,8 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export * as erc1967 from "./ERC1967";
+export * as beacon from "./beacon";
+export * as utils from "./utils";
+export { Clones__factory } from "./Clones__factory";
+export { Proxy__factory } from "./Proxy__factory";
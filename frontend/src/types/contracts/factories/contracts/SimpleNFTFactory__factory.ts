@@ -0,0 +1,343 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  SimpleNFTFactory,
+  SimpleNFTFactoryInterface,
+} from "../../contracts/SimpleNFTFactory";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "implementation_",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "editionsImplementation_",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "FailedDeployment",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "balance",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "needed",
+        type: "uint256",
+      },
+    ],
+    name: "InsufficientBalance",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "implementation",
+        type: "address",
+      },
+    ],
+    name: "InvalidImplementation",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "collection",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "symbol",
+        type: "string",
+      },
+    ],
+    name: "CollectionCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "collection",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "symbol",
+        type: "string",
+      },
+    ],
+    name: "EditionsCreated",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+    ],
+    name: "collectionCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+    ],
+    name: "collectionsOf",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "symbol",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "maxSupply",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "royaltyReceiver",
+        type: "address",
+      },
+      {
+        internalType: "uint96",
+        name: "royaltyFeeNumerator",
+        type: "uint96",
+      },
+      {
+        internalType: "bytes32",
+        name: "provenanceHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "soulbound",
+        type: "bool",
+      },
+    ],
+    name: "createCollection",
+    outputs: [
+      {
+        internalType: "address",
+        name: "collection",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "symbol",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "royaltyReceiver",
+        type: "address",
+      },
+      {
+        internalType: "uint96",
+        name: "royaltyFeeNumerator",
+        type: "uint96",
+      },
+    ],
+    name: "createEditions",
+    outputs: [
+      {
+        internalType: "address",
+        name: "collection",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "editionsImplementation",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "implementation",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60c060405234801561001057600080fd5b5060405161098938038061098983398101604081905261002f916100d3565b816001600160a01b03163b60000361006a57604051630c76093760e01b81526001600160a01b03831660048201526024015b60405180910390fd5b806001600160a01b03163b6000036100a057604051630c76093760e01b81526001600160a01b0382166004820152602401610061565b6001600160a01b039182166080521660a052610106565b80516001600160a01b03811681146100ce57600080fd5b919050565b600080604083850312156100e657600080fd5b6100ef836100b7565b91506100fd602084016100b7565b90509250929050565b60805160a05161085261013760003960008181606c015261015601526000818160c301526102e901526108526000f3fe608060405234801561001057600080fd5b50600436106100625760003560e01c80633a38cc4014610067578063467a1e95146100ab5780635c60da1b146100be5780637434b330146100e55780638410f41414610105578063d17744cd14610118575b600080fd5b61008e7f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b0390911681526020015b60405180910390f35b61008e6100b9366004610533565b61014f565b61008e7f000000000000000000000000000000000000000000000000000000000000000081565b6100f86100f33660046105c3565b61026e565b6040516100a291906105e5565b61008e610113366004610632565b6102e2565b6101416101263660046105c3565b6001600160a01b031660009081526020819052604090205490565b6040519081526020016100a2565b600061017a7f000000000000000000000000000000000000000000000000000000000000000061040a565b604051632bfbdf0160e21b81529091506001600160a01b0382169063afef7c04906101b5908a908a908a908a9033908b908b90600401610717565b600060405180830381600087803b1580156101cf57600080fd5b505af11580156101e3573d6000803e3d6000fd5b5050336000818152602081815260408083208054600181018255908452919092200180546001600160a01b0319166001600160a01b03871690811790915590519093509091507fb2367bb54322cd6a4650716dc9438c24ed3dbd67ade2032f183004545e45fc5e9061025c908b908b908b908b90610773565b60405180910390a39695505050505050565b6001600160a01b038116600090815260208181526040918290208054835181840281018401909452808452606093928301828280156102d657602002820191906000526020600020905b81546001600160a01b031681526001909101906020018083116102b8575b50505050509050919050565b600061030d7f000000000000000000000000000000000000000000000000000000000000000061040a565b6040516315c1a7d760e31b81529091506001600160a01b0382169063ae0d3eb89061034e908d908d908d908d9033908e908e908e908e908e906004016107a5565b600060405180830381600087803b15801561036857600080fd5b505af115801561037c573d6000803e3d6000fd5b5050336000818152602081815260408083208054600181018255908452919092200180546001600160a01b0319166001600160a01b03871690811790915590519093509091507f5fead977881b23a0dbf2f905699203f29cefea57a576d2d4f412523191258e84906103f5908e908e908e908e90610773565b60405180910390a39998505050505050505050565b600061041782600061041d565b92915050565b60008147101561044d5760405163cf47918160e01b81524760048201526024810183905260440160405180910390fd5b763d602d80600a3d3981f3363d3d373d3d3d363d730000008360601b60e81c176000526e5af43d82803e903d91602b57fd5bf38360781b176020526037600983f090506001600160a01b0381166104175760405163b06ebf3d60e01b815260040160405180910390fd5b60008083601f8401126104c957600080fd5b50813567ffffffffffffffff8111156104e157600080fd5b6020830191508360208285010111156104f957600080fd5b9250929050565b80356001600160a01b038116811461051757600080fd5b919050565b80356001600160601b038116811461051757600080fd5b6000806000806000806080878903121561054c57600080fd5b863567ffffffffffffffff8082111561056457600080fd5b6105708a838b016104b7565b9098509650602089013591508082111561058957600080fd5b5061059689828a016104b7565b90955093506105a9905060408801610500565b91506105b76060880161051c565b90509295509295509295565b6000602082840312156105d557600080fd5b6105de82610500565b9392505050565b6020808252825182820181905260009190848201906040850190845b818110156106265783516001600160a01b031683529284019291840191600101610601565b50909695505050505050565b600080600080600080600080600060e08a8c03121561065057600080fd5b893567ffffffffffffffff8082111561066857600080fd5b6106748d838e016104b7565b909b50995060208c013591508082111561068d57600080fd5b5061069a8c828d016104b7565b90985096505060408a013594506106b360608b01610500565b93506106c160808b0161051c565b925060a08a0135915060c08a013580151581146106dd57600080fd5b809150509295985092959850929598565b81835281816020850137506000828201602090810191909152601f909101601f19169091010190565b60a08152600061072b60a08301898b6106ee565b828103602084015261073e81888a6106ee565b6001600160a01b039687166040850152949095166060830152506001600160601b039190911660809091015295945050505050565b6040815260006107876040830186886106ee565b828103602084015261079a8185876106ee565b979650505050505050565b60006101008083526107ba8184018d8f6106ee565b905082810360208401526107cf818b8d6106ee565b6001600160a01b03998a166040850152606084019890985250509390951660808401526001600160601b039190911660a083015260c082015291151560e09092019190915294935050505056fea264697066735822122074b07bcbcc7fd629773e52a747bf5fe7650142100cdfa54940d6d864845880a464736f6c63430008160033";
+
+type SimpleNFTFactoryConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: SimpleNFTFactoryConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class SimpleNFTFactory__factory extends ContractFactory {
+  constructor(...args: SimpleNFTFactoryConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    implementation_: AddressLike,
+    editionsImplementation_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(
+      implementation_,
+      editionsImplementation_,
+      overrides || {}
+    );
+  }
+  override deploy(
+    implementation_: AddressLike,
+    editionsImplementation_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(
+      implementation_,
+      editionsImplementation_,
+      overrides || {}
+    ) as Promise<
+      SimpleNFTFactory & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): SimpleNFTFactory__factory {
+    return super.connect(runner) as SimpleNFTFactory__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): SimpleNFTFactoryInterface {
+    return new Interface(_abi) as SimpleNFTFactoryInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): SimpleNFTFactory {
+    return new Contract(address, _abi, runner) as unknown as SimpleNFTFactory;
+  }
+}
@@ -0,0 +1,2733 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  BytesLike,
+  BigNumberish,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  SimpleNFTPacked,
+  SimpleNFTPackedInterface,
+} from "../../contracts/SimpleNFTPacked";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name_",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "symbol_",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "initialOwner",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "maxSupply_",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "royaltyReceiver",
+        type: "address",
+      },
+      {
+        internalType: "uint96",
+        name: "royaltyFeeNumerator",
+        type: "uint96",
+      },
+      {
+        internalType: "bytes32",
+        name: "provenanceHash_",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "soulbound_",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "AccessControlBadConfirmation",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "neededRole",
+        type: "bytes32",
+      },
+    ],
+    name: "AccessControlUnauthorizedAccount",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "recipients",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "quantities",
+        type: "uint256",
+      },
+    ],
+    name: "AirdropLengthMismatch",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "AllowlistAlreadyClaimed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "AllowlistNotActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "AlreadyRevealed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CollectionNotRevealed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ECDSAInvalidSignature",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "length",
+        type: "uint256",
+      },
+    ],
+    name: "ECDSAInvalidSignatureLength",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "s",
+        type: "bytes32",
+      },
+    ],
+    name: "ECDSAInvalidSignatureS",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "numerator",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "denominator",
+        type: "uint256",
+      },
+    ],
+    name: "ERC2981InvalidDefaultRoyalty",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ERC2981InvalidDefaultRoyaltyReceiver",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "numerator",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "denominator",
+        type: "uint256",
+      },
+    ],
+    name: "ERC2981InvalidTokenRoyalty",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ERC2981InvalidTokenRoyaltyReceiver",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "ERC721IncorrectOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ERC721InsufficientApproval",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "approver",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidApprover",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidOperator",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidReceiver",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidSender",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ERC721NonexistentToken",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "EnforcedPause",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ExpectedPause",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "required",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "provided",
+        type: "uint256",
+      },
+    ],
+    name: "IncorrectPayment",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidInitialization",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidMaxSupply",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidMerkleProof",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidQuantity",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "saleStart",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "saleEnd",
+        type: "uint256",
+      },
+    ],
+    name: "InvalidSaleWindow",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidShortString",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "fromId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "toId",
+        type: "uint256",
+      },
+    ],
+    name: "InvalidTokenRange",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "signer",
+        type: "address",
+      },
+    ],
+    name: "InvalidVoucherSignature",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidWithdrawalRecipient",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "maxPerWallet",
+        type: "uint256",
+      },
+    ],
+    name: "MaxPerWalletExceeded",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "maxSupply",
+        type: "uint256",
+      },
+    ],
+    name: "MaxSupplyReached",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "MetadataNotFrozen",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum SimpleNFT.MintMode",
+        name: "mode",
+        type: "uint8",
+      },
+    ],
+    name: "MintNotAllowed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotInitializing",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "OwnableInvalidOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "OwnableUnauthorizedAccount",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "saleEnd",
+        type: "uint256",
+      },
+    ],
+    name: "SaleEnded",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "saleStart",
+        type: "uint256",
+      },
+    ],
+    name: "SaleNotStarted",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "str",
+        type: "string",
+      },
+    ],
+    name: "StringTooLong",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "TokenIsSoulbound",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "TokenMetadataFrozen",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "TokenURINotSet",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "nonce",
+        type: "uint256",
+      },
+    ],
+    name: "VoucherAlreadyRedeemed",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "expiry",
+        type: "uint256",
+      },
+    ],
+    name: "VoucherExpired",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "WithdrawalFailed",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "approved",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Approval",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "ApprovalForAll",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_fromTokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_toTokenId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchMetadataUpdate",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [],
+    name: "ContractURIUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint96",
+        name: "feeNumerator",
+        type: "uint96",
+      },
+    ],
+    name: "DefaultRoyaltyUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [],
+    name: "EIP712DomainChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "version",
+        type: "uint64",
+      },
+    ],
+    name: "Initialized",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Locked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maxPerWallet",
+        type: "uint256",
+      },
+    ],
+    name: "MaxPerWalletUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "merkleRoot",
+        type: "bytes32",
+      },
+    ],
+    name: "MerkleRootUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "MetadataUpdate",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "enum SimpleNFT.MintMode",
+        name: "mode",
+        type: "uint8",
+      },
+    ],
+    name: "MintModeUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldPrice",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newPrice",
+        type: "uint256",
+      },
+    ],
+    name: "MintPriceUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Paused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "_value",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "_id",
+        type: "uint256",
+      },
+    ],
+    name: "PermanentURI",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "renderer",
+        type: "address",
+      },
+    ],
+    name: "RendererUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "baseURI",
+        type: "string",
+      },
+    ],
+    name: "Revealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "previousAdminRole",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "newAdminRole",
+        type: "bytes32",
+      },
+    ],
+    name: "RoleAdminChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "saleStart",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "saleEnd",
+        type: "uint256",
+      },
+    ],
+    name: "SaleWindowUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint96",
+        name: "feeNumerator",
+        type: "uint96",
+      },
+    ],
+    name: "TokenRoyaltyUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Transfer",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Unlocked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Unpaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "expires",
+        type: "uint64",
+      },
+    ],
+    name: "UpdateUser",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "nonce",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+    ],
+    name: "VoucherRedeemed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "Withdrawn",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "DEFAULT_ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "METADATA_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MINTER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "OWNERSHIP_STRIDE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "VOUCHER_SIGNER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "acceptOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address[]",
+        name: "recipients",
+        type: "address[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "quantities",
+        type: "uint256[]",
+      },
+    ],
+    name: "airdrop",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "allowlistClaimed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32[]",
+        name: "proof",
+        type: "bytes32[]",
+      },
+    ],
+    name: "allowlistMint",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "approve",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "burn",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "contractURI",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "deleteDefaultRoyalty",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "eip712Domain",
+    outputs: [
+      {
+        internalType: "bytes1",
+        name: "fields",
+        type: "bytes1",
+      },
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "version",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "chainId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "verifyingContract",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "salt",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256[]",
+        name: "extensions",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "fromId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "toId",
+        type: "uint256",
+      },
+    ],
+    name: "emitPermanentURIs",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "freezeMetadata",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "freezeToken",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "getApproved",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "getRoleAdmin",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "getRoleMember",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "getRoleMemberCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "getRoleMembers",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "grantRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "hasRole",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name_",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "symbol_",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "initialOwner",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "maxSupply_",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "royaltyReceiver",
+        type: "address",
+      },
+      {
+        internalType: "uint96",
+        name: "royaltyFeeNumerator",
+        type: "uint96",
+      },
+      {
+        internalType: "bytes32",
+        name: "provenanceHash_",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "soulbound_",
+        type: "bool",
+      },
+    ],
+    name: "initialize",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "isApprovedForAll",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "isMetadataFrozen",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "isRevealed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "isSaleActive",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "isTokenFrozen",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "locked",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "maxPerWallet",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "maxSupply",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "merkleRoot",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "mint",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "quantity",
+        type: "uint256",
+      },
+    ],
+    name: "mint",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "firstTokenId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "quantity",
+        type: "uint256",
+      },
+    ],
+    name: "mintBatch",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "firstTokenId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "mintMode",
+    outputs: [
+      {
+        internalType: "enum SimpleNFT.MintMode",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "mintPrice",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "notRevealedURI",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ownerOf",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pendingOwner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "provenanceHash",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "recipient",
+            type: "address",
+          },
+          {
+            internalType: "string",
+            name: "uri",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "price",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "expiry",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "nonce",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct SimpleNFT.MintVoucher",
+        name: "voucher",
+        type: "tuple",
+      },
+      {
+        internalType: "bytes",
+        name: "signature",
+        type: "bytes",
+      },
+    ],
+    name: "redeem",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "remainingMints",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "remainingSupply",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "renderer",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "renounceOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "callerConfirmation",
+        type: "address",
+      },
+    ],
+    name: "renounceRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "resetTokenRoyalty",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "baseURI",
+        type: "string",
+      },
+    ],
+    name: "reveal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "revokeRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "salePrice",
+        type: "uint256",
+      },
+    ],
+    name: "royaltyInfo",
+    outputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "saleEnd",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "saleStart",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "setApprovalForAll",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "baseURI",
+        type: "string",
+      },
+    ],
+    name: "setBaseURI",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "uri",
+        type: "string",
+      },
+    ],
+    name: "setContractURI",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        internalType: "uint96",
+        name: "feeNumerator",
+        type: "uint96",
+      },
+    ],
+    name: "setDefaultRoyalty",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "setMaxPerWallet",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "root",
+        type: "bytes32",
+      },
+    ],
+    name: "setMerkleRoot",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum SimpleNFT.MintMode",
+        name: "mode",
+        type: "uint8",
+      },
+    ],
+    name: "setMintMode",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newPrice",
+        type: "uint256",
+      },
+    ],
+    name: "setMintPrice",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "uri",
+        type: "string",
+      },
+    ],
+    name: "setNotRevealedURI",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "renderer_",
+        type: "address",
+      },
+    ],
+    name: "setRenderer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "start",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "end",
+        type: "uint256",
+      },
+    ],
+    name: "setSaleWindow",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        internalType: "uint96",
+        name: "feeNumerator",
+        type: "uint96",
+      },
+    ],
+    name: "setTokenRoyalty",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "uri",
+        type: "string",
+      },
+    ],
+    name: "setTokenURI",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        internalType: "uint64",
+        name: "expires",
+        type: "uint64",
+      },
+    ],
+    name: "setUser",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "soulbound",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes4",
+        name: "interfaceId",
+        type: "bytes4",
+      },
+    ],
+    name: "supportsInterface",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "tokenURI",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner_",
+        type: "address",
+      },
+    ],
+    name: "tokensOfOwner",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "tokenIds",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalMinted",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalSupply",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "transferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "unpause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "userExpires",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "userOf",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "voucherRedeemed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "walletMints",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address payable",
+        name: "to",
+        type: "address",
+      },
+    ],
+    name: "withdraw",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6101606040523480156200001257600080fd5b506040516200667b3803806200667b833981016040819052620000359162000a7a565b87878787878787876040518060400160405280600981526020016814da5b5c1b1953919560ba1b815250604051806040016040528060018152602001603160f81b8152508760405180602001604052806000815250604051806020016040528060008152508160009081620000ab919062000be2565b506001620000ba828262000be2565b50506008805460ff19169055506001600160a01b038116620000f757604051631e4fbdf760e01b8152600060048201526024015b60405180910390fd5b6200010281620001ea565b506200011082600f620002f1565b6101205262000121816010620002f1565b61014052815160208084019190912060e052815190820120610100524660a052620001af60e05161010051604080517f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f60208201529081019290925260608201524660808201523060a082015260009060c00160405160208183030381529060405280519060200120905090565b60805250503060c052620001ca88888888888888886200032a565b620001d462000451565b5050505050505050505050505050505062000d56565b6000620001ff600b546001600160a01b031690565b90506200020c8262000505565b6001600160a01b0381161580620002345750816001600160a01b0316816001600160a01b0316145b156200023e575050565b6040805160608101825260008082526000805160206200665b83398151915260208301526000805160206200663b83398151915292820192909252905b6003811015620002eb57620002aa8282600381106200029e576200029e62000cae565b60200201518462000520565b506001600160a01b03841615620002e257620002e0828260038110620002d457620002d462000cae565b6020020151856200055b565b505b6001016200027b565b50505050565b6000602083511015620003115762000309836200058d565b905062000324565b816200031e848262000be2565b5060ff90505b92915050565b846000036200034c5760405163066f305360e21b815260040160405180910390fd5b60126200035a898262000be2565b50601362000369888262000be2565b506020859055601d829055601e805460ff60a01b1916600160a01b8315150217905560016011556024805460ff19166002179055620003aa6000876200055b565b50620003c66000805160206200665b833981519152876200055b565b50620003e26000805160206200663b833981519152876200055b565b506001600160601b038316156200044757620003ff8484620005d0565b6040516001600160601b03841681526001600160a01b038516907fe12d7d5bdb8218a22277dca8f854dd4573a1cea3d3e4808dc567df9eb1c14bf49060200160405180910390a25b5050505050505050565b7ff0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a00805468010000000000000000900460ff1615620004a25760405163f92ee8a960e01b815260040160405180910390fd5b80546001600160401b0390811614620005025780546001600160401b0319166001600160401b0390811782556040519081527fc7f505b2f371ae2175ee4913f4499e1f2633a7b5936321eed1cdaeb6115181d29060200160405180910390a15b50565b600c80546001600160a01b0319169055620005028162000677565b6000806200052f8484620006c9565b9050801562000554576000848152600e602052604090206200055290846200075b565b505b9392505050565b6000806200056a848462000772565b9050801562000554576000848152600e602052604090206200055290846200081b565b600080829050601f81511115620005bb578260405163305a27a960e01b8152600401620000ee919062000cc4565b8051620005c88262000cf9565b179392505050565b6127106001600160601b0382168110156200061157604051636f483d0960e01b81526001600160601b038316600482015260248101829052604401620000ee565b6001600160a01b0383166200063d57604051635b6cc80560e11b815260006004820152602401620000ee565b50604080518082019091526001600160a01b039092168083526001600160601b039091166020909201829052600160a01b90910217600955565b600b80546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e090600090a35050565b6000828152600d602090815260408083206001600160a01b038516845290915281205460ff161562000752576000838152600d602090815260408083206001600160a01b0386168085529252808320805460ff1916905551339286917ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b9190a450600162000324565b50600062000324565b600062000554836001600160a01b03841662000832565b6000828152600d602090815260408083206001600160a01b038516845290915281205460ff1662000752576000838152600d602090815260408083206001600160a01b03861684529091529020805460ff19166001179055620007d23390565b6001600160a01b0316826001600160a01b0316847f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d60405160405180910390a450600162000324565b600062000554836001600160a01b03841662000936565b600081815260018301602052604081205480156200092b5760006200085960018362000d1e565b85549091506000906200086f9060019062000d1e565b9050808214620008db57600086600001828154811062000893576200089362000cae565b9060005260206000200154905080876000018481548110620008b957620008b962000cae565b6000918252602080832090910192909255918252600188019052604090208390555b8554869080620008ef57620008ef62000d40565b60019003818190600052602060002001600090559055856001016000868152602001908152602001600020600090556001935050505062000324565b600091505062000324565b6000818152600183016020526040812054620007525750815460018181018455600084815260208082209093018490558454848252828601909352604090209190915562000324565b634e487b7160e01b600052604160045260246000fd5b60005b83811015620009b257818101518382015260200162000998565b50506000910152565b600082601f830112620009cd57600080fd5b81516001600160401b0380821115620009ea57620009ea6200097f565b604051601f8301601f19908116603f0116810190828211818310171562000a155762000a156200097f565b8160405283815286602085880101111562000a2f57600080fd5b62000a4284602083016020890162000995565b9695505050505050565b80516001600160a01b038116811462000a6457600080fd5b919050565b8051801515811462000a6457600080fd5b600080600080600080600080610100898b03121562000a9857600080fd5b88516001600160401b038082111562000ab057600080fd5b62000abe8c838d01620009bb565b995060208b015191508082111562000ad557600080fd5b5062000ae48b828c01620009bb565b97505062000af560408a0162000a4c565b95506060890151945062000b0c60808a0162000a4c565b60a08a01519094506001600160601b038116811462000b2a57600080fd5b60c08a0151909350915062000b4260e08a0162000a69565b90509295985092959890939650565b600181811c9082168062000b6657607f821691505b60208210810362000b8757634e487b7160e01b600052602260045260246000fd5b50919050565b601f82111562000bdd576000816000526020600020601f850160051c8101602086101562000bb85750805b601f850160051c820191505b8181101562000bd95782815560010162000bc4565b5050505b505050565b81516001600160401b0381111562000bfe5762000bfe6200097f565b62000c168162000c0f845462000b51565b8462000b8d565b602080601f83116001811462000c4e576000841562000c355750858301515b600019600386901b1c1916600185901b17855562000bd9565b600085815260208120601f198616915b8281101562000c7f5788860151825594840194600190910190840162000c5e565b508582101562000c9e5787850151600019600388901b60f8161c191681555b5050505050600190811b01905550565b634e487b7160e01b600052603260045260246000fd5b602081526000825180602084015262000ce581604085016020870162000995565b601f01601f19169190910160400192915050565b8051602080830151919081101562000b875760001960209190910360031b1b16919050565b818103818111156200032457634e487b7160e01b600052601160045260246000fd5b634e487b7160e01b600052603160045260246000fd5b60805160a05160c05160e05161010051610120516101405161588a62000db16000396000613329015260006132fc0152600061442d01526000614405015260006143600152600061438a015260006143b4015261588a6000f3fe6080604052600436106104ec5760003560e01c806379ba50971161028c578063b88d4fde1161015a578063da0239a6116100cc578063e985e9c511610085578063e985e9c514610f28578063ef8d4ce014610f48578063f0293fd314610f68578063f2c4ce1e14610f95578063f2fde38b14610fb5578063f4a0a52814610fd557600080fd5b8063da0239a614610e6c578063df78dcb314610e81578063e030565e14610eb5578063e268e4d314610ed5578063e30c397814610ef5578063e8a3d48514610f1357600080fd5b8063ca15c8731161011e578063ca15c87314610dbf578063cc888bab14610ddf578063d111515d14610dff578063d539139314610e14578063d547741f14610e36578063d5abeb0114610e5657600080fd5b8063b88d4fde14610d33578063c10b935814610d53578063c2f1f14a14610d69578063c6ab67a314610d89578063c87b56dd14610d9f57600080fd5b8063938e3d7b116101fe578063a3246ad3116101b7578063a3246ad314610c7b578063aa1b103f14610ca8578063ab0bcc4114610cbd578063ae0d3eb814610cd3578063b45a3c0e14610cf3578063b6854f9614610d1357600080fd5b8063938e3d7b14610be957806395d89b4114610c09578063a0712d6814610c1e578063a217fddf14610c31578063a22cb46514610c46578063a2309ff814610c6657600080fd5b80638a616bc0116102505780638a616bc014610b0e5780638ada6b0f14610b2e5780638da5cb5b14610b4e5780638fc88c4814610b6c5780639010d07c14610ba957806391d1485414610bc957600080fd5b806379ba509714610a6f5780637cb6475914610a845780638456cb5914610aa45780638462151c14610ab957806384b0196e14610ae657600080fd5b806342966c68116103c95780635f3c2df61161033b5780636817c76c116102f45780636817c76c146109c857806370a08231146109de578063715018a6146109fe57806372131db314610a135780637225038014610a33578063788c599914610a4857600080fd5b80635f3c2df6146109205780636352211e1461093557806364d0764e146109555780636724348214610975578063679f15bb14610995578063680e354a146109a857600080fd5b806354214f691161038d57806354214f691461087e57806355f804b314610893578063564566a8146108b357806356d3163d146108c85780635944c753146108e85780635c975abb1461090857600080fd5b806342966c68146107f5578063453c2310146108155780634c2612471461082b57806351cff8d91461084b578063537924ef1461086b57600080fd5b806323b872dd1161046257806330b42ec21161042657806330b42ec21461071e578063337eb6301461074e57806336568abe1461077e578063388417821461079e5780633f4ba83a146107c057806342842e0e146107d557600080fd5b806323b872dd14610659578063248a9ca3146106795780632a55205a146106a95780632eb4a7ab146106e85780632f2ff15d146106fe57600080fd5b80630e24495e116104b45780630e24495e146105c25780630fad0f51146105da5780631249c58b146105fb578063162094c41461061157806318160ddd1461063157806320e409b41461064657600080fd5b806301ffc9a7146104f157806304634d8d1461052657806306fdde0314610548578063081812fc1461056a578063095ea7b3146105a2575b600080fd5b3480156104fd57600080fd5b5061051161050c366004614b06565b610ff5565b60405190151581526020015b60405180910390f35b34801561053257600080fd5b50610546610541366004614b54565b611006565b005b34801561055457600080fd5b5061055d61108f565b60405161051d9190614bd9565b34801561057657600080fd5b5061058a610585366004614bec565b61109e565b6040516001600160a01b03909116815260200161051d565b3480156105ae57600080fd5b506105466105bd366004614c05565b6110c7565b3480156105ce57600080fd5b5060185460ff16610511565b3480156105e657600080fd5b50601e5461051190600160a01b900460ff1681565b6106036110d6565b60405190815260200161051d565b34801561061d57600080fd5b5061054661062c366004614cfc565b6111bf565b34801561063d57600080fd5b50610603611288565b610603610654366004614bec565b61129f565b34801561066557600080fd5b50610546610674366004614d42565b611435565b34801561068557600080fd5b50610603610694366004614bec565b6000908152600d602052604090206001015490565b3480156106b557600080fd5b506106c96106c4366004614d83565b6114c0565b604080516001600160a01b03909316835260208301919091520161051d565b3480156106f457600080fd5b5061060360275481565b34801561070a57600080fd5b50610546610719366004614da5565b611547565b34801561072a57600080fd5b50610511610739366004614dd5565b60286020526000908152604090205460ff1681565b34801561075a57600080fd5b50610511610769366004614bec565b60296020526000908152604090205460ff1681565b34801561078a57600080fd5b50610546610799366004614da5565b61156c565b3480156107aa57600080fd5b506106036000805160206157d583398151915281565b3480156107cc57600080fd5b506105466115a4565b3480156107e157600080fd5b506105466107f0366004614d42565b6115b6565b34801561080157600080fd5b50610546610810366004614bec565b6115d1565b34801561082157600080fd5b5061060360225481565b34801561083757600080fd5b50610546610846366004614df2565b6115dd565b34801561085757600080fd5b50610546610866366004614dd5565b6116bb565b610603610879366004614e6a565b6117a6565b34801561088a57600080fd5b50610511611895565b34801561089f57600080fd5b506105466108ae366004614df2565b6118b8565b3480156108bf57600080fd5b50610511611926565b3480156108d457600080fd5b506105466108e3366004614dd5565b611949565b3480156108f457600080fd5b50610546610903366004614eab565b6119f1565b34801561091457600080fd5b5060085460ff16610511565b34801561092c57600080fd5b50610603600881565b34801561094157600080fd5b5061058a610950366004614bec565b611a76565b34801561096157600080fd5b50610603610970366004614dd5565b611a81565b34801561098157600080fd5b50610546610990366004614ee9565b611af4565b6106036109a3366004614f95565b611c30565b3480156109b457600080fd5b506105466109c3366004614d83565b611eb7565b3480156109d457600080fd5b5061060360215481565b3480156109ea57600080fd5b506106036109f9366004614dd5565b611f36565b348015610a0a57600080fd5b50610546611f41565b348015610a1f57600080fd5b50610546610a2e366004615005565b611f53565b348015610a3f57600080fd5b5061055d611fb9565b348015610a5457600080fd5b50602454610a629060ff1681565b60405161051d919061503c565b348015610a7b57600080fd5b5061054661204b565b348015610a9057600080fd5b50610546610a9f366004614bec565b61208f565b348015610ab057600080fd5b506105466120cc565b348015610ac557600080fd5b50610ad9610ad4366004614dd5565b6120dc565b60405161051d91906150a0565b348015610af257600080fd5b50610afb6121af565b60405161051d97969594939291906150b3565b348015610b1a57600080fd5b50610546610b29366004614bec565b6121f5565b348015610b3a57600080fd5b50601e5461058a906001600160a01b031681565b348015610b5a57600080fd5b50600b546001600160a01b031661058a565b348015610b7857600080fd5b50610603610b87366004614bec565b6000908152601f6020526040902054600160a01b90046001600160401b031690565b348015610bb557600080fd5b5061058a610bc4366004614d83565b61226a565b348015610bd557600080fd5b50610511610be4366004614da5565b612289565b348015610bf557600080fd5b50610546610c04366004614df2565b6122b4565b348015610c1557600080fd5b5061055d612329565b610603610c2c366004614bec565b612333565b348015610c3d57600080fd5b50610603600081565b348015610c5257600080fd5b50610546610c61366004615133565b61233e565b348015610c7257600080fd5b50610603612349565b348015610c8757600080fd5b50610c9b610c96366004614bec565b61235a565b60405161051d919061515f565b348015610cb457600080fd5b50610546612374565b348015610cc957600080fd5b5061060360255481565b348015610cdf57600080fd5b50610546610cee3660046151ac565b6123e1565b348015610cff57600080fd5b50610511610d0e366004614bec565b6125ba565b348015610d1f57600080fd5b50610546610d2e366004614bec565b6125d9565b348015610d3f57600080fd5b50610546610d4e366004615274565b612757565b348015610d5f57600080fd5b5061060360265481565b348015610d7557600080fd5b5061058a610d84366004614bec565b61276f565b348015610d9557600080fd5b50610603601d5481565b348015610dab57600080fd5b5061055d610dba366004614bec565b6127c1565b348015610dcb57600080fd5b50610603610dda366004614bec565b6127cc565b348015610deb57600080fd5b50610511610dfa366004614bec565b6127e3565b348015610e0b57600080fd5b50610546612808565b348015610e2057600080fd5b5061060360008051602061581583398151915281565b348015610e4257600080fd5b50610546610e51366004614da5565b612878565b348015610e6257600080fd5b5061060360205481565b348015610e7857600080fd5b5061060361289d565b348015610e8d57600080fd5b506106037f9089c70e1cc864bea9e548485d837bd067c653ad269b11b56a2b917f24b7eca381565b348015610ec157600080fd5b50610546610ed03660046152f3565b6128b4565b348015610ee157600080fd5b50610546610ef0366004614bec565b612955565b348015610f0157600080fd5b50600c546001600160a01b031661058a565b348015610f1f57600080fd5b5061055d612992565b348015610f3457600080fd5b50610511610f43366004615341565b6129a1565b348015610f5457600080fd5b50610546610f63366004614d83565b6129cf565b348015610f7457600080fd5b50610603610f83366004614dd5565b60236020526000908152604090205481565b348015610fa157600080fd5b50610546610fb0366004614df2565b612ae7565b348015610fc157600080fd5b50610546610fd0366004614dd5565b612b52565b348015610fe157600080fd5b50610546610ff0366004614bec565b612bc3565b600061100082612c0c565b92915050565b61100e612c5f565b60185460ff161561103a5760405162461bcd60e51b81526004016110319061536f565b60405180910390fd5b6110448282612c8c565b6040516001600160601b03821681526001600160a01b038316907fe12d7d5bdb8218a22277dca8f854dd4573a1cea3d3e4808dc567df9eb1c14bf49060200160405180910390a25050565b6060611099612d2f565b905090565b60006110a982612d3e565b506000828152600460205260409020546001600160a01b0316611000565b6110d2828233612d76565b5050565b60008060245460ff1660028111156110f0576110f0615026565b14806111325750600160245460ff16600281111561111057611110615026565b148015611132575061113060008051602061581583398151915233612289565b155b1561115757602454604051633848972160e21b81526110319160ff169060040161503c565b6025544210156111805760255460405163456afd0b60e01b815260040161103191815260200190565b60265415801590611192575060265442115b156111b6576026546040516394bb74a960e01b815260040161103191815260200190565b61109933612d83565b6000805160206157d58339815191526111d781612e0d565b60185460ff16156111fa5760405162461bcd60e51b81526004016110319061536f565b61120383612d3e565b5060008381526019602052604090205460ff16156112375760405163a8e77cd960e01b815260048101849052602401611031565b600083815260176020526040902061124f838261541d565b506040518381527ff8e1a15aba9398e019f0b49df1a4fde98ee17ae345cb5f6b5e2c27f5033e8ce79060200160405180910390a1505050565b6000601454611295612349565b61109991906154f2565b60008060245460ff1660028111156112b9576112b9615026565b14806112fb5750600160245460ff1660028111156112d9576112d9615026565b1480156112fb57506112f960008051602061581583398151915233612289565b155b1561132057602454604051633848972160e21b81526110319160ff169060040161503c565b6025544210156113495760255460405163456afd0b60e01b815260040161103191815260200190565b6026541580159061135b575060265442115b1561137f576026546040516394bb74a960e01b815260040161103191815260200190565b816000036113a05760405163524f409b60e01b815260040160405180910390fd5b6000826021546113b09190615505565b90508034146113db57604051630d35e92160e01b815260048101829052346024820152604401611031565b6113e53384612e17565b6113ef3384612ea5565b91506000805160206157f583398151915282600161140d868361551c565b61141791906154f2565b6040805192835260208301919091520160405180910390a150919050565b6001600160a01b03821661145f57604051633250574960e11b815260006004820152602401611031565b600061146c838333612efe565b9050836001600160a01b0316816001600160a01b0316146114ba576040516364283d7b60e01b81526001600160a01b0380861660048301526024820184905282166044820152606401611031565b50505050565b6000828152600a6020526040812080548291906001600160a01b03811690600160a01b90046001600160601b0316816115145750506009546001600160a01b03811690600160a01b90046001600160601b03165b600061271061152c6001600160601b03841689615505565b6115369190615545565b9295509193505050505b9250929050565b6000828152600d602052604090206001015461156281612e0d565b6114ba8383612f0b565b6001600160a01b03811633146115955760405163334bd91960e11b815260040160405180910390fd5b61159f8282612f40565b505050565b6115ac612c5f565b6115b4612f6d565b565b61159f83838360405180602001604052806000815250612757565b6110d260008233612efe565b6000805160206157d58339815191526115f581612e0d565b60185460ff16156116185760405162461bcd60e51b81526004016110319061536f565b601c5460ff161561163c5760405163a89ac15160e01b815260040160405180910390fd5b601c805460ff191660011790556015611655838261541d565b507f34f25fe82e04b6b4bb3440737372e9d5d8e7a6a2b12da5dc4abead2c0b544ad9826040516116859190614bd9565b60405180910390a1604080516001815260001960208201526000805160206157f583398151915291015b60405180910390a15050565b6116c3612c5f565b6001600160a01b0381166116ea57604051635b03092b60e11b815260040160405180910390fd5b60405147906000906001600160a01b0384169083908381818185875af1925050503d8060008114611737576040519150601f19603f3d011682016040523d82523d6000602084013e61173c565b606091505b505090508061175e576040516327fcd9d160e01b815260040160405180910390fd5b826001600160a01b03167f7084f5476618d8e60b11ef0d7d3f06914655adb8793e28ff7f018d4c76d505d58360405161179991815260200190565b60405180910390a2505050565b6027546000906117c9576040516330e7dab160e21b815260040160405180910390fd5b3360009081526028602052604090205460ff16156117fc5760405163d6c772ff60e01b8152336004820152602401611031565b604080513360208201526000910160408051601f198184030181528282528051602091820120908301520160405160208183030381529060405280519060200120905061184d848460275484612fbf565b61186a5760405163582f497d60e11b815260040160405180910390fd5b336000818152602860205260409020805460ff1916600117905561188d90612d83565b949350505050565b601c5460009060ff16806110995750601b80546118b19061539b565b1592915050565b6000805160206157d58339815191526118d081612e0d565b60185460ff16156118f35760405162461bcd60e51b81526004016110319061536f565b60156118ff838261541d565b50604080516001815260001960208201526000805160206157f583398151915291016116af565b600060255442101580156110995750602654158061109957505060265442111590565b6000805160206157d583398151915261196181612e0d565b60185460ff16156119845760405162461bcd60e51b81526004016110319061536f565b601e80546001600160a01b0319166001600160a01b0384169081179091556040517f482cbbbcf912da3be80deb8503ae1e94c0b7d5d1d0ec0af3d9d6403e06e609ee90600090a2604080516001815260001960208201526000805160206157f583398151915291016116af565b6119f9612c5f565b60185460ff1615611a1c5760405162461bcd60e51b81526004016110319061536f565b611a27838383612fd7565b6040516001600160601b03821681526001600160a01b0383169084907fe361b60b9164428d036a601ec08552e653bfe8c44389b8a4ebfd47281eb8741a906020015b60405180910390a3505050565b600061100082612d3e565b600080611a8c61289d565b9050602254600003611a9e5792915050565b6001600160a01b038316600090815260236020526040812054602254909190821015611ad75781602254611ad291906154f2565b611ada565b60005b9050828110611ae95782611aeb565b805b95945050505050565b600080516020615815833981519152611b0c81612e0d565b838214611b3657604051632851925b60e21b81526004810185905260248101839052604401611031565b6000849003611b585760405163524f409b60e01b815260040160405180910390fd5b60115460005b85811015611bf057848482818110611b7857611b78615559565b90506020020135600003611b9f5760405163524f409b60e01b815260040160405180910390fd5b611be7878783818110611bb457611bb4615559565b9050602002016020810190611bc99190614dd5565b868684818110611bdb57611bdb615559565b90506020020135612ea5565b50600101611b5e565b506000805160206157f5833981519152816001601154611c1091906154f2565b6040805192835260208301919091520160405180910390a1505050505050565b60008360600135421115611c5d576040516307185d5160e01b815260608501356004820152602401611031565b608084013560009081526029602052604090205460ff1615611c9857604051632dbfcda160e01b815260808501356004820152602401611031565b83604001353414611cc85760408051630d35e92160e01b8152908501356004820152346024820152604401611031565b6000611d12611cd686613099565b85858080601f01602080910402602001604051908101604052809392919081815260200183838082843760009201919091525061314e92505050565b9050611d26600b546001600160a01b031690565b6001600160a01b0316816001600160a01b031614158015611d6e5750611d6c7f9089c70e1cc864bea9e548485d837bd067c653ad269b11b56a2b917f24b7eca382612289565b155b15611d9757604051631497dfb360e21b81526001600160a01b0382166004820152602401611031565b60808501356000908152602960209081526040909120805460ff19166001179055611dcf90611dc890870187614dd5565b6001612ea5565b91506000611de0602087018761556f565b90501115611e345760185460ff1615611e0b5760405162461bcd60e51b81526004016110319061536f565b611e18602086018661556f565b600084815260176020526040902091611e329190836155b5565b505b6040518281527ff8e1a15aba9398e019f0b49df1a4fde98ee17ae345cb5f6b5e2c27f5033e8ce79060200160405180910390a1611e746020860186614dd5565b6001600160a01b03168286608001357f34cd4b0d30098edaf14317aa89d9ce2d2a91b309b7d9b0aeb8cfa07aee4da5f260405160405180910390a4509392505050565b611ebf612c5f565b8015801590611ece5750818111155b15611ef65760405163b42d8cef60e01b81526004810183905260248101829052604401611031565b6025829055602681905560408051838152602081018390527f7291acdf619347e3dd338a8b65d1788570a0f1bc413e94e9e7333d0561c6ed5891016116af565b600061100082613178565b611f49612c5f565b6115b460006131c0565b611f5b612c5f565b6024805482919060ff19166001836002811115611f7a57611f7a615026565b02179055507f7fc504f71d58bc2e04f75e1659c8c228d53ae22d3c99326171fd6899d708f84e81604051611fae919061503c565b60405180910390a150565b6060601b8054611fc89061539b565b80601f0160208091040260200160405190810160405280929190818152602001828054611ff49061539b565b80156120415780601f1061201657610100808354040283529160200191612041565b820191906000526020600020905b81548152906001019060200180831161202457829003601f168201915b5050505050905090565b600c5433906001600160a01b031681146120835760405163118cdaa760e01b81526001600160a01b0382166004820152602401611031565b61208c816131c0565b50565b612097612c5f565b60278190556040518181527f90004c04698bc3322499a575ed3752dd4abf33e0a7294c06a787a0fe01bea94190602001611fae565b6120d4612c5f565b6115b46132ad565b606060006120e983611f36565b9050806001600160401b0381111561210357612103614c31565b60405190808252806020026020018201604052801561212c578160200160208202803683370190505b509150600060015b8282108015612144575060115481105b156121a757846001600160a01b031661215c826132ea565b6001600160a01b0316036121955780848361217681615674565b94508151811061218857612188615559565b6020026020010181815250505b8061219f81615674565b915050612134565b505050919050565b6000606080600080600060606121c36132f5565b6121cb613322565b60408051600080825260208201909252600f60f81b9b939a50919850469750309650945092509050565b6121fd612c5f565b60185460ff16156122205760405162461bcd60e51b81526004016110319061536f565b6000818152600a602052604081205560405160008082529082907fe361b60b9164428d036a601ec08552e653bfe8c44389b8a4ebfd47281eb8741a9060200160405180910390a350565b6000828152600e60205260408120612282908361334f565b9392505050565b6000918252600d602090815260408084206001600160a01b0393909316845291905290205460ff1690565b6000805160206157d58339815191526122cc81612e0d565b60185460ff16156122ef5760405162461bcd60e51b81526004016110319061536f565b60166122fb838261541d565b506040517fa5d4097edda6d87cb9329af83fb3712ef77eeb13738ffe43cc35a4ce305ad96290600090a15050565b606061109961335b565b60006110008261129f565b6110d233838361336a565b6000600160115461109991906154f2565b6000818152600e6020526040902060609061100090613401565b61237c612c5f565b60185460ff161561239f5760405162461bcd60e51b81526004016110319061536f565b6123a96000600955565b6040516000808252907fe12d7d5bdb8218a22277dca8f854dd4573a1cea3d3e4808dc567df9eb1c14bf49060200160405180910390a2565b7ff0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a008054600160401b810460ff1615906001600160401b03166000811580156124265750825b90506000826001600160401b031660011480156124425750303b155b905081158015612450575080155b1561246e5760405163f92ee8a960e01b815260040160405180910390fd5b845467ffffffffffffffff19166001178555831561249857845460ff60401b1916600160401b1785555b6001600160a01b038b166124c257604051631e4fbdf760e01b815260006004820152602401611031565b6124cb8b6131c0565b6125638f8f8080601f016020809104026020016040519081016040528093929190818152602001838380828437600081840152601f19601f820116905080830192505050505050508e8e8080601f016020809104026020016040519081016040528093929190818152602001838380828437600081840152601f19601f820116905080830192505050505050508d8d8d8d8d8d61340e565b83156125a957845460ff60401b19168555604051600181527fc7f505b2f371ae2175ee4913f4499e1f2633a7b5936321eed1cdaeb6115181d29060200160405180910390a15b505050505050505050505050505050565b60006125c582612d3e565b5050601e54600160a01b900460ff16919050565b6000805160206157d58339815191526125f181612e0d565b60185460ff16156126145760405162461bcd60e51b81526004016110319061536f565b61261c611895565b6126395760405163847b198f60e01b815260040160405180910390fd5b60008281526019602052604090205460ff161561266c5760405163a8e77cd960e01b815260048101839052602401611031565b6000612677836127c1565b9050805160000361269e57604051636ea1b76f60e11b815260048101849052602401611031565b600083815260176020526040902080546126b79061539b565b905060000361271e57601e546001600160a01b03161561270457601e546000848152601a6020526040902080546001600160a01b0319166001600160a01b0390921691909117905561271e565b600083815260176020526040902061271c828261541d565b505b60008381526019602052604090819020805460ff1916600117905551839060008051602061583583398151915290611799908490614bd9565b612762848484611435565b6114ba3385858585613525565b6000818152601f602090815260408083208151808301909252546001600160a01b0381168252600160a01b90046001600160401b0316918101829052904211156127ba576000612282565b5192915050565b60606110008261364f565b6000818152600e6020526040812061100090613880565b60185460009060ff168061100057505060009081526019602052604090205460ff1690565b6000805160206157d583398151915261282081612e0d565b60185460ff16156128435760405162461bcd60e51b81526004016110319061536f565b6018805460ff191660019081179091556040805191825260001960208301526000805160206157f58339815191529101611fae565b6000828152600d602052604090206001015461289381612e0d565b6114ba8383612f40565b60006128a7612349565b60205461109991906154f2565b6128c76128c0846132ea565b338561388a565b6040805180820182526001600160a01b038481168083526001600160401b03858116602080860182815260008b8152601f835288902096518754915196166001600160e01b031990911617600160a01b959093169490940291909117909355925191825285917f4e06b4e7000e659094299b3533b47b6aa8ad048e95e872d23d1f4ee55af89cfe9101611a69565b61295d612c5f565b60228190556040518181527f97e4f91a4b7e108aff6d29a03d7b9f94705ad90ed51b377784a1943ea32257e790602001611fae565b606060168054611fc89061539b565b6001600160a01b03918216600090815260056020908152604080832093909416825291909152205460ff1690565b6000805160206157d58339815191526129e781612e0d565b60185460ff16612a0a57604051630dc799dd60e31b815260040160405180910390fd5b821580612a1657508282105b15612a3d576040516273750960e01b81526004810184905260248101839052604401611031565b60006011548310612a5c576001601154612a5791906154f2565b612a5e565b825b9050835b818111612ae0576000612a74826132ea565b6001600160a01b031614158015612a9a575060008181526019602052604090205460ff16155b15612ace5780600080516020615835833981519152612ab8836127c1565b604051612ac59190614bd9565b60405180910390a25b80612ad881615674565b915050612a62565b5050505050565b6000805160206157d5833981519152612aff81612e0d565b60185460ff1615612b225760405162461bcd60e51b81526004016110319061536f565b601c5460ff1615612b465760405163a89ac15160e01b815260040160405180910390fd5b601b6118ff838261541d565b612b5a612c5f565b600c80546001600160a01b0383166001600160a01b03199091168117909155612b8b600b546001600160a01b031690565b6001600160a01b03167f38d16b8cac22d99fc7c124b9cd0de2d3fa1faef420bfe791d8c362d765e2270060405160405180910390a350565b612bcb612c5f565b60215460408051918252602082018390527f2e1c9e000c6e8dda4d03536adb13b7cb6034ccff90d17f01de381e4d5097b525910160405180910390a1602155565b60006001600160e01b031982161580612c3557506001600160e01b03198216632b424ad760e21b145b80612c5057506001600160e01b03198216635a2d1e0760e11b145b806110005750611000826138ee565b600b546001600160a01b031633146115b45760405163118cdaa760e01b8152336004820152602401611031565b6127106001600160601b038216811015612ccb57604051636f483d0960e01b81526001600160601b038316600482015260248101829052604401611031565b6001600160a01b038316612cf557604051635b6cc80560e11b815260006004820152602401611031565b50604080518082019091526001600160a01b039092168083526001600160601b039091166020909201829052600160a01b90910217600955565b606060128054611fc89061539b565b600080612d4a836132ea565b90506001600160a01b03811661100057604051637e27328960e01b815260048101849052602401611031565b61159f8383836001613913565b60006021543414612db457602154604051630d35e92160e01b81526004810191909152346024820152604401611031565b612dbf826001612e17565b6000612dcc836001612ea5565b90507ff8e1a15aba9398e019f0b49df1a4fde98ee17ae345cb5f6b5e2c27f5033e8ce781604051612dff91815260200190565b60405180910390a192915050565b61208c8133613a19565b6001600160a01b038216600090815260236020526040812054612e3b90839061551c565b9050602254600014158015612e51575060225481115b15612e855760225460405163500d620560e01b81526001600160a01b03851660048201526024810191909152604401611031565b6001600160a01b0390921660009081526023602052604090209190915550565b6011546020546001612eb7848461551c565b612ec191906154f2565b1115612ee65760205460405163f9f8491560e01b815260040161103191815260200190565b612ef0828261551c565b601155611000838284613a52565b600061188d848484613a65565b600080612f188484613bec565b90508015612282576000848152600e60205260409020612f389084613c80565b509392505050565b600080612f4d8484613c95565b90508015612282576000848152600e60205260409020612f389084613d02565b612f75613d17565b6008805460ff191690557f5db9ee0a495bf2e6ff9c91a7834c1ba4fdd244a5e8aa4e537bd38aeae4b073aa335b6040516001600160a01b03909116815260200160405180910390a1565b600082612fcd868685613d3a565b1495945050505050565b6127106001600160601b03821681101561301d5760405163dfd1fc1b60e01b8152600481018590526001600160601b038316602482015260448101829052606401611031565b6001600160a01b03831661304e57604051634b4f842960e11b81526004810185905260006024820152604401611031565b506040805180820182526001600160a01b0393841681526001600160601b0392831660208083019182526000968752600a90529190942093519051909116600160a01b029116179055565b60006110007f54c4fa55144b7da0d1bae0e2c4e33bc86ab5872e30dc15a77121bf2b0224e9c96130cc6020850185614dd5565b6130d9602086018661556f565b6040516130e792919061568d565b6040805191829003822060208301949094526001600160a01b0390921681830152606080820193909352908501356080808301919091529185013560a08201529084013560c082015260e00160405160208183030381529060405280519060200120613d7c565b60008060008061315e8686613da9565b92509250925061316e8282613df6565b5090949350505050565b60006001600160a01b0382166131a4576040516322718ad960e21b815260006004820152602401611031565b506001600160a01b031660009081526007602052604090205490565b60006131d4600b546001600160a01b031690565b90506131df82613eaf565b6001600160a01b03811615806132065750816001600160a01b0316816001600160a01b0316145b1561320f575050565b60408051606081018252600080825260008051602061581583398151915260208301526000805160206157d583398151915292820192909252905b60038110156114ba5761327382826003811061326857613268615559565b602002015184612f40565b506001600160a01b038416156132a5576132a382826003811061329857613298615559565b602002015185612f0b565b505b60010161324a565b6132b5613ec8565b6008805460ff191660011790557f62e78cea01bee320cd4e420270b5ea74000d11b0c9f74754ebdbfc544b05a258612fa23390565b600061100082613eec565b60606110997f0000000000000000000000000000000000000000000000000000000000000000600f613f61565b60606110997f00000000000000000000000000000000000000000000000000000000000000006010613f61565b6000612282838361400c565b606060138054611fc89061539b565b6001600160a01b03821661339c57604051630b61174360e31b81526001600160a01b0383166004820152602401611031565b6001600160a01b03838116600081815260056020908152604080832094871680845294825291829020805460ff191686151590811790915591519182527f17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c319101611a69565b6060600061228283614036565b8460000361342f5760405163066f305360e21b815260040160405180910390fd5b601261343b898261541d565b506013613448888261541d565b506020859055601d829055601e805460ff60a01b1916600160a01b8315150217905560016011556024805460ff19166002179055613487600087612f0b565b506134a060008051602061581583398151915287612f0b565b506134b96000805160206157d583398151915287612f0b565b506001600160601b0383161561351b576134d38484612c8c565b6040516001600160601b03841681526001600160a01b038516907fe12d7d5bdb8218a22277dca8f854dd4573a1cea3d3e4808dc567df9eb1c14bf49060200160405180910390a25b5050505050505050565b6001600160a01b0383163b15612ae057604051630a85bd0160e11b81526001600160a01b0384169063150b7a029061356790889088908790879060040161569d565b6020604051808303816000875af19250505080156135a2575060408051601f3d908101601f1916820190925261359f918101906156da565b60015b61360b573d8080156135d0576040519150601f19603f3d011682016040523d82523d6000602084013e6135d5565b606091505b50805160000361360357604051633250574960e11b81526001600160a01b0385166004820152602401611031565b805181602001fd5b6001600160e01b03198116630a85bd0160e11b1461364757604051633250574960e11b81526001600160a01b0385166004820152602401611031565b505050505050565b606061365a82612d3e565b5060008281526019602052604090205460ff1680158015613680575061367e611895565b155b1561371857601b80546136929061539b565b80601f01602080910402602001604051908101604052809291908181526020018280546136be9061539b565b801561370b5780601f106136e05761010080835404028352916020019161370b565b820191906000526020600020905b8154815290600101906020018083116136ee57829003601f168201915b5050505050915050919050565b600083815260176020526040812080546137319061539b565b80601f016020809104026020016040519081016040528092919081815260200182805461375d9061539b565b80156137aa5780601f1061377f576101008083540402835291602001916137aa565b820191906000526020600020905b81548152906001019060200180831161378d57829003601f168201915b505050505090506000815111156137c2579392505050565b6000826137da57601e546001600160a01b03166137f3565b6000858152601a60205260409020546001600160a01b03165b90506001600160a01b038116156138775760405163e9dc637560e01b8152306004820152602481018690526001600160a01b0382169063e9dc637590604401600060405180830381865afa15801561384f573d6000803e3d6000fd5b505050506040513d6000823e601f3d908101601f19168201604052611aeb91908101906156f7565b611aeb85614092565b6000611000825490565b6138958383836140f9565b61159f576001600160a01b0383166138c357604051637e27328960e01b815260048101829052602401611031565b60405163177e802f60e01b81526001600160a01b038316600482015260248101829052604401611031565b60006001600160e01b03198216635a05180f60e01b148061100057506110008261415c565b808061392757506001600160a01b03821615155b156139e957600061393784612d3e565b90506001600160a01b038316158015906139635750826001600160a01b0316816001600160a01b031614155b8015613976575061397481846129a1565b155b1561399f5760405163a9fbf51f60e01b81526001600160a01b0384166004820152602401611031565b81156139e75783856001600160a01b0316826001600160a01b03167f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b92560405160405180910390a45b505b5050600090815260046020526040902080546001600160a01b0319166001600160a01b0392909216919091179055565b613a238282612289565b6110d25760405163e2517d3f60e01b81526001600160a01b038216600482015260248101839052604401611031565b613a5a613ec8565b61159f838383614181565b600080613a738585856141d5565b9050846001600160a01b0316816001600160a01b031614158015613aad57506000848152601f60205260409020546001600160a01b031615155b15613b03576000848152601f6020908152604080832080546001600160e01b03191690555182815286917f4e06b4e7000e659094299b3533b47b6aa8ad048e95e872d23d1f4ee55af89cfe910160405180910390a35b6001600160a01b038516613b2b5760148054906000613b2183615674565b919050555061188d565b6001600160a01b038116613bbe57601e54600160a01b900460ff1615613b7f576040518481527f032bc66be43dbccb7487781d168eb7bda224628a3b2c3388bdf69b532a3a16119060200160405180910390a15b60185460ff1615613bb95783600080516020615835833981519152613ba3866127c1565b604051613bb09190614bd9565b60405180910390a25b61188d565b601e54600160a01b900460ff161561188d5760405163461dd51f60e11b815260048101859052602401611031565b6000613bf88383612289565b613c78576000838152600d602090815260408083206001600160a01b03861684529091529020805460ff19166001179055613c303390565b6001600160a01b0316826001600160a01b0316847f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d60405160405180910390a4506001611000565b506000611000565b6000612282836001600160a01b0384166141ea565b6000613ca18383612289565b15613c78576000838152600d602090815260408083206001600160a01b0386168085529252808320805460ff1916905551339286917ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b9190a4506001611000565b6000612282836001600160a01b038416614231565b60085460ff166115b457604051638dfc202b60e01b815260040160405180910390fd5b600081815b84811015613d7357613d6982878784818110613d5d57613d5d615559565b90506020020135614324565b9150600101613d3f565b50949350505050565b6000611000613d89614353565b8360405161190160f01b8152600281019290925260228201526042902090565b60008060008351604103613de35760208401516040850151606086015160001a613dd58882858561447e565b955095509550505050613def565b50508151600091506002905b9250925092565b6000826003811115613e0a57613e0a615026565b03613e13575050565b6001826003811115613e2757613e27615026565b03613e455760405163f645eedf60e01b815260040160405180910390fd5b6002826003811115613e5957613e59615026565b03613e7a5760405163fce698f760e01b815260048101829052602401611031565b6003826003811115613e8e57613e8e615026565b036110d2576040516335e2f38360e21b815260048101829052602401611031565b600c80546001600160a01b031916905561208c8161454d565b60085460ff16156115b45760405163d93c066560e01b815260040160405180910390fd5b6000811580613f025750613efe61459f565b8210155b15613f0f57506000919050565b600082815260066020526040902054600160a01b811615613f335750600092915050565b806000036110005760066000613f4885615764565b9450848152602001908152602001600020549050613f33565b606060ff8314613f7b57613f74836145b4565b9050611000565b818054613f879061539b565b80601f0160208091040260200160405190810160405280929190818152602001828054613fb39061539b565b80156140005780601f10613fd557610100808354040283529160200191614000565b820191906000526020600020905b815481529060010190602001808311613fe357829003601f168201915b50505050509050611000565b600082600001828154811061402357614023615559565b9060005260206000200154905092915050565b60608160000180548060200260200160405190810160405280929190818152602001828054801561408657602002820191906000526020600020905b815481526020019060010190808311614072575b50505050509050919050565b606061409d82612d3e565b5060006140a86145f3565b905060008151116140c85760405180602001604052806000815250612282565b806140d2846145fd565b6040516020016140e392919061577b565b6040516020818303038152906040529392505050565b60006001600160a01b0383161580159061188d5750826001600160a01b0316846001600160a01b03161480614133575061413384846129a1565b8061188d5750506000908152600460205260409020546001600160a01b03908116911614919050565b60006001600160e01b03198216637965db0b60e01b148061100057506110008261468f565b61418c8383836146b4565b6001600160a01b0383163b1561159f5760005b818110156114ba576141cd336000866141b8858861551c565b60405180602001604052806000815250613525565b60010161419f565b60006141df613ec8565b61188d848484614765565b6000818152600183016020526040812054613c7857508154600181810184556000848152602080822090930184905584548482528286019093526040902091909155611000565b6000818152600183016020526040812054801561431a5760006142556001836154f2565b8554909150600090614269906001906154f2565b90508082146142ce57600086600001828154811061428957614289615559565b90600052602060002001549050808760000184815481106142ac576142ac615559565b6000918252602080832090910192909255918252600188019052604090208390555b85548690806142df576142df6157aa565b600190038181906000526020600020016000905590558560010160008681526020019081526020016000206000905560019350505050611000565b6000915050611000565b6000818310614340576000828152602084905260409020612282565b6000838152602083905260409020612282565b6000306001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000161480156143ac57507f000000000000000000000000000000000000000000000000000000000000000046145b156143d657507f000000000000000000000000000000000000000000000000000000000000000090565b611099604080517f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f60208201527f0000000000000000000000000000000000000000000000000000000000000000918101919091527f000000000000000000000000000000000000000000000000000000000000000060608201524660808201523060a082015260009060c00160405160208183030381529060405280519060200120905090565b600080807f7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a08411156144b95750600091506003905082614543565b604080516000808252602082018084528a905260ff891692820192909252606081018790526080810186905260019060a0016020604051602081039080840390855afa15801561450d573d6000803e3d6000fd5b5050604051601f1901519150506001600160a01b03811661453957506000925060019150829050614543565b9250600091508190505b9450945094915050565b600b80546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e090600090a35050565b60006145a9612349565b61109990600161551c565b606060006145c1836148bc565b604080516020808252818301909252919250600091906020820181803683375050509182525060208101929092525090565b60606110996148e4565b6060600061460a836148f3565b60010190506000816001600160401b0381111561462957614629614c31565b6040519080825280601f01601f191660200182016040528015614653576020820181803683370190505b5090508181016020015b600019016f181899199a1a9b1b9c1cb0b131b232b360811b600a86061a8153600a850494508461465d57509392505050565b60006001600160e01b0319821663152a902d60e11b14806110005750611000826149cb565b6146bf838383614a1b565b60006146cd60185460ff1690565b9050825b6146db838561551c565b811015612ae057601e54600160a01b900460ff1615614728576040518181527f032bc66be43dbccb7487781d168eb7bda224628a3b2c3388bdf69b532a3a16119060200160405180910390a15b811561475d5780600080516020615835833981519152614747836127c1565b6040516147549190614bd9565b60405180910390a25b6001016146d1565b600080614771846132ea565b90506001600160a01b0383161561478d5761478d81848661388a565b6001600160a01b0381161561481c576147aa600085600080613913565b6001600160a01b038116600090815260076020526040812080546000190190556147d585600161551c565b6000818152600660205260409020549091501580156147fa57506147f761459f565b81105b1561481a5760008181526006602052604090206001600160a01b03831690555b505b6001600160a01b0385161561485d576001600160a01b0385166000818152600760209081526040808320805460010190558783526006909152902055614873565b6000848152600660205260409020600160a01b90555b83856001600160a01b0316826001600160a01b03167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef60405160405180910390a4949350505050565b600060ff8216601f81111561100057604051632cd44ac360e21b815260040160405180910390fd5b606060158054611fc89061539b565b60008072184f03e93ff9f4daa797ed6e38ed64bf6a1f0160401b83106149325772184f03e93ff9f4daa797ed6e38ed64bf6a1f0160401b830492506040015b6d04ee2d6d415b85acef8100000000831061495e576d04ee2d6d415b85acef8100000000830492506020015b662386f26fc10000831061497c57662386f26fc10000830492506010015b6305f5e1008310614994576305f5e100830492506008015b61271083106149a857612710830492506004015b606483106149ba576064830492506002015b600a83106110005760010192915050565b60006001600160e01b031982166380ac58cd60e01b14806149fc57506001600160e01b03198216635b5e139f60e01b145b8061100057506301ffc9a760e01b6001600160e01b0319831614611000565b6001600160a01b038316614a4557604051633250574960e11b815260006004820152602401611031565b6001600160a01b03831660009081526007602052604081208054830190555b818110156114ba57614a776008826157c0565b600003614aa8576001600160a01b03841660066000614a96848761551c565b81526020810191909152604001600020555b614ab2818461551c565b6040516001600160a01b038616906000907fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef908290a4600101614a64565b6001600160e01b03198116811461208c57600080fd5b600060208284031215614b1857600080fd5b813561228281614af0565b6001600160a01b038116811461208c57600080fd5b80356001600160601b0381168114614b4f57600080fd5b919050565b60008060408385031215614b6757600080fd5b8235614b7281614b23565b9150614b8060208401614b38565b90509250929050565b60005b83811015614ba4578181015183820152602001614b8c565b50506000910152565b60008151808452614bc5816020860160208601614b89565b601f01601f19169290920160200192915050565b6020815260006122826020830184614bad565b600060208284031215614bfe57600080fd5b5035919050565b60008060408385031215614c1857600080fd5b8235614c2381614b23565b946020939093013593505050565b634e487b7160e01b600052604160045260246000fd5b604051601f8201601f191681016001600160401b0381118282101715614c6f57614c6f614c31565b604052919050565b60006001600160401b03821115614c9057614c90614c31565b50601f01601f191660200190565b6000614cb1614cac84614c77565b614c47565b9050828152838383011115614cc557600080fd5b828260208301376000602084830101529392505050565b600082601f830112614ced57600080fd5b61228283833560208501614c9e565b60008060408385031215614d0f57600080fd5b8235915060208301356001600160401b03811115614d2c57600080fd5b614d3885828601614cdc565b9150509250929050565b600080600060608486031215614d5757600080fd5b8335614d6281614b23565b92506020840135614d7281614b23565b929592945050506040919091013590565b60008060408385031215614d9657600080fd5b50508035926020909101359150565b60008060408385031215614db857600080fd5b823591506020830135614dca81614b23565b809150509250929050565b600060208284031215614de757600080fd5b813561228281614b23565b600060208284031215614e0457600080fd5b81356001600160401b03811115614e1a57600080fd5b61188d84828501614cdc565b60008083601f840112614e3857600080fd5b5081356001600160401b03811115614e4f57600080fd5b6020830191508360208260051b850101111561154057600080fd5b60008060208385031215614e7d57600080fd5b82356001600160401b03811115614e9357600080fd5b614e9f85828601614e26565b90969095509350505050565b600080600060608486031215614ec057600080fd5b833592506020840135614ed281614b23565b9150614ee060408501614b38565b90509250925092565b60008060008060408587031215614eff57600080fd5b84356001600160401b0380821115614f1657600080fd5b614f2288838901614e26565b90965094506020870135915080821115614f3b57600080fd5b50614f4887828801614e26565b95989497509550505050565b60008083601f840112614f6657600080fd5b5081356001600160401b03811115614f7d57600080fd5b60208301915083602082850101111561154057600080fd5b600080600060408486031215614faa57600080fd5b83356001600160401b0380821115614fc157600080fd5b9085019060a08288031215614fd557600080fd5b90935060208501359080821115614feb57600080fd5b50614ff886828701614f54565b9497909650939450505050565b60006020828403121561501757600080fd5b81356003811061228257600080fd5b634e487b7160e01b600052602160045260246000fd5b602081016003831061505e57634e487b7160e01b600052602160045260246000fd5b91905290565b60008151808452602080850194506020840160005b8381101561509557815187529582019590820190600101615079565b509495945050505050565b6020815260006122826020830184615064565b60ff60f81b8816815260e0602082015260006150d260e0830189614bad565b82810360408401526150e48189614bad565b606084018890526001600160a01b038716608085015260a0840186905283810360c085015290506151158185615064565b9a9950505050505050505050565b80358015158114614b4f57600080fd5b6000806040838503121561514657600080fd5b823561515181614b23565b9150614b8060208401615123565b6020808252825182820181905260009190848201906040850190845b818110156151a05783516001600160a01b03168352928401929184019160010161517b565b50909695505050505050565b6000806000806000806000806000806101008b8d0312156151cc57600080fd5b8a356001600160401b03808211156151e357600080fd5b6151ef8e838f01614f54565b909c509a5060208d013591508082111561520857600080fd5b506152158d828e01614f54565b90995097505060408b013561522981614b23565b955060608b0135945060808b013561524081614b23565b935061524e60a08c01614b38565b925060c08b0135915061526360e08c01615123565b90509295989b9194979a5092959850565b6000806000806080858703121561528a57600080fd5b843561529581614b23565b935060208501356152a581614b23565b92506040850135915060608501356001600160401b038111156152c757600080fd5b8501601f810187136152d857600080fd5b6152e787823560208401614c9e565b91505092959194509250565b60008060006060848603121561530857600080fd5b83359250602084013561531a81614b23565b915060408401356001600160401b038116811461533657600080fd5b809150509250925092565b6000806040838503121561535457600080fd5b823561535f81614b23565b91506020830135614dca81614b23565b60208082526012908201527126b2ba30b230ba309034b990333937bd32b760711b604082015260600190565b600181811c908216806153af57607f821691505b6020821081036153cf57634e487b7160e01b600052602260045260246000fd5b50919050565b601f82111561159f576000816000526020600020601f850160051c810160208610156153fe5750805b601f850160051c820191505b818110156136475782815560010161540a565b81516001600160401b0381111561543657615436614c31565b61544a81615444845461539b565b846153d5565b602080601f83116001811461547f57600084156154675750858301515b600019600386901b1c1916600185901b178555613647565b600085815260208120601f198616915b828110156154ae5788860151825594840194600190910190840161548f565b50858210156154cc5787850151600019600388901b60f8161c191681555b5050505050600190811b01905550565b634e487b7160e01b600052601160045260246000fd5b81810381811115611000576110006154dc565b8082028115828204841417611000576110006154dc565b80820180821115611000576110006154dc565b634e487b7160e01b600052601260045260246000fd5b6000826155545761555461552f565b500490565b634e487b7160e01b600052603260045260246000fd5b6000808335601e1984360301811261558657600080fd5b8301803591506001600160401b038211156155a057600080fd5b60200191503681900382131561154057600080fd5b6001600160401b038311156155cc576155cc614c31565b6155e0836155da835461539b565b836153d5565b6000601f84116001811461561457600085156155fc5750838201355b600019600387901b1c1916600186901b178355612ae0565b600083815260209020601f19861690835b828110156156455786850135825560209485019460019092019101615625565b50868210156156625760001960f88860031b161c19848701351681555b505060018560011b0183555050505050565b600060018201615686576156866154dc565b5060010190565b8183823760009101908152919050565b6001600160a01b03858116825284166020820152604081018390526080606082018190526000906156d090830184614bad565b9695505050505050565b6000602082840312156156ec57600080fd5b815161228281614af0565b60006020828403121561570957600080fd5b81516001600160401b0381111561571f57600080fd5b8201601f8101841361573057600080fd5b805161573e614cac82614c77565b81815285602083850101111561575357600080fd5b611aeb826020830160208601614b89565b600081615773576157736154dc565b506000190190565b6000835161578d818460208801614b89565b8351908301906157a1818360208801614b89565b01949350505050565b634e487b7160e01b600052603160045260246000fd5b6000826157cf576157cf61552f565b50069056fe6bd6b5318a46e5fff572d5e4258a20774aab40cc35ac7680654b9081fcc82f806bd5c950a8d8df17f772f5af37cb3655737899cbf903264b9795592da439661c9f2df0fed2c77648de5860a4cc508cd0818c85b8b8a1ab4ceeef8d981c8956a6a109ba539900bf1b633f956d63c96fc89b814c7287f7aa50a9216d0b55657207a2646970667358221220ff50bf6c0ca9b070e2ea1df2727c3052d37d69eeddaf3e9729fa49716f700c8864736f6c634300081600336bd6b5318a46e5fff572d5e4258a20774aab40cc35ac7680654b9081fcc82f809f2df0fed2c77648de5860a4cc508cd0818c85b8b8a1ab4ceeef8d981c8956a6";
+
+type SimpleNFTPackedConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: SimpleNFTPackedConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class SimpleNFTPacked__factory extends ContractFactory {
+  constructor(...args: SimpleNFTPackedConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    name_: string,
+    symbol_: string,
+    initialOwner: AddressLike,
+    maxSupply_: BigNumberish,
+    royaltyReceiver: AddressLike,
+    royaltyFeeNumerator: BigNumberish,
+    provenanceHash_: BytesLike,
+    soulbound_: boolean,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(
+      name_,
+      symbol_,
+      initialOwner,
+      maxSupply_,
+      royaltyReceiver,
+      royaltyFeeNumerator,
+      provenanceHash_,
+      soulbound_,
+      overrides || {}
+    );
+  }
+  override deploy(
+    name_: string,
+    symbol_: string,
+    initialOwner: AddressLike,
+    maxSupply_: BigNumberish,
+    royaltyReceiver: AddressLike,
+    royaltyFeeNumerator: BigNumberish,
+    provenanceHash_: BytesLike,
+    soulbound_: boolean,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(
+      name_,
+      symbol_,
+      initialOwner,
+      maxSupply_,
+      royaltyReceiver,
+      royaltyFeeNumerator,
+      provenanceHash_,
+      soulbound_,
+      overrides || {}
+    ) as Promise<
+      SimpleNFTPacked & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): SimpleNFTPacked__factory {
+    return super.connect(runner) as SimpleNFTPacked__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): SimpleNFTPackedInterface {
+    return new Interface(_abi) as SimpleNFTPackedInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): SimpleNFTPacked {
+    return new Contract(address, _abi, runner) as unknown as SimpleNFTPacked;
+  }
+}
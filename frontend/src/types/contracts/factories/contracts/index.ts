@@ -1,4 +1,12 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export * as interfaces from "./interfaces";
+export * as mocks from "./mocks";
+export * as token from "./token";
 export { SimpleNFT__factory } from "./SimpleNFT__factory";
+export { SimpleNFTEditions__factory } from "./SimpleNFTEditions__factory";
+export { SimpleNFTFactory__factory } from "./SimpleNFTFactory__factory";
+export { SimpleNFTPacked__factory } from "./SimpleNFTPacked__factory";
+export { SimpleNFTRenderer__factory } from "./SimpleNFTRenderer__factory";
+export { SimpleNFTUpgradeable__factory } from "./SimpleNFTUpgradeable__factory";
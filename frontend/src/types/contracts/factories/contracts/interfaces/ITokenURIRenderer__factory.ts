@@ -0,0 +1,49 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type {
+  ITokenURIRenderer,
+  ITokenURIRendererInterface,
+} from "../../../contracts/interfaces/ITokenURIRenderer";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "collection",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "tokenURI",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+export class ITokenURIRenderer__factory {
+  static readonly abi = _abi;
+  static createInterface(): ITokenURIRendererInterface {
+    return new Interface(_abi) as ITokenURIRendererInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ITokenURIRenderer {
+    return new Contract(address, _abi, runner) as unknown as ITokenURIRenderer;
+  }
+}